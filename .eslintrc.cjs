@@ -15,4 +15,11 @@ module.exports = {
       { allowConstantExport: true },
     ],
   },
+  overrides: [
+    {
+      // local mock ledger server runs under node, not in the browser
+      files: ['server/**/*.ts'],
+      env: { browser: false, node: true },
+    },
+  ],
 }
@@ -0,0 +1,206 @@
+// @vitest-environment node
+/*
+ * unit test for the ledger server request handling testing:
+ * - cursor and limit query parsing
+ * - offset pages and the cursor feed over HTTP
+ * - 400 answers for malformed offsets, cursors and limits
+ * - backlog replay and live batches on the SSE and WebSocket channels
+ * - injected server errors and dropped connections
+ **/
+
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import {
+  createLedgerServer,
+  DEFAULT_PAGE_LIMIT,
+  LedgerServer,
+  MAX_PAGE_LIMIT,
+  parseCursor,
+  parseLimit,
+} from '../createLedgerServer';
+import { createLedgerStore, LedgerStore } from '../ledgerStore';
+import { FaultOptions, NO_FAULTS } from '../faults';
+import type {
+  TransactionFeedResponse,
+  TransactionPageResponse,
+  TransactionPushMessage,
+} from '../../src/types/transactionSource';
+
+describe('createLedgerServer', () => {
+  let ledger: LedgerServer | undefined;
+  let store: LedgerStore;
+  let baseUrl: string;
+
+  // helper to start a server over a fresh seeded ledger on a free port
+  const start = async (faults: FaultOptions = NO_FAULTS) => {
+    store = createLedgerStore({ initialSize: 12, seed: 3 });
+    ledger = createLedgerServer({ store, faults });
+    const { server } = ledger;
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  };
+
+  // helper to fetch a JSON endpoint with its status
+  const get = async <T>(path: string) => {
+    const response = await fetch(`${baseUrl}${path}`);
+    return { status: response.status, body: (await response.json()) as T };
+  };
+
+  // shut the server down along with any open push connections
+  afterEach(async () => {
+    if (!ledger) return;
+    const { server, webSocketServer } = ledger;
+    webSocketServer.clients.forEach(client => client.terminate());
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    ledger = undefined;
+  });
+
+  // verifies that missing values fall back, large ones clamp and malformed ones are rejected
+  it('parses cursors and limits', () => {
+    expect(parseCursor(null, 12)).toBe(12);
+    expect(parseCursor('', 12)).toBe(12);
+    expect(parseCursor('5', 12)).toBe(5);
+    expect(parseCursor('40', 12)).toBe(12);
+    for (const value of ['-1', '2.5', 'abc', 'Infinity']) {
+      expect(parseCursor(value, 12)).toBeNull();
+    }
+
+    expect(parseLimit(null)).toBe(DEFAULT_PAGE_LIMIT);
+    expect(parseLimit('20')).toBe(20);
+    expect(parseLimit('999999')).toBe(MAX_PAGE_LIMIT);
+    for (const value of ['0', '-3', '1.5', 'ten']) {
+      expect(parseLimit(value)).toBeNull();
+    }
+  });
+
+  // verifies that offset pages walk the ledger and hand out the feed cursor
+  it('serves offset pages', async () => {
+    await start();
+
+    const first = await get<TransactionPageResponse>(
+      '/transactions?offset=0&limit=5'
+    );
+    expect(first.status).toBe(200);
+    expect(first.body.transactions.map(t => t.id)).toEqual(
+      store.page(0, 5).map(t => t.id)
+    );
+    expect(first.body.nextOffset).toBe(5);
+
+    const last = await get<TransactionPageResponse>(
+      '/transactions?offset=10&limit=5'
+    );
+    expect(last.body.transactions).toHaveLength(2);
+    expect(last.body.nextOffset).toBeNull();
+    expect(last.body.cursor).toBe('12');
+  });
+
+  // verifies that the feed returns what was appended after the cursor
+  it('serves the feed after a cursor', async () => {
+    await start();
+
+    const empty = await get<TransactionFeedResponse>('/transactions/feed');
+    expect(empty.body).toEqual({ transactions: [], cursor: '12' });
+
+    const batch = store.append(4);
+    const feed = await get<TransactionFeedResponse>(
+      '/transactions/feed?cursor=12&limit=3'
+    );
+    expect(feed.body.transactions.map(t => t.id)).toEqual(
+      batch.slice(0, 3).map(t => t.id)
+    );
+    expect(feed.body.cursor).toBe('15');
+  });
+
+  // verifies that malformed paging parameters are answered with a 400
+  it('rejects malformed paging parameters', async () => {
+    await start();
+
+    for (const path of [
+      '/transactions?offset=-1',
+      '/transactions?limit=0',
+      '/transactions/feed?cursor=abc',
+      '/transactions/feed?limit=2.5',
+      '/events?cursor=-4',
+    ]) {
+      const { status, body } = await get<{ error: string }>(path);
+      expect(status).toBe(400);
+      expect(body.error).toMatch(/^Invalid (offset|cursor|limit)$/);
+    }
+  });
+
+  // verifies that SSE clients get the backlog after their cursor, then live batches
+  it('pushes batches over server-sent events', async () => {
+    await start();
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/events?cursor=10`, {
+      signal: controller.signal,
+    });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    // reads the next event off the stream
+    const nextMessage = async () => {
+      const { value } = await reader.read();
+      const data = decoder.decode(value).replace(/^data: /, '');
+      return JSON.parse(data) as TransactionPushMessage;
+    };
+
+    const backlog = await nextMessage();
+    expect(backlog.transactions).toHaveLength(2);
+    expect(backlog.cursor).toBe('12');
+
+    store.append(3);
+    const live = await nextMessage();
+    expect(live.transactions).toHaveLength(3);
+    expect(live.cursor).toBe('15');
+    controller.abort();
+  });
+
+  // verifies that WebSocket clients get the backlog and live batches, and bad cursors are refused
+  it('pushes batches over the WebSocket channel', async () => {
+    await start();
+    const wsUrl = baseUrl.replace('http', 'ws');
+
+    const socket = new WebSocket(`${wsUrl}/stream?cursor=11`);
+    // resolves with the next message the socket receives
+    const nextMessage = () =>
+      new Promise<TransactionPushMessage>(resolve =>
+        socket.once('message', data => resolve(JSON.parse(String(data))))
+      );
+
+    const backlog = await nextMessage();
+    expect(backlog.transactions).toHaveLength(1);
+    expect(backlog.cursor).toBe('12');
+
+    const live = nextMessage();
+    store.append(2);
+    expect((await live).transactions).toHaveLength(2);
+    expect((await live).cursor).toBe('14');
+    socket.close();
+
+    const refused = new WebSocket(`${wsUrl}/stream?cursor=x`);
+    const status = await new Promise(resolve =>
+      refused.once('unexpected-response', (_, response) =>
+        resolve(response.statusCode)
+      )
+    );
+    expect(status).toBe(400);
+  });
+
+  // verifies that an injected error answers the request with a 500
+  it('injects server errors', async () => {
+    await start({ latencyMs: 0, errorRate: 1, dropRate: 0 });
+
+    const { status, body } = await get<{ error: string }>('/health');
+    expect(status).toBe(500);
+    expect(body.error).toBe('Injected server error');
+  });
+
+  // verifies that an injected drop cuts the connection without an answer
+  it('drops connections', async () => {
+    await start({ latencyMs: 0, errorRate: 0, dropRate: 1 });
+
+    await expect(fetch(`${baseUrl}/health`)).rejects.toThrow();
+  });
+});
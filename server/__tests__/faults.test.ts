@@ -0,0 +1,81 @@
+/*
+ * unit test for the ledger server fault injection testing:
+ * - fault presets detected as enabled or not
+ * - random latency added before requests are handled
+ * - untouched requests when no fault is rolled
+ **/
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import wait from '../../src/helpers/wait';
+import {
+  applyRequestFaults,
+  DEFAULT_FAULTS,
+  hasFaults,
+  NO_FAULTS,
+  shouldDropConnection,
+} from '../faults';
+
+// mock wait helper so injected latency resolves immediately
+vi.mock('../../src/helpers/wait', () => ({
+  __esModule: true,
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+// minimal request and response stand-ins that record what the faults did
+const createExchange = () => {
+  const destroy = vi.fn();
+  const request = { socket: { destroy } } as unknown as IncomingMessage;
+  const response = {
+    writeHead: vi.fn(),
+    end: vi.fn(),
+  } as unknown as ServerResponse;
+  return { request, response, destroy };
+};
+
+describe('faults', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // verifies that only configured faults count as enabled
+  it('detects configured faults', () => {
+    expect(hasFaults(NO_FAULTS)).toBe(false);
+    expect(hasFaults(DEFAULT_FAULTS)).toBe(true);
+    expect(hasFaults({ ...NO_FAULTS, dropRate: 0.1 })).toBe(true);
+    expect(shouldDropConnection(NO_FAULTS)).toBe(false);
+  });
+
+  // verifies that latency is drawn up to the configured bound before handling
+  it('adds random latency', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const { request, response, destroy } = createExchange();
+
+    const consumed = await applyRequestFaults(request, response, {
+      latencyMs: 1000,
+      errorRate: 0.1,
+      dropRate: 0.1,
+    });
+
+    expect(wait).toHaveBeenCalledWith(500);
+    expect(consumed).toBe(false);
+    expect(destroy).not.toHaveBeenCalled();
+    expect(response.writeHead).not.toHaveBeenCalled();
+  });
+
+  // verifies that a rolled drop destroys the socket before any error is written
+  it('drops before erroring', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const { request, response, destroy } = createExchange();
+
+    const consumed = await applyRequestFaults(request, response, {
+      latencyMs: 0,
+      errorRate: 1,
+      dropRate: 1,
+    });
+
+    expect(consumed).toBe(true);
+    expect(destroy).toHaveBeenCalled();
+    expect(response.writeHead).not.toHaveBeenCalled();
+  });
+});
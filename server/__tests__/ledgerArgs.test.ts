@@ -0,0 +1,77 @@
+// @vitest-environment node
+/*
+ * unit test for the ledger server command line testing:
+ * - defaults when no option is given
+ * - numbers, scenario and fault overrides parsed
+ * - malformed numbers, rates, scenarios and unknown options rejected
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { parseLedgerArgs } from '../ledgerArgs';
+import { DEFAULT_FAULTS, NO_FAULTS } from '../faults';
+
+describe('parseLedgerArgs', () => {
+  // verifies that a bare start uses the documented defaults
+  it('falls back to the defaults', () => {
+    expect(parseLedgerArgs([])).toEqual({
+      port: 4000,
+      size: 10000,
+      interval: 10000,
+      batch: 200,
+      seed: undefined,
+      scenario: undefined,
+      faults: NO_FAULTS,
+    });
+  });
+
+  // verifies that given options replace the defaults, fault flags over the preset
+  it('parses the options', () => {
+    expect(
+      parseLedgerArgs([
+        '--port=0',
+        '--size',
+        '50',
+        '--interval',
+        '500',
+        '--batch',
+        '5',
+        '--seed',
+        '42',
+        '--scenario',
+        'card-testing',
+        '--faults',
+        '--error-rate',
+        '0.5',
+      ])
+    ).toEqual({
+      port: 0,
+      size: 50,
+      interval: 500,
+      batch: 5,
+      seed: 42,
+      scenario: 'card-testing',
+      faults: { ...DEFAULT_FAULTS, errorRate: 0.5 },
+    });
+  });
+
+  // verifies that a typo stops the server instead of running it with NaN
+  it('rejects malformed options', () => {
+    for (const argv of [
+      ['--size', '10k'],
+      ['--size='],
+      ['--interval', '0'],
+      ['--batch=-5'],
+      ['--port', '70000'],
+      ['--seed', 'abc'],
+      ['--latency', '1.5'],
+      ['--error-rate', '2'],
+      ['--drop-rate', 'often'],
+    ]) {
+      expect(() => parseLedgerArgs(argv)).toThrow(/^Invalid --/);
+    }
+    expect(() => parseLedgerArgs(['--scenario', 'constructor'])).toThrow(
+      'Unknown --scenario "constructor"'
+    );
+    expect(() => parseLedgerArgs(['--sizes', '5'])).toThrow();
+  });
+});
@@ -0,0 +1,63 @@
+/*
+ * unit test for the ledger store testing:
+ * - offset pages and cursor reads in insertion order
+ * - reproducible seeded ledgers
+ * - appended batches fanned out to every subscriber until unsubscribed
+ **/
+
+import { describe, expect, it, vi } from 'vitest';
+import { createLedgerStore } from '../ledgerStore';
+
+describe('createLedgerStore', () => {
+  // verifies that pages and cursor reads slice the ledger in insertion order
+  it('pages the ledger by offset and cursor', () => {
+    const store = createLedgerStore({ initialSize: 10, seed: 1 });
+    const ids = store.page(0, 10).map(transaction => transaction.id);
+
+    expect(store.size()).toBe(10);
+    expect(store.page(4, 3).map(transaction => transaction.id)).toEqual(
+      ids.slice(4, 7)
+    );
+    expect(store.page(8, 5)).toHaveLength(2);
+    expect(store.since(7).map(transaction => transaction.id)).toEqual(
+      ids.slice(7)
+    );
+    expect(store.since(2, 2).map(transaction => transaction.id)).toEqual(
+      ids.slice(2, 4)
+    );
+    expect(store.since(10)).toEqual([]);
+  });
+
+  // verifies that two stores with the same seed serve the same ledger
+  it('reproduces seeded ledgers', () => {
+    const first = createLedgerStore({ initialSize: 20, seed: 7 });
+    const second = createLedgerStore({ initialSize: 20, seed: 7 });
+    first.append(5);
+    second.append(5);
+
+    expect(JSON.stringify(second.page(0, 25))).toBe(
+      JSON.stringify(first.page(0, 25))
+    );
+  });
+
+  // verifies that every subscriber gets each appended batch with the new cursor
+  it('fans appended batches out to subscribers', () => {
+    const store = createLedgerStore({ initialSize: 3, seed: 2 });
+    const first = vi.fn();
+    const second = vi.fn();
+    store.subscribe(first);
+    const unsubscribe = store.subscribe(second);
+
+    const batch = store.append(4);
+    expect(batch).toHaveLength(4);
+    expect(store.size()).toBe(7);
+    expect(store.since(3)).toEqual(batch);
+    expect(first).toHaveBeenCalledWith(batch, 7);
+    expect(second).toHaveBeenCalledWith(batch, 7);
+
+    unsubscribe();
+    store.append(1);
+    expect(first).toHaveBeenCalledTimes(2);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
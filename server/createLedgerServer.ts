@@ -0,0 +1,257 @@
+/* HTTP and push channel handling of the local ledger server
+ * serves paginated GET /transactions, a cursor-based GET /transactions/feed,
+ * a WebSocket push channel at /stream and an SSE channel at /events */
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { Transaction } from '../src/types/transaction';
+import {
+  TransactionFeedResponse,
+  TransactionPageResponse,
+  TransactionPushMessage,
+} from '../src/types/transactionSource';
+import { LedgerStore } from './ledgerStore';
+import {
+  applyRequestFaults,
+  FaultOptions,
+  shouldDropConnection,
+} from './faults';
+
+export const DEFAULT_PAGE_LIMIT = 500;
+export const MAX_PAGE_LIMIT = 5000;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+interface LedgerServerOptions {
+  store: LedgerStore;
+  faults: FaultOptions;
+}
+
+export interface LedgerServer {
+  server: Server;
+  webSocketServer: WebSocketServer;
+}
+
+// parses a non-negative integer query parameter; missing means the fallback, malformed null
+export const parseIntParam = (
+  value: string | null,
+  fallback: number
+): number | null => {
+  if (value === null || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+};
+
+/* a missing cursor means "from now on", so new clients don't replay the whole ledger
+ * cursors past the end are clamped to it; malformed ones are null */
+export const parseCursor = (value: string | null, size: number) => {
+  const cursor = parseIntParam(value, size);
+  return cursor === null ? null : Math.min(cursor, size);
+};
+
+// page sizes above the maximum are clamped; zero and malformed ones are null
+export const parseLimit = (value: string | null) => {
+  const limit = parseIntParam(value, DEFAULT_PAGE_LIMIT);
+  return limit ? Math.min(limit, MAX_PAGE_LIMIT) : null;
+};
+
+const createPushMessage = (
+  transactions: Transaction[],
+  cursor: number
+): TransactionPushMessage => ({
+  type: 'batch',
+  // dates serialize to ISO strings, matching SerializedTransaction
+  transactions: JSON.parse(JSON.stringify(transactions)),
+  cursor: String(cursor),
+});
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, {
+    ...CORS_HEADERS,
+    'Content-Type': 'application/json',
+  });
+  response.end(JSON.stringify(body));
+};
+
+const sendBadRequest = (response: ServerResponse, param: string) =>
+  sendJson(response, 400, { error: `Invalid ${param}` });
+
+export const createLedgerServer = ({
+  store,
+  faults,
+}: LedgerServerOptions): LedgerServer => {
+  // GET /transactions?offset=&limit= - offset based pages over the whole ledger
+  const handlePage = (url: URL, response: ServerResponse) => {
+    const offset = parseIntParam(url.searchParams.get('offset'), 0);
+    const limit = parseLimit(url.searchParams.get('limit'));
+    if (offset === null) return sendBadRequest(response, 'offset');
+    if (limit === null) return sendBadRequest(response, 'limit');
+
+    const transactions = store.page(offset, limit);
+    const end = offset + transactions.length;
+
+    const body: TransactionPageResponse = {
+      transactions: JSON.parse(JSON.stringify(transactions)),
+      nextOffset: end < store.size() ? end : null,
+      cursor: String(end),
+    };
+    sendJson(response, 200, body);
+  };
+
+  // GET /transactions/feed?cursor=&limit= - everything appended after the cursor
+  const handleFeed = (url: URL, response: ServerResponse) => {
+    const cursor = parseCursor(url.searchParams.get('cursor'), store.size());
+    const limit = parseLimit(url.searchParams.get('limit'));
+    if (cursor === null) return sendBadRequest(response, 'cursor');
+    if (limit === null) return sendBadRequest(response, 'limit');
+
+    const transactions = store.since(cursor, limit);
+
+    const body: TransactionFeedResponse = {
+      transactions: JSON.parse(JSON.stringify(transactions)),
+      cursor: String(cursor + transactions.length),
+    };
+    sendJson(response, 200, body);
+  };
+
+  /* GET /events?cursor= - server-sent events push channel
+   * replays the backlog after the cursor, then pushes every new batch */
+  const handleEvents = (
+    url: URL,
+    request: IncomingMessage,
+    response: ServerResponse
+  ) => {
+    const cursor = parseCursor(url.searchParams.get('cursor'), store.size());
+    if (cursor === null) return sendBadRequest(response, 'cursor');
+
+    response.writeHead(200, {
+      ...CORS_HEADERS,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const send = (transactions: Transaction[], nextCursor: number) => {
+      response.write(
+        `data: ${JSON.stringify(createPushMessage(transactions, nextCursor))}\n\n`
+      );
+    };
+
+    const backlog = store.since(cursor);
+    if (backlog.length > 0) {
+      send(backlog, cursor + backlog.length);
+    }
+
+    const unsubscribe = store.subscribe((transactions, nextCursor) => {
+      if (shouldDropConnection(faults)) {
+        response.destroy();
+        return;
+      }
+      send(transactions, nextCursor);
+    });
+
+    request.on('close', unsubscribe);
+  };
+
+  const handleRequest = async (
+    request: IncomingMessage,
+    response: ServerResponse
+  ) => {
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, CORS_HEADERS);
+      response.end();
+      return;
+    }
+
+    if (await applyRequestFaults(request, response, faults)) {
+      return;
+    }
+
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (request.method !== 'GET') {
+      sendJson(response, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    switch (url.pathname) {
+      case '/transactions':
+        handlePage(url, response);
+        return;
+      case '/transactions/feed':
+        handleFeed(url, response);
+        return;
+      case '/events':
+        handleEvents(url, request, response);
+        return;
+      case '/health':
+        sendJson(response, 200, { status: 'ok', size: store.size() });
+        return;
+      default:
+        sendJson(response, 404, { error: 'Not found' });
+    }
+  };
+
+  const server = createServer((request, response) => {
+    handleRequest(request, response).catch(error => {
+      console.error(error);
+      if (!response.headersSent) {
+        sendJson(response, 500, { error: 'Internal server error' });
+      }
+    });
+  });
+
+  /* /stream?cursor= - WebSocket push channel
+   * same semantics as /events; shares the HTTP server through manual upgrades */
+  const webSocketServer = new WebSocketServer({ noServer: true });
+
+  webSocketServer.on('connection', (socket: WebSocket, cursor: number) => {
+    const send = (transactions: Transaction[], nextCursor: number) => {
+      socket.send(JSON.stringify(createPushMessage(transactions, nextCursor)));
+    };
+
+    const backlog = store.since(cursor);
+    if (backlog.length > 0) {
+      send(backlog, cursor + backlog.length);
+    }
+
+    const unsubscribe = store.subscribe((transactions, nextCursor) => {
+      if (shouldDropConnection(faults)) {
+        socket.terminate();
+        return;
+      }
+      send(transactions, nextCursor);
+    });
+
+    socket.on('close', unsubscribe);
+  });
+
+  server.on('upgrade', (request, socket, head) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (url.pathname !== '/stream' || shouldDropConnection(faults)) {
+      socket.destroy();
+      return;
+    }
+
+    const cursor = parseCursor(url.searchParams.get('cursor'), store.size());
+    if (cursor === null) {
+      socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    webSocketServer.handleUpgrade(request, socket, head, webSocket => {
+      webSocketServer.emit('connection', webSocket, cursor);
+    });
+  });
+
+  return { server, webSocketServer };
+};
@@ -0,0 +1,59 @@
+/* fault injection for the local ledger server
+ * adds latency, dropped connections and 500s so the dashboard's retry and
+ * reconnect code paths can be exercised without a real network */
+import { IncomingMessage, ServerResponse } from 'node:http';
+import wait from '../src/helpers/wait';
+
+export interface FaultOptions {
+  // upper bound of the random delay added before each response
+  latencyMs: number;
+  // probability of answering a request with a 500
+  errorRate: number;
+  // probability of destroying a connection without answering
+  dropRate: number;
+}
+
+export const NO_FAULTS: FaultOptions = {
+  latencyMs: 0,
+  errorRate: 0,
+  dropRate: 0,
+};
+
+export const DEFAULT_FAULTS: FaultOptions = {
+  latencyMs: 1500,
+  errorRate: 0.1,
+  dropRate: 0.05,
+};
+
+// whether any fault is configured at all
+export const hasFaults = (faults: FaultOptions) =>
+  faults.latencyMs > 0 || faults.errorRate > 0 || faults.dropRate > 0;
+
+// rolls the dice for a push channel; true means the connection should be cut
+export const shouldDropConnection = (faults: FaultOptions) =>
+  Math.random() < faults.dropRate;
+
+/* applies configured faults to an HTTP request before it is handled
+ * returns true when a fault already consumed the request */
+export const applyRequestFaults = async (
+  request: IncomingMessage,
+  response: ServerResponse,
+  faults: FaultOptions
+): Promise<boolean> => {
+  if (faults.latencyMs > 0) {
+    await wait(Math.random() * faults.latencyMs);
+  }
+
+  if (Math.random() < faults.dropRate) {
+    request.socket.destroy();
+    return true;
+  }
+
+  if (Math.random() < faults.errorRate) {
+    response.writeHead(500, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ error: 'Injected server error' }));
+    return true;
+  }
+
+  return false;
+};
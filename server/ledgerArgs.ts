@@ -0,0 +1,100 @@
+/* command line options of the ledger server, see ledgerServer.ts
+ * every number is checked the way query parameters are, so a typo stops the server
+ * with the usage instead of running it with NaN sizes or intervals */
+import { parseArgs } from 'node:util';
+import { ScenarioId } from '../src/types/scenario';
+import { isScenarioId } from '../src/utils/generateTransactions';
+import { DEFAULT_FAULTS, FaultOptions, NO_FAULTS } from './faults';
+import { parseIntParam } from './createLedgerServer';
+
+export const LEDGER_USAGE = `usage: yarn ledger [--port 4000] [--size 10000] [--interval 10000] [--batch 200]
+                   [--seed 42] [--scenario card-testing]
+                   [--faults] [--latency ms] [--error-rate 0-1] [--drop-rate 0-1]`;
+
+const MAX_PORT = 65535;
+
+export interface LedgerArgs {
+  port: number;
+  // transactions generated up front
+  size: number;
+  // milliseconds between appended batches, and their size
+  interval: number;
+  batch: number;
+  seed?: number;
+  scenario?: ScenarioId;
+  faults: FaultOptions;
+}
+
+// a non-negative integer option, at least min; throws naming the option otherwise
+const readInt = (
+  name: string,
+  value: string | undefined,
+  fallback: number,
+  min = 0,
+  max = Number.MAX_SAFE_INTEGER
+) => {
+  const parsed = parseIntParam(value ?? null, fallback);
+  if (value === '' || parsed === null || parsed < min || parsed > max) {
+    throw new Error(`Invalid --${name} "${value}"`);
+  }
+  return parsed;
+};
+
+// a probability between 0 and 1
+const readRate = (
+  name: string,
+  value: string | undefined,
+  fallback: number
+) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (value === '' || !(parsed >= 0 && parsed <= 1)) {
+    throw new Error(`Invalid --${name} "${value}"`);
+  }
+  return parsed;
+};
+
+// parses the server's arguments; throws on unknown options and malformed values
+export const parseLedgerArgs = (argv: string[]): LedgerArgs => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      port: { type: 'string' },
+      size: { type: 'string' },
+      interval: { type: 'string' },
+      batch: { type: 'string' },
+      seed: { type: 'string' },
+      scenario: { type: 'string' },
+      faults: { type: 'boolean', default: false },
+      latency: { type: 'string' },
+      'error-rate': { type: 'string' },
+      'drop-rate': { type: 'string' },
+    },
+  });
+
+  if (values.scenario !== undefined && !isScenarioId(values.scenario)) {
+    throw new Error(`Unknown --scenario "${values.scenario}"`);
+  }
+
+  // --faults enables the default preset; individual flags override it
+  const baseFaults = values.faults ? DEFAULT_FAULTS : NO_FAULTS;
+
+  return {
+    port: readInt('port', values.port, 4000, 0, MAX_PORT),
+    size: readInt('size', values.size, 10000),
+    interval: readInt('interval', values.interval, 10000, 1),
+    batch: readInt('batch', values.batch, 200, 1),
+    seed:
+      values.seed !== undefined ? readInt('seed', values.seed, 0) : undefined,
+    scenario: values.scenario,
+    faults: {
+      latencyMs: readInt('latency', values.latency, baseFaults.latencyMs),
+      errorRate: readRate(
+        'error-rate',
+        values['error-rate'],
+        baseFaults.errorRate
+      ),
+      dropRate: readRate('drop-rate', values['drop-rate'], baseFaults.dropRate),
+    },
+  };
+};
@@ -0,0 +1,59 @@
+/* local mock ledger server for end-to-end development
+ * serves paginated GET /transactions, a cursor-based GET /transactions/feed,
+ * a WebSocket push channel at /stream and an SSE channel at /events, see createLedgerServer
+ *
+ * usage: yarn ledger [--port 4000] [--size 10000] [--interval 10000] [--batch 200]
+ *                    [--seed 42] [--scenario card-testing]
+ *                    [--faults] [--latency ms] [--error-rate 0-1] [--drop-rate 0-1]
+ * malformed options print the usage and exit, see ledgerArgs */
+import { createLedgerStore, LedgerStore } from './ledgerStore';
+import { createLedgerServer } from './createLedgerServer';
+import { hasFaults } from './faults';
+import { LEDGER_USAGE, LedgerArgs, parseLedgerArgs } from './ledgerArgs';
+
+let args: LedgerArgs;
+try {
+  args = parseLedgerArgs(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(LEDGER_USAGE);
+  process.exit(1);
+}
+
+const { scenario, faults } = args;
+
+const store: LedgerStore = createLedgerStore({
+  initialSize: args.size,
+  seed: args.seed,
+  scenario,
+});
+
+const { server, webSocketServer } = createLedgerServer({ store, faults });
+
+// grows the ledger on a fixed interval so feed and push clients see live data
+const appendTimer = setInterval(() => {
+  store.append(args.batch);
+}, args.interval);
+
+const shutdown = () => {
+  clearInterval(appendTimer);
+  webSocketServer.clients.forEach(client => client.terminate());
+  server.closeAllConnections();
+  server.close(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+server.listen(args.port, () => {
+  console.log(
+    `Ledger server listening on http://localhost:${args.port} with ${store.size()} transactions` +
+      (scenario ? ` (scenario: ${scenario})` : '')
+  );
+  if (hasFaults(faults)) {
+    console.log(
+      `Fault injection enabled: latency up to ${faults.latencyMs}ms, ` +
+        `${faults.errorRate * 100}% errors, ${faults.dropRate * 100}% dropped connections`
+    );
+  }
+});
@@ -0,0 +1,55 @@
+/* in-memory append-only ledger backing the local mock server
+ * reuses the dashboard's generator logic so served data matches the worker's output */
+import { Transaction } from '../src/types/transaction';
+import { ScenarioId } from '../src/types/scenario';
+import {
+  createGeneratorContext,
+  generateTransactions,
+} from '../src/utils/generateTransactions';
+
+type LedgerListener = (transactions: Transaction[], cursor: number) => void;
+
+interface LedgerStoreOptions {
+  initialSize: number;
+  seed?: number;
+  scenario?: ScenarioId;
+}
+
+export interface LedgerStore {
+  size: () => number;
+  // transactions in insertion order starting at offset
+  page: (offset: number, limit: number) => Transaction[];
+  // transactions appended at or after the cursor position
+  since: (cursor: number, limit?: number) => Transaction[];
+  append: (count: number) => Transaction[];
+  subscribe: (listener: LedgerListener) => () => void;
+}
+
+export const createLedgerStore = ({
+  initialSize,
+  seed,
+  scenario,
+}: LedgerStoreOptions): LedgerStore => {
+  // a single context for the server lifetime keeps seeded runs reproducible end to end
+  const context = createGeneratorContext(seed, undefined, scenario);
+  const transactions = generateTransactions(initialSize, context);
+  const listeners = new Set<LedgerListener>();
+
+  return {
+    size: () => transactions.length,
+    page: (offset, limit) => transactions.slice(offset, offset + limit),
+    since: (cursor, limit = Number.POSITIVE_INFINITY) =>
+      transactions.slice(cursor, cursor + limit),
+    // generates and records a new batch, then notifies push subscribers
+    append: count => {
+      const batch = generateTransactions(count, context, transactions.length);
+      transactions.push(...batch);
+      listeners.forEach(listener => listener(batch, transactions.length));
+      return batch;
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
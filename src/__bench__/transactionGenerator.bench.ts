@@ -36,6 +36,8 @@ afterAll(() => {
 bench('transaction generator: 100k records', async () => {
   const TOTAL = 100000;
   const BATCH_SIZE = 5000;
+  // fixed seed keeps the generated dataset identical across benchmark runs
+  const SEED = 42;
 
 
   let generated = 0;
@@ -62,7 +64,7 @@ bench('transaction generator: 100k records', async () => {
 
   await handleMessage(
     new MessageEvent('message', {
-      data: { type: 'init', total: TOTAL, batchSize: BATCH_SIZE },
+      data: { type: 'init', total: TOTAL, batchSize: BATCH_SIZE, seed: SEED },
     })
   );
 
@@ -1,19 +1,34 @@
 /*
 * unit test for the SearchBar component testing:
 * - input normalization
-* - suggestion generation
+* - suggestion generation from data hints with type and count
 * - search history management
 * - search result relevance scoring
 * - security validation against XSS attacks
+* - structured queries, inline errors and field completions
+* - queries applied from outside, e.g. by saved views
 **/
 
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
 import { SearchBar } from '../../components/search/SearchBar.tsx';
+import { createSearchHintCounter } from '../../utils/createSearchHints';
+import { createTransaction } from '../testUtils';
+
+// hints counted from a small dataset, with amazon more frequent than the other "am" merchants
+const createHints = () => {
+  const counter = createSearchHintCounter();
+  counter.reset(
+    ['Amazon', 'Amazon', 'Amazon', 'Bank of America', 'Stripe', 'Stripe Atlas', 'Uber'].map(merchantName =>
+      createTransaction({ merchantName, category: 'Shopping', location: 'Miami, FL', accountId: 'acc_1' })
+    )
+  );
+  return counter.hints();
+};
 
 const renderSearchBar = (onSearch = vi.fn()) => {
-  const utils = render(<SearchBar onSearch={onSearch} />);
+  const utils = render(<SearchBar onSearch={onSearch} hints={createHints()} />);
   const input = screen.getByPlaceholderText('Search transactions...') as HTMLInputElement;
   const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
   return { ...utils, input, onSearch, user };
@@ -53,7 +68,7 @@ describe('SearchBar', () => {
 
     await waitFor(() => {
       const suggestions = screen.getAllByRole('option');
-      expect(suggestions[0]).toHaveTextContent(/amazon/i);
+      expect(suggestions[0]).toHaveTextContent(/^amazon\s*merchant · 3$/i);
       expect(suggestions.length).toBeLessThanOrEqual(5);
     });
   });
@@ -82,10 +97,22 @@ describe('SearchBar', () => {
 
     await waitFor(() => {
       const suggestions = screen.getAllByRole('option');
-      expect(suggestions[0]).toHaveTextContent(/^stripe$/i);
+      expect(suggestions[0]).toHaveTextContent(/^stripe\s*merchant/i);
     });
   });
 
+  // tests hint selection: searches the value within the field it was seen in
+  it('data hint selection', async () => {
+    const { input, user, onSearch } = renderSearchBar();
+
+    await user.type(input, 'bank of');
+    vi.runAllTimers();
+    await user.click(await screen.findByRole('option', { name: /bank of america, merchant, 1 transactions/i }));
+
+    expect(onSearch).toHaveBeenLastCalledWith('merchant:"Bank of America"');
+    expect(input.value).toBe('merchant:"Bank of America"');
+  });
+
   // tests security: strips dangerous input, prevents XSS
   it('security validation features', async () => {
     const { input, user, onSearch } = renderSearchBar();
@@ -97,4 +124,50 @@ describe('SearchBar', () => {
       expect(onSearch).toHaveBeenCalledWith('scriptalert1script');
     });
   });
+
+  // tests structured queries: passed through unnormalised with errors shown inline
+  it('structured query errors', async () => {
+    const { input, user, onSearch } = renderSearchBar();
+
+    await user.type(input, 'status:lost amount:>500');
+    vi.runAllTimers();
+
+    await waitFor(() => {
+      expect(onSearch).toHaveBeenCalledWith('status:lost amount:>500');
+      expect(screen.getByRole('alert')).toHaveTextContent(/unknown status "lost"/i);
+      expect(input).toHaveAttribute('aria-invalid', 'true');
+    });
+  });
+
+  // tests field completion: accepting a field name keeps the dropdown open for values
+  it('field name and value completion', async () => {
+    const { input, user } = renderSearchBar();
+
+    await user.type(input, 'stat');
+    vi.runAllTimers();
+    await user.click(await screen.findByRole('option', { name: /complete search: status:/i }));
+    vi.runAllTimers();
+
+    await waitFor(() => {
+      expect(input.value).toBe('status:');
+      expect(screen.getByRole('option', { name: /status:failed/i })).toBeInTheDocument();
+    });
+  });
+
+  // tests outside values: a changed value replaces the input, our own search coming back does not
+  it('external value sync', async () => {
+    const onSearch = vi.fn();
+    const { rerender } = render(<SearchBar onSearch={onSearch} value="" />);
+    const input = screen.getByPlaceholderText('Search transactions...') as HTMLInputElement;
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+
+    await user.type(input, ' Café');
+    vi.runAllTimers();
+    rerender(<SearchBar onSearch={onSearch} value="cafe" />);
+    expect(input.value).toBe(' Café');
+
+    rerender(<SearchBar onSearch={onSearch} value="status:lost" />);
+    expect(input.value).toBe('status:lost');
+    expect(input).toHaveAttribute('aria-invalid', 'true');
+  });
 });
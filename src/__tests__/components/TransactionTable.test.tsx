@@ -5,13 +5,22 @@
 * - currency formatting in cells
 * - sorting functionality by multiple columns
 * - accessibility features like ARIA roles
+* - best match ordering and search highlighting
+* - paged layout with navigation, jump-to-page and held back streamed rows
+* - configurable columns shown, hidden and resized
+* - grouped rows with collapsible subtotal headers
+* - checkbox, range and select-all selection with bulk review actions
+* - ARIA grid keyboard navigation with an announced active row
+* - the active row only referenced while the virtual list renders it
+* - compact density lowering the rows without dropping any
 **/
 
-import React from 'react';
+import React, { useEffect, useImperativeHandle, useState } from 'react';
 import { fireEvent, render, screen } from '@testing-library/react';
 import { describe, expect, it, vi, beforeEach } from 'vitest';
 import { TransactionTable } from '../../components/transactions/TransactionTable';
 import { createTransaction } from '../testUtils';
+import { applyColumnPreset, DEFAULT_COLUMN_LAYOUT } from '../../utils/tableColumns';
 
 type RowProps = {
   index: number;
@@ -19,15 +28,23 @@ type RowProps = {
   transactions: ReturnType<typeof createTransactions>;
 };
 
+type RowRange = { startIndex: number; stopIndex: number };
+
 type ListProps = {
+  listRef?: React.Ref<{ element: HTMLDivElement | null; scrollToRow: (options: { index: number }) => void }>;
+  onScroll?: (event: React.UIEvent<HTMLDivElement>) => void;
+  onRowsRendered?: (visibleRows: RowRange, allRows: RowRange) => void;
   rowComponent: (props: RowProps & Record<string, unknown>) => React.ReactElement | null;
   rowCount: number;
-  rowHeight: number;
+  rowHeight: number | ((index: number, rowProps: Record<string, unknown>) => number);
   rowProps: Record<string, unknown>;
   overscanCount: number;
   style?: React.CSSProperties;
 };
 
+// rows the mocked list shows at once, about one screen of the table
+const VISIBLE_ROWS = 10;
+
 // helper to generate test transactions with various attributes
 const createTransactions = () => [
   createTransaction({ id: '1', merchantName: 'Coffee Shop', timestamp: new Date('2024-03-01T10:00:00Z'), amount: 25 }),
@@ -35,20 +52,49 @@ const createTransactions = () => [
   createTransaction({ id: '3', merchantName: 'Grocery', timestamp: new Date('2024-02-25T09:00:00Z'), amount: 60 }),
 ];
 
-// mock react-window List to simulate virtualized rendering without actual DOM virtualization
+/* mock react-window List to simulate virtualization without layout: it renders the
+ * visible rows plus the overscan, scrolls by whole rows and reports the rendered range */
 vi.mock('react-window', () => ({
-  List: ({ rowComponent, rowCount, rowProps }: ListProps) => (
-    <div data-testid="virtual-list">
-      {Array.from({ length: rowCount }, (_, index) => {
-        const element = rowComponent({
-          index,
-          style: {},
-          ...rowProps,
-        } as RowProps & Record<string, unknown>);
-        return <React.Fragment key={index}>{element}</React.Fragment>;
-      })}
-    </div>
-  ),
+  List: ({ listRef, onScroll, onRowsRendered, rowComponent, rowCount, rowHeight, rowProps, overscanCount }: ListProps) => {
+    const [firstVisible, setFirstVisible] = useState(0);
+    const visible = { startIndex: firstVisible, stopIndex: Math.min(firstVisible + VISIBLE_ROWS, rowCount) - 1 };
+    const rendered = {
+      startIndex: Math.max(visible.startIndex - overscanCount, 0),
+      stopIndex: Math.min(visible.stopIndex + overscanCount, rowCount - 1),
+    };
+
+    // scrolls just far enough to show the row, like align 'auto'
+    useImperativeHandle(listRef, () => ({
+      element: null,
+      scrollToRow: ({ index }) =>
+        setFirstVisible(current => (index < current ? index : index >= current + VISIBLE_ROWS ? index - VISIBLE_ROWS + 1 : current)),
+    }));
+
+    useEffect(() => {
+      onRowsRendered?.(visible, rendered);
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [rendered.startIndex, rendered.stopIndex]);
+
+    const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+      const height = typeof rowHeight === 'number' ? rowHeight : rowHeight(0, rowProps);
+      setFirstVisible(Math.floor(event.currentTarget.scrollTop / height));
+      onScroll?.(event);
+    };
+
+    return (
+      <div data-testid="virtual-list" onScroll={handleScroll}>
+        {Array.from({ length: rendered.stopIndex - rendered.startIndex + 1 }, (_, offset) => {
+          const index = rendered.startIndex + offset;
+          const element = rowComponent({
+            index,
+            style: {},
+            ...rowProps,
+          } as RowProps & Record<string, unknown>);
+          return <React.Fragment key={index}>{element}</React.Fragment>;
+        })}
+      </div>
+    );
+  },
 }));
 
 describe('TransactionTable', () => {
@@ -57,12 +103,12 @@ describe('TransactionTable', () => {
     localStorage.clear();
   });
 
-  // verifies that the virtual list renders the correct number of cells (4 columns x 3 rows)
+  // verifies that the virtual list renders the correct number of cells (checkbox + 4 columns x 3 rows)
   it('virtual list rendering', () => {
     const onClick = vi.fn();
     render(<TransactionTable transactions={createTransactions()} onTransactionClick={onClick} />);
 
-    expect(screen.getAllByRole('gridcell')).toHaveLength(12); // 4 columns x 3 rows
+    expect(screen.getAllByRole('gridcell')).toHaveLength(15); // (checkbox + 4 columns) x 3 rows
   });
 
   // verifies that clicking a transaction row triggers the callback with the correct transaction
@@ -109,14 +155,345 @@ describe('TransactionTable', () => {
     expect(merchantNames[0]).toHaveTextContent('Book Store');
   });
 
+  // verifies that shift-clicking headers adds sort keys, shown and edited in priority order
+  it('multi-column sorting', () => {
+    const onClick = vi.fn();
+    render(<TransactionTable transactions={createTransactions()} onTransactionClick={onClick} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /sort by status/i }));
+    fireEvent.click(screen.getByRole('button', { name: /sort by amount/i }), { shiftKey: true });
+    fireEvent.click(screen.getByRole('button', { name: /sort by amount/i }), { shiftKey: true });
+
+    // every status is the same, so amount descending decides
+    const merchantNames = screen.getAllByText(/Shop|Store|Grocery/);
+    expect(merchantNames.map(name => name.textContent)).toEqual(['Grocery', 'Book Store', 'Coffee Shop']);
+    expect(screen.getByRole('button', { name: 'Status ascending, priority 1' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Amount descending, priority 2' })).toBeInTheDocument();
+
+    // keys can be added from the menu, removed and flipped
+    fireEvent.change(screen.getByRole('combobox', { name: 'Then sort by' }), { target: { value: 'type' } });
+    expect(screen.getByRole('button', { name: 'Type ascending, priority 3' })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Stop sorting by Status' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Amount descending, priority 1' }));
+    expect(screen.getAllByText(/Shop|Store|Grocery/)[0]).toHaveTextContent('Coffee Shop');
+  });
+
   // verifies ARIA roles are properly applied for screen readers and assistive technologies
   it('accessibility features', () => {
     const onClick = vi.fn();
     render(<TransactionTable transactions={createTransactions()} onTransactionClick={onClick} />);
 
 
-    expect(screen.getByRole('table', { name: /Transactions/i })).toBeInTheDocument();
-    expect(screen.getAllByRole('columnheader')).toHaveLength(4);
+    expect(screen.getByRole('grid', { name: /Transactions/i })).toHaveAttribute('aria-rowcount', '4');
+    expect(screen.getAllByRole('columnheader')).toHaveLength(5); // select all + 4 columns
     expect(screen.getAllByRole('row')).toHaveLength(4); // 1 header + 3 data rows
   });
+
+  // verifies that best match orders rows by relevance and misspelt words are highlighted
+  it('relevance ordering and highlighting', () => {
+    const onClick = vi.fn();
+    const getRelevance = (transaction: { merchantName: string }) =>
+      transaction.merchantName === 'Grocery' ? 10 : 0;
+    render(
+      <TransactionTable
+        transactions={createTransactions()}
+        onTransactionClick={onClick}
+        getRelevance={getRelevance}
+        highlightTerms={['grocry']}
+        fuzzyHighlight
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /best match/i }));
+
+    expect(screen.getByRole('button', { name: 'Best match' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getAllByRole('row')[1]).toHaveTextContent('Grocery');
+    expect(screen.getByText('Grocery').tagName).toBe('MARK');
+  });
+
+  // verifies that pages can be navigated and streamed rows wait until shown
+  it('paged layout', () => {
+    const onClick = vi.fn();
+    const transactions = Array.from({ length: 30 }, (_, index) =>
+      createTransaction({
+        id: `${index}`,
+        merchantName: `Merchant ${index}`,
+        timestamp: new Date(Date.UTC(2024, 0, 1, index)),
+      })
+    );
+    const { rerender } = render(
+      <TransactionTable transactions={transactions} onTransactionClick={onClick} defaultPageSize={25} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /pages/i }));
+    expect(screen.queryByTestId('virtual-list')).not.toBeInTheDocument();
+    expect(screen.getAllByRole('row')).toHaveLength(26);
+    expect(screen.getByText('1–25 of 30')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next page' }));
+    expect(screen.getAllByRole('row')[1]).toHaveTextContent('Merchant 4');
+
+    // a newer row streams in: page 2 keeps its rows and the arrival is offered
+    const streamed = createTransaction({ id: 'new', merchantName: 'Streamed', timestamp: new Date(Date.UTC(2024, 1, 1)) });
+    rerender(
+      <TransactionTable transactions={[...transactions, streamed]} onTransactionClick={onClick} defaultPageSize={25} />
+    );
+    expect(screen.getAllByRole('row')[1]).toHaveTextContent('Merchant 4');
+    fireEvent.click(screen.getByRole('button', { name: '1 new' }));
+    expect(screen.getAllByRole('row')[1]).toHaveTextContent('Merchant 5');
+
+    const pageInput = screen.getByRole('spinbutton', { name: 'Go to page' });
+    fireEvent.change(pageInput, { target: { value: '1' } });
+    fireEvent.keyDown(pageInput, { key: 'Enter' });
+    expect(screen.getAllByRole('row')[1]).toHaveTextContent('Streamed');
+
+    fireEvent.change(screen.getByRole('combobox', { name: /rows per page/i }), { target: { value: '50' } });
+    expect(screen.getByText('1–31 of 31')).toBeInTheDocument();
+  });
+
+  // verifies that the chosen columns render in order and can be resized and toggled
+  it('configurable columns', () => {
+    const onClick = vi.fn();
+    const onColumnsChange = vi.fn();
+    const columns = applyColumnPreset(DEFAULT_COLUMN_LAYOUT, 'fraud');
+    const { rerender } = render(
+      <TransactionTable
+        transactions={createTransactions()}
+        onTransactionClick={onClick}
+        columns={columns}
+        onColumnsChange={onColumnsChange}
+        riskScores={{ '1': 1.234 }}
+      />
+    );
+
+    expect(screen.getAllByRole('columnheader').map(header => header.textContent)).toEqual([
+      '', 'Risk score', 'Merchant', 'User', 'Location', 'Date', 'Amount',
+    ]);
+    const coffeeCells = screen.getAllByRole('row').find(row => row.textContent?.includes('Coffee Shop'))!;
+    expect(coffeeCells).toHaveTextContent('1.23');
+    expect(coffeeCells).toHaveTextContent('user-1');
+
+    fireEvent.keyDown(screen.getByRole('separator', { name: 'Resize Merchant column' }), { key: 'ArrowRight' });
+    expect(onColumnsChange).toHaveBeenCalledWith(
+      expect.arrayContaining([{ id: 'merchant', visible: true, width: 296 }])
+    );
+
+    // without a controlled layout the table keeps its own
+    rerender(<TransactionTable transactions={createTransactions()} onTransactionClick={onClick} />);
+    expect(screen.getAllByRole('columnheader')).toHaveLength(5);
+    fireEvent.click(screen.getByRole('button', { name: 'Columns' }));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Category' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Close columns' }));
+    expect(screen.getAllByRole('columnheader')).toHaveLength(6);
+    expect(screen.getByRole('button', { name: /sort by category/i })).toBeInTheDocument();
+  });
+
+  // verifies that grouped rows show subtotal headers that collapse their rows
+  it('grouped rows', () => {
+    const onClick = vi.fn();
+    const onGroupByChange = vi.fn();
+    const { rerender } = render(<TransactionTable transactions={createTransactions()} onTransactionClick={onClick} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Group by' }), { target: { value: 'month' } });
+    const march = screen.getByRole('button', { name: /march 2024/i });
+    expect(march).toHaveTextContent('2 transactions');
+    expect(march).toHaveAttribute('aria-expanded', 'true');
+    expect(march.parentElement).toHaveTextContent('+$40.00');
+    expect(march.parentElement).toHaveTextContent('-$25.00');
+    expect(screen.getByRole('button', { name: /february 2024/i })).toHaveTextContent('1 transaction');
+    expect(screen.getByRole('button', { name: /pages/i })).toBeDisabled();
+
+    fireEvent.click(march);
+    expect(screen.queryByText('Coffee Shop')).not.toBeInTheDocument();
+    expect(screen.getByText('Grocery')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Collapse all' }));
+    expect(screen.queryByText('Grocery')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Expand all' }));
+    expect(screen.getByText('Coffee Shop')).toBeInTheDocument();
+
+    // a controlled grouping is reported rather than applied
+    rerender(
+      <TransactionTable
+        transactions={createTransactions()}
+        onTransactionClick={onClick}
+        groupBy="status"
+        onGroupByChange={onGroupByChange}
+      />
+    );
+    expect(screen.getByRole('button', { name: /completed/i })).toHaveTextContent('3 transactions');
+    fireEvent.change(screen.getByRole('combobox', { name: 'Group by' }), { target: { value: 'none' } });
+    expect(onGroupByChange).toHaveBeenCalledWith('none');
+  });
+
+  // verifies that rows are selected by checkbox, range and select all, and marked in bulk
+  it('multi-row selection and bulk actions', () => {
+    const onClick = vi.fn();
+    const transactions = [
+      ...createTransactions(),
+      createTransaction({ id: '4', merchantName: 'Pharmacy', timestamp: new Date('2024-02-20T09:00:00Z') }),
+    ];
+    const { rerender } = render(<TransactionTable transactions={transactions} onTransactionClick={onClick} />);
+
+    // newest first: Book Store, Coffee Shop, Grocery, Pharmacy
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Select Book Store transaction' }));
+    expect(screen.getByRole('button', { name: 'Compare' })).toBeDisabled();
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Select Grocery transaction' }), { shiftKey: true });
+    expect(onClick).not.toHaveBeenCalled();
+    expect(screen.getByRole('status')).toHaveTextContent('3 selected');
+    expect(screen.getByRole('checkbox', { name: 'Select Coffee Shop transaction' })).toBeChecked();
+    expect(screen.getByRole('checkbox', { name: 'Select Pharmacy transaction' })).not.toBeChecked();
+    fireEvent.click(screen.getByRole('button', { name: 'Compare' }));
+    const comparison = screen.getByRole('dialog', { name: 'Compare transactions' });
+    expect(comparison).toHaveTextContent('Book Store');
+    expect(comparison).toHaveTextContent('Grocery');
+    fireEvent.click(screen.getByRole('button', { name: 'Close comparison' }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Flag for review' }));
+    fireEvent.change(screen.getByRole('combobox', { name: 'Tag selected transactions' }), { target: { value: ' chargeback ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add tag' }));
+    const bookRow = screen.getAllByRole('row').find(row => row.textContent?.includes('Book Store'))!;
+    expect(bookRow).toHaveAttribute('aria-selected', 'true');
+    expect(bookRow).toHaveTextContent('chargeback');
+    expect(screen.getAllByRole('img', { name: 'Flagged for review' })).toHaveLength(3);
+    expect(screen.getByRole('button', { name: 'Remove flag' })).toBeInTheDocument();
+
+    // selection follows the rows, not their positions
+    fireEvent.click(screen.getByRole('button', { name: /sort by merchant/i }));
+    expect(screen.getByRole('checkbox', { name: 'Select Coffee Shop transaction' })).toBeChecked();
+    expect(screen.getByRole('checkbox', { name: 'Select Pharmacy transaction' })).not.toBeChecked();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Select all 4 matching' }));
+    expect(screen.getByRole('status')).toHaveTextContent('4 selected');
+    expect(screen.getByRole('checkbox', { name: 'Select all matching transactions' })).toBeChecked();
+    fireEvent.click(screen.getByRole('button', { name: 'Mark reviewed' }));
+    expect(screen.getAllByRole('img', { name: 'Reviewed' })).toHaveLength(4);
+
+    // a filtered-out row leaves the count but stays selected
+    rerender(<TransactionTable transactions={transactions.slice(0, 2)} onTransactionClick={onClick} />);
+    expect(screen.getByRole('status')).toHaveTextContent('2 selected');
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Select all matching transactions' }));
+    expect(screen.queryByRole('region', { name: 'Selected transactions' })).not.toBeInTheDocument();
+  });
+
+  // verifies that the keyboard moves an announced active row through the grid
+  it('keyboard grid navigation', () => {
+    const onClick = vi.fn();
+    const transactions = Array.from({ length: 30 }, (_, index) =>
+      createTransaction({
+        id: `${index}`,
+        merchantName: `Merchant ${index}`,
+        timestamp: new Date(Date.UTC(2024, 0, 1, index)),
+      })
+    );
+    const { rerender } = render(<TransactionTable transactions={transactions} onTransactionClick={onClick} />);
+    const grid = screen.getByRole('grid', { name: 'Transactions' });
+    // the row the grid points at
+    const activeRow = () => document.getElementById(grid.getAttribute('aria-activedescendant')!);
+
+    // tabbing in starts on the first row, newest first
+    fireEvent.focus(grid);
+    expect(activeRow()).toHaveTextContent('Merchant 29');
+    fireEvent.keyDown(grid, { key: 'ArrowDown' });
+    expect(activeRow()).toHaveTextContent('Merchant 28');
+    expect(activeRow()).toHaveAttribute('aria-rowindex', '3');
+    expect(screen.getByText(/Merchant 28, -\$100\.00, completed, .*\. Row 2 of 30/)).toBeInTheDocument();
+
+    fireEvent.keyDown(grid, { key: 'PageDown' });
+    expect(activeRow()).toHaveTextContent('Merchant 19');
+    fireEvent.keyDown(grid, { key: 'End' });
+    expect(activeRow()).toHaveTextContent('Merchant 0');
+    fireEvent.keyDown(grid, { key: 'ArrowDown' });
+    expect(activeRow()).toHaveTextContent('Merchant 0');
+    fireEvent.keyDown(grid, { key: 'Home' });
+    fireEvent.keyDown(grid, { key: 'PageUp' });
+    expect(activeRow()).toHaveTextContent('Merchant 29');
+
+    fireEvent.keyDown(grid, { key: 'Enter' });
+    expect(onClick).toHaveBeenCalledWith(expect.objectContaining({ id: '29' }));
+    fireEvent.keyDown(grid, { key: ' ' });
+    expect(activeRow()).toHaveAttribute('aria-selected', 'true');
+
+    // a newer row streaming in keeps the same transaction active
+    const streamed = createTransaction({ id: 'new', merchantName: 'Streamed', timestamp: new Date(Date.UTC(2024, 1, 1)) });
+    rerender(<TransactionTable transactions={[...transactions, streamed]} onTransactionClick={onClick} />);
+    expect(activeRow()).toHaveTextContent('Merchant 29');
+    expect(activeRow()).toHaveAttribute('aria-rowindex', '3');
+
+    // group headers open and close from the keyboard
+    fireEvent.change(screen.getByRole('combobox', { name: 'Group by' }), { target: { value: 'month' } });
+    fireEvent.keyDown(grid, { key: 'Home' });
+    expect(activeRow()).toHaveAttribute('aria-expanded', 'true');
+    fireEvent.keyDown(grid, { key: 'Enter' });
+    expect(activeRow()).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.getByText(/February 2024 collapsed/)).toBeInTheDocument();
+  });
+
+  // verifies that the grid never points at a row scrolled out of the rendered window
+  it('active row outside the render window', () => {
+    const transactions = Array.from({ length: 60 }, (_, index) =>
+      createTransaction({
+        id: `${index}`,
+        merchantName: `Merchant ${index}`,
+        timestamp: new Date(Date.UTC(2024, 0, 1, index)),
+      })
+    );
+    render(<TransactionTable transactions={transactions} onTransactionClick={vi.fn()} />);
+    const grid = screen.getByRole('grid', { name: 'Transactions' });
+    const list = screen.getByTestId('virtual-list');
+    const activeId = () => grid.getAttribute('aria-activedescendant');
+
+    fireEvent.focus(grid);
+    expect(document.getElementById(activeId()!)).toHaveTextContent('Merchant 59');
+
+    // scrolled past the overscan, the first row leaves the DOM and the grid lets go of it
+    list.scrollTop = 56 * 30;
+    fireEvent.scroll(list);
+    expect(screen.queryByText('Merchant 59')).not.toBeInTheDocument();
+    expect(grid).not.toHaveAttribute('aria-activedescendant');
+
+    // moving on scrolls the next row back into the window before pointing at it
+    fireEvent.keyDown(grid, { key: 'ArrowDown' });
+    expect(document.getElementById(activeId()!)).toHaveTextContent('Merchant 58');
+
+    // jumping far beyond the overscan renders the target row as well
+    fireEvent.keyDown(grid, { key: 'End' });
+    expect(document.getElementById(activeId()!)).toHaveTextContent('Merchant 0');
+  });
+
+  // verifies that paused updates hold streamed rows back until the pill shows them highlighted
+  it('paused live updates', () => {
+    const onClick = vi.fn();
+    const transactions = createTransactions();
+    const { rerender } = render(<TransactionTable transactions={transactions} onTransactionClick={onClick} />);
+
+    const pauseButton = screen.getByRole('button', { name: 'Pause updates' });
+    fireEvent.click(pauseButton);
+    expect(pauseButton).toHaveAttribute('aria-pressed', 'true');
+
+    // a newer row streams in while paused: the shown rows hold still
+    const streamed = createTransaction({ id: 'new', merchantName: 'Streamed', timestamp: new Date('2024-03-05T10:00:00Z') });
+    rerender(<TransactionTable transactions={[...transactions, streamed]} onTransactionClick={onClick} />);
+    expect(screen.queryByText('Streamed')).not.toBeInTheDocument();
+    expect(screen.getAllByRole('row')[1].className).not.toMatch(/arrived/);
+
+    fireEvent.click(screen.getByRole('button', { name: '1 new transaction' }));
+    expect(screen.getAllByRole('row')[1]).toHaveTextContent('Streamed');
+    expect(screen.getAllByRole('row')[1].className).toMatch(/arrived/);
+    expect(screen.queryByRole('button', { name: '1 new transaction' })).not.toBeInTheDocument();
+  });
+
+  // verifies that compact tables only lower their rows and still list every transaction
+  it('compact density', () => {
+    const onClick = vi.fn();
+    const transactions = Array.from({ length: 30 }, (_, index) =>
+      createTransaction({ id: `${index}`, merchantName: `Merchant ${index}` })
+    );
+    render(<TransactionTable transactions={transactions} onTransactionClick={onClick} defaultPageSize={50} compact />);
+
+    fireEvent.click(screen.getByRole('button', { name: /pages/i }));
+    const rows = screen.getAllByRole('row').slice(1);
+    expect(rows).toHaveLength(30);
+    expect(rows[0].parentElement).toHaveStyle({ height: '40px' });
+    expect(screen.getByText('1–30 of 30')).toBeInTheDocument();
+  });
 });
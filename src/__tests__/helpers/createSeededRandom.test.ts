@@ -0,0 +1,35 @@
+/*
+* unit test for the createSeededRandom helper testing:
+* - identical seeds produce identical sequences
+* - different seeds diverge
+* - output stays within the [0, 1) range
+**/
+
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom } from '../../helpers/createSeededRandom';
+
+// draws a fixed number of values from a random source
+const take = (random: () => number, count: number) =>
+  Array.from({ length: count }, () => random());
+
+describe('createSeededRandom', () => {
+  // verifies that two sources created with the same seed emit the same sequence
+  it('is deterministic for a given seed', () => {
+    expect(take(createSeededRandom(42), 20)).toEqual(
+      take(createSeededRandom(42), 20)
+    );
+  });
+
+  // verifies that different seeds do not collapse into the same sequence
+  it('diverges for different seeds', () => {
+    expect(take(createSeededRandom(1), 5)).not.toEqual(
+      take(createSeededRandom(2), 5)
+    );
+  });
+
+  // verifies that every value is a float between 0 (inclusive) and 1 (exclusive)
+  it('returns values in the [0, 1) range', () => {
+    const values = take(createSeededRandom(-7.5), 1000);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+});
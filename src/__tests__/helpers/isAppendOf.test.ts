@@ -0,0 +1,28 @@
+/*
+ * unit test for the isAppendOf helper testing:
+ * - rows added to the end detected as an append
+ * - rows replaced anywhere, removed or inserted rejected
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { isAppendOf } from '../../helpers/isAppendOf';
+
+const ROWS = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+describe('isAppendOf', () => {
+  // verifies that the same rows followed by new ones count as an append
+  it('detects appended rows', () => {
+    expect(isAppendOf(ROWS, ROWS)).toBe(true);
+    expect(isAppendOf(ROWS, [...ROWS, { id: 'd' }])).toBe(true);
+  });
+
+  // verifies that a change in the middle is caught even when both ends match
+  it('rejects changed rows', () => {
+    expect(isAppendOf(ROWS, [ROWS[0], { id: 'b' }, ROWS[2]])).toBe(false);
+    expect(isAppendOf(ROWS, [ROWS[0], { id: 'x' }, ...ROWS.slice(1)])).toBe(
+      false
+    );
+    expect(isAppendOf(ROWS, ROWS.slice(0, 2))).toBe(false);
+    expect(isAppendOf([], ROWS)).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+/*
+ * unit test for the useColumnLayout hook testing:
+ * - the default layout without a stored one
+ * - layouts persisted per user and reloaded when the user changes
+ * - a layout to start from, e.g. a shared link's, kept out of storage
+ * - documents from newer schema versions left untouched
+ **/
+
+import { act } from 'react';
+import { renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useColumnLayout } from '../../hooks/useColumnLayout';
+import { COLUMN_LAYOUTS_KEY } from '../../utils/columnLayoutStorage';
+import {
+  applyColumnPreset,
+  DEFAULT_COLUMN_LAYOUT,
+} from '../../utils/tableColumns';
+
+describe('useColumnLayout', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // verifies that each user gets back the layout they chose, and others the default
+  it('persists layouts per user', () => {
+    const finance = applyColumnPreset(DEFAULT_COLUMN_LAYOUT, 'finance');
+    const { result, rerender } = renderHook(
+      ({ userId }) => useColumnLayout(userId),
+      { initialProps: { userId: 'ana' } }
+    );
+    expect(result.current.columns).toEqual(DEFAULT_COLUMN_LAYOUT);
+
+    act(() => result.current.setColumns(finance));
+    expect(result.current.columns).toEqual(finance);
+
+    rerender({ userId: 'ben' });
+    expect(result.current.columns).toEqual(DEFAULT_COLUMN_LAYOUT);
+
+    rerender({ userId: 'ana' });
+    expect(result.current.columns).toEqual(finance);
+
+    const { result: reloaded } = renderHook(() => useColumnLayout('ana'));
+    expect(reloaded.current.columns).toEqual(finance);
+  });
+
+  // verifies that a given starting layout is shown without replacing the stored one
+  it('starts from a given layout', () => {
+    const finance = applyColumnPreset(DEFAULT_COLUMN_LAYOUT, 'finance');
+    const fraud = applyColumnPreset(DEFAULT_COLUMN_LAYOUT, 'fraud');
+    const stored = renderHook(() => useColumnLayout('ana'));
+    act(() => stored.result.current.setColumns(finance));
+
+    const { result, rerender } = renderHook(
+      ({ userId }) => useColumnLayout(userId, fraud),
+      { initialProps: { userId: 'ana' } }
+    );
+    expect(result.current.columns).toEqual(fraud);
+    // the stored layout is still the one the user chose
+    const { result: reloaded } = renderHook(() => useColumnLayout('ana'));
+    expect(reloaded.current.columns).toEqual(finance);
+
+    // another user gets their own stored layout
+    rerender({ userId: 'ben' });
+    expect(result.current.columns).toEqual(DEFAULT_COLUMN_LAYOUT);
+  });
+
+  // verifies that a document written by a newer version is neither used nor overwritten
+  it('leaves newer documents alone', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const stored = JSON.stringify({ version: 99, layouts: { ana: [] } });
+    localStorage.setItem(COLUMN_LAYOUTS_KEY, stored);
+
+    const { result } = renderHook(() => useColumnLayout('ana'));
+    expect(result.current.columns).toEqual(DEFAULT_COLUMN_LAYOUT);
+
+    act(() =>
+      result.current.setColumns(
+        applyColumnPreset(DEFAULT_COLUMN_LAYOUT, 'fraud')
+      )
+    );
+    expect(localStorage.getItem(COLUMN_LAYOUTS_KEY)).toBe(stored);
+  });
+});
@@ -0,0 +1,82 @@
+/*
+ * unit test for the useDashboardUrlState hook testing:
+ * - history entries for state changes, replaced ones for search edits
+ * - restoring state on back and forward navigation
+ **/
+
+import { act } from 'react';
+import { renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useDashboardUrlState } from '../../hooks/useDashboardUrlState';
+import type { DashboardUrlState } from '../../utils/dashboardUrlState';
+import { DEFAULT_TRANSACTION_SORT } from '../../constants';
+
+const initialState: DashboardUrlState = {
+  filters: {},
+  searchTerm: '',
+  sort: DEFAULT_TRANSACTION_SORT,
+  transactionId: null,
+};
+
+describe('useDashboardUrlState', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // verifies that filter changes push entries while search edits replace them
+  it('writes state changes to the URL', () => {
+    const pushState = vi.spyOn(window.history, 'pushState');
+    const replaceState = vi.spyOn(window.history, 'replaceState');
+    const { rerender } = renderHook(
+      ({ state }) => useDashboardUrlState({ state, onRestore: vi.fn() }),
+      { initialProps: { state: initialState } }
+    );
+    expect(pushState).not.toHaveBeenCalled();
+    expect(replaceState).not.toHaveBeenCalled();
+
+    rerender({ state: { ...initialState, searchTerm: 'amaz' } });
+    rerender({ state: { ...initialState, searchTerm: 'amazon' } });
+    rerender({
+      state: {
+        ...initialState,
+        searchTerm: 'amazon',
+        filters: { status: 'failed' },
+      },
+    });
+    rerender({
+      state: {
+        ...initialState,
+        searchTerm: 'amazon',
+        filters: { status: 'failed' },
+        transactionId: 'txn_1',
+      },
+    });
+
+    expect(replaceState).toHaveBeenCalledTimes(2);
+    expect(pushState).toHaveBeenCalledTimes(2);
+    expect(window.location.search).toBe('?q=amazon&status=failed');
+    expect(window.location.hash).toBe('#txn=txn_1');
+  });
+
+  // verifies that navigating back restores the state of the entry
+  it('restores state on popstate', () => {
+    const onRestore = vi.fn();
+    renderHook(() => useDashboardUrlState({ state: initialState, onRestore }));
+
+    act(() => {
+      window.history.pushState(null, '', '/?status=pending&sort=amount:asc');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+
+    expect(onRestore).toHaveBeenCalledWith({
+      filters: { facets: { status: { include: ['pending'], exclude: [] } } },
+      searchTerm: '',
+      sort: [{ field: 'amount', direction: 'asc' }],
+      transactionId: null,
+    });
+  });
+});
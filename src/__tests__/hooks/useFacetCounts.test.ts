@@ -0,0 +1,109 @@
+/*
+ * unit test for the useFacetCounts hook testing:
+ * - rows sent to the worker as resets and appends
+ * - only the newest count request waiting while one runs
+ * - answers applied while newer requests wait, as rows keep streaming in
+ **/
+
+import { act } from 'react';
+import { renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useFacetCounts } from '../../hooks/useFacetCounts';
+import type {
+  FacetCounts,
+  FacetCountsWorkerRequest,
+  FacetCountsWorkerResponse,
+} from '../../types/facetCounts';
+import type { FilterOptions, Transaction } from '../../types/transaction';
+import { createTransaction } from '../testUtils';
+
+type Listener = (event: MessageEvent<FacetCountsWorkerResponse>) => void;
+type CountRequest = Extract<FacetCountsWorkerRequest, { type: 'count' }>;
+
+// mock worker that records requests and lets tests answer them
+class MockFacetWorker {
+  public posted: FacetCountsWorkerRequest[] = [];
+  public listeners = new Set<Listener>();
+  public terminate = vi.fn();
+  constructor() {
+    MockFacetWorker.instances.push(this);
+  }
+  static instances: MockFacetWorker[] = [];
+  addEventListener(_type: string, listener: Listener) {
+    this.listeners.add(listener);
+  }
+  postMessage(message: FacetCountsWorkerRequest) {
+    this.posted.push(message);
+  }
+  // count requests sent so far
+  counts() {
+    return this.posted.filter(
+      (request): request is CountRequest => request.type === 'count'
+    );
+  }
+  answer(jobId: number, counts: FacetCounts) {
+    const data: FacetCountsWorkerResponse = { type: 'result', jobId, counts };
+    const event = new MessageEvent('message', { data });
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+const FILTERS: FilterOptions = { type: 'all', status: 'all' };
+
+// counts with the number of merchants seen, enough to tell answers apart
+const countsFor = (merchants: number) =>
+  ({ merchant: { shop: merchants } }) as unknown as FacetCounts;
+
+// every row of the list passes the filters
+const allRows = (transactions: Transaction[]) =>
+  Int32Array.from(transactions, (_, index) => index);
+
+describe('useFacetCounts', () => {
+  // stub Worker before each test
+  beforeEach(() => {
+    MockFacetWorker.instances = [];
+    vi.stubGlobal('Worker', MockFacetWorker as unknown as typeof Worker);
+  });
+
+  // cleanup global stubs after each test
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // verifies that counts keep updating while batches stream in faster than answers
+  it('applies answers while rows keep streaming in', () => {
+    let transactions = [createTransaction({ id: '0' })];
+    const { result, rerender } = renderHook(
+      ({ rows }) => useFacetCounts({ transactions, rows, filters: FILTERS }),
+      { initialProps: { rows: allRows(transactions) } }
+    );
+    const worker = MockFacetWorker.instances[0];
+    expect(worker.posted[0]).toMatchObject({ type: 'reset' });
+    expect(result.current).toBeNull();
+
+    // three batches arrive before the first count is answered
+    for (let batch = 1; batch <= 3; batch += 1) {
+      transactions = [...transactions, createTransaction({ id: `${batch}` })];
+      rerender({ rows: allRows(transactions) });
+    }
+    expect(worker.posted.filter(r => r.type === 'append')).toHaveLength(3);
+    expect(worker.counts()).toHaveLength(1);
+
+    // the first answer shows right away and the newest waiting request goes out
+    act(() => worker.answer(worker.counts()[0].jobId, countsFor(1)));
+    expect(result.current).toEqual(countsFor(1));
+    const [, latest] = worker.counts();
+    expect(latest.rows).toHaveLength(4);
+
+    // more batches keep arriving while it runs
+    transactions = [...transactions, createTransaction({ id: '4' })];
+    rerender({ rows: allRows(transactions) });
+    act(() => worker.answer(latest.jobId, countsFor(4)));
+    expect(result.current).toEqual(countsFor(4));
+
+    const last = worker.counts()[2];
+    act(() => worker.answer(last.jobId, countsFor(5)));
+    expect(result.current).toEqual(countsFor(5));
+    expect(worker.counts()).toHaveLength(3);
+  });
+});
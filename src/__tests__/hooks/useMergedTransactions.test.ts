@@ -0,0 +1,57 @@
+/*
+ * unit test for the useMergedTransactions hook testing:
+ * - streamed and imported rows appended in arrival order
+ * - the merged list only growing while its inputs grow
+ * - a rebuild when imports are cleared
+ **/
+
+import { renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { useMergedTransactions } from '../../hooks/useMergedTransactions';
+import { isAppendOf } from '../../helpers/isAppendOf';
+import { createTransaction } from '../testUtils';
+
+const makeRows = (count: number, prefix: string) =>
+  Array.from({ length: count }, (_, index) =>
+    createTransaction({ id: `${prefix}-${index}` })
+  );
+
+describe('useMergedTransactions', () => {
+  // verifies that a batch streamed after an import lands behind the imported rows
+  it('appends rows from either input in arrival order', () => {
+    const seed = makeRows(2, 'seed');
+    const imported = makeRows(2, 'imp');
+    const { result, rerender } = renderHook(
+      ({ source, imports }) => useMergedTransactions(source, imports),
+      { initialProps: { source: seed, imports: [] as typeof imported } }
+    );
+
+    rerender({ source: seed, imports: imported });
+    const withImports = result.current;
+
+    const streamed = seed.concat(makeRows(1, 'batch'));
+    rerender({ source: streamed, imports: imported });
+
+    expect(isAppendOf(withImports, result.current)).toBe(true);
+    expect(result.current.map(transaction => transaction.id)).toEqual([
+      'seed-0',
+      'seed-1',
+      'imp-0',
+      'imp-1',
+      'batch-0',
+    ]);
+  });
+
+  // verifies that removing rows rebuilds the list from its inputs
+  it('rebuilds when imports are cleared', () => {
+    const seed = makeRows(2, 'seed');
+    const { result, rerender } = renderHook(
+      ({ source, imports }) => useMergedTransactions(source, imports),
+      { initialProps: { source: seed, imports: makeRows(1, 'imp') } }
+    );
+
+    rerender({ source: seed, imports: [] });
+
+    expect(result.current).toEqual(seed);
+  });
+});
@@ -125,6 +125,7 @@ describe('useRiskAnalytics', () => {
     const partialSummary: AnalyticsSummary = {
       totalRisk: 10,
       highRiskTransactions: 2,
+      risks: {},
       patterns: {},
       anomalies: {},
       generatedAt: Date.now(),
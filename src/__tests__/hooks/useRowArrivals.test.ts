@@ -0,0 +1,57 @@
+/*
+ * unit test for the useRowArrivals hook testing:
+ * - the initial load not counted as arrivals
+ * - streamed rows marked as arrived and forgotten after a few seconds
+ * - a new reset key re-reading the rows without arrivals
+ **/
+
+import { act } from 'react';
+import { renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useRowArrivals } from '../../hooks/useRowArrivals';
+
+const makeRows = (count: number, prefix = 'row') =>
+  Array.from({ length: count }, (_, index) => ({ id: `${prefix}-${index}` }));
+
+describe('useRowArrivals', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // verifies that rows streamed in after the first load are arrivals until the highlight ends
+  it('marks streamed rows as arrived for a few seconds', () => {
+    const rows = makeRows(3);
+    const { result, rerender } = renderHook(
+      ({ rows, resetKey }) => useRowArrivals({ rows, resetKey }),
+      { initialProps: { rows, resetKey: 'all' } }
+    );
+    expect(result.current.size).toBe(0);
+
+    rerender({ rows: [...makeRows(1, 'new'), ...rows], resetKey: 'all' });
+    expect([...result.current]).toEqual(['new-0']);
+
+    act(() => vi.advanceTimersByTime(3000));
+    expect(result.current.size).toBe(0);
+  });
+
+  // verifies that rows read under a new reset key are not arrivals
+  it('ignores rows re-read under a new key', () => {
+    const { result, rerender } = renderHook(
+      ({ rows, resetKey }) => useRowArrivals({ rows, resetKey }),
+      { initialProps: { rows: makeRows(2), resetKey: 'all' } }
+    );
+
+    rerender({
+      rows: [...makeRows(2), ...makeRows(1, 'new')],
+      resetKey: 'all',
+    });
+    expect(result.current.size).toBe(1);
+
+    rerender({ rows: makeRows(4, 'failed'), resetKey: 'failed' });
+    expect(result.current.size).toBe(0);
+  });
+});
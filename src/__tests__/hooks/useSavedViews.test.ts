@@ -0,0 +1,276 @@
+/*
+ * unit test for the useSavedViews hook testing:
+ * - saving, renaming, updating and deleting views
+ * - default view bookkeeping
+ * - persistence to localStorage with dates restored on load
+ * - version 1 documents migrated to facets and sort orders
+ * - column layouts restored, and given to views stored before them
+ * - documents from unknown schema versions left untouched
+ * - malformed sort keys, filters and dates dropped on load
+ * - each change stored once under StrictMode
+ **/
+
+import { act, StrictMode } from 'react';
+import { renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useSavedViews } from '../../hooks/useSavedViews';
+import type { SavedViewState } from '../../types/savedView';
+import {
+  loadSavedViews,
+  SAVED_VIEWS_KEY,
+  SAVED_VIEWS_VERSION,
+} from '../../utils/savedViewsStorage';
+import {
+  applyColumnPreset,
+  DEFAULT_COLUMN_LAYOUT,
+} from '../../utils/tableColumns';
+
+// the columns the user has while views are loaded
+const userColumns = applyColumnPreset(DEFAULT_COLUMN_LAYOUT, 'finance');
+
+const fraudReview: SavedViewState = {
+  filters: {
+    status: 'failed',
+    dateRange: { start: new Date('2026-01-01T00:00:00Z') },
+    amountRange: { min: 500 },
+  },
+  searchTerm: 'merchant:amazon',
+  sort: [
+    { field: 'amount', direction: 'desc' },
+    { field: 'merchantName', direction: 'asc' },
+  ],
+  groupBy: 'category',
+  columns: applyColumnPreset(DEFAULT_COLUMN_LAYOUT, 'fraud'),
+};
+
+describe('useSavedViews', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // verifies that views can be saved, renamed, made default and deleted
+  it('manages views', () => {
+    const { result } = renderHook(() =>
+      useSavedViews({ columns: userColumns })
+    );
+
+    act(() => result.current.saveView(' Fraud review ', fraudReview));
+    const [view] = result.current.views;
+    expect(view).toMatchObject({ name: 'Fraud review', ...fraudReview });
+
+    act(() => result.current.setDefaultView(view.id));
+    act(() => result.current.renameView(view.id, 'Morning fraud review'));
+    act(() =>
+      result.current.updateView(view.id, { ...fraudReview, searchTerm: '' })
+    );
+    expect(result.current.defaultViewId).toBe(view.id);
+    expect(result.current.views[0]).toMatchObject({
+      name: 'Morning fraud review',
+      searchTerm: '',
+    });
+
+    act(() => result.current.deleteView(view.id));
+    expect(result.current.views).toEqual([]);
+    expect(result.current.defaultViewId).toBeNull();
+  });
+
+  // verifies that views survive a reload with their dates intact
+  it('persists views across mounts', () => {
+    const first = renderHook(() => useSavedViews({ columns: userColumns }));
+    act(() => first.result.current.saveView('Fraud review', fraudReview));
+    act(() =>
+      first.result.current.setDefaultView(first.result.current.views[0].id)
+    );
+    first.unmount();
+
+    const { result } = renderHook(() =>
+      useSavedViews({ columns: userColumns })
+    );
+    expect(result.current.views[0].filters.dateRange?.start).toEqual(
+      new Date('2026-01-01T00:00:00Z')
+    );
+    expect(result.current.views[0].groupBy).toBe('category');
+    expect(result.current.views[0].columns).toEqual(fraudReview.columns);
+    expect(result.current.defaultViewId).toBe(result.current.views[0].id);
+    expect(JSON.parse(localStorage.getItem(SAVED_VIEWS_KEY)!).version).toBe(
+      SAVED_VIEWS_VERSION
+    );
+  });
+
+  // verifies that version 1 views have their single-value filters moved into facets
+  // and their sort key wrapped into a sort order
+  it('migrates version 1 documents', () => {
+    localStorage.setItem(
+      SAVED_VIEWS_KEY,
+      JSON.stringify({
+        version: 1,
+        views: [
+          {
+            id: 'v1',
+            name: 'Failed travel',
+            filters: { type: 'all', status: 'failed', category: 'Travel' },
+            searchTerm: '',
+            sort: { field: 'timestamp', direction: 'desc' },
+          },
+        ],
+        defaultViewId: 'v1',
+      })
+    );
+
+    const { result } = renderHook(() =>
+      useSavedViews({ columns: userColumns })
+    );
+    expect(result.current.views[0].filters).toEqual({
+      facets: {
+        category: { include: ['Travel'], exclude: [] },
+        status: { include: ['failed'], exclude: [] },
+      },
+    });
+    expect(result.current.views[0].sort).toEqual([
+      { field: 'timestamp', direction: 'desc' },
+    ]);
+    expect(result.current.views[0].columns).toEqual(userColumns);
+    expect(result.current.defaultViewId).toBe('v1');
+  });
+
+  // verifies that version 3 views, stored without columns, take the user's current ones
+  it('migrates version 3 documents', () => {
+    localStorage.setItem(
+      SAVED_VIEWS_KEY,
+      JSON.stringify({
+        version: 3,
+        views: [
+          {
+            id: 'v3',
+            name: 'By category',
+            filters: {},
+            searchTerm: '',
+            sort: [{ field: 'timestamp', direction: 'desc' }],
+            groupBy: 'category',
+          },
+        ],
+        defaultViewId: null,
+      })
+    );
+
+    expect(loadSavedViews(userColumns).views).toEqual([
+      expect.objectContaining({
+        id: 'v3',
+        groupBy: 'category',
+        columns: userColumns,
+      }),
+    ]);
+  });
+
+  // verifies that damaged fields are dropped while the rest of the view is kept
+  it('drops malformed stored fields', () => {
+    localStorage.setItem(
+      SAVED_VIEWS_KEY,
+      JSON.stringify({
+        version: SAVED_VIEWS_VERSION,
+        views: [
+          {
+            id: 'v1',
+            name: 'Damaged',
+            createdAt: 1,
+            updatedAt: 'yesterday',
+            filters: {
+              datePreset: 'someday',
+              dateRange: { start: 'garbage', end: '2024-01-01T00:00:00Z' },
+              amountRange: { min: '5', max: 100 },
+              status: 'weird',
+              facets: {
+                status: { include: ['failed', 3], exclude: 'x' },
+                bogus: { include: ['a'], exclude: [] },
+              },
+              fuzzy: 'yes',
+            },
+            searchTerm: 42,
+            sort: [
+              { field: 'bogus', direction: 'desc' },
+              { field: 'amount', direction: 'up' },
+              { field: 'amount', direction: 'asc' },
+            ],
+            groupBy: 'constructor',
+            columns: [{ id: 'bogus', visible: true, width: 100 }],
+          },
+          {
+            id: 'v2',
+            name: 'Unsortable',
+            filters: {},
+            sort: [{ field: 'toString', direction: 'asc' }],
+          },
+        ],
+        defaultViewId: 'v2',
+      })
+    );
+
+    expect(loadSavedViews(userColumns)).toEqual({
+      views: [
+        {
+          id: 'v1',
+          name: 'Damaged',
+          createdAt: 1,
+          updatedAt: 1,
+          filters: {
+            dateRange: { end: new Date('2024-01-01T00:00:00Z') },
+            amountRange: { max: 100 },
+            facets: { status: { include: ['failed'], exclude: [] } },
+          },
+          searchTerm: '',
+          sort: [{ field: 'amount', direction: 'asc' }],
+          columns: userColumns,
+        },
+      ],
+      defaultViewId: null,
+    });
+  });
+
+  // verifies that changes are stored after they commit, not from inside the state updater
+  it('stores each change once under StrictMode', () => {
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+    const { result } = renderHook(
+      () => useSavedViews({ columns: userColumns }),
+      {
+        wrapper: StrictMode,
+      }
+    );
+    expect(setItem).not.toHaveBeenCalled();
+
+    // the second change is applied while rendering, where StrictMode runs updaters twice
+    act(() => {
+      result.current.saveView('Fraud review', fraudReview);
+      result.current.saveView('Weekly spend', fraudReview);
+    });
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(loadSavedViews(userColumns).views).toHaveLength(2);
+  });
+
+  // verifies that a newer schema is neither loaded nor overwritten, and corrupt data is ignored
+  it('leaves unknown schema versions alone', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const newer = JSON.stringify({
+      version: SAVED_VIEWS_VERSION + 1,
+      views: [{ id: 'v1', name: 'From the future' }],
+      defaultViewId: null,
+    });
+    localStorage.setItem(SAVED_VIEWS_KEY, newer);
+
+    const { result } = renderHook(() =>
+      useSavedViews({ columns: userColumns })
+    );
+    expect(result.current.views).toEqual([]);
+    act(() => result.current.saveView('Fraud review', fraudReview));
+    expect(localStorage.getItem(SAVED_VIEWS_KEY)).toBe(newer);
+
+    localStorage.setItem(SAVED_VIEWS_KEY, '{not json');
+    expect(loadSavedViews(userColumns)).toEqual({
+      views: [],
+      defaultViewId: null,
+    });
+  });
+});
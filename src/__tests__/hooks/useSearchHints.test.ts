@@ -0,0 +1,45 @@
+/*
+ * unit test for the useSearchHints hook testing:
+ * - appended rows added to the counts
+ * - other changes recounting every row
+ * - counts unaffected by StrictMode's repeated effects
+ **/
+
+import { StrictMode } from 'react';
+import { renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { useSearchHints } from '../../hooks/useSearchHints';
+import type { SearchHint } from '../../types/searchQuery';
+import { createTransaction } from '../testUtils';
+
+// merchant hints as value and count pairs
+const merchants = (hints: SearchHint[]) =>
+  hints
+    .filter(hint => hint.field === 'merchant')
+    .map(hint => [hint.value, hint.count]);
+
+describe('useSearchHints', () => {
+  // verifies that streamed rows add to the counts and a new list starts over
+  it('counts appended rows and recounts replaced ones', () => {
+    const first = [createTransaction({ merchantName: 'Uber' })];
+    const { result, rerender } = renderHook(
+      ({ transactions }) => useSearchHints(transactions),
+      { initialProps: { transactions: first }, wrapper: StrictMode }
+    );
+    expect(merchants(result.current)).toEqual([['Uber', 1]]);
+
+    const appended = [
+      ...first,
+      createTransaction({ merchantName: 'Uber' }),
+      createTransaction({ merchantName: 'Lyft' }),
+    ];
+    rerender({ transactions: appended });
+    expect(merchants(result.current)).toEqual([
+      ['Uber', 2],
+      ['Lyft', 1],
+    ]);
+
+    rerender({ transactions: [createTransaction({ merchantName: 'Lyft' })] });
+    expect(merchants(result.current)).toEqual([['Lyft', 1]]);
+  });
+});
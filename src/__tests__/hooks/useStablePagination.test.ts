@@ -0,0 +1,58 @@
+/*
+ * unit test for the useStablePagination hook testing:
+ * - the initial load followed rather than held back
+ * - a new reset key re-reading the rows and returning to the first page
+ * - rows leaving the list dropping out of their page
+ **/
+
+import { act } from 'react';
+import { renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { useStablePagination } from '../../hooks/useStablePagination';
+
+const makeRows = (count: number, prefix = 'row') =>
+  Array.from({ length: count }, (_, index) => ({ id: `${prefix}-${index}` }));
+
+describe('useStablePagination', () => {
+  // verifies that the first rows to load are paged and later ones wait for a new key
+  it('follows the initial load and resets on a new key', () => {
+    const { result, rerender } = renderHook(
+      ({ rows, resetKey }) =>
+        useStablePagination({ rows, pageSize: 2, enabled: true, resetKey }),
+      { initialProps: { rows: makeRows(0), resetKey: 'all' } }
+    );
+    expect(result.current.pageCount).toBe(1);
+
+    rerender({ rows: makeRows(5), resetKey: 'all' });
+    expect(result.current.total).toBe(5);
+    act(() => result.current.setPage(9));
+    expect(result.current.page).toBe(2);
+    expect(result.current.pageRows).toEqual([{ id: 'row-4' }]);
+
+    rerender({
+      rows: [...makeRows(5), ...makeRows(2, 'new')],
+      resetKey: 'all',
+    });
+    expect(result.current.total).toBe(5);
+    expect(result.current.pendingCount).toBe(2);
+
+    rerender({ rows: makeRows(3, 'new'), resetKey: 'failed' });
+    expect(result.current.page).toBe(0);
+    expect(result.current.total).toBe(3);
+    expect(result.current.pendingCount).toBe(0);
+  });
+
+  // verifies that removed rows leave the pages and the page is clamped to what is left
+  it('drops rows that leave the list', () => {
+    const rows = makeRows(6);
+    const { result, rerender } = renderHook(
+      ({ rows }) => useStablePagination({ rows, pageSize: 2, enabled: true }),
+      { initialProps: { rows } }
+    );
+    act(() => result.current.setPage(2));
+
+    rerender({ rows: rows.slice(0, 3) });
+    expect(result.current.page).toBe(1);
+    expect(result.current.pageRows).toEqual([{ id: 'row-2' }]);
+  });
+});
@@ -2,17 +2,52 @@
 * unit test for the useTransactionFilters hook testing:
 * - search term filtering across transaction fields
 * - type, status, and category filter combinations
-* - pagination behavior with compact view toggle
+* - multi-value include/exclude facets
+* - custom date windows and amount bounds
+* - every match returned, without a page cap
 * - performance with large datasets (2000+ transactions)
+* - text search answered by the search index worker past the threshold
+* - no stale index matches shown after rows are replaced
 * - unique category extraction from transactions
 **/
 
 import { act } from 'react';
 import { renderHook, waitFor } from '@testing-library/react';
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 import { useTransactionFilters } from '../../hooks/useTransactionFilters';
+import type { Transaction } from '../../types/transaction';
+import type { SearchIndexWorkerRequest } from '../../types/searchIndex';
+import { createSearchIndex } from '../../utils/createSearchIndex';
 import { createTransaction } from '../testUtils';
 
+// mock worker answering index queries from a real index, asynchronously like a worker
+class MockSearchIndexWorker {
+  public posted: SearchIndexWorkerRequest[] = [];
+  private listener: ((event: MessageEvent) => void) | null = null;
+  private index = createSearchIndex();
+  public terminate = vi.fn();
+  constructor() {
+    MockSearchIndexWorker.instances.push(this);
+  }
+  static instances: MockSearchIndexWorker[] = [];
+  addEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listener = listener;
+  }
+  postMessage(message: SearchIndexWorkerRequest) {
+    this.posted.push(message);
+    if (message.type === 'reset') this.index.reset(message.transactions);
+    if (message.type === 'append') this.index.append(message.transactions);
+    if (message.type === 'query') {
+      const data = {
+        type: 'result',
+        jobId: message.jobId,
+        matches: message.terms.map(term => this.index.match(term)),
+      };
+      setTimeout(() => this.listener?.(new MessageEvent('message', { data })));
+    }
+  }
+}
+
 // helper to generate test transactions with various attributes for filter testing
 const makeTransactions = () => [
   createTransaction({ id: '1', description: 'Amazon purchase', merchantName: 'Amazon', category: 'shopping' }),
@@ -22,11 +57,15 @@ const makeTransactions = () => [
 ];
 
 describe('useTransactionFilters', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
   // verifies that search term filters transactions by matching description and merchant name
   it('applies search term filtering correctly', async () => {
     const transactions = makeTransactions();
     const { result } = renderHook(() =>
-      useTransactionFilters({ transactions, itemsPerPage: 10, compactView: false })
+      useTransactionFilters({ transactions })
     );
 
     await act(async () => {
@@ -43,7 +82,7 @@ describe('useTransactionFilters', () => {
   it('handles type/status/category filters', async () => {
     const transactions = makeTransactions();
     const { result } = renderHook(() =>
-      useTransactionFilters({ transactions, itemsPerPage: 10, compactView: false })
+      useTransactionFilters({ transactions })
     );
 
     await act(async () => {
@@ -61,30 +100,71 @@ describe('useTransactionFilters', () => {
     });
   });
 
-  // verifies that pagination respects itemsPerPage and compact view limits displayed results
-  it('pagination with compactView', async () => {
-    const transactions = Array.from({ length: 20 }, (_, index) =>
-      createTransaction({ id: `${index}`, description: `Item ${index}`, merchantName: `Shop ${index}` })
+  // verifies that facets keep rows with any included value and drop rows with an excluded one,
+  // and that facet counts are taken over the rows before the facets
+  it('applies include/exclude facets', async () => {
+    const transactions = makeTransactions();
+    const { result } = renderHook(() =>
+      useTransactionFilters({ transactions })
     );
 
-    const { result, rerender } = renderHook(
-      ({ compactView }: { compactView: boolean }) =>
-        useTransactionFilters({ transactions, itemsPerPage: 5, compactView }),
-      { initialProps: { compactView: false } }
+    await act(async () => {
+      result.current.setFilters({
+        facets: {
+          category: { include: ['Shopping', 'food', 'transport'], exclude: [] },
+          status: { include: [], exclude: ['pending'] },
+          merchant: { include: [], exclude: ['STARBUCKS'] },
+        },
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.filteredTransactions.map(t => t.id)).toEqual(['1']);
+      expect(Array.from(result.current.facetRows)).toEqual([0, 1, 2, 3]);
+    });
+  });
+
+  // verifies that custom date windows and amount bounds narrow results, using getAmount when given
+  it('applies date range and amount range filters', async () => {
+    const transactions = [
+      createTransaction({ id: 'a', amount: 50, timestamp: new Date('2024-03-01T10:00:00Z') }),
+      createTransaction({ id: 'b', amount: 150, timestamp: new Date('2024-03-02T10:00:00Z') }),
+      createTransaction({ id: 'c', amount: 300, timestamp: new Date('2024-03-03T10:00:00Z') }),
+    ];
+    // stable like transactions, since a new function re-runs the filters
+    const getAmount = (transaction: Transaction) => transaction.amount * 2;
+    const { result } = renderHook(() =>
+      useTransactionFilters({ transactions, getAmount })
     );
 
+    await act(async () => {
+      result.current.setFilters({
+        ...result.current.filters,
+        datePreset: 'custom',
+        dateRange: { start: new Date('2024-03-02T00:00:00Z') },
+        amountRange: { min: 200, max: 400 },
+      });
+    });
+
     await waitFor(() => {
-      expect(result.current.filteredTransactions).toHaveLength(20);
+      expect(result.current.filteredTransactions.map(t => t.id)).toEqual(['b']);
     });
+  });
 
-    rerender({ compactView: true });
+  // verifies that every match is returned; paging and row density are up to the table
+  it('returns every match', async () => {
+    const transactions = Array.from({ length: 20 }, (_, index) =>
+      createTransaction({ id: `${index}`, description: `Item ${index}`, merchantName: `Shop ${index}` })
+    );
+
+    const { result } = renderHook(() => useTransactionFilters({ transactions }));
 
     await act(async () => {
-      result.current.applyFilters(result.current.filters, result.current.searchTerm);
+      result.current.setSearchTerm('shop');
     });
 
     await waitFor(() => {
-      expect(result.current.filteredTransactions).toHaveLength(5);
+      expect(result.current.filteredTransactions).toHaveLength(20);
     });
   });
 
@@ -95,7 +175,7 @@ describe('useTransactionFilters', () => {
     );
 
     const { result } = renderHook(() =>
-      useTransactionFilters({ transactions, itemsPerPage: 100, compactView: false })
+      useTransactionFilters({ transactions })
     );
 
     await act(async () => {
@@ -112,10 +192,71 @@ describe('useTransactionFilters', () => {
   it('unique categories extraction', () => {
     const transactions = makeTransactions();
     const { result } = renderHook(() =>
-      useTransactionFilters({ transactions, itemsPerPage: 10, compactView: false })
+      useTransactionFilters({ transactions })
     );
 
     const categories = result.current.getUniqueCategories();
     expect(categories).toEqual(expect.arrayContaining(['shopping', 'food', 'income', 'transport']));
   });
+
+  // verifies that past the threshold text terms are looked up in the index worker and appends are sent incrementally
+  it('searches through the index worker past the threshold', async () => {
+    MockSearchIndexWorker.instances = [];
+    vi.stubGlobal('Worker', MockSearchIndexWorker as unknown as typeof Worker);
+    const initial = makeTransactions();
+    const { result, rerender } = renderHook(
+      ({ transactions }: { transactions: Transaction[] }) =>
+        useTransactionFilters({ transactions, indexThreshold: 3 }),
+      { initialProps: { transactions: initial } }
+    );
+
+    await act(async () => {
+      result.current.setSearchTerm('(uber OR coffee) -status:pending');
+    });
+
+    await waitFor(() => {
+      expect(result.current.filteredTransactions.map(t => t.id)).toEqual(['2']);
+    });
+
+    rerender({
+      transactions: initial.concat(createTransaction({ id: '5', merchantName: 'Blue Bottle Coffee' })),
+    });
+
+    await waitFor(() => {
+      expect(result.current.filteredTransactions.map(t => t.id)).toEqual(['2', '5']);
+    });
+    const [worker] = MockSearchIndexWorker.instances;
+    expect(worker.posted.map(message => message.type)).toEqual(['reset', 'query', 'append', 'query']);
+  });
+
+  // verifies that replaced rows are scanned right away instead of showing the old matches' positions
+  it('keeps matches in step while the index answers a replaced list', async () => {
+    MockSearchIndexWorker.instances = [];
+    vi.stubGlobal('Worker', MockSearchIndexWorker as unknown as typeof Worker);
+    const initial = makeTransactions();
+    const { result, rerender } = renderHook(
+      ({ transactions }: { transactions: Transaction[] }) =>
+        useTransactionFilters({ transactions, indexThreshold: 3 }),
+      { initialProps: { transactions: initial } }
+    );
+
+    await act(async () => {
+      result.current.setSearchTerm('coffee');
+    });
+    await waitFor(() => {
+      expect(result.current.filteredTransactions.map(t => t.id)).toEqual(['2']);
+    });
+
+    // the same rows in another order: before the index answers, the match is still row 2
+    rerender({ transactions: [...initial].reverse() });
+    expect(result.current.filteredTransactions.map(t => t.id)).toEqual(['2']);
+
+    await waitFor(() => {
+      const [worker] = MockSearchIndexWorker.instances;
+      expect(worker.posted.map(message => message.type)).toEqual(['reset', 'query', 'reset', 'query']);
+    });
+    await waitFor(() => {
+      expect(result.current.filteredTransactions.map(t => t.id)).toEqual(['2']);
+    });
+  });
 });
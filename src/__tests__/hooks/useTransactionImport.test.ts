@@ -0,0 +1,142 @@
+/*
+ * unit test for the useTransactionImport hook testing:
+ * - inspect and parse requests tagged with increasing job ids
+ * - responses for a replaced file ignored
+ * - responses arriving after a reset ignored
+ **/
+
+import { act } from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useTransactionImport } from '../../hooks/useTransactionImport';
+import type {
+  ImportWorkerRequest,
+  ImportWorkerResponse,
+} from '../../types/transactionImport';
+
+type Listener = (event: MessageEvent<ImportWorkerResponse>) => void;
+
+// mock worker that records requests and lets tests answer them
+class MockImportWorker {
+  public posted: ImportWorkerRequest[] = [];
+  public listeners = new Set<Listener>();
+  public terminate = vi.fn();
+  constructor() {
+    MockImportWorker.instances.push(this);
+  }
+  static instances: MockImportWorker[] = [];
+  addEventListener(_type: string, listener: Listener) {
+    this.listeners.add(listener);
+  }
+  postMessage(message: ImportWorkerRequest) {
+    this.posted.push(message);
+  }
+  emit(data: ImportWorkerResponse) {
+    const event = new MessageEvent('message', { data });
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+// file stand-in whose contents read immediately
+const createFile = (name: string, text: string) =>
+  ({ name, text: () => Promise.resolve(text) }) as unknown as File;
+
+const CSV_PREVIEW = {
+  headers: ['Date', 'Amount', 'Memo'],
+  rows: [['2024-01-02', '5', 'Tea']],
+  totalRows: 1,
+  suggestedMapping: { date: 0, amount: 1, description: 2 },
+  suggestedDateOrder: 'ymd' as const,
+};
+
+describe('useTransactionImport', () => {
+  // stub Worker before each test
+  beforeEach(() => {
+    MockImportWorker.instances = [];
+    vi.stubGlobal('Worker', MockImportWorker as unknown as typeof Worker);
+  });
+
+  // cleanup global stubs after each test
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // helper to pick a file and wait for its inspect request
+  const selectFile = async (
+    result: { current: ReturnType<typeof useTransactionImport> },
+    file: File,
+    requests: number
+  ) => {
+    act(() => result.current.selectFile(file));
+    await waitFor(() =>
+      expect(MockImportWorker.instances[0]?.posted).toHaveLength(requests)
+    );
+    return MockImportWorker.instances[0];
+  };
+
+  // verifies that an answer for a replaced file doesn't leak into the new one
+  it('ignores responses for a replaced file', async () => {
+    const { result } = renderHook(() => useTransactionImport());
+
+    await selectFile(result, createFile('first.csv', 'Date,Amount'), 1);
+    const worker = await selectFile(
+      result,
+      createFile('second.qif', '!Type'),
+      2
+    );
+    const [first, second] = worker.posted;
+    expect(second.jobId).toBeGreaterThan(first.jobId);
+
+    // the first file's preview arrives late and is dropped
+    act(() =>
+      worker.emit({
+        type: 'inspected',
+        jobId: first.jobId,
+        format: 'csv',
+        preview: CSV_PREVIEW,
+      })
+    );
+    expect(result.current.step).toBe('reading');
+    expect(result.current.preview).toBeNull();
+
+    act(() =>
+      worker.emit({
+        type: 'inspected',
+        jobId: second.jobId,
+        format: 'qif',
+        preview: null,
+      })
+    );
+    const parse = worker.posted[2];
+    expect(parse).toMatchObject({ type: 'parse', format: 'qif' });
+    expect(result.current.fileName).toBe('second.qif');
+    expect(result.current.step).toBe('parsing');
+
+    act(() =>
+      worker.emit({
+        type: 'parsed',
+        jobId: parse.jobId,
+        result: { format: 'qif', transactions: [], errors: [] },
+      })
+    );
+    expect(result.current.step).toBe('review');
+  });
+
+  // verifies that a reset discards the answer to a request still in flight
+  it('ignores responses after a reset', async () => {
+    const { result } = renderHook(() => useTransactionImport());
+
+    const worker = await selectFile(result, createFile('a.csv', 'Date'), 1);
+    act(() => result.current.reset());
+    act(() =>
+      worker.emit({
+        type: 'error',
+        jobId: worker.posted[0].jobId,
+        message: 'Failed to read file',
+      })
+    );
+
+    expect(result.current.step).toBe('idle');
+    expect(result.current.error).toBeNull();
+  });
+});
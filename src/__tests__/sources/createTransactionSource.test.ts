@@ -0,0 +1,79 @@
+/*
+ * unit test for the transaction source configuration testing:
+ * - REST and push stream sources selected from the env
+ * - seeded generator worker configuration
+ * - invalid seeds reported and left unseeded
+ * - unknown generator scenarios ignored
+ **/
+
+import { describe, expect, it, vi } from 'vitest';
+import { resolveTransactionSourceConfig } from '../../sources/createTransactionSource';
+
+// env with only the given variables set on top of Vite's defaults
+const createEnv = (variables: Partial<ImportMetaEnv>): ImportMetaEnv => ({
+  ...import.meta.env,
+  VITE_TRANSACTION_SOURCE: undefined,
+  VITE_LEDGER_URL: undefined,
+  VITE_GENERATOR_SEED: undefined,
+  VITE_GENERATOR_SCENARIO: undefined,
+  ...variables,
+});
+
+describe('resolveTransactionSourceConfig', () => {
+  // verifies that the ledger sources are picked by name with their base url
+  it('selects the ledger sources', () => {
+    expect(
+      resolveTransactionSourceConfig(
+        createEnv({ VITE_TRANSACTION_SOURCE: 'rest' })
+      )
+    ).toEqual({ kind: 'rest', baseUrl: 'http://localhost:4000' });
+    expect(
+      resolveTransactionSourceConfig(
+        createEnv({
+          VITE_TRANSACTION_SOURCE: 'sse',
+          VITE_LEDGER_URL: 'http://ledger.test',
+        })
+      )
+    ).toEqual({
+      kind: 'stream',
+      baseUrl: 'http://ledger.test',
+      transport: 'sse',
+    });
+  });
+
+  // verifies that the generator worker gets the configured seed and scenario
+  it('configures the generator worker', () => {
+    expect(
+      resolveTransactionSourceConfig(
+        createEnv({
+          VITE_GENERATOR_SEED: '42',
+          VITE_GENERATOR_SCENARIO: 'everyday',
+        })
+      )
+    ).toEqual({ kind: 'worker', seed: 42, scenario: 'everyday' });
+  });
+
+  // verifies that unknown scenario names, prototype members included, are dropped
+  it('ignores unknown scenarios', () => {
+    for (const name of ['nonsense', 'constructor', 'toString']) {
+      expect(
+        resolveTransactionSourceConfig(
+          createEnv({ VITE_GENERATOR_SCENARIO: name })
+        )
+      ).toEqual({ kind: 'worker', seed: undefined, scenario: undefined });
+    }
+  });
+
+  // verifies that a seed that is not a number runs unseeded with a warning
+  it('ignores invalid seeds', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    for (const seed of ['abc', '12x', 'Infinity']) {
+      expect(
+        resolveTransactionSourceConfig(createEnv({ VITE_GENERATOR_SEED: seed }))
+      ).toEqual({ kind: 'worker', seed: undefined, scenario: undefined });
+    }
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+});
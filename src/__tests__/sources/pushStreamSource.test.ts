@@ -0,0 +1,146 @@
+/*
+ * unit test for the push stream transaction source testing:
+ * - REST seeding followed by a WebSocket connection
+ * - pushed batches forwarded with revived timestamps
+ * - reconnect from the latest cursor after a disconnect
+ * - server-sent events transport
+ **/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPushStreamSource } from '../../sources/pushStreamSource';
+import type { TransactionSourceListener } from '../../types/transactionSource';
+import { createTransaction } from '../testUtils';
+
+// mock wait helper so request retries happen immediately
+vi.mock('../../helpers/wait', () => ({
+  __esModule: true,
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+// mock push channel shared by the WebSocket and EventSource stubs
+class MockChannel {
+  static instances: MockChannel[] = [];
+  public onopen: (() => void) | null = null;
+  public onmessage: ((event: { data: string }) => void) | null = null;
+  public onerror: (() => void) | null = null;
+  public onclose: (() => void) | null = null;
+  public close = vi.fn();
+
+  constructor(public url: string) {
+    MockChannel.instances.push(this);
+  }
+
+  push(data: unknown) {
+    this.onmessage?.({ data: JSON.stringify(data) });
+  }
+}
+
+// serializes test transactions the way the ledger API would
+const serialize = (ids: string[]) =>
+  ids.map(id => JSON.parse(JSON.stringify(createTransaction({ id }))));
+
+// resolves once pending promise chains have settled
+const flush = async () => {
+  for (let i = 0; i < 5; i += 1) await Promise.resolve();
+};
+
+describe('createPushStreamSource', () => {
+  let listener: {
+    [K in keyof TransactionSourceListener]: ReturnType<typeof vi.fn>;
+  };
+
+  // stub network globals with mocks before each test
+  beforeEach(() => {
+    vi.useFakeTimers();
+    MockChannel.instances = [];
+    vi.stubGlobal('WebSocket', MockChannel);
+    vi.stubGlobal('EventSource', MockChannel);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () =>
+            Promise.resolve({
+              transactions: serialize(['seed']),
+              nextOffset: null,
+              cursor: 'c1',
+            }),
+        })
+      )
+    );
+    listener = {
+      onSeed: vi.fn(),
+      onBatch: vi.fn(),
+      onIdle: vi.fn(),
+      onError: vi.fn(),
+    };
+  });
+
+  // cleanup timers and global stubs after each test
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  // verifies that the socket opens after seeding and pushed batches are forwarded
+  it('seeds over REST then streams over WebSocket', async () => {
+    const source = createPushStreamSource(
+      { kind: 'stream', baseUrl: 'http://ledger', transport: 'websocket' },
+      listener
+    );
+    source.seed(10);
+    await flush();
+
+    expect(listener.onSeed).toHaveBeenCalledTimes(1);
+    expect(MockChannel.instances).toHaveLength(1);
+    expect(MockChannel.instances[0].url).toBe('ws://ledger/stream?cursor=c1');
+
+    MockChannel.instances[0].push({
+      type: 'batch',
+      transactions: serialize(['p1']),
+      cursor: 'c2',
+    });
+
+    expect(listener.onBatch).toHaveBeenCalledTimes(1);
+    expect(listener.onBatch.mock.calls[0][0][0].timestamp).toBeInstanceOf(Date);
+    expect(listener.onIdle).not.toHaveBeenCalled();
+    source.stop();
+  });
+
+  // verifies that a dropped socket is reported and reopened from the latest cursor
+  it('reconnects from the latest cursor after a disconnect', async () => {
+    const source = createPushStreamSource(
+      { kind: 'stream', baseUrl: 'http://ledger', transport: 'websocket' },
+      listener
+    );
+    source.seed(10);
+    await flush();
+
+    const socket = MockChannel.instances[0];
+    socket.push({ type: 'batch', transactions: [], cursor: 'c5' });
+    socket.onclose?.();
+
+    expect(listener.onError).toHaveBeenCalledTimes(1);
+    vi.runOnlyPendingTimers();
+
+    expect(MockChannel.instances).toHaveLength(2);
+    expect(MockChannel.instances[1].url).toBe('ws://ledger/stream?cursor=c5');
+    source.stop();
+  });
+
+  // verifies that the SSE transport connects to the events endpoint
+  it('supports server-sent events', async () => {
+    const source = createPushStreamSource(
+      { kind: 'stream', baseUrl: 'http://ledger', transport: 'sse' },
+      listener
+    );
+    source.seed(10);
+    await flush();
+
+    expect(MockChannel.instances[0].url).toBe('http://ledger/events?cursor=c1');
+    source.stop();
+    expect(MockChannel.instances[0].close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,178 @@
+/*
+ * unit test for the REST polling transaction source testing:
+ * - paginated seeding through GET /transactions
+ * - cursor-based incremental feed polling
+ * - retry with error reporting on failed requests
+ * - silence after stop
+ **/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRestPollingSource } from '../../sources/restPollingSource';
+import type { TransactionSourceListener } from '../../types/transactionSource';
+import { createTransaction } from '../testUtils';
+
+// mock wait helper so retries happen immediately
+vi.mock('../../helpers/wait', () => ({
+  __esModule: true,
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+// serializes test transactions the way the ledger API would
+const serialize = (ids: string[]) =>
+  ids.map(id => JSON.parse(JSON.stringify(createTransaction({ id }))));
+
+// builds a minimal fetch Response stand-in
+const jsonResponse = (body: unknown, status = 200) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  });
+
+// resolves once all queued microtasks and promise chains have settled
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createRestPollingSource', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let listener: {
+    [K in keyof TransactionSourceListener]: ReturnType<typeof vi.fn>;
+  };
+
+  // stub fetch and create a spy listener before each test
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    listener = {
+      onSeed: vi.fn(),
+      onBatch: vi.fn(),
+      onIdle: vi.fn(),
+      onError: vi.fn(),
+    };
+  });
+
+  // cleanup global stubs after each test
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // verifies that seeding pages through the API and revives timestamps
+  it('seeds by paging through transactions', async () => {
+    fetchMock
+      .mockReturnValueOnce(
+        jsonResponse({
+          transactions: serialize(['a', 'b']),
+          nextOffset: 2,
+          cursor: 'c1',
+        })
+      )
+      .mockReturnValueOnce(
+        jsonResponse({
+          transactions: serialize(['c']),
+          nextOffset: null,
+          cursor: 'c2',
+        })
+      );
+
+    const source = createRestPollingSource(
+      { kind: 'rest', baseUrl: 'http://ledger', pageSize: 2 },
+      listener
+    );
+    source.seed(10);
+    await flush();
+
+    expect(fetchMock).toHaveBeenNthCalledWith(
+      1,
+      'http://ledger/transactions?offset=0&limit=2',
+      expect.anything()
+    );
+    expect(listener.onSeed).toHaveBeenCalledTimes(1);
+    expect(listener.onSeed.mock.calls[0][0][0].timestamp).toBeInstanceOf(Date);
+    expect(
+      listener.onBatch.mock.calls[0][0].map((t: { id: string }) => t.id)
+    ).toEqual(['c']);
+    expect(listener.onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  // verifies that stream polls the feed from the cursor captured during seeding
+  it('polls the feed from the seed cursor', async () => {
+    fetchMock
+      .mockReturnValueOnce(
+        jsonResponse({
+          transactions: serialize(['a']),
+          nextOffset: null,
+          cursor: 'c1',
+        })
+      )
+      .mockReturnValueOnce(
+        jsonResponse({ transactions: serialize(['new']), cursor: 'c2' })
+      )
+      .mockReturnValueOnce(jsonResponse({ transactions: [], cursor: 'c2' }));
+
+    const source = createRestPollingSource(
+      { kind: 'rest', baseUrl: 'http://ledger' },
+      listener
+    );
+    source.seed(1);
+    await flush();
+    source.stream(50);
+    await flush();
+    source.stream(50);
+    await flush();
+
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      'http://ledger/transactions/feed?cursor=c1&limit=50'
+    );
+    expect(fetchMock.mock.calls[2][0]).toBe(
+      'http://ledger/transactions/feed?cursor=c2&limit=50'
+    );
+    expect(listener.onBatch).toHaveBeenCalledTimes(1);
+    expect(listener.onIdle).toHaveBeenCalledTimes(3);
+  });
+
+  // verifies that server errors are reported and the request is retried
+  it('reports errors and retries failed requests', async () => {
+    fetchMock
+      .mockReturnValueOnce(jsonResponse({}, 500))
+      .mockReturnValueOnce(Promise.reject(new Error('offline')))
+      .mockReturnValueOnce(
+        jsonResponse({
+          transactions: serialize(['a']),
+          nextOffset: null,
+          cursor: 'c1',
+        })
+      );
+
+    const source = createRestPollingSource(
+      { kind: 'rest', baseUrl: 'http://ledger' },
+      listener
+    );
+    source.seed(1);
+    await flush();
+
+    expect(listener.onError).toHaveBeenCalledTimes(2);
+    expect(listener.onError.mock.calls[0][0].message).toMatch(/500/);
+    expect(listener.onSeed).toHaveBeenCalledTimes(1);
+  });
+
+  // verifies that no callbacks fire once the source has been stopped
+  it('stops delivering data after stop', async () => {
+    fetchMock.mockReturnValue(
+      jsonResponse({
+        transactions: serialize(['a']),
+        nextOffset: null,
+        cursor: 'c1',
+      })
+    );
+
+    const source = createRestPollingSource(
+      { kind: 'rest', baseUrl: 'http://ledger' },
+      listener
+    );
+    source.stop();
+    source.seed(1);
+    await flush();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(listener.onSeed).not.toHaveBeenCalled();
+  });
+});
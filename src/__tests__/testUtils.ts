@@ -16,4 +16,5 @@ export const createTransaction = (
   accountId: overrides.accountId ?? 'acc-1',
   location: overrides.location,
   reference: overrides.reference,
+  groundTruth: overrides.groundTruth,
 });
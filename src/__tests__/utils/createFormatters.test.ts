@@ -0,0 +1,96 @@
+/*
+ * unit test for the formatting service testing:
+ * - locale-specific numbers and currency
+ * - dates and times in the configured time zone
+ * - relative times
+ * - day bucketing across time zones and DST changes
+ * - file name stamps in the configured time zone
+ * - fallbacks for invalid settings
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { createFormatters } from '../../utils/createFormatters';
+
+// 23:30 UTC on 1 March, which is already 2 March in Tokyo
+const LATE_EVENING = new Date('2024-03-01T23:30:00Z');
+
+describe('createFormatters', () => {
+  // verifies that numbers and amounts follow the locale and each currency's decimals
+  it('formats numbers and currency for the locale', () => {
+    const german = createFormatters({ locale: 'de-DE' });
+
+    expect(german.formatNumber(1234567.5)).toBe('1.234.567,5');
+    expect(german.formatCurrency(1234.5, 'EUR')).toMatch(/^1\.234,50\s€$/);
+    expect(createFormatters().formatCurrency(1234.5, 'JPY')).toBe('¥1,235');
+    expect(createFormatters().formatCurrency(12, 'XYZ1')).toBe('12.00 XYZ1');
+    expect(createFormatters().formatPercent(0.1234)).toBe('12.3%');
+  });
+
+  // verifies that dates and times are shown in the configured zone, not the runtime's
+  it('formats dates and times in the configured time zone', () => {
+    const utc = createFormatters({ timezone: 'UTC' });
+    const tokyo = createFormatters({ timezone: 'Asia/Tokyo' });
+
+    expect(utc.formatDate(LATE_EVENING)).toBe('Mar 1, 2024');
+    expect(tokyo.formatDate(LATE_EVENING)).toBe('Mar 2, 2024');
+    expect(tokyo.formatTime(LATE_EVENING)).toMatch(/^8:30\sAM$/);
+    expect(
+      createFormatters({ locale: 'en-GB', timezone: 'UTC' }).formatTime(
+        LATE_EVENING
+      )
+    ).toBe('23:30');
+  });
+
+  // verifies that relative times pick a sensible unit
+  it('formats relative times', () => {
+    const { formatRelativeTime } = createFormatters();
+    const now = LATE_EVENING.getTime();
+
+    expect(formatRelativeTime(new Date(now - 3 * 86400000), now)).toBe(
+      '3 days ago'
+    );
+    expect(formatRelativeTime(new Date(now + 2 * 3600000), now)).toBe(
+      'in 2 hours'
+    );
+    expect(formatRelativeTime(new Date(now), now)).toBe('now');
+  });
+
+  // verifies that day keys and day starts respect the zone, including DST transitions
+  it('buckets instants into calendar days of the zone', () => {
+    const utc = createFormatters({ timezone: 'UTC' });
+    const tokyo = createFormatters({ timezone: 'Asia/Tokyo' });
+    const newYork = createFormatters({ timezone: 'America/New_York' });
+
+    expect(utc.getDayKey(LATE_EVENING)).toBe('2024-03-01');
+    expect(tokyo.getDayKey(LATE_EVENING)).toBe('2024-03-02');
+    expect(tokyo.startOfDay(LATE_EVENING).toISOString()).toBe(
+      '2024-03-01T15:00:00.000Z'
+    );
+    // clocks go forward on 10 March; midnight is still at the EST offset
+    expect(
+      newYork.startOfDay(new Date('2024-03-10T18:00:00Z')).toISOString()
+    ).toBe('2024-03-10T05:00:00.000Z');
+  });
+
+  // verifies that file stamps use the zone's wall clock time
+  it('stamps file names in the configured time zone', () => {
+    expect(
+      createFormatters({ timezone: 'UTC' }).getFileStamp(LATE_EVENING)
+    ).toBe('20240301-2330');
+    expect(
+      createFormatters({ timezone: 'Asia/Tokyo' }).getFileStamp(LATE_EVENING)
+    ).toBe('20240302-0830');
+  });
+
+  // verifies that unusable settings fall back to en-US in UTC
+  it('falls back to defaults for invalid settings', () => {
+    const formatters = createFormatters({
+      locale: 'not a locale',
+      timezone: 'Mars/Olympus',
+    });
+
+    expect(formatters.locale).toBe('en-US');
+    expect(formatters.timezone).toBe('UTC');
+    expect(formatters.formatDate(LATE_EVENING)).toBe('Mar 1, 2024');
+  });
+});
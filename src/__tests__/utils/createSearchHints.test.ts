@@ -0,0 +1,83 @@
+/*
+ * unit test for data-driven search hints testing:
+ * - counting values per field with case variants merged
+ * - appending rows to earlier counts
+ * - ranking by relevance and frequency
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { createTransaction } from '../testUtils';
+import {
+  createSearchHintCounter,
+  getSearchHintQuery,
+  rankSearchHints,
+} from '../../utils/createSearchHints';
+
+describe('createSearchHintCounter', () => {
+  // verifies that each field value is counted once per transaction, ignoring case
+  it('counts values per field', () => {
+    const counter = createSearchHintCounter();
+    counter.reset([
+      createTransaction({ merchantName: 'Shell', reference: 'REF1' }),
+      createTransaction({ merchantName: 'SHELL', location: 'Shell Beach, CA' }),
+    ]);
+
+    const hints = counter.hints();
+    expect(hints).toContainEqual({
+      field: 'merchant',
+      value: 'Shell',
+      normalized: 'shell',
+      count: 2,
+    });
+    expect(hints.filter(hint => hint.field === 'location')).toHaveLength(1);
+    expect(hints.find(hint => hint.field === 'reference')?.count).toBe(1);
+  });
+
+  // verifies that appended rows add to the existing counts and reset starts over
+  it('appends and resets', () => {
+    const counter = createSearchHintCounter();
+    counter.reset([createTransaction({ merchantName: 'Uber' })]);
+    counter.append([
+      createTransaction({ merchantName: 'Uber' }),
+      createTransaction({ merchantName: 'Lyft' }),
+    ]);
+
+    const merchants = (hints = counter.hints()) =>
+      hints
+        .filter(hint => hint.field === 'merchant')
+        .map(hint => [hint.value, hint.count]);
+    expect(merchants()).toEqual([
+      ['Uber', 2],
+      ['Lyft', 1],
+    ]);
+
+    counter.reset([createTransaction({ merchantName: 'Lyft' })]);
+    expect(merchants()).toEqual([['Lyft', 1]]);
+  });
+});
+
+describe('rankSearchHints', () => {
+  const counter = createSearchHintCounter();
+  counter.reset(
+    [
+      'Apple Store',
+      'Apple Store',
+      'Applebees',
+      'Apple',
+      'Pineapple Express',
+      'Starbucks',
+    ].map(merchantName => createTransaction({ merchantName }))
+  );
+  const hints = counter.hints().filter(hint => hint.field === 'merchant');
+
+  // verifies that exact matches lead, then prefixes weighted by frequency
+  it('ranks by relevance and frequency', () => {
+    expect(
+      rankSearchHints(hints, 'apple', false, 5).map(hint => hint.value)
+    ).toEqual(['Apple', 'Apple Store', 'Applebees', 'Pineapple Express']);
+    expect(rankSearchHints(hints, 'starbuks', false, 5)).toEqual([]);
+    expect(
+      rankSearchHints(hints, 'starbuks', true, 5).map(getSearchHintQuery)
+    ).toEqual(['merchant:Starbucks']);
+  });
+});
@@ -0,0 +1,157 @@
+/*
+ * unit test for the inverted search index testing:
+ * - agreement with the scanning matcher for text and field terms
+ * - incremental appends and resets
+ * - lookups seeing tokens appended after earlier lookups
+ * - typo tolerant lookups in fuzzy mode
+ * - words inside tokens, single letters and swapped letters found through bigrams
+ * - references only ever matched exactly
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { createTransaction } from '../testUtils';
+import { createSearchIndex } from '../../utils/createSearchIndex';
+import { compileSearchQuery } from '../../utils/matchSearchQuery';
+import { createFormatters } from '../../utils/createFormatters';
+import type { SearchIndexTerm } from '../../types/searchIndex';
+
+const formatters = createFormatters();
+
+const transactions = [
+  createTransaction({
+    id: 'txn_1',
+    merchantName: 'Café Nero',
+    category: 'Food & Dining',
+    amount: 4.5,
+  }),
+  createTransaction({
+    id: 'txn_2',
+    merchantName: 'Amazon',
+    description: 'Amazon Prime renewal',
+    reference: 'REF-20240117',
+    amount: 139,
+  }),
+  createTransaction({
+    id: 'txn_3',
+    merchantName: 'Shell',
+    category: 'Transportation',
+    location: 'New York, NY',
+    amount: 45.5,
+  }),
+];
+
+// rows the scanning matcher accepts for a term
+const scan = (term: SearchIndexTerm, fuzzy = false) => {
+  const predicate = compileSearchQuery(
+    { kind: 'term', term, span: { start: 0, end: 0 } },
+    { formatters, fuzzy }
+  );
+  return transactions.flatMap((transaction, index) =>
+    predicate(transaction, index) ? [index] : []
+  );
+};
+
+describe('createSearchIndex', () => {
+  // verifies that index lookups return the same rows as scanning
+  it('matches like the scanning matcher', () => {
+    const index = createSearchIndex();
+    index.reset(transactions);
+
+    const terms: SearchIndexTerm[] = [
+      { kind: 'text', value: 'cafe' },
+      { kind: 'text', value: 'AMAZON PRIME' },
+      { kind: 'text', value: '45' },
+      { kind: 'text', value: 'txn' },
+      { kind: 'field', field: 'category', value: 'food & dining' },
+      { kind: 'field', field: 'location', value: 'york ny' },
+      { kind: 'field', field: 'merchant', value: 'prime' },
+    ];
+
+    terms.forEach(term => {
+      expect(Array.from(index.match(term))).toEqual(scan(term));
+    });
+  });
+
+  // verifies that appended rows extend earlier lookups and reset replaces the rows
+  it('indexes appended rows and resets', () => {
+    const index = createSearchIndex();
+    index.reset(transactions.slice(0, 1));
+
+    expect(Array.from(index.match({ kind: 'text', value: 'a' }))).toEqual([0]);
+    index.append(transactions.slice(1));
+    expect(index.size()).toBe(3);
+    // "am" is looked up after the sorted vocabulary took in the new tokens
+    expect(Array.from(index.match({ kind: 'text', value: 'am' }))).toEqual([1]);
+
+    index.reset(transactions.slice(2));
+    expect(
+      Array.from(
+        index.match({ kind: 'field', field: 'merchant', value: 'shell' })
+      )
+    ).toEqual([0]);
+  });
+
+  // verifies that fuzzy lookups return the same rows as fuzzy scanning
+  it('matches misspellings like the scanning matcher', () => {
+    const index = createSearchIndex();
+    index.reset(transactions);
+
+    const terms: SearchIndexTerm[] = [
+      { kind: 'text', value: 'amazn prime' },
+      { kind: 'text', value: 'shel' },
+      { kind: 'text', value: 'new yrok' },
+      { kind: 'field', field: 'merchant', value: 'cafe nerro' },
+      { kind: 'field', field: 'category', value: 'transportaton' },
+    ];
+
+    terms.forEach(term => {
+      expect(Array.from(index.match(term, true))).toEqual(scan(term, true));
+    });
+    expect(Array.from(index.match(terms[0], true))).toEqual([1]);
+    expect(Array.from(index.match(terms[0]))).toEqual([]);
+  });
+
+  // verifies that words past the start of tokens and typos are found like scanning finds them
+  it('finds infixes and typos through bigrams', () => {
+    const index = createSearchIndex();
+    index.reset(transactions);
+
+    const terms: SearchIndexTerm[] = [
+      { kind: 'text', value: 'e' },
+      { kind: 'text', value: 'mazo' },
+      { kind: 'text', value: 'ork' },
+      { kind: 'field', field: 'merchant', value: 'hel' },
+      { kind: 'text', value: 'amzaon' },
+      { kind: 'field', field: 'description', value: 'renewla' },
+      { kind: 'field', field: 'location', value: 'yrok' },
+    ];
+
+    terms.forEach(term => {
+      expect(Array.from(index.match(term))).toEqual(scan(term));
+      expect(Array.from(index.match(term, true))).toEqual(scan(term, true));
+    });
+    expect(Array.from(index.match(terms[1]))).toEqual([1]);
+    expect(Array.from(index.match(terms[4], true))).toEqual([1]);
+  });
+
+  // verifies that references tolerate no typos, also in fuzzy mode
+  it('matches references exactly', () => {
+    const index = createSearchIndex();
+    index.reset(transactions);
+
+    const exact: SearchIndexTerm = {
+      kind: 'field',
+      field: 'reference',
+      value: '20240117',
+    };
+    const typo: SearchIndexTerm = {
+      kind: 'field',
+      field: 'reference',
+      value: 'ref20241117',
+    };
+
+    expect(Array.from(index.match(exact, true))).toEqual([1]);
+    expect(Array.from(index.match(typo, true))).toEqual([]);
+    expect(scan(typo, true)).toEqual([]);
+  });
+});
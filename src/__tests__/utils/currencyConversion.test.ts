@@ -0,0 +1,135 @@
+/*
+ * unit test for currency conversion testing:
+ * - dated rate lookup with fallback to the earliest snapshot
+ * - cross rates through the base currency and unknown currencies
+ * - invalid dates treated as having no rate
+ * - rate table validation
+ * - reporting-currency summaries
+ **/
+
+import { describe, expect, it } from 'vitest';
+import {
+  calculateReportingSummary,
+  createFxConverter,
+  parseFxRateTable,
+  roundToMinorUnits,
+} from '../../utils/currencyConversion';
+import type { FxRateTable } from '../../types/currency';
+import { createTransaction } from '../testUtils';
+
+const RATES: FxRateTable = {
+  base: 'USD',
+  snapshots: [
+    { date: '2024-07-01', rates: { EUR: 0.8, GBP: 0.5 } },
+    { date: '2024-01-01', rates: { EUR: 0.9, GBP: 0.8, JPY: 150 } },
+  ],
+};
+
+describe('currencyConversion', () => {
+  const converter = createFxConverter(RATES);
+
+  // verifies that the snapshot in effect on the transaction date is used
+  it('converts at the rates in effect on the given date', () => {
+    expect(
+      converter.convert(100, 'USD', 'EUR', new Date('2024-03-15T12:00:00Z'))
+    ).toBeCloseTo(90);
+    expect(
+      converter.convert(100, 'USD', 'EUR', new Date('2024-07-01T00:00:00Z'))
+    ).toBeCloseTo(80);
+    // before the first snapshot the earliest rates still apply
+    expect(
+      converter.convert(100, 'USD', 'EUR', new Date('2020-01-01T00:00:00Z'))
+    ).toBeCloseTo(90);
+  });
+
+  // verifies that non-base pairs convert through the base currency
+  it('derives cross rates and rejects unknown currencies', () => {
+    const date = new Date('2024-02-01T00:00:00Z');
+
+    expect(converter.convert(90, 'EUR', 'GBP', date)).toBeCloseTo(80);
+    expect(converter.convert(42, 'EUR', 'EUR', date)).toBe(42);
+    expect(converter.convert(10, 'XYZ', 'USD', date)).toBeNull();
+    // JPY is only quoted in the older snapshot
+    expect(
+      converter.convert(1, 'USD', 'JPY', new Date('2024-08-01T00:00:00Z'))
+    ).toBeNull();
+    expect(converter.currencies).toEqual(['EUR', 'GBP', 'JPY', 'USD']);
+  });
+
+  // verifies that an invalid date yields no rate instead of throwing
+  it('returns null for invalid dates', () => {
+    const invalid = new Date('not a date');
+
+    expect(converter.convert(10, 'USD', 'EUR', invalid)).toBeNull();
+    expect(converter.convert(10, 'EUR', 'EUR', invalid)).toBe(10);
+  });
+
+  // verifies that loaded rate files are normalised and malformed ones rejected
+  it('validates rate tables', () => {
+    expect(
+      parseFxRateTable({
+        base: 'usd',
+        snapshots: [{ date: '2024-01-01', rates: { eur: 0.9 } }],
+      })
+    ).toEqual({
+      base: 'USD',
+      snapshots: [{ date: '2024-01-01', rates: { EUR: 0.9 } }],
+    });
+    expect(() => parseFxRateTable({ snapshots: [] })).toThrow();
+    expect(() =>
+      parseFxRateTable({
+        base: 'USD',
+        snapshots: [{ date: '01/01/2024', rates: {} }],
+      })
+    ).toThrow();
+    expect(() =>
+      parseFxRateTable({
+        base: 'USD',
+        snapshots: [{ date: '2024-01-01', rates: { EUR: -1 } }],
+      })
+    ).toThrow(/EUR/);
+  });
+
+  // verifies that zero-decimal currencies round to whole units
+  it('rounds to the minor units of each currency', () => {
+    expect(roundToMinorUnits(10.456, 'USD')).toBe(10.46);
+    expect(roundToMinorUnits(1234.6, 'JPY')).toBe(1235);
+  });
+
+  // verifies that summaries convert every amount and split totals by type
+  it('summarises transactions in the reporting currency', () => {
+    const timestamp = new Date('2024-02-01T00:00:00Z');
+    const summary = calculateReportingSummary(
+      [
+        createTransaction({
+          amount: 100,
+          currency: 'USD',
+          type: 'credit',
+          timestamp,
+        }),
+        createTransaction({
+          amount: 90,
+          currency: 'EUR',
+          type: 'debit',
+          timestamp,
+        }),
+        createTransaction({
+          amount: 5,
+          currency: 'XYZ',
+          type: 'debit',
+          timestamp,
+        }),
+      ],
+      'GBP',
+      converter
+    );
+
+    expect(summary.currency).toBe('GBP');
+    expect(summary.totalTransactions).toBe(3);
+    expect(summary.unconvertedCount).toBe(1);
+    expect(summary.totalCredits).toBe(80);
+    expect(summary.totalDebits).toBe(80);
+    expect(summary.totalAmount).toBe(160);
+    expect(summary.avgTransactionAmount).toBe(80);
+  });
+});
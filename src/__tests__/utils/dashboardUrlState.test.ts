@@ -0,0 +1,112 @@
+/*
+ * unit test for dashboard URL state testing:
+ * - round trips of filters, search, sort, grouping, columns and the open transaction
+ * - single-value filters and older links read as facets
+ * - bare URLs for the default state
+ * - invalid parameters falling back to defaults, column widths clamped
+ **/
+
+import { describe, expect, it } from 'vitest';
+import {
+  DashboardUrlState,
+  parseDashboardUrlState,
+  serializeDashboardUrlState,
+} from '../../utils/dashboardUrlState';
+import { DEFAULT_TRANSACTION_SORT } from '../../constants';
+import {
+  applyColumnPreset,
+  DEFAULT_COLUMN_LAYOUT,
+  resizeColumn,
+} from '../../utils/tableColumns';
+
+// splits a serialized URL into the search and hash parts the parser reads
+const parse = (url: string) => {
+  const [search, hash = ''] = url.split('#');
+  return parseDashboardUrlState(search, hash ? `#${hash}` : '');
+};
+
+describe('dashboardUrlState', () => {
+  // verifies that every part of the state survives a round trip through the URL
+  it('round trips the dashboard state', () => {
+    const state: DashboardUrlState = {
+      filters: {
+        facets: {
+          category: { include: ['Food & Dining', 'Travel'], exclude: [] },
+          status: { include: [], exclude: ['failed'] },
+          location: { include: ['New York, NY'], exclude: ['Boston, MA'] },
+        },
+        datePreset: 'custom',
+        dateRange: { start: new Date('2026-01-01T05:00:00Z') },
+        amountRange: { min: 0, max: 500 },
+        fuzzy: true,
+      },
+      searchTerm: 'merchant:"whole foods" -status:pending',
+      sort: [
+        { field: 'amount', direction: 'asc' },
+        { field: 'accountId', direction: 'desc' },
+      ],
+      groupBy: 'month',
+      columns: resizeColumn(
+        applyColumnPreset(DEFAULT_COLUMN_LAYOUT, 'fraud'),
+        'merchant',
+        320
+      ),
+      transactionId: 'txn_42 #1',
+    };
+
+    const url = serializeDashboardUrlState(state);
+    expect(url).toMatch(
+      /^\?q=.*&cols=risk%3A100%2Cmerchant%3A320%2C.*#txn=txn_42/
+    );
+    expect(parse(url)).toEqual(state);
+  });
+
+  // verifies that single-value filters and links from before facets map onto facets
+  it('reads single-value filters as included facet values', () => {
+    const url = serializeDashboardUrlState({
+      filters: { status: 'failed', category: 'Travel' },
+      searchTerm: '',
+      sort: DEFAULT_TRANSACTION_SORT,
+      transactionId: null,
+    });
+    expect(url).toBe('?category=Travel&status=failed');
+    expect(parse('?status=failed&type=debit&-type=refund')?.filters).toEqual({
+      facets: {
+        status: { include: ['failed'], exclude: [] },
+        type: { include: ['debit'], exclude: [] },
+      },
+    });
+  });
+
+  // verifies that defaults are left out and unknown values are ignored
+  it('omits defaults and ignores invalid parameters', () => {
+    expect(
+      serializeDashboardUrlState({
+        filters: { type: 'all', status: 'all', category: '' },
+        searchTerm: ' ',
+        sort: DEFAULT_TRANSACTION_SORT,
+        groupBy: 'none',
+        columns: DEFAULT_COLUMN_LAYOUT,
+        transactionId: null,
+      })
+    ).toBe('');
+    expect(parse('?page=2')).toBeNull();
+    expect(
+      parse(
+        '?status=lost&date=forever&min=abc&from=yesterday&sort=colour:up&group=colour&cols=bogus:10'
+      )
+    ).toEqual({
+      filters: {},
+      searchTerm: '',
+      sort: DEFAULT_TRANSACTION_SORT,
+      transactionId: null,
+    });
+    expect(
+      parse('?cols=merchant:9999,bogus:5,amount')?.columns?.slice(0, 3)
+    ).toEqual([
+      { id: 'merchant', visible: true, width: 640 },
+      { id: 'amount', visible: true, width: 140 },
+      { id: 'status', visible: false, width: 110 },
+    ]);
+  });
+});
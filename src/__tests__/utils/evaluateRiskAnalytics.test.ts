@@ -0,0 +1,104 @@
+/*
+ * unit test for the evaluateRiskAnalytics util testing:
+ * - confusion matrix tallies per signal
+ * - precision and recall calculation
+ * - threshold changes affecting classification
+ * - skipping transactions the worker has not scored yet
+ **/
+
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_EVALUATION_THRESHOLDS,
+  evaluateRiskAnalytics,
+} from '../../utils/evaluateRiskAnalytics';
+import type { AnalyticsSummary } from '../../hooks/useRiskAnalytics';
+import { createTransaction } from '../testUtils';
+
+const fraud = {
+  fraudType: 'card-testing',
+  scenarioId: 'card-testing',
+} as const;
+
+// labeled and unlabeled transactions with known scores
+const transactions = [
+  createTransaction({ id: 'fraud-caught', groundTruth: fraud }),
+  createTransaction({ id: 'fraud-missed', groundTruth: fraud }),
+  createTransaction({ id: 'false-alarm' }),
+  createTransaction({ id: 'clean' }),
+  createTransaction({ id: 'unscored' }),
+];
+
+const analytics: AnalyticsSummary = {
+  totalRisk: 0,
+  highRiskTransactions: 2,
+  risks: {
+    'fraud-caught': 1.5,
+    'fraud-missed': 0.3,
+    'false-alarm': 0.9,
+    clean: 0.2,
+  },
+  patterns: {
+    'fraud-caught': 0,
+    'fraud-missed': 0,
+    'false-alarm': 0,
+    clean: 0,
+  },
+  anomalies: {
+    'fraud-caught': 0,
+    'fraud-missed': 0.45,
+    'false-alarm': 0,
+    clean: 0,
+  },
+  generatedAt: 0,
+};
+
+describe('evaluateRiskAnalytics', () => {
+  // verifies that each outcome lands in the right confusion matrix cell
+  it('builds a confusion matrix for the risk signal', () => {
+    const evaluation = evaluateRiskAnalytics(
+      transactions,
+      analytics,
+      DEFAULT_EVALUATION_THRESHOLDS
+    );
+    const risk = evaluation.signals.find(s => s.signal === 'risk')!;
+
+    expect(evaluation.evaluated).toBe(4);
+    expect(evaluation.labeled).toBe(2);
+    expect(risk.confusion).toEqual({
+      truePositives: 1,
+      falsePositives: 1,
+      falseNegatives: 1,
+      trueNegatives: 1,
+    });
+    expect(risk.precision).toBe(0.5);
+    expect(risk.recall).toBe(0.5);
+  });
+
+  // verifies that lowering a threshold changes what gets flagged
+  it('reclassifies transactions when thresholds change', () => {
+    const evaluation = evaluateRiskAnalytics(transactions, analytics, {
+      ...DEFAULT_EVALUATION_THRESHOLDS,
+      anomaly: 0.4,
+    });
+    const combined = evaluation.signals.find(s => s.signal === 'combined')!;
+
+    expect(combined.recall).toBe(1);
+    expect(evaluation.byFraudType['card-testing']).toEqual({
+      labeled: 2,
+      detected: 2,
+    });
+  });
+
+  // verifies that precision is undefined rather than NaN when nothing is flagged
+  it('reports undefined precision when nothing is flagged', () => {
+    const evaluation = evaluateRiskAnalytics(transactions, analytics, {
+      risk: 5,
+      pattern: 5,
+      anomaly: 5,
+    });
+    const risk = evaluation.signals.find(s => s.signal === 'risk')!;
+
+    expect(risk.precision).toBeNull();
+    expect(risk.recall).toBe(0);
+  });
+});
@@ -0,0 +1,171 @@
+/*
+ * unit test for the transaction export writers testing:
+ * - CSV quoting, formula guarding and column selection
+ * - formatted versus raw amounts and dates
+ * - newline-delimited JSON records
+ * - XLSX packaging as a valid zip archive
+ * - control characters dropped from XLSX text
+ * - group subtotal sheets
+ **/
+
+import { describe, expect, it } from 'vitest';
+import {
+  createExportWriter,
+  ExportPart,
+  writeGroupSummary,
+} from '../../utils/exportTransactions';
+import { updateCrc32 } from '../../utils/createZipWriter';
+import type { ExportOptions } from '../../types/transactionExport';
+import { createTransaction } from '../testUtils';
+
+const TRANSACTIONS = [
+  createTransaction({
+    id: 'a',
+    amount: 1234.5,
+    type: 'debit',
+    merchantName: 'Shop, "The"',
+    description: '=HYPERLINK("x")',
+    timestamp: new Date('2024-01-15T10:30:00Z'),
+  }),
+  createTransaction({
+    id: 'b',
+    amount: 20,
+    type: 'credit',
+    merchantName: 'Employer',
+    timestamp: new Date('2024-01-16T08:00:00Z'),
+  }),
+];
+
+const OPTIONS: ExportOptions = {
+  format: 'csv',
+  columns: ['id', 'merchantName', 'description', 'amount'],
+  amountMode: 'raw',
+  locale: 'en-US',
+};
+
+// helper to run a writer over the rows in single-row chunks and join text output
+const writeText = (options: ExportOptions) => {
+  const writer = createExportWriter(options);
+  const parts: ExportPart[] = [
+    ...writer.open(),
+    ...TRANSACTIONS.flatMap(transaction => writer.write([transaction])),
+    ...writer.close(),
+  ];
+  return parts.join('');
+};
+
+describe('exportTransactions', () => {
+  // verifies that CSV cells are quoted and formulas neutralised
+  it('writes CSV with escaped cells and signed raw amounts', () => {
+    const lines = writeText(OPTIONS).replace('\ufeff', '').split('\r\n');
+
+    expect(lines[0]).toBe('ID,Merchant,Description,Amount');
+    expect(lines[1]).toBe(`a,"Shop, ""The""","'=HYPERLINK(""x"")",-1234.5`);
+    expect(lines[2]).toBe('b,Employer,Test transaction,20');
+  });
+
+  // verifies that formatted mode uses the locale for amounts and dates
+  it('formats amounts and dates for the locale', () => {
+    const csv = writeText({
+      ...OPTIONS,
+      columns: ['amount', 'timestamp'],
+      amountMode: 'formatted',
+    });
+
+    expect(csv).toContain('"-$1,234.50"');
+    expect(csv).toContain('Jan 15, 2024');
+  });
+
+  // verifies that each NDJSON line is a standalone record of the chosen columns
+  it('writes newline-delimited JSON records', () => {
+    const lines = writeText({
+      ...OPTIONS,
+      format: 'ndjson',
+      columns: ['id', 'amount', 'timestamp'],
+    })
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+
+    expect(lines).toEqual([
+      { id: 'a', amount: -1234.5, timestamp: '2024-01-15T10:30:00.000Z' },
+      { id: 'b', amount: 20, timestamp: '2024-01-16T08:00:00.000Z' },
+    ]);
+  });
+
+  // verifies that the XLSX output is a zip whose entries carry matching CRCs
+  it('packages XLSX as a zip archive', () => {
+    const writer = createExportWriter({ ...OPTIONS, format: 'xlsx' });
+    const parts = [
+      ...writer.open(),
+      ...writer.write(TRANSACTIONS),
+      ...writer.close(),
+    ] as Uint8Array[];
+    const bytes = new Uint8Array(
+      parts.reduce((sum, part) => sum + part.length, 0)
+    );
+    parts.reduce((offset, part) => {
+      bytes.set(part, offset);
+      return offset + part.length;
+    }, 0);
+    const view = new DataView(bytes.buffer);
+
+    // end of central directory record is the last 22 bytes
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(5);
+
+    // the first entry is [Content_Types].xml followed by its descriptor
+    const nameLength = view.getUint16(26, true);
+    const name = new TextDecoder().decode(bytes.subarray(30, 30 + nameLength));
+    expect(name).toBe('[Content_Types].xml');
+
+    const sheet = new TextDecoder().decode(bytes);
+    expect(sheet).toContain('<c><v>-1234.5</v></c>');
+    expect(sheet).toContain('Shop, &quot;The&quot;');
+
+    expect(updateCrc32(0, new TextEncoder().encode('123456789'))).toBe(
+      0xcbf43926
+    );
+  });
+
+  // verifies that control characters XML cannot hold are dropped while whitespace is kept
+  it('drops control characters from XLSX text', () => {
+    const writer = createExportWriter({ ...OPTIONS, format: 'xlsx' });
+    const parts = [
+      ...writer.open(),
+      ...writer.write([
+        createTransaction({
+          id: 'c',
+          description: '\u0001Tea\tbreak\u000b\u001f',
+        }),
+      ]),
+    ] as Uint8Array[];
+    const sheet = parts.map(part => new TextDecoder().decode(part)).join('');
+
+    expect(sheet).toContain('>Tea\tbreak</t>');
+  });
+
+  // verifies that group subtotals are written one row per group with signed debits
+  it('writes group subtotals', () => {
+    const { parts, extension } = writeGroupSummary(
+      {
+        groupLabel: 'Category',
+        currency: 'USD',
+        groups: [
+          { label: 'Travel', count: 3, credits: 25, debits: 110 },
+          { label: '=Shopping', count: 1, credits: 0, debits: 40 },
+        ],
+      },
+      { format: 'csv', amountMode: 'raw', locale: 'en-US' }
+    );
+
+    expect(extension).toBe('csv');
+    expect(parts.join('').replace('\ufeff', '').split('\r\n')).toEqual([
+      'Category,Transactions,Credits,Debits,Net',
+      'Travel,3,25,-110,-85',
+      "'=Shopping,1,0,-40,-40",
+      '',
+    ]);
+  });
+});
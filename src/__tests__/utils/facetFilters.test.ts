@@ -0,0 +1,89 @@
+/*
+ * unit test for facet filters testing:
+ * - single-value filters folded into facet selections
+ * - replacing and clearing one facet's selection
+ * - facet values offered from search hints
+ * - per-value counts applying every facet but the counted one
+ **/
+
+import { describe, expect, it } from 'vitest';
+import {
+  countFacetValues,
+  getFacetSelections,
+  getFacetValues,
+  setFacetSelection,
+} from '../../utils/facetFilters';
+import { createSearchHintCounter } from '../../utils/createSearchHints';
+import { createTransaction } from '../testUtils';
+
+describe('facetFilters', () => {
+  // verifies that single-value filters join the facets and are dropped once a facet is edited
+  it('folds single-value filters into facets', () => {
+    const filters = {
+      status: 'failed' as const,
+      type: 'all' as const,
+      category: 'Travel',
+      facets: { category: { include: ['Shopping'], exclude: [] } },
+    };
+    expect(getFacetSelections(filters)).toEqual({
+      category: { include: ['Travel', 'Shopping'], exclude: [] },
+      status: { include: ['failed'], exclude: [] },
+    });
+
+    const edited = setFacetSelection(filters, 'category', {
+      include: [],
+      exclude: [],
+    });
+    expect(edited.category).toBeUndefined();
+    expect(edited.status).toBeUndefined();
+    expect(edited.facets).toEqual({
+      status: { include: ['failed'], exclude: [] },
+    });
+    expect(
+      setFacetSelection(edited, 'status', { include: [], exclude: [] }).facets
+    ).toBeUndefined();
+  });
+
+  // verifies that every status and type is offered and data-driven facets are sorted
+  it('offers facet values from the data', () => {
+    const counter = createSearchHintCounter();
+    counter.reset([
+      createTransaction({ merchantName: 'Uber', location: 'Boston, MA' }),
+      createTransaction({ merchantName: 'Amazon', reference: 'INV-1' }),
+      createTransaction({ merchantName: 'AMAZON' }),
+    ]);
+
+    expect(getFacetValues(counter.hints())).toEqual({
+      category: ['general'],
+      status: ['completed', 'pending', 'failed'],
+      type: ['debit', 'credit'],
+      merchant: ['Amazon', 'Uber'],
+      location: ['Boston, MA'],
+      account: ['acc-1'],
+    });
+  });
+
+  // verifies that a facet's counts ignore its own selection but honour the others
+  it('counts values given the other facets', () => {
+    const transactions = [
+      createTransaction({ category: 'Travel', status: 'failed' }),
+      createTransaction({ category: 'Travel', status: 'completed' }),
+      createTransaction({ category: 'Shopping', status: 'completed' }),
+      createTransaction({ category: 'Food', status: 'pending' }),
+    ];
+    const counts = countFacetValues(transactions, [0, 1, 2, 3], {
+      facets: {
+        category: { include: ['Travel', 'Shopping'], exclude: [] },
+        status: { include: [], exclude: ['failed'] },
+      },
+    });
+
+    expect(counts.category).toEqual({ travel: 1, shopping: 1, food: 1 });
+    expect(counts.status).toEqual({ failed: 1, completed: 2 });
+    expect(counts.merchant).toEqual({ 'test merchant': 2 });
+    expect(countFacetValues(transactions, [2, 3], {}).category).toEqual({
+      shopping: 1,
+      food: 1,
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/*
+ * unit test for typo tolerant search testing:
+ * - edit distances with early exit and adjacent swaps
+ * - misspelt merchants matching in fuzzy mode only
+ * - relevance ranking of exact, prefix and fuzzy matches
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { createTransaction } from '../testUtils';
+import { createFormatters } from '../../utils/createFormatters';
+import {
+  fuzzyIncludes,
+  getEditDistance,
+  getFuzzyWordDistance,
+} from '../../utils/fuzzyMatch';
+import { parseSearchQuery } from '../../utils/parseSearchQuery';
+import {
+  compileSearchQuery,
+  createRelevanceScorer,
+} from '../../utils/matchSearchQuery';
+
+const formatters = createFormatters();
+
+describe('fuzzyMatch', () => {
+  // verifies that distances count swaps as one edit and stop past the limit
+  it('measures bounded edit distance', () => {
+    expect(getEditDistance('walmrt', 'walmart', 2)).toBe(1);
+    expect(getEditDistance('tagret', 'target', 2)).toBe(1);
+    expect(getEditDistance('netflix', 'spotify', 2)).toBe(3);
+    expect(getFuzzyWordDistance('starbuks', 'starbucks')).toBe(1);
+    // partly typed words match the start of a token
+    expect(getFuzzyWordDistance('starbk', 'starbucks')).toBe(1);
+    // short words must match exactly
+    expect(getFuzzyWordDistance('ubr', 'uber')).toBeNull();
+  });
+
+  // verifies that every word of the value needs a close token
+  it('matches misspelt words in text', () => {
+    expect(fuzzyIncludes('starbucks coffee', 'starbuks')).toBe(true);
+    expect(fuzzyIncludes('starbucks coffee', 'starbuks cofee')).toBe(true);
+    expect(fuzzyIncludes('starbucks coffee', 'starbuks tea')).toBe(false);
+  });
+});
+
+describe('fuzzy search', () => {
+  const starbucks = createTransaction({
+    merchantName: 'Starbucks',
+    description: 'Morning coffee',
+  });
+  const walmart = createTransaction({
+    merchantName: 'Walmart',
+    description: 'Weekly groceries',
+    location: 'Springfield, IL',
+  });
+
+  // verifies that misspellings only match when fuzzy search is on
+  it('tolerates typos in fuzzy mode', () => {
+    const matches = (query: string, fuzzy: boolean) => {
+      const { root } = parseSearchQuery(query);
+      const predicate = compileSearchQuery(root!, { formatters, fuzzy });
+      return [starbucks, walmart].filter(transaction =>
+        predicate(transaction, 0)
+      );
+    };
+
+    expect(matches('starbuks', false)).toEqual([]);
+    expect(matches('starbuks', true)).toEqual([starbucks]);
+    expect(matches('walmrt', true)).toEqual([walmart]);
+    expect(matches('springfeld', true)).toEqual([walmart]);
+    expect(matches('merchant:walmrt -starbuks', true)).toEqual([walmart]);
+  });
+
+  // verifies that exact merchants outrank fuzzy and description matches
+  it('ranks closer matches higher', () => {
+    const starbucksReserve = createTransaction({
+      merchantName: 'Starbucks Reserve',
+    });
+    const mention = createTransaction({
+      merchantName: 'Office Supplies',
+      description: 'Starbucks gift card',
+    });
+    const score = createRelevanceScorer(parseSearchQuery('starbucks').root!);
+    const fuzzyScore = createRelevanceScorer(
+      parseSearchQuery('starbuks').root!,
+      true
+    );
+
+    expect(score(starbucks)).toBeGreaterThan(score(starbucksReserve));
+    expect(score(starbucksReserve)).toBeGreaterThan(score(mention));
+    expect(score(walmart)).toBe(0);
+    expect(fuzzyScore(starbucks)).toBeGreaterThan(0);
+    expect(fuzzyScore(starbucks)).toBeLessThan(score(starbucks));
+  });
+});
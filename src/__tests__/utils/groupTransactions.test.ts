@@ -0,0 +1,110 @@
+/*
+ * unit test for transaction grouping testing:
+ * - groups in order of their first row with credit and debit subtotals
+ * - weeks starting on Monday and months named in the calendar
+ * - status labels
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { groupTransactions } from '../../utils/groupTransactions';
+import { createFormatters } from '../../utils/createFormatters';
+import { createTransaction } from '../testUtils';
+
+const formatters = createFormatters({ locale: 'en-US', timezone: 'UTC' });
+const OPTIONS = {
+  formatters,
+  getAmount: ({ amount }: { amount: number }) => amount,
+};
+
+describe('groupTransactions', () => {
+  // verifies that groups follow the row order and total credits and debits apart
+  it('groups rows with subtotals', () => {
+    const groups = groupTransactions(
+      [
+        createTransaction({
+          id: 'a',
+          category: 'Travel',
+          amount: 100,
+          type: 'debit',
+        }),
+        createTransaction({
+          id: 'b',
+          category: 'Shopping',
+          amount: 40,
+          type: 'debit',
+        }),
+        createTransaction({
+          id: 'c',
+          category: 'Travel',
+          amount: 25,
+          type: 'credit',
+        }),
+        createTransaction({
+          id: 'd',
+          category: 'Travel',
+          amount: 10,
+          type: 'debit',
+        }),
+      ],
+      'category',
+      OPTIONS
+    );
+
+    expect(
+      groups.map(({ label, transactions, credits, debits }) => ({
+        label,
+        ids: transactions.map(row => row.id),
+        credits,
+        debits,
+      }))
+    ).toEqual([
+      { label: 'Travel', ids: ['a', 'c', 'd'], credits: 25, debits: 110 },
+      { label: 'Shopping', ids: ['b'], credits: 0, debits: 40 },
+    ]);
+  });
+
+  // verifies that calendar groups use Monday weeks and named months
+  it('groups by week and month', () => {
+    const rows = [
+      // a Sunday, closing the week that started on Monday the 9th
+      createTransaction({
+        id: 'a',
+        timestamp: new Date('2026-03-15T12:00:00Z'),
+      }),
+      createTransaction({
+        id: 'b',
+        timestamp: new Date('2026-03-16T12:00:00Z'),
+      }),
+      createTransaction({
+        id: 'c',
+        timestamp: new Date('2026-02-28T12:00:00Z'),
+      }),
+    ];
+
+    const weeks = groupTransactions(rows, 'week', OPTIONS);
+    expect(weeks.map(group => group.key)).toEqual([
+      '2026-03-09',
+      '2026-03-16',
+      '2026-02-23',
+    ]);
+    expect(weeks[0].label).toBe(
+      `Week of ${formatters.formatDate(new Date('2026-03-09T00:00:00Z'))}`
+    );
+
+    const months = groupTransactions(rows, 'month', OPTIONS);
+    expect(months.map(group => [group.key, group.label])).toEqual([
+      ['2026-03', 'March 2026'],
+      ['2026-02', 'February 2026'],
+    ]);
+  });
+
+  // verifies that statuses are shown capitalised
+  it('labels statuses', () => {
+    const [group] = groupTransactions(
+      [createTransaction({ status: 'pending' })],
+      'status',
+      OPTIONS
+    );
+    expect(group.label).toBe('Pending');
+  });
+});
@@ -0,0 +1,52 @@
+/*
+ * unit test for the import helpers testing:
+ * - rows already imported under another import id skipped
+ * - identical rows within one file kept
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { excludeImportedDuplicates } from '../../utils/importTransactions';
+import { createTransaction } from '../testUtils';
+
+// an imported row as produced by a given import
+const createImportedRow = (importId: string, line: number, amount = 5) =>
+  createTransaction({
+    id: `imp_${importId}_${line}`,
+    timestamp: new Date('2024-01-02T00:00:00Z'),
+    amount,
+    description: 'Tea',
+    accountId: 'imported',
+  });
+
+describe('excludeImportedDuplicates', () => {
+  // verifies that importing the same statement again adds nothing
+  it('skips rows that were already imported', () => {
+    const existing = [createImportedRow('a', 2), createImportedRow('a', 3, 9)];
+    const again = [createImportedRow('b', 2), createImportedRow('b', 3, 9)];
+
+    expect(excludeImportedDuplicates(existing, again)).toEqual({
+      transactions: [],
+      duplicateCount: 2,
+    });
+  });
+
+  // verifies that each earlier row only cancels out one new row
+  it('keeps repeated rows beyond the imported ones', () => {
+    const existing = [createImportedRow('a', 2)];
+    const imported = [
+      createImportedRow('b', 2),
+      createImportedRow('b', 3),
+      createImportedRow('b', 4, 7),
+    ];
+
+    const { transactions, duplicateCount } = excludeImportedDuplicates(
+      existing,
+      imported
+    );
+    expect(transactions.map(transaction => transaction.id)).toEqual([
+      'imp_b_3',
+      'imp_b_4',
+    ]);
+    expect(duplicateCount).toBe(1);
+  });
+});
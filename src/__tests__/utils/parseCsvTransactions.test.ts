@@ -0,0 +1,98 @@
+/*
+ * unit test for the CSV importer testing:
+ * - quoted cells, escaped quotes and embedded newlines
+ * - delimiter detection
+ * - column mapping and date order suggestions
+ * - per-row validation errors with source line numbers
+ **/
+
+import { describe, expect, it } from 'vitest';
+import {
+  detectCsvDelimiter,
+  inspectCsv,
+  parseCsvTransactions,
+  tokenizeCsv,
+} from '../../utils/parseCsvTransactions';
+import type { ImportOptions } from '../../types/transactionImport';
+
+const STATEMENT = [
+  'Posted Date,Description,Payee,Amount,Currency',
+  '15/01/2024,"Coffee, large",Blue Bottle,-4.50,',
+  '16/01/2024,Salary,ACME Corp,"2,500.00",EUR',
+  '31/02/2024,Broken date,Nobody,-1.00,',
+  '17/01/2024,,Nobody,abc,',
+].join('\n');
+
+const OPTIONS: ImportOptions = {
+  dateOrder: 'dmy',
+  defaultCurrency: 'USD',
+  mapping: { date: 0, description: 1, merchantName: 2, amount: 3, currency: 4 },
+};
+
+describe('parseCsvTransactions', () => {
+  // verifies that quoting rules and line numbers follow RFC 4180
+  it('tokenizes quoted cells and tracks the starting line of each row', () => {
+    const rows = tokenizeCsv('a,b\n"x, ""y""","multi\nline"\n\nlast,row', ',');
+
+    expect(rows).toEqual([
+      { line: 1, cells: ['a', 'b'] },
+      { line: 2, cells: ['x, "y"', 'multi\nline'] },
+      { line: 5, cells: ['last', 'row'] },
+    ]);
+  });
+
+  // verifies that the most frequent separator in the header wins
+  it('detects the delimiter from the header row', () => {
+    expect(detectCsvDelimiter('date;amount;memo\n1;2;3')).toBe(';');
+    expect(detectCsvDelimiter('date\tamount\n1\t2')).toBe('\t');
+    expect(detectCsvDelimiter('date,amount')).toBe(',');
+  });
+
+  // verifies that headers map onto fields and day-first dates are recognised
+  it('suggests a column mapping and date order', () => {
+    const preview = inspectCsv(STATEMENT);
+
+    expect(preview.headers).toHaveLength(5);
+    expect(preview.totalRows).toBe(4);
+    expect(preview.suggestedMapping).toEqual(OPTIONS.mapping);
+    expect(preview.suggestedDateOrder).toBe('dmy');
+  });
+
+  // verifies that valid rows become transactions and invalid rows are reported by line
+  it('parses mapped rows and reports invalid ones', () => {
+    const result = parseCsvTransactions(STATEMENT, OPTIONS, 'test');
+
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toMatchObject({
+      id: 'imp_test_2',
+      timestamp: new Date(2024, 0, 15),
+      amount: 4.5,
+      type: 'debit',
+      currency: 'USD',
+      description: 'Coffee, large',
+      merchantName: 'Blue Bottle',
+    });
+    expect(result.transactions[1]).toMatchObject({
+      amount: 2500,
+      type: 'credit',
+      currency: 'EUR',
+    });
+
+    expect(result.errors).toEqual([
+      { line: 4, message: 'invalid date "31/02/2024"' },
+      { line: 5, message: 'invalid amount "abc"; missing description' },
+    ]);
+  });
+
+  // verifies that an incomplete mapping fails the whole file up front
+  it('requires date, amount and description to be mapped', () => {
+    const result = parseCsvTransactions(
+      STATEMENT,
+      { ...OPTIONS, mapping: { date: 0 } },
+      'test'
+    );
+
+    expect(result.transactions).toHaveLength(0);
+    expect(result.errors[0].message).toContain('amount, description');
+  });
+});
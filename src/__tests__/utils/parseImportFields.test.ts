@@ -0,0 +1,89 @@
+/*
+ * unit test for the shared import field parsers testing:
+ * - ISO and numeric dates in each day/month/year order
+ * - rejection of impossible calendar dates
+ * - signed amounts with symbols, separators and bracket negatives
+ * - conversion of signed amounts into unsigned debits and credits
+ **/
+
+import { describe, expect, it } from 'vitest';
+import {
+  createImportedTransaction,
+  parseImportAmount,
+  parseImportDate,
+  parseImportType,
+} from '../../utils/parseImportFields';
+
+describe('parseImportFields', () => {
+  // verifies that ISO dates ignore the requested order
+  it('parses ISO dates with an optional time', () => {
+    expect(parseImportDate('2024-03-05', 'dmy')).toEqual(new Date(2024, 2, 5));
+    expect(parseImportDate('2024-03-05T14:30:10', 'mdy')).toEqual(
+      new Date(2024, 2, 5, 14, 30, 10)
+    );
+  });
+
+  // verifies that numeric dates follow the requested order and expand short years
+  it('parses numeric dates in the requested order', () => {
+    expect(parseImportDate('03/05/2024', 'mdy')).toEqual(new Date(2024, 2, 5));
+    expect(parseImportDate('03/05/2024', 'dmy')).toEqual(new Date(2024, 4, 3));
+    expect(parseImportDate('24.03.05', 'ymd')).toEqual(new Date(2024, 2, 5));
+    expect(parseImportDate("1/15'24", 'mdy')).toEqual(new Date(2024, 0, 15));
+    expect(parseImportDate('1/15/99', 'mdy')).toEqual(new Date(1999, 0, 15));
+  });
+
+  // verifies that overflowing or malformed dates are rejected instead of rolled over
+  it('rejects impossible dates', () => {
+    expect(parseImportDate('31/02/2024', 'dmy')).toBeNull();
+    expect(parseImportDate('13/01/2024', 'mdy')).toBeNull();
+    expect(parseImportDate('yesterday', 'mdy')).toBeNull();
+  });
+
+  // verifies that common bank amount notations are read with their sign
+  it('parses amounts as written in bank exports', () => {
+    expect(parseImportAmount('1,234.56')).toBe(1234.56);
+    expect(parseImportAmount('-$42.10')).toBe(-42.1);
+    expect(parseImportAmount('(15.00)')).toBe(-15);
+    expect(parseImportAmount('15.00-')).toBe(-15);
+    expect(parseImportAmount('1.234,56 EUR')).toBe(1234.56);
+    expect(parseImportAmount('12,5')).toBe(12.5);
+    expect(parseImportAmount('1,500')).toBe(1500);
+    expect(parseImportAmount('')).toBeNull();
+    expect(parseImportAmount('n/a')).toBeNull();
+  });
+
+  // verifies that debit and credit markers are recognised
+  it('maps debit and credit markers to a type', () => {
+    expect(parseImportType('DR')).toBe('debit');
+    expect(parseImportType('Withdrawal')).toBe('debit');
+    expect(parseImportType('credit')).toBe('credit');
+    expect(parseImportType('transfer')).toBeNull();
+  });
+
+  // verifies that the amount sign becomes the type unless a type is given
+  it('stores amounts unsigned with the direction in the type', () => {
+    const base = {
+      importId: 'a',
+      line: 2,
+      timestamp: new Date(2024, 0, 1),
+      description: 'Coffee',
+      currency: 'usd',
+    };
+
+    const debit = createImportedTransaction({ ...base, amount: -4.5 });
+    expect(debit).toMatchObject({
+      id: 'imp_a_2',
+      amount: 4.5,
+      type: 'debit',
+      currency: 'USD',
+      merchantName: 'Coffee',
+    });
+
+    const credit = createImportedTransaction({
+      ...base,
+      amount: 4.5,
+      type: 'debit',
+    });
+    expect(credit.type).toBe('debit');
+  });
+});
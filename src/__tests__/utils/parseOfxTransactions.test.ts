@@ -0,0 +1,98 @@
+/*
+ * unit test for the OFX/QFX importer testing:
+ * - SGML (OFX 1.x) and XML (OFX 2.x) statements
+ * - datetimes with timezone offsets
+ * - statement currency and account defaults
+ * - per-record validation errors
+ **/
+
+import { describe, expect, it } from 'vitest';
+import {
+  parseOfxDate,
+  parseOfxTransactions,
+} from '../../utils/parseOfxTransactions';
+
+const SGML_STATEMENT = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>GBP
+<BANKACCTFROM><ACCTID>12345678</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115120000[0:GMT]
+<TRNAMT>-12.34
+<FITID>A1
+<NAME>Tesco &amp; Co
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>garbage
+<TRNAMT>100.00
+<FITID>A2
+<NAME>Refund
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const XML_STATEMENT = `<?xml version="1.0"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD</CURDEF>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT</TRNTYPE><DTPOSTED>20240201</DTPOSTED><TRNAMT>250.00</TRNAMT><FITID>B1</FITID><NAME>Payroll</NAME><MEMO>February salary</MEMO></STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+describe('parseOfxTransactions', () => {
+  // verifies that bracketed offsets are applied and bare dates are local
+  it('parses OFX datetimes', () => {
+    expect(parseOfxDate('20240115120000[-5:EST]')).toEqual(
+      new Date(Date.UTC(2024, 0, 15, 17))
+    );
+    expect(parseOfxDate('20240115')).toEqual(new Date(2024, 0, 15));
+    expect(parseOfxDate('2024-01-15')).toBeNull();
+  });
+
+  // verifies that SGML leaf tags without closing tags are read per transaction
+  it('parses SGML statements and reports invalid records', () => {
+    const result = parseOfxTransactions(SGML_STATEMENT, 'ofx');
+
+    expect(result.format).toBe('ofx');
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0]).toMatchObject({
+      timestamp: new Date(Date.UTC(2024, 0, 15, 12)),
+      amount: 12.34,
+      type: 'debit',
+      currency: 'GBP',
+      description: 'Tesco & Co',
+      reference: 'A1',
+      accountId: '12345678',
+    });
+    expect(result.errors).toEqual([
+      { line: 16, message: 'invalid DTPOSTED "garbage"' },
+    ]);
+  });
+
+  // verifies that XML statements with closing tags parse the same way
+  it('parses XML statements', () => {
+    const result = parseOfxTransactions(XML_STATEMENT, 'ofx');
+
+    expect(result.errors).toEqual([]);
+    expect(result.transactions[0]).toMatchObject({
+      amount: 250,
+      type: 'credit',
+      currency: 'USD',
+      description: 'February salary',
+      merchantName: 'Payroll',
+    });
+  });
+
+  // verifies that files without transactions are reported rather than silently empty
+  it('reports files without transactions', () => {
+    expect(parseOfxTransactions('<OFX></OFX>', 'ofx').errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,79 @@
+/*
+ * unit test for the QIF importer testing:
+ * - record grouping and field codes
+ * - skipping of non-transaction sections
+ * - per-record validation errors
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { parseQifTransactions } from '../../utils/parseQifTransactions';
+
+const STATEMENT = `!Type:Bank
+D1/15'24
+T-42.50
+PCorner Store
+LGroceries:Food
+N1001
+^
+D 2/ 1'24
+U1,200.00
+PEmployer
+MJanuary payroll
+^
+D02/30/2024
+T-5.00
+PBad date
+^
+!Type:Cat
+NGroceries
+^
+`;
+
+describe('parseQifTransactions', () => {
+  // verifies that records become transactions with categories and references
+  it('parses bank records', () => {
+    const result = parseQifTransactions(STATEMENT, 'qif');
+
+    expect(result.format).toBe('qif');
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toMatchObject({
+      id: 'imp_qif_2',
+      timestamp: new Date(2024, 0, 15),
+      amount: 42.5,
+      type: 'debit',
+      category: 'Groceries',
+      merchantName: 'Corner Store',
+      reference: '1001',
+    });
+    expect(result.transactions[1]).toMatchObject({
+      timestamp: new Date(2024, 1, 1),
+      amount: 1200,
+      type: 'credit',
+      description: 'January payroll',
+    });
+  });
+
+  // verifies that invalid records are reported with their starting line
+  it('reports invalid records and ignores category lists', () => {
+    const result = parseQifTransactions(STATEMENT, 'qif');
+
+    expect(result.errors).toEqual([
+      { line: 13, message: 'invalid date "02/30/2024"' },
+    ]);
+  });
+
+  // verifies that day-first exports can be read with an explicit order
+  it('honours the requested date order', () => {
+    const result = parseQifTransactions(
+      '!Type:Bank\nD15/01/2024\nT-1\nPShop\n^',
+      'qif',
+      'dmy',
+      'EUR'
+    );
+
+    expect(result.transactions[0]).toMatchObject({
+      timestamp: new Date(2024, 0, 15),
+      currency: 'EUR',
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/*
+ * unit test for the search query language testing:
+ * - field qualifiers, implicit AND, OR, NOT and grouping
+ * - positioned errors for invalid terms
+ * - field-aware matching of amounts, dates and text
+ * - field name and value completions
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { createTransaction } from '../testUtils';
+import type { Transaction } from '../../types/transaction';
+import { createFormatters } from '../../utils/createFormatters';
+import {
+  isStructuredQuery,
+  parseSearchQuery,
+} from '../../utils/parseSearchQuery';
+import { compileSearchQuery } from '../../utils/matchSearchQuery';
+import { getSearchCompletions } from '../../utils/getSearchCompletions';
+
+const formatters = createFormatters({ timezone: 'UTC' });
+
+// compiles a query that is expected to parse cleanly
+const compile = (query: string) => {
+  const { root, errors } = parseSearchQuery(query);
+  expect(errors).toEqual([]);
+  const predicate = compileSearchQuery(root!, { formatters });
+  return (transaction: Transaction) => predicate(transaction, 0);
+};
+
+describe('parseSearchQuery', () => {
+  // verifies that OR binds weaker than the implicit AND and minus negates
+  it('parses boolean structure with field terms', () => {
+    const { root, errors } = parseSearchQuery(
+      'merchant:amazon amount:>500 OR -category:"Food & Dining"'
+    );
+
+    expect(errors).toEqual([]);
+    expect(root).toMatchObject({
+      kind: 'or',
+      operands: [
+        {
+          kind: 'and',
+          operands: [
+            { term: { kind: 'field', field: 'merchant', value: 'amazon' } },
+            { term: { kind: 'amount', comparator: '>', value: 500 } },
+          ],
+        },
+        {
+          kind: 'not',
+          operand: {
+            term: { kind: 'field', field: 'category', value: 'Food & Dining' },
+          },
+        },
+      ],
+    });
+  });
+
+  // verifies that invalid terms are reported with their position and left out of the query
+  it('reports errors and keeps the valid terms', () => {
+    const query = 'status:lost shell color:red (amount:abc';
+    const { root, errors } = parseSearchQuery(query);
+
+    expect(errors.map(error => query.slice(error.start, error.end))).toEqual([
+      'status:lost',
+      'color:red',
+      'amount:abc',
+      '(',
+    ]);
+    expect(errors[0].message).toMatch(/unknown status/i);
+    expect(root).toMatchObject({ kind: 'term', term: { value: 'shell' } });
+    expect(isStructuredQuery('coffee shop')).toBe(false);
+    expect(isStructuredQuery('coffee NOT shop')).toBe(true);
+  });
+});
+
+describe('compileSearchQuery', () => {
+  // verifies that amount, status and date terms match the right transactions
+  it('matches field terms against transactions', () => {
+    const bigFailure = createTransaction({
+      amount: 750,
+      status: 'failed',
+      timestamp: new Date('2026-01-02T10:00:00Z'),
+    });
+    const smallFailure = createTransaction({
+      amount: 20,
+      status: 'failed',
+      timestamp: new Date('2026-01-02T10:00:00Z'),
+    });
+    const oldFailure = createTransaction({
+      amount: 750,
+      status: 'failed',
+      timestamp: new Date('2025-12-31T23:59:00Z'),
+    });
+    const match = compile('amount:>500 status:failed after:2026-01-01');
+
+    expect([bigFailure, smallFailure, oldFailure].map(match)).toEqual([
+      true,
+      false,
+      false,
+    ]);
+    expect(compile('date:2026-01-02')(bigFailure)).toBe(true);
+    expect(compile('before:2026-01-02')(bigFailure)).toBe(false);
+    expect(compile('amount:10..20')(smallFailure)).toBe(true);
+  });
+
+  // verifies that text terms are case and accent insensitive and negation excludes
+  it('matches text across fields with negation', () => {
+    const cafe = createTransaction({
+      merchantName: 'Café Nero',
+      category: 'Food & Dining',
+    });
+    const match = compile('cafe -category:"food & dining"');
+
+    expect(compile('merchant:CAFE')(cafe)).toBe(true);
+    expect(match(cafe)).toBe(false);
+    expect(compile('nero OR shell')(cafe)).toBe(true);
+  });
+});
+
+describe('getSearchCompletions', () => {
+  // verifies that field names and known values complete the term being typed
+  it('completes field names and values', () => {
+    expect(getSearchCompletions('merchant:amazon sta')).toEqual([
+      {
+        label: 'status:',
+        value: 'merchant:amazon status:',
+        description: expect.any(String),
+      },
+    ]);
+    expect(
+      getSearchCompletions('status:f').map(completion => completion.value)
+    ).toEqual(['status:failed ']);
+    expect(
+      getSearchCompletions('-category:"food', {
+        category: ['Groceries', 'Food & Dining'],
+      })
+    ).toEqual([
+      { label: 'category:"Food & Dining"', value: '-category:"Food & Dining" ' },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+/*
+ * unit test for date range presets testing:
+ * - rolling and calendar-month presets in the user's time zone
+ * - custom ranges and inactive filters
+ * - inclusive start and exclusive end checks
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { createFormatters } from '../../utils/createFormatters';
+import {
+  isWithinDateRange,
+  resolveDateRange,
+  shiftDayKey,
+} from '../../utils/resolveDateRange';
+
+// 02:00 on 15 March in Tokyo, still 14 March in UTC
+const NOW = Date.UTC(2024, 2, 14, 17, 0);
+
+describe('resolveDateRange', () => {
+  const utc = createFormatters({ timezone: 'UTC' });
+  const tokyo = createFormatters({ timezone: 'Asia/Tokyo' });
+
+  // verifies that presets start at midnight of the user's day, counting today
+  it('resolves presets against the current day in the time zone', () => {
+    expect(
+      resolveDateRange(
+        { datePreset: 'today' },
+        tokyo,
+        NOW
+      )?.start?.toISOString()
+    ).toBe('2024-03-14T15:00:00.000Z');
+    expect(
+      resolveDateRange({ datePreset: 'last7' }, utc, NOW)?.start?.toISOString()
+    ).toBe('2024-03-08T00:00:00.000Z');
+    expect(
+      resolveDateRange(
+        { datePreset: 'thisMonth' },
+        utc,
+        NOW
+      )?.start?.toISOString()
+    ).toBe('2024-03-01T00:00:00.000Z');
+  });
+
+  // verifies that custom ranges pass through and missing presets disable the filter
+  it('handles custom and inactive ranges', () => {
+    const start = new Date('2024-01-01T00:00:00Z');
+
+    expect(resolveDateRange({}, utc, NOW)).toBeNull();
+    expect(resolveDateRange({ datePreset: 'custom' }, utc, NOW)).toBeNull();
+    expect(
+      resolveDateRange({ datePreset: 'custom', dateRange: { start } }, utc, NOW)
+    ).toEqual({ start, end: undefined });
+  });
+
+  // verifies that the start is inclusive and the end exclusive
+  it('checks timestamps against the window', () => {
+    const range = {
+      start: new Date('2024-03-01T00:00:00Z'),
+      end: new Date('2024-03-02T00:00:00Z'),
+    };
+
+    expect(isWithinDateRange(new Date('2024-03-01T00:00:00Z'), range)).toBe(
+      true
+    );
+    expect(isWithinDateRange(new Date('2024-03-02T00:00:00Z'), range)).toBe(
+      false
+    );
+    expect(shiftDayKey('2024-02-28', 2)).toBe('2024-03-01');
+  });
+});
@@ -0,0 +1,39 @@
+/*
+ * unit test for row selection testing:
+ * - single rows toggled on and off
+ * - shift ranges selected or cleared from the anchor in either direction
+ * - ranges falling back to a single row without a usable anchor
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { toggleRowSelection } from '../../utils/rowSelection';
+
+const ORDER = ['a', 'b', 'c', 'd', 'e'];
+const sorted = (ids: Set<string>) => [...ids].sort();
+
+describe('rowSelection', () => {
+  // verifies that plain toggles add and remove one row
+  it('toggles single rows', () => {
+    const selected = toggleRowSelection(new Set(), ORDER, 'b', null, false);
+    expect(sorted(selected)).toEqual(['b']);
+    expect(
+      sorted(toggleRowSelection(selected, ORDER, 'b', 'b', false))
+    ).toEqual([]);
+  });
+
+  // verifies that ranges take the clicked row's new state, backwards too
+  it('selects and clears ranges', () => {
+    const selected = toggleRowSelection(new Set(['d']), ORDER, 'b', 'd', true);
+    expect(sorted(selected)).toEqual(['b', 'c', 'd']);
+    expect(sorted(toggleRowSelection(selected, ORDER, 'c', 'a', true))).toEqual(
+      ['d']
+    );
+  });
+
+  // verifies that an anchor no longer shown selects just the clicked row
+  it('falls back to single rows', () => {
+    expect(
+      sorted(toggleRowSelection(new Set(), ORDER, 'c', 'gone', true))
+    ).toEqual(['c']);
+  });
+});
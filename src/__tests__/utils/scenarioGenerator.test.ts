@@ -0,0 +1,144 @@
+/*
+ * unit test for the scenario generator testing:
+ * - stable consumer population per profile
+ * - persona home locations and habitual merchants
+ * - weekday and payday seasonality
+ * - injected card-testing and impossible-travel bursts
+ * - account currencies of the consumer population
+ **/
+
+import { describe, expect, it } from 'vitest';
+import { SCENARIO_PROFILES } from '../../constants/scenarios';
+import { createSeededRandom } from '../../helpers/createSeededRandom';
+import {
+  createScenarioState,
+  generateScenarioTransactions,
+} from '../../utils/scenarioGenerator';
+import type { ScenarioProfile } from '../../types/scenario';
+
+const NOW = Date.UTC(2024, 0, 1);
+
+// helper to generate a seeded dataset for a profile
+const generate = (profile: ScenarioProfile, count: number, seed = 1) =>
+  generateScenarioTransactions(
+    count,
+    createScenarioState(profile),
+    createSeededRandom(seed),
+    NOW
+  );
+
+describe('scenarioGenerator', () => {
+  // verifies that the consumer population does not change between jobs
+  it('builds the same consumer population every time', () => {
+    const first = createScenarioState(SCENARIO_PROFILES.everyday);
+    const second = createScenarioState(SCENARIO_PROFILES.everyday);
+
+    expect(second.consumers).toEqual(first.consumers);
+    expect(first.consumers).toHaveLength(
+      SCENARIO_PROFILES.everyday.consumerCount
+    );
+  });
+
+  // verifies that exactly the requested count is produced, even when bursts are truncated
+  it('honours the requested transaction count', () => {
+    expect(generate(SCENARIO_PROFILES['card-testing'], 137)).toHaveLength(137);
+  });
+
+  // verifies that habitual spending stays mostly at home with familiar merchants
+  it('keeps consumers near home with habitual merchants', () => {
+    const profile: ScenarioProfile = {
+      ...SCENARIO_PROFILES.everyday,
+      fraudBursts: [],
+    };
+    const state = createScenarioState(profile);
+    const consumers = new Map(state.consumers.map(c => [c.userId, c]));
+    const transactions = generate(profile, 2000);
+
+    const atHome = transactions.filter(
+      t => t.location === consumers.get(t.userId)?.homeLocation
+    ).length;
+    const habitual = transactions.filter(t =>
+      consumers.get(t.userId)?.habitualMerchants.includes(t.merchantName)
+    ).length;
+
+    expect(atHome / transactions.length).toBeGreaterThan(0.85);
+    expect(habitual / transactions.length).toBeGreaterThan(0.7);
+  });
+
+  // verifies that paydays receive noticeably more volume than ordinary days
+  it('concentrates volume on paydays', () => {
+    const transactions = generate(SCENARIO_PROFILES['payday-rush'], 5000);
+    const paydays = transactions.filter(t =>
+      [1, 15].includes(t.timestamp.getUTCDate())
+    ).length;
+
+    // two paydays out of ~30 days would be under 7% without the spike
+    expect(paydays / transactions.length).toBeGreaterThan(0.2);
+  });
+
+  // verifies that card-testing bursts inject runs of tiny charges
+  it('injects card-testing bursts', () => {
+    const transactions = generate(SCENARIO_PROFILES['card-testing'], 3000);
+    const probes = transactions.filter(t =>
+      t.description.endsWith('Card verification')
+    );
+
+    expect(probes.length).toBeGreaterThan(0);
+    expect(probes.every(t => t.amount <= 5)).toBe(true);
+    expect(
+      probes.every(
+        t =>
+          t.groundTruth?.fraudType === 'card-testing' &&
+          t.groundTruth.scenarioId === 'card-testing'
+      )
+    ).toBe(true);
+  });
+
+  // verifies that impossible-travel bursts alternate between distant cities minutes apart
+  it('injects impossible-travel bursts', () => {
+    const transactions = generate(SCENARIO_PROFILES['impossible-travel'], 3000);
+
+    const hasImpossibleHop = transactions.some((t, index) => {
+      const next = transactions[index + 1];
+      return (
+        next !== undefined &&
+        next.userId === t.userId &&
+        next.location !== t.location &&
+        next.timestamp.getTime() - t.timestamp.getTime() < 60 * 60 * 1000 &&
+        next.amount >= 500
+      );
+    });
+
+    expect(hasImpossibleHop).toBe(true);
+  });
+
+  // verifies that regular habitual spending never carries a fraud label
+  it('leaves habitual transactions unlabeled', () => {
+    const transactions = generate(
+      { ...SCENARIO_PROFILES.everyday, fraudBursts: [] },
+      1000
+    );
+
+    expect(transactions.some(t => t.groundTruth)).toBe(false);
+  });
+
+  // verifies that every transaction is booked in its consumer's account currency
+  it('books transactions in the consumer currency', () => {
+    const state = createScenarioState(SCENARIO_PROFILES.everyday);
+    const consumers = new Map(state.consumers.map(c => [c.userId, c]));
+    const transactions = generate(SCENARIO_PROFILES.everyday, 1000);
+
+    expect(new Set(state.consumers.map(c => c.currency)).size).toBeGreaterThan(
+      1
+    );
+    expect(
+      transactions.every(t => t.currency === consumers.get(t.userId)?.currency)
+    ).toBe(true);
+    // profiles without a currency mix keep everyone on USD
+    expect(
+      createScenarioState(SCENARIO_PROFILES['card-testing']).consumers.every(
+        c => c.currency === 'USD'
+      )
+    ).toBe(true);
+  });
+});
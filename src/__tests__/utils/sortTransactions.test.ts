@@ -0,0 +1,176 @@
+/*
+ * unit test for transaction sorting testing:
+ * - header clicks replacing, flipping and adding sort keys
+ * - later keys breaking the ties of earlier ones
+ * - appended rows merged into the previous result in full-sort order
+ * - rows arriving in between earlier ones, filter passes and updated rows
+ * - removed rows dropped and rows sharing an id all kept
+ * - best match ties broken by newest first
+ **/
+
+import { describe, expect, it } from 'vitest';
+import {
+  createTransactionSorter,
+  toggleSortField,
+} from '../../utils/sortTransactions';
+import { TransactionSortOrder } from '../../types/transaction';
+import { createTransaction } from '../testUtils';
+
+const ids = (rows: { id: string }[]) => rows.map(row => row.id);
+
+describe('sortTransactions', () => {
+  // verifies that plain clicks replace the order and shift-clicks extend or flip it
+  it('toggles sort fields', () => {
+    const order: TransactionSortOrder = [
+      { field: 'timestamp', direction: 'desc' },
+    ];
+
+    expect(toggleSortField(order, 'timestamp', false)).toEqual([
+      { field: 'timestamp', direction: 'asc' },
+    ]);
+    expect(toggleSortField(order, 'amount', false)).toEqual([
+      { field: 'amount', direction: 'asc' },
+    ]);
+
+    const extended = toggleSortField(order, 'category', true);
+    expect(extended).toEqual([
+      { field: 'timestamp', direction: 'desc' },
+      { field: 'category', direction: 'asc' },
+    ]);
+    expect(toggleSortField(extended, 'category', true)).toEqual([
+      { field: 'timestamp', direction: 'desc' },
+      { field: 'category', direction: 'desc' },
+    ]);
+    // a plain click on one of several keys keeps only that key
+    expect(toggleSortField(extended, 'category', false)).toEqual([
+      { field: 'category', direction: 'asc' },
+    ]);
+  });
+
+  // verifies that each key only orders rows the keys before it consider equal
+  it('sorts by several keys', () => {
+    const sort = createTransactionSorter([
+      { field: 'category', direction: 'asc' },
+      { field: 'amount', direction: 'desc' },
+    ]);
+    const rows = [
+      createTransaction({ id: '1', category: 'travel', amount: 10 }),
+      createTransaction({ id: '2', category: 'Food', amount: 5 }),
+      createTransaction({ id: '3', category: 'travel', amount: 30 }),
+      createTransaction({ id: '4', category: 'food', amount: 50 }),
+    ];
+
+    expect(ids(sort(rows))).toEqual(['4', '2', '3', '1']);
+  });
+
+  // verifies that streamed rows end up where a full sort of every row would put them
+  it('merges appended rows', () => {
+    const order: TransactionSortOrder = [
+      { field: 'status', direction: 'asc' },
+      { field: 'merchantName', direction: 'asc' },
+    ];
+    const merchants = ['Zeta', 'Alpha', 'Mid', 'Beta', 'Alpha', 'Omega'];
+    const statuses = ['pending', 'completed', 'failed'] as const;
+    const rows = Array.from({ length: 24 }, (_, index) =>
+      createTransaction({
+        id: String(index),
+        merchantName: merchants[index % merchants.length],
+        status: statuses[index % statuses.length],
+      })
+    );
+
+    const sort = createTransactionSorter(order);
+    const first = sort(rows.slice(0, 10));
+    const merged = sort(rows);
+
+    expect(first).toHaveLength(10);
+    expect(ids(merged)).toEqual(ids(createTransactionSorter(order)(rows)));
+  });
+
+  // verifies that rows arriving in between earlier ones and filter passes match a full sort
+  it('keeps the order when rows arrive interleaved', () => {
+    const order: TransactionSortOrder = [{ field: 'amount', direction: 'asc' }];
+    const rows = Array.from({ length: 30 }, (_, index) =>
+      createTransaction({ id: String(index), amount: (index * 7) % 30 })
+    );
+    const fullSort = (input: typeof rows) =>
+      ids(createTransactionSorter(order)(input));
+
+    const sort = createTransactionSorter(order);
+    // even rows first, then the odd rows land in between them
+    const even = rows.filter((_, index) => index % 2 === 0);
+    const shuffled = [...rows.filter((_, index) => index % 2 === 1), ...even];
+    expect(ids(sort(even))).toEqual(fullSort(even));
+    expect(ids(sort(shuffled))).toEqual(fullSort(rows));
+
+    // narrowing and widening a filter reads the rows off the index again
+    const narrowed = rows.filter(row => row.amount > 20);
+    expect(ids(sort(narrowed))).toEqual(fullSort(narrowed));
+    expect(ids(sort(rows))).toEqual(fullSort(rows));
+  });
+
+  // verifies that an updated row moves to where its new values sort
+  it('reorders updated rows', () => {
+    const sort = createTransactionSorter([
+      { field: 'amount', direction: 'asc' },
+    ]);
+    const rows = [
+      createTransaction({ id: 'a', amount: 1 }),
+      createTransaction({ id: 'b', amount: 2 }),
+      createTransaction({ id: 'c', amount: 3 }),
+    ];
+    expect(ids(sort(rows))).toEqual(['a', 'b', 'c']);
+
+    const updated = [
+      createTransaction({ id: 'a', amount: 9 }),
+      ...rows.slice(1),
+    ];
+    const result = sort(updated);
+    expect(ids(result)).toEqual(['b', 'c', 'a']);
+    expect(result[2]).toBe(updated[0]);
+  });
+
+  // verifies that removed rows are dropped and every row sharing an id is listed
+  it('drops removed rows and keeps repeated ids', () => {
+    const sort = createTransactionSorter([
+      { field: 'amount', direction: 'asc' },
+    ]);
+    const rows = [
+      createTransaction({ id: 'a', amount: 3 }),
+      createTransaction({ id: 'b', amount: 1 }),
+      createTransaction({ id: 'c', amount: 2 }),
+    ];
+    expect(ids(sort(rows))).toEqual(['b', 'c', 'a']);
+
+    // a removed row stays out once the input changes again without it
+    const removed = [rows[0], rows[2]];
+    expect(ids(sort(removed))).toEqual(['c', 'a']);
+    expect(ids(sort([...removed]))).toEqual(['c', 'a']);
+
+    // two rows with the same id, and one row passed twice, are all listed
+    const twin = createTransaction({ id: 'a', amount: 0 });
+    const repeated = [...rows, twin, rows[1]];
+    const result = sort(repeated);
+    expect(ids(result)).toEqual(['a', 'b', 'b', 'c', 'a']);
+    expect(result[0]).toBe(twin);
+    expect(result[4]).toBe(rows[0]);
+
+    // dropping the duplicates lists each row once again
+    expect(ids(sort(rows.slice(1)))).toEqual(['b', 'c']);
+  });
+
+  // verifies that rows scoring the same against the search are ordered newest first
+  it('breaks best match ties by date', () => {
+    const rows = [
+      createTransaction({ id: 'old', timestamp: new Date('2024-01-01') }),
+      createTransaction({ id: 'top', timestamp: new Date('2023-01-01') }),
+      createTransaction({ id: 'new', timestamp: new Date('2024-06-01') }),
+    ];
+    const sort = createTransactionSorter(
+      [{ field: 'relevance', direction: 'desc' }],
+      transaction => (transaction.id === 'top' ? 2 : 1)
+    );
+
+    expect(ids(sort(rows))).toEqual(['top', 'new', 'old']);
+  });
+});
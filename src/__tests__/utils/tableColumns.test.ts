@@ -0,0 +1,116 @@
+/*
+ * unit test for the table column model testing:
+ * - moving visible columns past hidden ones
+ * - keeping at least one column shown
+ * - team presets keeping the widths already set
+ * - restoring stored layouts, dropping unknown columns and adding new ones
+ * - export fields of the shown columns
+ **/
+
+import { describe, expect, it } from 'vitest';
+import {
+  applyColumnPreset,
+  DEFAULT_COLUMN_LAYOUT,
+  getExportColumns,
+  moveColumn,
+  resizeColumn,
+  reviveColumnLayout,
+  setColumnVisible,
+  TABLE_COLUMNS,
+} from '../../utils/tableColumns';
+import { TableColumnLayout } from '../../types/tableColumns';
+
+const visibleIds = (layout: TableColumnLayout) =>
+  layout.filter(column => column.visible).map(column => column.id);
+
+describe('tableColumns', () => {
+  // verifies that moves count shown columns only and stop at either end
+  it('moves columns', () => {
+    expect(visibleIds(DEFAULT_COLUMN_LAYOUT)).toEqual([
+      'merchant',
+      'amount',
+      'status',
+      'date',
+    ]);
+
+    const moved = moveColumn(DEFAULT_COLUMN_LAYOUT, 'date', -1);
+    expect(visibleIds(moved)).toEqual(['merchant', 'amount', 'date', 'status']);
+    expect(visibleIds(moveColumn(moved, 'merchant', 1))).toEqual([
+      'amount',
+      'merchant',
+      'date',
+      'status',
+    ]);
+    expect(moveColumn(moved, 'merchant', -1)).toBe(moved);
+    expect(moved).toHaveLength(DEFAULT_COLUMN_LAYOUT.length);
+  });
+
+  // verifies that columns can be shown and hidden but never all of them hidden
+  it('shows and hides columns', () => {
+    const withRisk = setColumnVisible(DEFAULT_COLUMN_LAYOUT, 'risk', true);
+    expect(visibleIds(withRisk)).toContain('risk');
+
+    let layout = withRisk;
+    visibleIds(withRisk).forEach(id => {
+      layout = setColumnVisible(layout, id, false);
+    });
+    expect(visibleIds(layout)).toEqual(['risk']);
+  });
+
+  // verifies that presets choose the columns and their order but keep custom widths
+  it('applies presets', () => {
+    const resized = resizeColumn(DEFAULT_COLUMN_LAYOUT, 'merchant', 400);
+    const fraud = applyColumnPreset(resized, 'fraud');
+
+    expect(visibleIds(fraud)).toEqual([
+      'risk',
+      'merchant',
+      'userId',
+      'location',
+      'date',
+      'amount',
+    ]);
+    expect(fraud.find(column => column.id === 'merchant')?.width).toBe(400);
+    expect(fraud.find(column => column.id === 'status')?.visible).toBe(false);
+  });
+
+  // verifies that stored layouts are cleaned up and widths kept within limits
+  it('revives stored layouts', () => {
+    const layout = reviveColumnLayout([
+      { id: 'category', visible: true, width: 5 },
+      { id: 'colour', visible: true, width: 100 },
+      { id: 'amount', visible: true, width: 180 },
+      { id: 'amount', visible: false, width: 100 },
+    ]);
+
+    expect(layout?.slice(0, 2)).toEqual([
+      {
+        id: 'category',
+        visible: true,
+        width: TABLE_COLUMNS.category.minWidth,
+      },
+      { id: 'amount', visible: true, width: 180 },
+    ]);
+    expect(layout).toHaveLength(DEFAULT_COLUMN_LAYOUT.length);
+    expect(visibleIds(layout!)).toEqual(['category', 'amount']);
+
+    expect(reviveColumnLayout({ columns: [] })).toBeNull();
+    expect(reviveColumnLayout([{ id: 'amount', visible: false }])).toBeNull();
+  });
+
+  // verifies that visible-column exports follow the shown columns in order
+  it('lists export columns', () => {
+    const layout = setColumnVisible(
+      moveColumn(DEFAULT_COLUMN_LAYOUT, 'date', -3),
+      'status',
+      false
+    );
+    expect(getExportColumns(layout)).toEqual([
+      'timestamp',
+      'merchantName',
+      'description',
+      'amount',
+      'currency',
+    ]);
+  });
+});
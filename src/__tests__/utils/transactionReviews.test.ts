@@ -0,0 +1,101 @@
+/*
+ * unit test for reviewer marks testing:
+ * - tags, review flags and reviewed marks applied to many transactions
+ * - marks left empty dropped
+ * - stored marks revived, and newer documents left untouched
+ **/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  applyReviewChange,
+  getReviewTags,
+  normalizeTag,
+} from '../../utils/transactionReviews';
+import {
+  loadTransactionReviews,
+  storeTransactionReviews,
+  TRANSACTION_REVIEWS_KEY,
+  TRANSACTION_REVIEWS_VERSION,
+} from '../../utils/transactionReviewStorage';
+
+describe('transactionReviews', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // verifies that changes apply to every given transaction and empty marks are dropped
+  it('applies bulk changes', () => {
+    let reviews = applyReviewChange({}, ['a', 'b'], {
+      type: 'tag',
+      tag: normalizeTag('  card   testing '),
+    });
+    reviews = applyReviewChange(reviews, ['b', 'c'], {
+      type: 'flag',
+      flagged: true,
+    });
+    reviews = applyReviewChange(reviews, ['a'], {
+      type: 'tag',
+      tag: 'card testing',
+    });
+
+    expect(reviews).toEqual({
+      a: { tags: ['card testing'], flagged: false, reviewed: false },
+      b: { tags: ['card testing'], flagged: true, reviewed: false },
+      c: { tags: [], flagged: true, reviewed: false },
+    });
+    expect(applyReviewChange(reviews, ['a'], { type: 'tag', tag: '' })).toBe(
+      reviews
+    );
+
+    const cleared = applyReviewChange(reviews, ['b', 'c'], {
+      type: 'flag',
+      flagged: false,
+    });
+    expect(Object.keys(cleared)).toEqual(['a', 'b']);
+    expect(
+      getReviewTags({
+        ...cleared,
+        d: { tags: ['aml'], flagged: false, reviewed: true },
+      })
+    ).toEqual(['aml', 'card testing']);
+  });
+
+  // verifies that marks survive a reload, skipping damaged entries
+  it('stores and loads marks', () => {
+    storeTransactionReviews({
+      a: { tags: ['aml'], flagged: false, reviewed: true },
+    });
+    expect(loadTransactionReviews()).toEqual({
+      a: { tags: ['aml'], flagged: false, reviewed: true },
+    });
+
+    localStorage.setItem(
+      TRANSACTION_REVIEWS_KEY,
+      JSON.stringify({
+        version: TRANSACTION_REVIEWS_VERSION,
+        reviews: { a: { tags: ['aml', 3], flagged: 'yes' }, b: null, c: {} },
+      })
+    );
+    expect(loadTransactionReviews()).toEqual({
+      a: { tags: ['aml'], flagged: false, reviewed: false },
+    });
+  });
+
+  // verifies that a newer schema is neither loaded nor overwritten
+  it('leaves unknown schema versions alone', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const newer = JSON.stringify({
+      version: TRANSACTION_REVIEWS_VERSION + 1,
+      reviews: { a: { tags: ['aml'], flagged: true, reviewed: true } },
+    });
+    localStorage.setItem(TRANSACTION_REVIEWS_KEY, newer);
+
+    expect(loadTransactionReviews()).toEqual({});
+    storeTransactionReviews({});
+    expect(localStorage.getItem(TRANSACTION_REVIEWS_KEY)).toBe(newer);
+  });
+});
@@ -0,0 +1,69 @@
+/*
+ * unit test for the facet counts worker testing:
+ * - counting over reset and appended rows
+ * - results echoing the job id
+ **/
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTransaction } from '../testUtils';
+
+describe('Facet Counts Worker', () => {
+  let postMessage: ReturnType<typeof vi.fn>;
+  let handleMessage: (event: MessageEvent<unknown>) => void;
+
+  // setup worker before each test by stubbing self and importing the module
+  beforeEach(async () => {
+    vi.resetModules();
+
+    const listeners: Array<(event: MessageEvent<unknown>) => void> = [];
+    postMessage = vi.fn();
+
+    vi.stubGlobal('self', {
+      addEventListener: vi.fn((type: string, listener: EventListener) => {
+        if (type === 'message') {
+          listeners.push(
+            listener as unknown as (event: MessageEvent<unknown>) => void
+          );
+        }
+      }),
+      postMessage,
+    });
+
+    await import(
+      new URL('../../workers/facetCounts.worker.ts', import.meta.url).href
+    );
+
+    handleMessage = listeners[0];
+  });
+
+  const send = (data: unknown) =>
+    handleMessage(new MessageEvent('message', { data }));
+
+  // verifies that counts cover the requested rows of both the reset and appended data
+  it('counts facet values over reset and appended rows', () => {
+    send({
+      type: 'reset',
+      transactions: [
+        createTransaction({ category: 'Travel' }),
+        createTransaction({ category: 'Shopping', status: 'failed' }),
+      ],
+    });
+    send({
+      type: 'append',
+      transactions: [createTransaction({ category: 'Travel' })],
+    });
+    send({
+      type: 'count',
+      jobId: 4,
+      rows: Int32Array.from([0, 1, 2]),
+      facets: { status: { include: [], exclude: ['failed'] } },
+    });
+
+    expect(postMessage).toHaveBeenCalledTimes(1);
+    const [{ type, jobId, counts }] = postMessage.mock.calls[0];
+    expect(type).toBe('result');
+    expect(jobId).toBe(4);
+    expect(counts.category).toEqual({ travel: 2 });
+    expect(counts.status).toEqual({ completed: 2, failed: 1 });
+  });
+});
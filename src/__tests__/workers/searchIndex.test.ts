@@ -0,0 +1,72 @@
+/*
+ * unit test for the search index worker testing:
+ * - indexing of reset and appended rows
+ * - query results echoing the job id with transferred row indices
+ **/
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTransaction } from '../testUtils';
+
+describe('Search Index Worker', () => {
+  let postMessage: ReturnType<typeof vi.fn>;
+  let handleMessage: (event: MessageEvent<unknown>) => void;
+
+  // setup worker before each test by stubbing self and importing the module
+  beforeEach(async () => {
+    vi.resetModules();
+
+    const listeners: Array<(event: MessageEvent<unknown>) => void> = [];
+    postMessage = vi.fn();
+
+    vi.stubGlobal('self', {
+      addEventListener: vi.fn((type: string, listener: EventListener) => {
+        if (type === 'message') {
+          listeners.push(
+            listener as unknown as (event: MessageEvent<unknown>) => void
+          );
+        }
+      }),
+      postMessage,
+    });
+
+    await import(
+      new URL('../../workers/searchIndex.worker.ts', import.meta.url).href
+    );
+
+    handleMessage = listeners[0];
+  });
+
+  const send = (data: unknown) =>
+    handleMessage(new MessageEvent('message', { data }));
+
+  // verifies that queries see both the reset rows and later appends
+  it('answers queries over reset and appended rows', () => {
+    send({
+      type: 'reset',
+      transactions: [
+        createTransaction({ merchantName: 'Amazon' }),
+        createTransaction({ merchantName: 'Shell' }),
+      ],
+    });
+    send({
+      type: 'append',
+      transactions: [createTransaction({ merchantName: 'Amazon Fresh' })],
+    });
+    send({
+      type: 'query',
+      jobId: 3,
+      terms: [
+        { kind: 'field', field: 'merchant', value: 'amazon' },
+        { kind: 'text', value: 'shell' },
+      ],
+    });
+
+    const [response, options] = postMessage.mock.calls[0];
+    expect(response.type).toBe('result');
+    expect(response.jobId).toBe(3);
+    expect(
+      response.matches.map((rows: Int32Array) => Array.from(rows))
+    ).toEqual([[0, 2], [1]]);
+    expect(options.transfer).toHaveLength(2);
+  });
+});
@@ -0,0 +1,104 @@
+/*
+ * unit test for the transaction export worker testing:
+ * - chunked streaming of encoded parts with progress
+ * - completion message with file type
+ * - cancellation between chunks
+ **/
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTransaction } from '../testUtils';
+
+// mock wait helper so chunks stream without real delays
+vi.mock('../../helpers/wait', () => ({
+  __esModule: true,
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+const OPTIONS = {
+  format: 'ndjson',
+  columns: ['id'],
+  amountMode: 'raw',
+  locale: 'en-US',
+};
+
+describe('Transaction Export Worker', () => {
+  let postMessage: ReturnType<typeof vi.fn>;
+  let handleMessage: (event: MessageEvent<unknown>) => Promise<void>;
+
+  // setup worker before each test by stubbing self and importing the module
+  beforeEach(async () => {
+    vi.resetModules();
+
+    const listeners: Array<(event: MessageEvent<unknown>) => Promise<void>> =
+      [];
+    postMessage = vi.fn();
+
+    vi.stubGlobal('self', {
+      addEventListener: vi.fn((type: string, listener: EventListener) => {
+        if (type === 'message') {
+          listeners.push(
+            listener as unknown as (
+              event: MessageEvent<unknown>
+            ) => Promise<void>
+          );
+        }
+      }),
+      postMessage,
+    });
+
+    await import(
+      new URL('../../workers/transactionExport.worker.ts', import.meta.url).href
+    );
+
+    handleMessage = listeners[0];
+  });
+
+  // helper to post an export request for a number of transactions
+  const exportRows = (count: number) =>
+    handleMessage(
+      new MessageEvent('message', {
+        data: {
+          type: 'export',
+          jobId: 7,
+          transactions: Array.from({ length: count }, (_, index) =>
+            createTransaction({ id: `t${index}` })
+          ),
+          options: OPTIONS,
+          chunkSize: 2,
+        },
+      })
+    );
+
+  // verifies that rows stream in chunks and finish with a completion message
+  it('streams chunks and completes', async () => {
+    await exportRows(5);
+
+    const messages = postMessage.mock.calls.map(call => call[0]);
+    const chunks = messages.filter(message => message.type === 'chunk');
+
+    expect(chunks.map(chunk => chunk.processed)).toEqual([0, 2, 4, 5, 5]);
+    expect(chunks.every(chunk => chunk.jobId === 7)).toBe(true);
+    expect(chunks.flatMap(chunk => chunk.parts).join('')).toBe(
+      ['t0', 't1', 't2', 't3', 't4'].map(id => `{"id":"${id}"}\n`).join('')
+    );
+    expect(messages[messages.length - 1]).toEqual({
+      type: 'complete',
+      jobId: 7,
+      mimeType: 'application/x-ndjson',
+      extension: 'ndjson',
+    });
+  });
+
+  // verifies that a cancel request stops the job at the next chunk boundary
+  it('stops after cancel', async () => {
+    const running = exportRows(6);
+    await handleMessage(
+      new MessageEvent('message', { data: { type: 'cancel' } })
+    );
+    await running;
+
+    const types = postMessage.mock.calls.map(call => call[0].type);
+    expect(types).not.toContain('complete');
+    expect(types.length).toBeLessThan(4);
+  });
+});
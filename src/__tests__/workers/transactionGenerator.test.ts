@@ -0,0 +1,135 @@
+/*
+ * unit test for the transaction generator worker testing:
+ * - seed and batch streaming up to the requested total
+ * - deterministic output for seeded runs
+ * - fixed reference time for seeded timestamps
+ * - named scenarios and the uniform fallback for unknown ones
+ **/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Transaction } from '../../types/transaction';
+
+// mock wait helper so batches stream without real delays
+vi.mock('../../helpers/wait', () => ({
+  __esModule: true,
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe('Transaction Generator Worker', () => {
+  let postMessage: ReturnType<typeof vi.fn>;
+  let handleMessage: (event: MessageEvent<unknown>) => Promise<void>;
+
+  // helper to boot the worker by resetting modules and stubbing self global
+  const bootWorker = async () => {
+    vi.resetModules();
+
+    const listeners: Array<(event: MessageEvent<unknown>) => void> = [];
+    postMessage = vi.fn();
+
+    vi.stubGlobal('self', {
+      addEventListener: vi.fn((type: string, listener: EventListener) => {
+        if (type === 'message') {
+          listeners.push(listener as (event: MessageEvent<unknown>) => void);
+        }
+      }),
+      removeEventListener: vi.fn(),
+      postMessage,
+    });
+
+    await import(
+      new URL('../../workers/transactionGenerator.worker.ts', import.meta.url)
+        .href
+    );
+
+    handleMessage = listeners[0] as (
+      event: MessageEvent<unknown>
+    ) => Promise<void>;
+  };
+
+  // helper to run a full init job and collect every generated transaction
+  const generate = async (data: Record<string, unknown>) => {
+    postMessage.mockClear();
+    await handleMessage(
+      new MessageEvent('message', { data: { type: 'init', ...data } })
+    );
+    return postMessage.mock.calls.flatMap(
+      call => (call[0].transactions ?? []) as Transaction[]
+    );
+  };
+
+  // setup worker before each test
+  beforeEach(async () => {
+    await bootWorker();
+  });
+
+  // cleanup globals and mocks after each test
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  // verifies that the seed message and subsequent batches add up to the requested total
+  it('streams the requested number of transactions', async () => {
+    const transactions = await generate({ total: 450, batchSize: 100 });
+
+    expect(transactions).toHaveLength(450);
+    expect(postMessage.mock.calls[0][0].type).toBe('seed');
+    expect(postMessage.mock.calls.at(-1)?.[0]).toEqual(
+      expect.objectContaining({ type: 'batch', done: true })
+    );
+  });
+
+  // verifies that identical seeds produce identical datasets across runs
+  it('produces identical transactions for identical seeds', async () => {
+    const first = await generate({ total: 300, batchSize: 50, seed: 7 });
+    await bootWorker();
+    const second = await generate({ total: 300, batchSize: 50, seed: 7 });
+
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+  });
+
+  // verifies that different seeds produce different datasets
+  it('produces different transactions for different seeds', async () => {
+    const first = await generate({ total: 50, seed: 1 });
+    const second = await generate({ total: 50, seed: 2 });
+
+    expect(second.map(t => t.id)).not.toEqual(first.map(t => t.id));
+  });
+
+  // verifies that seeded timestamps are spread back from the supplied reference time
+  it('spreads timestamps back from the reference time', async () => {
+    const now = Date.UTC(2025, 5, 1);
+    const transactions = await generate({ total: 100, seed: 3, now });
+
+    for (const transaction of transactions) {
+      expect(transaction.timestamp.getTime()).toBeLessThanOrEqual(now);
+    }
+  });
+
+  // verifies that a named scenario draws users from its consumer population
+  it('generates transactions for a named scenario', async () => {
+    const transactions = await generate({
+      total: 300,
+      seed: 5,
+      scenario: 'everyday',
+    });
+
+    expect(transactions).toHaveLength(300);
+    expect(
+      transactions.every(t => Number(t.userId.replace('user_', '')) < 500)
+    ).toBe(true);
+  });
+
+  // verifies that a prototype member name is not taken for a scenario
+  it('falls back to uniform generation for unknown scenarios', async () => {
+    const uniform = await generate({ total: 50, seed: 5 });
+    await bootWorker();
+    const unknown = await generate({
+      total: 50,
+      seed: 5,
+      scenario: 'constructor',
+    });
+
+    expect(JSON.stringify(unknown)).toBe(JSON.stringify(uniform));
+  });
+});
@@ -0,0 +1,120 @@
+/*
+ * unit test for the transaction import worker testing:
+ * - format detection from content and file extension
+ * - CSV previews for the column-mapping step
+ * - parse requests dispatched to the matching parser
+ * - job ids echoed on every response
+ **/
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { detectImportFormat } from '../../utils/importTransactions';
+
+describe('Transaction Import Worker', () => {
+  let postMessage: ReturnType<typeof vi.fn>;
+  let handleMessage: (event: MessageEvent<unknown>) => void;
+
+  // setup worker before each test by stubbing self and importing the module
+  beforeEach(async () => {
+    vi.resetModules();
+
+    const listeners: Array<(event: MessageEvent<unknown>) => void> = [];
+    postMessage = vi.fn();
+
+    vi.stubGlobal('self', {
+      addEventListener: vi.fn((type: string, listener: EventListener) => {
+        if (type === 'message') {
+          listeners.push(listener as (event: MessageEvent<unknown>) => void);
+        }
+      }),
+      postMessage,
+    });
+
+    await import(
+      new URL('../../workers/transactionImport.worker.ts', import.meta.url).href
+    );
+
+    handleMessage = listeners[0];
+  });
+
+  // verifies that file content wins over a misleading extension
+  it('detects the import format', () => {
+    expect(detectImportFormat('statement.csv', 'OFXHEADER:100\n<OFX>')).toBe(
+      'ofx'
+    );
+    expect(detectImportFormat('export.txt', '!Type:Bank\nD1/1/24\n^')).toBe(
+      'qif'
+    );
+    expect(detectImportFormat('export.qfx', '')).toBe('ofx');
+    expect(detectImportFormat('export.txt', 'date,amount')).toBe('csv');
+  });
+
+  // verifies that CSV files get a preview while other formats don't
+  it('inspects files', () => {
+    handleMessage(
+      new MessageEvent('message', {
+        data: {
+          type: 'inspect',
+          jobId: 1,
+          fileName: 'a.csv',
+          text: 'Date,Amount,Memo\n2024-01-02,5,Tea',
+        },
+      })
+    );
+    handleMessage(
+      new MessageEvent('message', {
+        data: {
+          type: 'inspect',
+          jobId: 2,
+          fileName: 'a.qif',
+          text: '!Type:Bank\n^',
+        },
+      })
+    );
+
+    expect(postMessage.mock.calls[0][0]).toMatchObject({
+      type: 'inspected',
+      jobId: 1,
+      format: 'csv',
+      preview: { headers: ['Date', 'Amount', 'Memo'], totalRows: 1 },
+    });
+    expect(postMessage.mock.calls[1][0]).toEqual({
+      type: 'inspected',
+      jobId: 2,
+      format: 'qif',
+      preview: null,
+    });
+  });
+
+  // verifies that parse requests return transactions and row errors
+  it('parses files with the given options', () => {
+    handleMessage(
+      new MessageEvent('message', {
+        data: {
+          type: 'parse',
+          jobId: 3,
+          importId: 'w',
+          text: 'Date,Amount,Memo\n2024-01-02,-5,Tea\nbad,1,x',
+          format: 'csv',
+          options: {
+            dateOrder: 'ymd',
+            defaultCurrency: 'USD',
+            mapping: { date: 0, amount: 1, description: 2 },
+          },
+        },
+      })
+    );
+
+    const [[response]] = postMessage.mock.calls;
+    expect(response.type).toBe('parsed');
+    expect(response.jobId).toBe(3);
+    expect(response.result.transactions).toHaveLength(1);
+    expect(response.result.transactions[0]).toMatchObject({
+      id: 'imp_w_2',
+      amount: 5,
+      type: 'debit',
+    });
+    expect(response.result.errors).toEqual([
+      { line: 3, message: 'invalid date "bad"' },
+    ]);
+  });
+});
@@ -1,4 +1,10 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { LoadingSpinner } from './ui/LoadingSpinner';
 import { DashboardLayout } from './layout/DashboardLayout';
 import { DashboardHeader } from './layout/DashboardHeader';
@@ -6,24 +12,76 @@ import { FilterBar } from './filters/FilterBar';
 import { TransactionTable } from './transactions/TransactionTable';
 import { TransactionDetailSheet } from './transactions/TransactionDetailSheet';
 import { Stats } from './stats/Stats.tsx';
+import { RiskEvaluationPanel } from './evaluation/RiskEvaluationPanel';
+import { ImportDialog } from './import/ImportDialog';
+import { SavedViewsDialog } from './views/SavedViewsDialog';
 import { useUserContext } from '../contexts/UserContext';
 import { useTransactionGenerator } from '../hooks/useTransactionGenerator';
 import { useRiskAnalytics } from '../hooks/useRiskAnalytics';
 import { useTransactionFilters } from '../hooks/useTransactionFilters';
 import { useTransactionSelection } from '../hooks/useTransactionSelection';
+import { useFxRates } from '../hooks/useFxRates';
+import { useSearchHints } from '../hooks/useSearchHints';
+import { useFacetCounts } from '../hooks/useFacetCounts';
+import { useSavedViews } from '../hooks/useSavedViews';
+import { useDashboardUrlState } from '../hooks/useDashboardUrlState';
+import { useColumnLayout } from '../hooks/useColumnLayout';
+import { useTransactionReviews } from '../hooks/useTransactionReviews';
+import { useMergedTransactions } from '../hooks/useMergedTransactions';
+import { resolveTransactionSourceConfig } from '../sources/createTransactionSource';
+import {
+  calculateReportingSummary,
+  convertTransactionAmount,
+} from '../utils/currencyConversion';
+import { parseSearchQuery } from '../utils/parseSearchQuery';
+import {
+  createRelevanceScorer,
+  getHighlightTerms,
+} from '../utils/matchSearchQuery';
+import { getFacetValues } from '../utils/facetFilters';
+import { DEFAULT_COLUMN_LAYOUT } from '../utils/tableColumns';
 import {
   FilterOptions,
   Transaction,
-  TransactionSummary,
+  TransactionSortOrder,
 } from '../types/transaction';
+import { SearchFieldValues } from '../types/searchQuery';
+import { SavedView, SavedViewState } from '../types/savedView';
+import { TransactionGroupBy } from '../types/transactionGroups';
+import { DEFAULT_TRANSACTION_SORT } from '../constants';
+import {
+  DashboardUrlState,
+  readDashboardUrlState,
+} from '../utils/dashboardUrlState';
 
 const MIN_ANALYTICS_SIZE = 500;
 const ANALYTICS_DEBOUNCE_MS = 250;
 const INITIAL_TOTAL = 10000;
 const STREAM_BATCH_TOTAL = 200;
+// from this many rows text search is served by the index worker instead of scanning
+const SEARCH_INDEX_THRESHOLD = 20000;
+// mock worker by default; VITE_TRANSACTION_SOURCE points the dashboard at a ledger API
+// VITE_GENERATOR_SEED and VITE_GENERATOR_SCENARIO configure the mock worker
+const TRANSACTION_SOURCE = resolveTransactionSourceConfig(import.meta.env);
+// optional JSON rate table replacing the built-in static FX rates
+const FX_RATES_URL = import.meta.env.VITE_FX_RATES_URL;
+const DEFAULT_REPORTING_CURRENCY = 'USD';
+const DEFAULT_USER_ID = 'local';
 
 export const Dashboard: React.FC = () => {
-  const { globalSettings } = useUserContext();
+  const { globalSettings, updateGlobalSettings } = useUserContext();
+  const reportingCurrency =
+    globalSettings.currency || DEFAULT_REPORTING_CURRENCY;
+  const { converter: fxConverter } = useFxRates({ url: FX_RATES_URL });
+  // state from a shared link, read once; it takes precedence over the default view
+  const [initialUrlState] = useState(readDashboardUrlState);
+  // table columns each user picked for their work, kept across sessions
+  const { columns, setColumns } = useColumnLayout(
+    globalSettings.userId || DEFAULT_USER_ID,
+    initialUrlState?.columns
+  );
+  // tags and review marks set on selected rows, kept across sessions
+  const { reviews, changeReviews } = useTransactionReviews();
 
   const [refreshInterval, setRefreshInterval] = useState<number>(10000);
   const [userPreferences, setUserPreferences] = useState({
@@ -75,18 +133,52 @@ export const Dashboard: React.FC = () => {
   }, []);
 
   /**
-   * initializes transaction generator with streaming configuration
-   * generates initial seed and continuously streams new batches at refresh interval
+   * initializes the configured transaction source with streaming configuration
+   * loads the initial seed and continuously streams new batches at refresh interval
    */
-  const { transactions, loading, scheduleNextBatch } = useTransactionGenerator({
+  const {
+    transactions: sourceTransactions,
+    loading,
+    error: sourceError,
+    scheduleNextBatch,
+  } = useTransactionGenerator({
     initialTotal: INITIAL_TOTAL,
     streamBatchTotal: STREAM_BATCH_TOTAL,
     refreshInterval: actualRefreshRate,
+    source: TRANSACTION_SOURCE,
     onIdle: handleGeneratorIdle,
   });
 
   scheduleNextBatchRef.current = scheduleNextBatch;
 
+  // bank statements imported by the user, kept apart from the source so streaming can't drop them
+  const [importedTransactions, setImportedTransactions] = useState<
+    Transaction[]
+  >([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  // merges imports into the dataset every filter, stat and analytics pass works on
+  const transactions = useMergedTransactions(
+    sourceTransactions,
+    importedTransactions
+  );
+
+  const handleImport = useCallback((imported: Transaction[]) => {
+    setImportedTransactions(prev => prev.concat(imported));
+  }, []);
+
+  const handleClearImported = useCallback(() => {
+    setImportedTransactions([]);
+  }, []);
+
+  // amount filters compare in the reporting currency; unconvertible rows keep their own amount
+  const getReportingAmount = useCallback(
+    (transaction: Transaction) =>
+      convertTransactionAmount(transaction, reportingCurrency, fxConverter) ??
+      transaction.amount,
+    [reportingCurrency, fxConverter]
+  );
+
   /**
    * manages transaction filtering and search functionality
    * provides filtered results, current filters, and methods to update them
@@ -99,12 +191,80 @@ export const Dashboard: React.FC = () => {
     setSearchTerm,
     applyFilters,
     getUniqueCategories,
+    facetRows,
   } = useTransactionFilters({
     transactions,
-    itemsPerPage: userPreferences.itemsPerPage,
-    compactView: userPreferences.compactView,
+    getAmount: getReportingAmount,
+    indexThreshold: SEARCH_INDEX_THRESHOLD,
+    initialFilters: initialUrlState?.filters,
+    initialSearchTerm: initialUrlState?.searchTerm,
   });
 
+  // table ordering, kept here so saved views and links can store and restore it
+  const [sort, setSort] = useState<TransactionSortOrder>(
+    initialUrlState?.sort ?? DEFAULT_TRANSACTION_SORT
+  );
+  const [groupBy, setGroupBy] = useState<TransactionGroupBy>(
+    initialUrlState?.groupBy ?? 'none'
+  );
+
+  /**
+   * named presets of filters, search, sort, grouping and columns
+   * the default view is applied once when the dashboard opens
+   */
+  const {
+    views,
+    defaultViewId,
+    saveView,
+    updateView,
+    renameView,
+    deleteView,
+    setDefaultView,
+  } = useSavedViews({ columns });
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const defaultViewAppliedRef = useRef(false);
+
+  // which rows are listed and how; resizing or moving columns keeps the page
+  const rowsViewKey = useMemo(
+    () => ({ filters, searchTerm, sort, groupBy }),
+    [filters, searchTerm, sort, groupBy]
+  );
+  const currentViewState = useMemo<SavedViewState>(
+    () => ({ ...rowsViewKey, columns }),
+    [rowsViewKey, columns]
+  );
+
+  // filters are re-applied by useTransactionFilters once the new state lands
+  const applyView = useCallback(
+    (view: SavedView) => {
+      setFilters(view.filters);
+      setSearchTerm(view.searchTerm);
+      setSort(view.sort);
+      setGroupBy(view.groupBy ?? 'none');
+      setColumns(view.columns);
+      setActiveViewId(view.id);
+    },
+    [setFilters, setSearchTerm, setColumns]
+  );
+
+  useEffect(() => {
+    if (defaultViewAppliedRef.current) return;
+    defaultViewAppliedRef.current = true;
+    if (initialUrlState) return;
+    const defaultView = views.find(view => view.id === defaultViewId);
+    if (defaultView) applyView(defaultView);
+  }, [views, defaultViewId, applyView, initialUrlState]);
+
+  const handleSaveView = useCallback(
+    (name: string) => saveView(name, currentViewState),
+    [saveView, currentViewState]
+  );
+
+  const handleUpdateView = useCallback(
+    (id: string) => updateView(id, currentViewState),
+    [updateView, currentViewState]
+  );
+
   /**
    * performs risk analytics on filtered transactions in a web worker
    * only runs when transaction count exceeds MIN_ANALYTICS_SIZE threshold
@@ -117,43 +277,56 @@ export const Dashboard: React.FC = () => {
   });
 
   /**
-   * calculates summary statistics for a set of transactions
-   * computes totals for amount, credits, debits, transaction count, average, and category distribution
+   * summarises the dataset in the reporting currency
+   * every amount is converted at the FX rates in effect on its own transaction date
    */
-  const calculateSummary = useCallback(
-    (txns: Transaction[]): TransactionSummary => {
-      const categoryCounts: Record<string, number> = {};
-      const result = txns.reduce(
-        (acc, txn) => {
-          const amount = txn.amount;
-          acc.totalAmount += Math.abs(amount);
-          acc.totalTransactions += 1;
-          if (amount > 0) {
-            acc.totalCredits += amount;
-          } else {
-            acc.totalDebits += Math.abs(amount);
-          }
-          categoryCounts[txn.category] =
-            (categoryCounts[txn.category] || 0) + 1;
-          return acc;
-        },
-        {
-          totalAmount: 0,
-          totalCredits: 0,
-          totalDebits: 0,
-          totalTransactions: 0,
-        }
-      );
-      return {
-        ...result,
-        avgTransactionAmount:
-          result.totalTransactions > 0
-            ? result.totalAmount / result.totalTransactions
-            : 0,
-        categoryCounts,
-      };
+  const summary = useMemo(
+    () =>
+      calculateReportingSummary(transactions, reportingCurrency, fxConverter),
+    [transactions, reportingCurrency, fxConverter]
+  );
+
+  // values offered by search autocomplete for field:value terms
+  const searchFieldValues = useMemo<SearchFieldValues>(() => {
+    const merchants = new Set<string>();
+    const currencies = new Set<string>();
+    transactions.forEach(transaction => {
+      merchants.add(transaction.merchantName);
+      currencies.add(transaction.currency);
+    });
+    return {
+      merchant: Array.from(merchants).sort(),
+      category: getUniqueCategories().sort(),
+      currency: Array.from(currencies).sort(),
+    };
+  }, [transactions, getUniqueCategories]);
+
+  // suggestions from the loaded data, so streamed and imported merchants show up as they arrive
+  const searchHints = useSearchHints(transactions);
+  // values offered by the filter bar's facets
+  const facetValues = useMemo(() => getFacetValues(searchHints), [searchHints]);
+  // rows behind each facet value given the other filters, counted off the main thread
+  const facetCounts = useFacetCounts({
+    transactions,
+    rows: facetRows,
+    filters,
+  });
+
+  // relevance ranking and highlighted words for the current search, undefined without one
+  const { getRelevance, highlightTerms } = useMemo(() => {
+    const { root } = parseSearchQuery(searchTerm.trim());
+    if (!root) return { getRelevance: undefined, highlightTerms: undefined };
+    return {
+      getRelevance: createRelevanceScorer(root, filters.fuzzy),
+      highlightTerms: getHighlightTerms(root),
+    };
+  }, [searchTerm, filters.fuzzy]);
+
+  const handleReportingCurrencyChange = useCallback(
+    (currency: string) => {
+      updateGlobalSettings({ currency });
     },
-    []
+    [updateGlobalSettings]
   );
 
   // syncs analyzing state to ref for use in callbacks
@@ -188,11 +361,41 @@ export const Dashboard: React.FC = () => {
    */
   const {
     selectedTransaction,
+    selectedTransactionId,
     handleTransactionClick,
+    selectTransactionById,
     closeTransactionDetail,
   } = useTransactionSelection({
     transactions,
     onPreferencesUpdate: handlePreferencesUpdate,
+    initialSelectedId: initialUrlState?.transactionId,
+  });
+
+  // restores an entry of the browser history, replacing every part of the state
+  const handleUrlRestore = useCallback(
+    (state: DashboardUrlState) => {
+      setFilters(state.filters);
+      setSearchTerm(state.searchTerm);
+      setSort(state.sort);
+      setGroupBy(state.groupBy ?? 'none');
+      // links leave the default columns out
+      setColumns(state.columns ?? DEFAULT_COLUMN_LAYOUT);
+      selectTransactionById(state.transactionId);
+    },
+    [setFilters, setSearchTerm, setColumns, selectTransactionById]
+  );
+
+  // keeps the URL shareable: filters, search, sort, grouping, columns and the open transaction
+  useDashboardUrlState({
+    state: {
+      filters,
+      searchTerm,
+      sort,
+      groupBy,
+      columns,
+      transactionId: selectedTransactionId,
+    },
+    onRestore: handleUrlRestore,
   });
 
   // handles search input changes from header component
@@ -215,34 +418,77 @@ export const Dashboard: React.FC = () => {
     [applyFilters, searchTerm, setFilters]
   );
 
+  // toggles typo tolerant search, which is kept with the other filters
+  const handleFuzzySearchChange = useCallback(
+    (fuzzy: boolean) => {
+      handleFilterChange({ ...filters, fuzzy });
+    },
+    [handleFilterChange, filters]
+  );
+
   // shows loading spinner while initial transaction seed is generating
   if (loading) {
     return (
       <div className="loading-container">
         <LoadingSpinner size="lg" />
         <p className="loading-text">Loading transactions...</p>
+        {sourceError && (
+          <p className="source-error" role="alert">
+            {sourceError.message}. Retrying…
+          </p>
+        )}
       </div>
     );
   }
 
   const headerComponent = (
-    <DashboardHeader onSearch={handleSearch} searchValue={searchTerm} />
+    <DashboardHeader
+      onSearch={handleSearch}
+      searchValue={searchTerm}
+      searchFieldValues={searchFieldValues}
+      searchHints={searchHints}
+      fuzzySearch={filters.fuzzy ?? false}
+      onFuzzySearchChange={handleFuzzySearchChange}
+      onImport={() => setIsImportOpen(true)}
+      reportingCurrency={reportingCurrency}
+      currencies={fxConverter.currencies}
+      onReportingCurrencyChange={handleReportingCurrencyChange}
+    />
   );
 
   const filtersComponent = (
     <FilterBar
       filters={filters}
       onFiltersChange={handleFilterChange}
-      categories={getUniqueCategories()}
+      facetValues={facetValues}
+      facetCounts={facetCounts}
       totalCount={transactions.length}
       filteredCount={filteredTransactions.length}
+      amountCurrency={reportingCurrency}
+      actions={
+        <SavedViewsDialog
+          views={views}
+          defaultViewId={defaultViewId}
+          activeViewId={activeViewId}
+          onApply={applyView}
+          onSave={handleSaveView}
+          onUpdate={handleUpdateView}
+          onRename={renameView}
+          onDelete={deleteView}
+          onSetDefault={setDefaultView}
+        />
+      }
     />
   );
 
-  const summary = calculateSummary(transactions);
-
   const mainComponent = (
     <>
+      {/* transport errors from remote sources; the source keeps retrying in the background */}
+      {sourceError && (
+        <p className="source-error" role="alert">
+          {sourceError.message}. Retrying…
+        </p>
+      )}
       <Stats
         summary={summary}
         filteredTransactions={filteredTransactions}
@@ -250,9 +496,31 @@ export const Dashboard: React.FC = () => {
         isAnalyzing={isAnalyzing}
         riskAnalytics={riskAnalytics}
       />
+      <RiskEvaluationPanel
+        transactions={filteredTransactions}
+        riskAnalytics={riskAnalytics}
+        isAnalyzing={isAnalyzing}
+      />
       <TransactionTable
         transactions={filteredTransactions}
         onTransactionClick={handleTransactionClick}
+        reportingCurrency={reportingCurrency}
+        fxConverter={fxConverter}
+        highlightTerms={highlightTerms}
+        fuzzyHighlight={filters.fuzzy}
+        getRelevance={getRelevance}
+        sort={sort}
+        onSortChange={setSort}
+        groupBy={groupBy}
+        onGroupByChange={setGroupBy}
+        defaultPageSize={userPreferences.itemsPerPage}
+        compact={userPreferences.compactView}
+        pageResetKey={rowsViewKey}
+        columns={columns}
+        onColumnsChange={setColumns}
+        riskScores={riskAnalytics?.risks}
+        reviews={reviews}
+        onReviewChange={changeReviews}
       />
     </>
   );
@@ -268,6 +536,15 @@ export const Dashboard: React.FC = () => {
         transaction={selectedTransaction}
         isOpen={!!selectedTransaction}
         onClose={closeTransactionDetail}
+        reportingCurrency={reportingCurrency}
+        fxConverter={fxConverter}
+      />
+      <ImportDialog
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImport={handleImport}
+        importedTransactions={importedTransactions}
+        onClearImported={handleClearImported}
       />
     </>
   );
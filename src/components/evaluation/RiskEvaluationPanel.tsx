@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, FlaskConical } from 'lucide-react';
+import styles from './RiskEvaluationPanel.module.css';
+import { Transaction } from '../../types/transaction';
+import { AnalyticsSummary } from '../../hooks/useRiskAnalytics';
+import { useFormatters } from '../../hooks/useFormatters';
+import {
+  DEFAULT_EVALUATION_THRESHOLDS,
+  EvaluationSignal,
+  EvaluationThresholds,
+  evaluateRiskAnalytics,
+} from '../../utils/evaluateRiskAnalytics';
+
+interface RiskEvaluationPanelProps {
+  transactions: Transaction[];
+  riskAnalytics: AnalyticsSummary | null;
+  isAnalyzing: boolean;
+}
+
+const SIGNAL_LABELS: Record<EvaluationSignal, string> = {
+  risk: 'Risk score',
+  pattern: 'Patterns',
+  anomaly: 'Anomalies',
+  combined: 'Any signal',
+};
+
+const THRESHOLD_CONTROLS: Array<{
+  key: keyof EvaluationThresholds;
+  label: string;
+  max: number;
+}> = [
+  { key: 'risk', label: 'Risk threshold', max: 2 },
+  { key: 'pattern', label: 'Pattern threshold', max: 1 },
+  { key: 'anomaly', label: 'Anomaly threshold', max: 1 },
+];
+
+/* compares analytics output against generator ground-truth labels
+ * only renders when the dataset contains labeled transactions, i.e. a scenario is running */
+export const RiskEvaluationPanel: React.FC<RiskEvaluationPanelProps> = ({
+  transactions,
+  riskAnalytics,
+  isAnalyzing,
+}) => {
+  const { formatNumber, formatPercent } = useFormatters();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // formats a 0-1 ratio as a percentage, showing a dash when the metric is undefined
+  const formatRatio = (value: number | null) =>
+    value === null ? '—' : formatPercent(value);
+  const [thresholds, setThresholds] = useState<EvaluationThresholds>(
+    DEFAULT_EVALUATION_THRESHOLDS
+  );
+
+  // labels are hidden from the normal UI, so the panel only exists when some are present
+  const hasLabels = useMemo(
+    () => transactions.some(transaction => transaction.groundTruth),
+    [transactions]
+  );
+
+  // re-scores the analytics output whenever thresholds or results change
+  const evaluation = useMemo(
+    () =>
+      isOpen && riskAnalytics
+        ? evaluateRiskAnalytics(transactions, riskAnalytics, thresholds)
+        : null,
+    [isOpen, transactions, riskAnalytics, thresholds]
+  );
+
+  if (!hasLabels) {
+    return null;
+  }
+
+  return (
+    <section className={styles.panel} aria-labelledby="risk-evaluation-title">
+      <button
+        type="button"
+        className={styles.toggle}
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        aria-controls="risk-evaluation-body"
+      >
+        <FlaskConical size={16} aria-hidden="true" />
+        <span id="risk-evaluation-title" className={styles.title}>
+          Risk model evaluation
+        </span>
+        {isAnalyzing && <span className={styles.badge}>Analyzing…</span>}
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div id="risk-evaluation-body" className={styles.body}>
+          {/* threshold sliders, applied locally so thresholds can be compared without re-running analysis */}
+          <div className={styles.thresholds}>
+            {THRESHOLD_CONTROLS.map(control => (
+              <label key={control.key} className={styles.threshold}>
+                <span className={styles.thresholdLabel}>
+                  {control.label}
+                  <output className={styles.thresholdValue}>
+                    {thresholds[control.key].toFixed(2)}
+                  </output>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={control.max}
+                  step={0.05}
+                  value={thresholds[control.key]}
+                  onChange={event => {
+                    const value = Number(event.target.value);
+                    setThresholds(prev => ({ ...prev, [control.key]: value }));
+                  }}
+                />
+              </label>
+            ))}
+          </div>
+
+          {!evaluation ? (
+            <p className={styles.empty}>Waiting for risk analytics…</p>
+          ) : (
+            <>
+              <p className={styles.summary}>
+                {formatNumber(evaluation.labeled)} labeled of{' '}
+                {formatNumber(evaluation.evaluated)} analyzed transactions
+              </p>
+
+              {/* per-signal confusion matrix with precision and recall */}
+              <table className={styles.matrix}>
+                <thead>
+                  <tr>
+                    <th scope="col">Signal</th>
+                    <th scope="col">True +</th>
+                    <th scope="col">False +</th>
+                    <th scope="col">False −</th>
+                    <th scope="col">True −</th>
+                    <th scope="col">Precision</th>
+                    <th scope="col">Recall</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {evaluation.signals.map(
+                    ({ signal, confusion, precision, recall }) => (
+                      <tr key={signal}>
+                        <th scope="row">{SIGNAL_LABELS[signal]}</th>
+                        <td>{formatNumber(confusion.truePositives)}</td>
+                        <td>{formatNumber(confusion.falsePositives)}</td>
+                        <td>{formatNumber(confusion.falseNegatives)}</td>
+                        <td>{formatNumber(confusion.trueNegatives)}</td>
+                        <td>{formatRatio(precision)}</td>
+                        <td>{formatRatio(recall)}</td>
+                      </tr>
+                    )
+                  )}
+                </tbody>
+              </table>
+
+              {/* recall of the combined signal per injected fraud type */}
+              <ul className={styles.fraudTypes}>
+                {Object.entries(evaluation.byFraudType).map(
+                  ([fraudType, stats]) => (
+                    <li key={fraudType}>
+                      <span className={styles.fraudType}>{fraudType}</span>
+                      {stats.detected} of {stats.labeled} detected
+                    </li>
+                  )
+                )}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,262 @@
+import React, { useCallback, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { Download, X } from 'lucide-react';
+import styles from './ExportDialog.module.css';
+import { Transaction } from '../../types/transaction';
+import {
+  ExportAmountMode,
+  ExportColumnId,
+  ExportFormat,
+  GroupSummaryExport,
+} from '../../types/transactionExport';
+import { useTransactionExport } from '../../hooks/useTransactionExport';
+import { useFormatters } from '../../hooks/useFormatters';
+import {
+  ALL_EXPORT_COLUMNS,
+  EXPORT_COLUMN_LABELS,
+  EXPORT_FORMAT_LABELS,
+} from '../../utils/exportTransactions';
+import { Button } from '../ui/Button';
+
+interface ExportDialogProps {
+  // rows to export, already filtered and in display order
+  transactions: Transaction[];
+  // columns currently shown in the table
+  visibleColumns: ExportColumnId[];
+  // groups of a grouped table, offered as an export of their subtotals
+  groupSummary?: GroupSummaryExport;
+  // whether the rows are the filtered table or the rows selected in it
+  scope?: 'filtered' | 'selected';
+}
+
+type ColumnScope = 'visible' | 'all';
+type RowScope = 'transactions' | 'groups';
+
+/* export action for the transaction table
+ * writes the given rows to CSV, NDJSON or XLSX in a worker and downloads the file */
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  transactions,
+  visibleColumns,
+  groupSummary,
+  scope = 'filtered',
+}) => {
+  const { formatNumber, locale, timezone } = useFormatters();
+  const [isOpen, setIsOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [columnScope, setColumnScope] = useState<ColumnScope>('visible');
+  const [amountMode, setAmountMode] = useState<ExportAmountMode>('formatted');
+  const [rowScope, setRowScope] = useState<RowScope>('transactions');
+  const {
+    isExporting,
+    progress,
+    exportTransactions,
+    exportGroupSummary,
+    cancel,
+  } = useTransactionExport();
+
+  const columns =
+    columnScope === 'visible' ? visibleColumns : ALL_EXPORT_COLUMNS;
+  // falls back to transactions once the table is no longer grouped
+  const exportsGroups = rowScope === 'groups' && !!groupSummary;
+
+  const handleExport = useCallback(
+    (event: React.FormEvent) => {
+      event.preventDefault();
+      if (exportsGroups) {
+        exportGroupSummary(groupSummary, {
+          format: exportFormat,
+          amountMode,
+          locale,
+          timezone,
+        });
+        return;
+      }
+      exportTransactions(transactions, {
+        format: exportFormat,
+        columns,
+        amountMode,
+        locale,
+        timezone,
+      });
+    },
+    [
+      amountMode,
+      columns,
+      exportFormat,
+      exportGroupSummary,
+      exportTransactions,
+      exportsGroups,
+      groupSummary,
+      locale,
+      timezone,
+      transactions,
+    ]
+  );
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={setIsOpen}>
+      <Dialog.Trigger asChild>
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={transactions.length === 0}
+        >
+          <Download size={16} aria-hidden="true" />
+          {scope === 'selected' ? 'Export selected' : 'Export'}
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Portal>
+        <Dialog.Overlay className={styles.overlay} />
+        <Dialog.Content className={styles.content}>
+          <div className={styles.header}>
+            <div>
+              <Dialog.Title className={styles.title}>
+                Export transactions
+              </Dialog.Title>
+              <Dialog.Description className={styles.description}>
+                {formatNumber(transactions.length)} {scope} transactions in the
+                current sort order.
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className={styles.closeButton}
+                aria-label="Close export"
+              >
+                <X size={20} />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <form className={styles.body} onSubmit={handleExport}>
+            <fieldset className={styles.group} disabled={isExporting}>
+              <legend className={styles.legend}>Format</legend>
+              {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(
+                option => (
+                  <label key={option} className={styles.option}>
+                    <input
+                      type="radio"
+                      name="export-format"
+                      value={option}
+                      checked={exportFormat === option}
+                      onChange={() => setExportFormat(option)}
+                    />
+                    {EXPORT_FORMAT_LABELS[option]}
+                  </label>
+                )
+              )}
+            </fieldset>
+
+            {groupSummary && (
+              <fieldset className={styles.group} disabled={isExporting}>
+                <legend className={styles.legend}>Rows</legend>
+                <label className={styles.option}>
+                  <input
+                    type="radio"
+                    name="export-rows"
+                    checked={!exportsGroups}
+                    onChange={() => setRowScope('transactions')}
+                  />
+                  Transactions
+                </label>
+                <label className={styles.option}>
+                  <input
+                    type="radio"
+                    name="export-rows"
+                    checked={exportsGroups}
+                    onChange={() => setRowScope('groups')}
+                  />
+                  Group subtotals
+                  <span className={styles.hint}>
+                    {formatNumber(groupSummary.groups.length)} groups by{' '}
+                    {groupSummary.groupLabel.toLowerCase()}, with counts,
+                    credits, debits and net in {groupSummary.currency}
+                  </span>
+                </label>
+              </fieldset>
+            )}
+
+            <fieldset
+              className={styles.group}
+              disabled={isExporting || exportsGroups}
+            >
+              <legend className={styles.legend}>Columns</legend>
+              <label className={styles.option}>
+                <input
+                  type="radio"
+                  name="export-columns"
+                  checked={columnScope === 'visible'}
+                  onChange={() => setColumnScope('visible')}
+                />
+                Visible columns
+                <span className={styles.hint}>
+                  {visibleColumns
+                    .map(column => EXPORT_COLUMN_LABELS[column])
+                    .join(', ')}
+                </span>
+              </label>
+              <label className={styles.option}>
+                <input
+                  type="radio"
+                  name="export-columns"
+                  checked={columnScope === 'all'}
+                  onChange={() => setColumnScope('all')}
+                />
+                All fields
+              </label>
+            </fieldset>
+
+            <fieldset className={styles.group} disabled={isExporting}>
+              <legend className={styles.legend}>Amounts and dates</legend>
+              <label className={styles.option}>
+                <input
+                  type="radio"
+                  name="export-amounts"
+                  checked={amountMode === 'formatted'}
+                  onChange={() => setAmountMode('formatted')}
+                />
+                Formatted for {locale}, {timezone}
+              </label>
+              <label className={styles.option}>
+                <input
+                  type="radio"
+                  name="export-amounts"
+                  checked={amountMode === 'raw'}
+                  onChange={() => setAmountMode('raw')}
+                />
+                Raw numbers and ISO dates
+              </label>
+            </fieldset>
+
+            {isExporting && (
+              <progress
+                className={styles.progress}
+                value={progress}
+                max={1}
+                aria-label="Export progress"
+              />
+            )}
+
+            <div className={styles.actions}>
+              {isExporting ? (
+                <Button type="button" variant="secondary" onClick={cancel}>
+                  Cancel export
+                </Button>
+              ) : (
+                <Button type="submit">
+                  Export{' '}
+                  {exportsGroups
+                    ? `${formatNumber(groupSummary.groups.length)} groups`
+                    : `${formatNumber(transactions.length)} rows`}
+                </Button>
+              )}
+            </div>
+          </form>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Ban, ChevronDown } from 'lucide-react';
+import styles from './FacetFilter.module.css';
+import { FacetSelection } from '../../types/transaction';
+import { normalizeString } from '../../helpers/normalizeString';
+import { useFormatters } from '../../hooks/useFormatters';
+
+interface FacetFilterProps {
+  label: string;
+  // distinct values in the data
+  values: string[];
+  selection?: FacetSelection;
+  onChange: (selection: FacetSelection) => void;
+  // display text for a value, the value itself when omitted
+  getValueLabel?: (value: string) => string;
+  // rows per normalised value given the other filters, hidden until known
+  counts?: Record<string, number>;
+}
+
+// past this many values the list gets a filter box
+const SEARCHABLE_FROM = 8;
+// rows rendered at once; narrowing the filter box reaches the rest
+const MAX_VISIBLE_VALUES = 100;
+
+const EMPTY_SELECTION: FacetSelection = { include: [], exclude: [] };
+
+const showValue = (value: string) => value;
+
+const hasValue = (values: string[], value: string) => {
+  const key = normalizeString(value);
+  return values.some(candidate => normalizeString(candidate) === key);
+};
+
+const withoutValue = (values: string[], value: string) => {
+  const key = normalizeString(value);
+  return values.filter(candidate => normalizeString(candidate) !== key);
+};
+
+/* dropdown of a field's values, each of which can be included or excluded
+ * checking values keeps rows carrying any of them; excluded values drop rows */
+export const FacetFilter: React.FC<FacetFilterProps> = ({
+  label,
+  values,
+  selection = EMPTY_SELECTION,
+  onChange,
+  getValueLabel = showValue,
+  counts,
+}) => {
+  const { formatNumber } = useFormatters();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const isActive = selection.include.length > 0 || selection.exclude.length > 0;
+
+  // selected values missing from the data, e.g. from a shared link, stay listed so they can be cleared
+  const options = useMemo(() => {
+    const selected = [...selection.include, ...selection.exclude];
+    const missing = selected.filter(value => !hasValue(values, value));
+    const all = [...missing, ...values];
+    const key = normalizeString(query);
+    return key
+      ? all.filter(value => normalizeString(getValueLabel(value)).includes(key))
+      : all;
+  }, [values, selection, query, getValueLabel]);
+
+  const toggleInclude = useCallback(
+    (value: string) => {
+      onChange(
+        hasValue(selection.include, value)
+          ? { ...selection, include: withoutValue(selection.include, value) }
+          : {
+              include: [...selection.include, value],
+              exclude: withoutValue(selection.exclude, value),
+            }
+      );
+    },
+    [selection, onChange]
+  );
+
+  const toggleExclude = useCallback(
+    (value: string) => {
+      onChange(
+        hasValue(selection.exclude, value)
+          ? { ...selection, exclude: withoutValue(selection.exclude, value) }
+          : {
+              include: withoutValue(selection.include, value),
+              exclude: [...selection.exclude, value],
+            }
+      );
+    },
+    [selection, onChange]
+  );
+
+  // closes once focus leaves the trigger and panel
+  const handleBlur = useCallback((event: React.FocusEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+      setIsOpen(false);
+    }
+  }, []);
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLDivElement>) => {
+      if (event.key === 'Escape' && isOpen) {
+        event.stopPropagation();
+        setIsOpen(false);
+      }
+    },
+    [isOpen]
+  );
+
+  const summary = [
+    selection.include.map(getValueLabel).join(', '),
+    selection.exclude.length
+      ? `not ${selection.exclude.map(getValueLabel).join(', ')}`
+      : '',
+  ]
+    .filter(Boolean)
+    .join('; ');
+
+  return (
+    <div className={styles.facet} onBlur={handleBlur} onKeyDown={handleKeyDown}>
+      <span className={styles.label}>{label}</span>
+      <button
+        type="button"
+        className={styles.trigger}
+        aria-expanded={isOpen}
+        aria-label={`${label} filter${summary ? `: ${summary}` : ''}`}
+        onClick={() => setIsOpen(open => !open)}
+      >
+        <span className={styles.summary}>{summary || 'All'}</span>
+        <ChevronDown size={16} aria-hidden="true" />
+        {/* visual indicator dot shown when the facet narrows the rows */}
+        {isActive && (
+          <div className={styles.activeIndicator} aria-hidden="true" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className={styles.panel}
+          role="group"
+          aria-label={`${label} values`}
+        >
+          {values.length > SEARCHABLE_FROM && (
+            <input
+              className={styles.search}
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder={`Find ${label.toLowerCase()}`}
+              aria-label={`Find ${label.toLowerCase()}`}
+              autoFocus
+            />
+          )}
+
+          <ul className={styles.list}>
+            {options.slice(0, MAX_VISIBLE_VALUES).map(value => {
+              const isExcluded = hasValue(selection.exclude, value);
+              const valueLabel = getValueLabel(value);
+              const count = counts && (counts[normalizeString(value)] ?? 0);
+              return (
+                <li
+                  key={value}
+                  className={`${styles.option} ${isExcluded ? styles.excluded : ''}`}
+                >
+                  <label className={styles.optionLabel}>
+                    <input
+                      type="checkbox"
+                      checked={hasValue(selection.include, value)}
+                      onChange={() => toggleInclude(value)}
+                    />
+                    <span className={styles.optionText}>{valueLabel}</span>
+                    {count !== undefined && (
+                      <span
+                        className={`${styles.count} ${count === 0 ? styles.empty : ''}`}
+                      >
+                        {formatNumber(count)}
+                      </span>
+                    )}
+                  </label>
+                  <button
+                    type="button"
+                    className={styles.excludeButton}
+                    aria-label={`Exclude ${valueLabel}`}
+                    aria-pressed={isExcluded}
+                    onClick={() => toggleExclude(value)}
+                  >
+                    <Ban size={14} aria-hidden="true" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          {options.length === 0 && <p className={styles.note}>No values</p>}
+          {options.length > MAX_VISIBLE_VALUES && (
+            <p className={styles.note}>
+              {options.length - MAX_VISIBLE_VALUES} more, refine the search
+            </p>
+          )}
+
+          {isActive && (
+            <button
+              type="button"
+              className={styles.clear}
+              onClick={() => onChange(EMPTY_SELECTION)}
+            >
+              Clear {label.toLowerCase()}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
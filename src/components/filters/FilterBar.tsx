@@ -1,108 +1,138 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useMemo } from 'react';
 import * as Select from '@radix-ui/react-select';
 import { ChevronDown } from 'lucide-react';
 import styles from './FilterBar.module.css';
-import { FilterOptions } from '../../types/transaction';
+import {
+  DateRangePreset,
+  FacetField,
+  FacetSelection,
+  FilterOptions
+} from '../../types/transaction';
+import { FacetCounts } from '../../types/facetCounts';
+import { useFormatters } from '../../hooks/useFormatters';
+import {
+  DATE_RANGE_PRESET_LABELS,
+  shiftDayKey
+} from '../../utils/resolveDateRange';
+import {
+  FACET_FIELDS,
+  FACET_LABELS,
+  getFacetSelections,
+  setFacetSelection
+} from '../../utils/facetFilters';
+import { FacetFilter } from './FacetFilter';
 
 interface FilterBarProps {
   filters: FilterOptions;
   onFiltersChange: (filters: FilterOptions) => void;
-  categories: string[];
+  // distinct values per facet in the data
+  facetValues: Record<FacetField, string[]>;
+  // rows per facet value given the other filters, omitted until counted
+  facetCounts?: FacetCounts | null;
   totalCount: number;
   filteredCount: number;
+  // currency the amount bounds are expressed in
+  amountCurrency?: string;
+  // extra controls shown before the summary, e.g. saved views
+  actions?: React.ReactNode;
 }
 
+// facets whose values are lowercase identifiers, shown capitalised
+const CAPITALIZED_FACETS: FacetField[] = ['status', 'type'];
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
 export const FilterBar: React.FC<FilterBarProps> = ({
   filters,
   onFiltersChange,
-  categories,
+  facetValues,
+  facetCounts,
   totalCount,
-  filteredCount
+  filteredCount,
+  amountCurrency,
+  actions
 }) => {
-  // handles status filter changes, converting 'all' to undefined to clear the filter
-  // updates only the status field while preserving other active filters
-  const handleStatusChange = useCallback((status: string) => {
+  const { getDayKey, parseDayKey } = useFormatters();
+  // replaces one facet's include/exclude selection, folding in any single-value filter
+  const handleFacetChange = useCallback((field: FacetField, selection: FacetSelection) => {
+    onFiltersChange(setFacetSelection(filters, field, selection));
+  }, [filters, onFiltersChange]);
+
+  // handles date preset changes; relative presets drop any custom window
+  // 'all' clears the date filter entirely
+  const handleDatePresetChange = useCallback((preset: string) => {
     onFiltersChange({
       ...filters,
-      status: status === 'all' ? undefined : status as 'pending' | 'completed' | 'failed'
+      datePreset: preset === 'all' ? undefined : preset as DateRangePreset,
+      dateRange: preset === 'custom' ? filters.dateRange : undefined
     });
   }, [filters, onFiltersChange]);
 
-  // handles transaction type filter changes (debit/credit)
-  // clears the type filter when 'all' is selected to show all transaction types
-  const handleTypeChange = useCallback((type: string) => {
+  // handles the custom range day inputs, interpreted as whole days in the user's time zone
+  // the end day is inclusive in the UI and stored as the following midnight
+  const handleCustomDateChange = useCallback((edge: 'start' | 'end', key: string) => {
+    const day = key
+      ? parseDayKey(edge === 'end' ? shiftDayKey(key, 1) : key) ?? undefined
+      : undefined;
     onFiltersChange({
       ...filters,
-      type: type === 'all' ? undefined : type as 'debit' | 'credit'
+      dateRange: { ...filters.dateRange, [edge]: day }
     });
-  }, [filters, onFiltersChange]);
+  }, [filters, onFiltersChange, parseDayKey]);
+
+  // handles min/max amount inputs; an empty input leaves that bound open
+  const handleAmountChange = useCallback((edge: 'min' | 'max', value: string) => {
+    const amount = value === '' ? undefined : Number(value);
+    if (Number.isNaN(amount)) return;
 
-  // handles category filter changes from the dynamic category list
-  // allows filtering by transaction category or clearing with 'all' option
-  const handleCategoryChange = useCallback((category: string) => {
+    const amountRange = { ...filters.amountRange, [edge]: amount };
     onFiltersChange({
       ...filters,
-      category: category === 'all' ? undefined : category
+      amountRange:
+        amountRange.min === undefined && amountRange.max === undefined
+          ? undefined
+          : amountRange
     });
   }, [filters, onFiltersChange]);
 
+  const facetSelections = useMemo(() => getFacetSelections(filters), [filters]);
+  const customEnd = filters.dateRange?.end;
+  const hasAmountFilter =
+    filters.amountRange?.min !== undefined ||
+    filters.amountRange?.max !== undefined;
+
   return (
     <div className={styles.filterBar}>
-      {/* filter controls section with three dropdown selects for status, type, and category */}
+      {/* filter controls section: include/exclude facets, then date and amount ranges */}
       <div className={styles.filters}>
-        {/* status filter dropdown: allows filtering by completed, pending, or failed transactions */}
-        <div className={styles.filterGroup}>
-          <label className={styles.filterLabel}>Status</label>
-          <Select.Root
-            value={filters.status || 'all'}
-            onValueChange={handleStatusChange}
-          >
-            <Select.Trigger className={styles.trigger}>
-              <Select.Value placeholder="All Statuses" />
-              <Select.Icon>
-                <ChevronDown size={16} />
-              </Select.Icon>
-              {/* visual indicator dot shown when a status filter is actively applied */}
-              {filters.status && filters.status !== 'all' && (
-                <div className={styles.activeIndicator} aria-hidden="true" />
-              )}
-            </Select.Trigger>
-
-            <Select.Portal>
-              <Select.Content className={styles.content}>
-                <Select.Viewport>
-                  <Select.Item value="all" className={styles.item}>
-                    <Select.ItemText>All Statuses</Select.ItemText>
-                  </Select.Item>
-                  <Select.Item value="completed" className={styles.item}>
-                    <Select.ItemText>Completed</Select.ItemText>
-                  </Select.Item>
-                  <Select.Item value="pending" className={styles.item}>
-                    <Select.ItemText>Pending</Select.ItemText>
-                  </Select.Item>
-                  <Select.Item value="failed" className={styles.item}>
-                    <Select.ItemText>Failed</Select.ItemText>
-                  </Select.Item>
-                </Select.Viewport>
-              </Select.Content>
-            </Select.Portal>
-          </Select.Root>
-        </div>
+        {/* one multi-select per facet; values come from the loaded transactions */}
+        {FACET_FIELDS.map(field => (
+          <FacetFilter
+            key={field}
+            label={FACET_LABELS[field]}
+            values={facetValues[field]}
+            selection={facetSelections[field]}
+            counts={facetCounts?.[field]}
+            onChange={selection => handleFacetChange(field, selection)}
+            getValueLabel={CAPITALIZED_FACETS.includes(field) ? capitalize : undefined}
+          />
+        ))}
 
-        {/* transaction type filter dropdown: filters by debit or credit transactions */}
+        {/* date range filter: relative presets in the user's time zone or a custom day range */}
         <div className={styles.filterGroup}>
-          <label className={styles.filterLabel}>Type</label>
+          <label className={styles.filterLabel}>Date</label>
           <Select.Root
-            value={filters.type || 'all'}
-            onValueChange={handleTypeChange}
+            value={filters.datePreset || 'all'}
+            onValueChange={handleDatePresetChange}
           >
             <Select.Trigger className={styles.trigger}>
-              <Select.Value placeholder="All Types" />
+              <Select.Value placeholder="All Time" />
               <Select.Icon>
                 <ChevronDown size={16} />
               </Select.Icon>
-              {/* visual indicator dot shown when a type filter is actively applied */}
-              {filters.type && filters.type !== 'all' && (
+              {/* visual indicator dot shown when a date filter is actively applied */}
+              {filters.datePreset && (
                 <div className={styles.activeIndicator} aria-hidden="true" />
               )}
             </Select.Trigger>
@@ -111,57 +141,80 @@ export const FilterBar: React.FC<FilterBarProps> = ({
               <Select.Content className={styles.content}>
                 <Select.Viewport>
                   <Select.Item value="all" className={styles.item}>
-                    <Select.ItemText>All Types</Select.ItemText>
-                  </Select.Item>
-                  <Select.Item value="debit" className={styles.item}>
-                    <Select.ItemText>Debit</Select.ItemText>
-                  </Select.Item>
-                  <Select.Item value="credit" className={styles.item}>
-                    <Select.ItemText>Credit</Select.ItemText>
+                    <Select.ItemText>All Time</Select.ItemText>
                   </Select.Item>
+                  {(Object.keys(DATE_RANGE_PRESET_LABELS) as DateRangePreset[]).map(preset => (
+                    <Select.Item key={preset} value={preset} className={styles.item}>
+                      <Select.ItemText>{DATE_RANGE_PRESET_LABELS[preset]}</Select.ItemText>
+                    </Select.Item>
+                  ))}
                 </Select.Viewport>
               </Select.Content>
             </Select.Portal>
           </Select.Root>
         </div>
 
-        {/* category filter dropdown: dynamically populated with unique categories from transactions */}
-        <div className={styles.filterGroup}>
-          <label className={styles.filterLabel}>Category</label>
-          <Select.Root
-            value={filters.category || 'all'}
-            onValueChange={handleCategoryChange}
-          >
-            <Select.Trigger className={styles.trigger}>
-              <Select.Value placeholder="All Categories" />
-              <Select.Icon>
-                <ChevronDown size={16} />
-              </Select.Icon>
-              {/* visual indicator dot shown when a category filter is actively applied */}
-              {filters.category && filters.category !== 'all' && (
-                <div className={styles.activeIndicator} aria-hidden="true" />
-              )}
-            </Select.Trigger>
+        {/* custom day range inputs, only shown for the custom preset */}
+        {filters.datePreset === 'custom' && (
+          <div className={styles.filterGroup}>
+            <span className={styles.filterLabel}>From – to</span>
+            <div className={styles.rangeInputs}>
+              <input
+                type="date"
+                className={styles.input}
+                aria-label="From date"
+                value={filters.dateRange?.start ? getDayKey(filters.dateRange.start) : ''}
+                onChange={event => handleCustomDateChange('start', event.target.value)}
+              />
+              <input
+                type="date"
+                className={styles.input}
+                aria-label="To date"
+                value={customEnd ? getDayKey(new Date(customEnd.getTime() - 1)) : ''}
+                onChange={event => handleCustomDateChange('end', event.target.value)}
+              />
+            </div>
+          </div>
+        )}
 
-            <Select.Portal>
-              <Select.Content className={styles.content}>
-                <Select.Viewport>
-                  <Select.Item value="all" className={styles.item}>
-                    <Select.ItemText>All Categories</Select.ItemText>
-                  </Select.Item>
-                  {/* dynamically render category options from the provided categories array */}
-                  {categories.map(category => (
-                    <Select.Item key={category} value={category} className={styles.item}>
-                      <Select.ItemText>{category}</Select.ItemText>
-                    </Select.Item>
-                  ))}
-                </Select.Viewport>
-              </Select.Content>
-            </Select.Portal>
-          </Select.Root>
+        {/* amount range filter: inclusive min/max bounds, either may be left open */}
+        <div className={styles.filterGroup}>
+          <span className={styles.filterLabel}>
+            Amount{amountCurrency && ` (${amountCurrency})`}
+          </span>
+          <div className={styles.rangeInputs}>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              inputMode="decimal"
+              className={styles.input}
+              placeholder="Min"
+              aria-label="Minimum amount"
+              value={filters.amountRange?.min ?? ''}
+              onChange={event => handleAmountChange('min', event.target.value)}
+            />
+            <input
+              type="number"
+              min={0}
+              step="any"
+              inputMode="decimal"
+              className={styles.input}
+              placeholder="Max"
+              aria-label="Maximum amount"
+              value={filters.amountRange?.max ?? ''}
+              onChange={event => handleAmountChange('max', event.target.value)}
+            />
+          </div>
+          {/* visual indicator dot shown when an amount bound is actively applied */}
+          {hasAmountFilter && (
+            <div className={styles.activeIndicator} aria-hidden="true" />
+          )}
         </div>
       </div>
 
+      {actions && <div className={styles.actions}>{actions}</div>}
+
       {/* summary section displaying the count of filtered transactions vs total transactions */}
       <div className={styles.summary}>
         <div className={styles.summaryItem}>
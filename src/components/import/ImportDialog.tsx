@@ -0,0 +1,347 @@
+import React, { useCallback, useMemo } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { FileUp, X } from 'lucide-react';
+import styles from './ImportDialog.module.css';
+import { Transaction } from '../../types/transaction';
+import { CsvImportField, ImportDateOrder } from '../../types/transactionImport';
+import { useTransactionImport } from '../../hooks/useTransactionImport';
+import { useFormatters } from '../../hooks/useFormatters';
+import {
+  excludeImportedDuplicates,
+  IMPORT_FILE_EXTENSIONS,
+} from '../../utils/importTransactions';
+import { REQUIRED_CSV_FIELDS } from '../../utils/parseCsvTransactions';
+import { Button } from '../ui/Button';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (transactions: Transaction[]) => void;
+  // transactions already merged from earlier imports
+  importedTransactions: Transaction[];
+  onClearImported: () => void;
+}
+
+const FIELD_LABELS: Record<CsvImportField, string> = {
+  date: 'Date',
+  amount: 'Amount',
+  description: 'Description',
+  merchantName: 'Merchant',
+  category: 'Category',
+  type: 'Debit / credit',
+  currency: 'Currency',
+  status: 'Status',
+  reference: 'Reference',
+  accountId: 'Account',
+};
+
+const DATE_ORDER_LABELS: Record<ImportDateOrder, string> = {
+  mdy: 'Month / day / year',
+  dmy: 'Day / month / year',
+  ymd: 'Year / month / day',
+};
+
+// only the first rejected rows are listed; the total is always shown
+const MAX_LISTED_ERRORS = 50;
+
+/* bank statement import flow: pick a file, map CSV columns, review and merge
+ * parsing runs in a worker; rejected rows are listed with their line numbers */
+export const ImportDialog: React.FC<ImportDialogProps> = ({
+  isOpen,
+  onClose,
+  onImport,
+  importedTransactions,
+  onClearImported,
+}) => {
+  const { formatNumber } = useFormatters();
+  const {
+    step,
+    fileName,
+    format,
+    preview,
+    options,
+    result,
+    error,
+    selectFile,
+    updateOptions,
+    parse,
+    reset,
+  } = useTransactionImport();
+
+  // closes the dialog and discards any unfinished import
+  const handleClose = useCallback(() => {
+    reset();
+    onClose();
+  }, [onClose, reset]);
+
+  const handleFileChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (file) selectFile(file);
+      // allow picking the same file again after a reset
+      event.target.value = '';
+    },
+    [selectFile]
+  );
+
+  const handleMappingChange = useCallback(
+    (field: CsvImportField, value: string) => {
+      updateOptions({
+        mapping: {
+          ...options.mapping,
+          [field]: value === '' ? undefined : Number(value),
+        },
+      });
+    },
+    [options.mapping, updateOptions]
+  );
+
+  // rows of the parsed file that earlier imports don't already hold
+  const newRows = useMemo(
+    () =>
+      result &&
+      excludeImportedDuplicates(importedTransactions, result.transactions),
+    [importedTransactions, result]
+  );
+
+  const handleConfirm = useCallback(() => {
+    if (newRows) {
+      onImport(newRows.transactions);
+    }
+    handleClose();
+  }, [handleClose, onImport, newRows]);
+
+  const missingFields = REQUIRED_CSV_FIELDS.filter(
+    field => options.mapping?.[field] === undefined
+  );
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={open => !open && handleClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className={styles.overlay} />
+        <Dialog.Content className={styles.content}>
+          <div className={styles.header}>
+            <div>
+              <Dialog.Title className={styles.title}>
+                Import transactions
+              </Dialog.Title>
+              <Dialog.Description className={styles.description}>
+                CSV, OFX/QFX or QIF bank statements are merged into the
+                dashboard dataset.
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className={styles.closeButton}
+                aria-label="Close import"
+              >
+                <X size={20} />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className={styles.body}>
+            {/* file picker, also shown again after an error */}
+            {(step === 'idle' || step === 'error') && (
+              <>
+                <label className={styles.dropZone}>
+                  <FileUp size={24} aria-hidden="true" />
+                  <span>Choose a bank statement file</span>
+                  <span className={styles.hint}>
+                    {IMPORT_FILE_EXTENSIONS.join(', ')}
+                  </span>
+                  <input
+                    type="file"
+                    className={styles.fileInput}
+                    accept={IMPORT_FILE_EXTENSIONS.join(',')}
+                    onChange={handleFileChange}
+                  />
+                </label>
+                {error && (
+                  <p className={styles.error} role="alert">
+                    {error}
+                  </p>
+                )}
+                {importedTransactions.length > 0 && (
+                  <p className={styles.imported}>
+                    {formatNumber(importedTransactions.length)} imported
+                    transactions in the dataset.
+                    <Button variant="ghost" size="sm" onClick={onClearImported}>
+                      Remove imported
+                    </Button>
+                  </p>
+                )}
+              </>
+            )}
+
+            {(step === 'reading' || step === 'parsing') && (
+              <div className={styles.progress}>
+                <LoadingSpinner size="sm" />
+                {step === 'reading' ? 'Reading' : 'Parsing'} {fileName}…
+              </div>
+            )}
+
+            {/* CSV column mapping with a preview of the first rows */}
+            {step === 'mapping' && preview && (
+              <>
+                <p className={styles.summary}>
+                  {fileName}: {formatNumber(preview.totalRows)} rows. Match the
+                  columns to transaction fields.
+                </p>
+                <div className={styles.mapping}>
+                  {(Object.keys(FIELD_LABELS) as CsvImportField[]).map(
+                    field => (
+                      <label key={field} className={styles.field}>
+                        <span className={styles.fieldLabel}>
+                          {FIELD_LABELS[field]}
+                          {REQUIRED_CSV_FIELDS.includes(field) && ' *'}
+                        </span>
+                        <select
+                          value={options.mapping?.[field] ?? ''}
+                          onChange={event =>
+                            handleMappingChange(field, event.target.value)
+                          }
+                        >
+                          <option value="">Not mapped</option>
+                          {preview.headers.map((header, index) => (
+                            <option key={index} value={index}>
+                              {header || `Column ${index + 1}`}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )
+                  )}
+                  <label className={styles.field}>
+                    <span className={styles.fieldLabel}>Date format</span>
+                    <select
+                      value={options.dateOrder}
+                      onChange={event =>
+                        updateOptions({
+                          dateOrder: event.target.value as ImportDateOrder,
+                        })
+                      }
+                    >
+                      {(
+                        Object.keys(DATE_ORDER_LABELS) as ImportDateOrder[]
+                      ).map(order => (
+                        <option key={order} value={order}>
+                          {DATE_ORDER_LABELS[order]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className={styles.field}>
+                    <span className={styles.fieldLabel}>Default currency</span>
+                    <input
+                      type="text"
+                      maxLength={3}
+                      value={options.defaultCurrency}
+                      onChange={event =>
+                        updateOptions({
+                          defaultCurrency: event.target.value.toUpperCase(),
+                        })
+                      }
+                    />
+                  </label>
+                </div>
+
+                <div className={styles.previewScroll}>
+                  <table className={styles.preview}>
+                    <thead>
+                      <tr>
+                        {preview.headers.map((header, index) => (
+                          <th key={index} scope="col">
+                            {header}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map((row, rowIndex) => (
+                        <tr key={rowIndex}>
+                          {preview.headers.map((_, index) => (
+                            <td key={index}>{row[index]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className={styles.actions}>
+                  <Button variant="secondary" onClick={reset}>
+                    Back
+                  </Button>
+                  <Button
+                    onClick={parse}
+                    disabled={missingFields.length > 0}
+                    title={
+                      missingFields.length > 0
+                        ? `Map ${missingFields.map(field => FIELD_LABELS[field]).join(', ')} first`
+                        : undefined
+                    }
+                  >
+                    Parse {formatNumber(preview.totalRows)} rows
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {/* parse result with per-row validation errors */}
+            {step === 'review' && result && newRows && (
+              <>
+                <p className={styles.summary}>
+                  {fileName} ({format?.toUpperCase()}):{' '}
+                  {formatNumber(result.transactions.length)} transactions ready
+                  {result.errors.length > 0 &&
+                    `, ${formatNumber(result.errors.length)} rows rejected`}
+                  .
+                </p>
+                {newRows.duplicateCount > 0 && (
+                  <p className={styles.duplicates} role="status">
+                    {formatNumber(newRows.duplicateCount)} of them were already
+                    imported and will be skipped.
+                  </p>
+                )}
+                {result.errors.length > 0 && (
+                  <ul className={styles.errors} aria-label="Rejected rows">
+                    {result.errors.slice(0, MAX_LISTED_ERRORS).map(rowError => (
+                      <li key={rowError.line}>
+                        <span className={styles.errorLine}>
+                          Line {rowError.line}
+                        </span>
+                        {rowError.message}
+                      </li>
+                    ))}
+                    {result.errors.length > MAX_LISTED_ERRORS && (
+                      <li>
+                        …and{' '}
+                        {formatNumber(result.errors.length - MAX_LISTED_ERRORS)}{' '}
+                        more
+                      </li>
+                    )}
+                  </ul>
+                )}
+                <div className={styles.actions}>
+                  <Button variant="secondary" onClick={reset}>
+                    Choose another file
+                  </Button>
+                  <Button
+                    onClick={handleConfirm}
+                    disabled={newRows.transactions.length === 0}
+                  >
+                    Add {formatNumber(newRows.transactions.length)} transactions
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
@@ -1,14 +1,39 @@
 import React from 'react';
+import { Upload } from 'lucide-react';
 import { SearchBar } from '../search/SearchBar';
+import { Button } from '../ui/Button';
+import { SearchFieldValues, SearchHint } from '../../types/searchQuery';
 import styles from './DashboardHeader.module.css';
 
 interface DashboardHeaderProps {
   onSearch?: (query: string) => void;
   searchValue?: string;
+  // known merchants, categories and currencies for search autocomplete
+  searchFieldValues?: SearchFieldValues;
+  // values from the data suggested while typing, with their counts
+  searchHints?: SearchHint[];
+  // typo tolerant search toggle; hidden when no change handler is given
+  fuzzySearch?: boolean;
+  onFuzzySearchChange?: (fuzzy: boolean) => void;
+  // opens the bank statement import dialog; the button is hidden when omitted
+  onImport?: () => void;
+  // reporting currency picker; hidden when no change handler is given
+  reportingCurrency?: string;
+  currencies?: string[];
+  onReportingCurrencyChange?: (currency: string) => void;
 }
 
 export const DashboardHeader: React.FC<DashboardHeaderProps> = ({
-  onSearch
+  onSearch,
+  searchValue,
+  searchFieldValues,
+  searchHints,
+  fuzzySearch,
+  onFuzzySearchChange,
+  onImport,
+  reportingCurrency,
+  currencies = [],
+  onReportingCurrencyChange
 }) => {
   // provides a fallback no-op function if onSearch prop is not provided
   // ensures SearchBar always has a valid callback to prevent runtime errors
@@ -21,8 +46,44 @@ export const DashboardHeader: React.FC<DashboardHeaderProps> = ({
       </div>
 
       <div className={styles.search} role="search">
-        <SearchBar onSearch={handleSearch} />
+        <SearchBar
+          onSearch={handleSearch}
+          value={searchValue}
+          fieldValues={searchFieldValues}
+          hints={searchHints}
+          fuzzy={fuzzySearch}
+          onFuzzyChange={onFuzzySearchChange}
+        />
       </div>
+
+      {(onImport || onReportingCurrencyChange) && (
+        <div className={styles.actions}>
+          {onReportingCurrencyChange && (
+            <label className={styles.currencyPicker}>
+              <span className={styles.currencyLabel}>Report in</span>
+              <select
+                className={styles.currencySelect}
+                value={reportingCurrency}
+                onChange={event =>
+                  onReportingCurrencyChange(event.target.value)
+                }
+              >
+                {currencies.map(currency => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {onImport && (
+            <Button variant="secondary" size="sm" onClick={onImport}>
+              <Upload size={16} aria-hidden="true" />
+              Import
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
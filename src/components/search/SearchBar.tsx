@@ -5,60 +5,122 @@ import React, {
   useRef,
   useState,
 } from 'react';
-import { Clock, Search, X } from 'lucide-react';
+import {
+  AlertCircle,
+  Clock,
+  Search,
+  Sparkles,
+  SpellCheck,
+  X,
+} from 'lucide-react';
 import { useImmer } from 'use-immer';
-import { calculateSearchRelevanceScore } from '../../utils/calculateSearchRelevanceScore';
 import { normalizeString } from '../../helpers/normalizeString';
 import { debounce } from '../../helpers/debounce';
+import {
+  isStructuredQuery,
+  parseSearchQuery,
+} from '../../utils/parseSearchQuery';
+import { getSearchCompletions } from '../../utils/getSearchCompletions';
+import {
+  getSearchHintQuery,
+  rankSearchHints,
+} from '../../utils/createSearchHints';
+import { useFormatters } from '../../hooks/useFormatters';
+import {
+  SearchCompletion,
+  SearchFieldValues,
+  SearchHint,
+  SearchHintField,
+  SearchQueryError,
+} from '../../types/searchQuery';
 
 interface SearchBarProps {
   onSearch: (searchTerm: string) => void;
+  // query applied from outside, e.g. by a saved view; replaces the input when it changes
+  value?: string;
   placeholder?: string;
+  // values offered when completing field:value terms, e.g. merchants and categories
+  fieldValues?: SearchFieldValues;
+  // merchants, categories and other values seen in the data, suggested while typing
+  hints?: SearchHint[];
+  // typo tolerant matching; the toggle is hidden when no change handler is given
+  fuzzy?: boolean;
+  onFuzzyChange?: (fuzzy: boolean) => void;
 }
 
 interface Search {
   term: string;
   isSearching: boolean;
   searchHistory: string[];
-  suggestions: string[];
+  suggestions: SearchHint[];
+  // field name and value completions for the term being typed
+  completions: SearchCompletion[];
+  // problems in the last submitted query, shown under the input
+  errors: SearchQueryError[];
 }
 
-const commonTerms = [
-  'amazon',
-  'starbucks',
-  'walmart',
-  'target',
-  'mcdonalds',
-  'shell',
-  'netflix',
-  'spotify',
-  'uber',
-  'lyft',
-  'apple',
-  'google',
-  'paypal',
-  'venmo',
-  'square',
-  'stripe',
-];
+const MAX_SUGGESTIONS = 5;
+
+// entity type shown next to each suggestion
+const HINT_LABELS: Record<SearchHintField, string> = {
+  merchant: 'Merchant',
+  category: 'Category',
+  location: 'Location',
+  reference: 'Reference',
+  account: 'Account',
+};
+
+const NO_HINTS: SearchHint[] = [];
 
 const SEARCH_HISTORY_KEY = 'transaction-search-history';
 
 export const SearchBar: React.FC<SearchBarProps> = ({
   onSearch,
+  value,
   placeholder = 'Search transactions...',
+  fieldValues,
+  hints = NO_HINTS,
+  fuzzy = false,
+  onFuzzyChange,
 }) => {
   const [search, setSearch] = useImmer<Search>({
-    term: '',
+    term: value ?? '',
     isSearching: false,
     searchHistory: [],
     suggestions: [],
+    completions: [],
+    errors: [],
   });
 
+  const { formatNumber } = useFormatters();
   const [focusedIndex, setFocusedIndex] = useState(-1);
   const [showDropdown, setShowDropdown] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  // last query passed to onSearch, so our own searches coming back as value are ignored
+  const emittedRef = useRef(value ?? '');
+
+  const emitSearch = useCallback(
+    (searchTerm: string) => {
+      emittedRef.current = searchTerm;
+      onSearch(searchTerm);
+    },
+    [onSearch]
+  );
+
+  // shows a query applied from outside in the input
+  useEffect(() => {
+    if (value === undefined || value === emittedRef.current) return;
+    emittedRef.current = value;
+    setSearch(draft => {
+      draft.term = value;
+      draft.suggestions = [];
+      draft.completions = [];
+      draft.errors = isStructuredQuery(value)
+        ? parseSearchQuery(value).errors
+        : [];
+    });
+  }, [value, setSearch]);
 
   // picks up search history from localstorage
   useEffect(() => {
@@ -76,24 +138,27 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   }, [setSearch]);
 
   const generateSuggestions = useCallback(
-    (term: string) => {
-      const lowerTerm = term.toLowerCase();
-
-      const sortedFilter = commonTerms
-        .filter(item => {
-          return item.includes(lowerTerm) || lowerTerm.includes(item);
-        })
-        .sort((a, b) => {
-          const aScore = calculateSearchRelevanceScore(a, term);
-          const bScore = calculateSearchRelevanceScore(b, term);
-          return bScore - aScore;
+    (term: string, rawTerm: string, structured: boolean) => {
+      const completions = getSearchCompletions(rawTerm, fieldValues);
+
+      // value suggestions only make sense for plain text searches
+      if (structured) {
+        setSearch(draft => {
+          draft.suggestions = [];
+          draft.completions = completions;
         });
+        return;
+      }
+
+      // misspelt values, e.g. "starbuks", are suggested when typos are tolerated
+      const suggestions = rankSearchHints(hints, term, fuzzy, MAX_SUGGESTIONS);
 
       setSearch(draft => {
-        draft.suggestions = sortedFilter.slice(0, 5);
+        draft.suggestions = suggestions;
+        draft.completions = completions;
       });
     },
-    [setSearch]
+    [setSearch, fieldValues, hints, fuzzy]
   );
 
   const addTermToHistory = useCallback(
@@ -126,15 +191,25 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   const debounceSearch = useMemo(
     () =>
       debounce((searchTerm: string) => {
-        const processedTerm = normalizeString(searchTerm);
-        onSearch(processedTerm);
-        generateSuggestions(processedTerm);
+        // query syntax would not survive normalisation, so structured queries pass through as typed
+        const structured = isStructuredQuery(searchTerm);
+        const processedTerm = structured
+          ? searchTerm.trim()
+          : normalizeString(searchTerm);
+        const { errors } = structured
+          ? parseSearchQuery(processedTerm)
+          : { errors: [] };
+        setSearch(draft => {
+          draft.errors = errors;
+        });
+        emitSearch(processedTerm);
+        generateSuggestions(processedTerm, searchTerm, structured);
         // after teh users searchs, add the searched term to history
         if (processedTerm.length > 2) {
           addTermToHistory(processedTerm);
         }
       }, 300),
-    [generateSuggestions, onSearch, addTermToHistory]
+    [generateSuggestions, emitSearch, addTermToHistory, setSearch]
   );
 
   const handleInputChange = useCallback(
@@ -148,21 +223,33 @@ export const SearchBar: React.FC<SearchBarProps> = ({
       if (value.length > 0) {
         debounceSearch(value);
       } else {
-        onSearch('');
+        emitSearch('');
         setSearch(draft => {
           draft.suggestions = [];
+          draft.completions = [];
+          draft.errors = [];
         });
       }
     },
-    [debounceSearch, onSearch, setSearch]
+    [debounceSearch, emitSearch, setSearch]
   );
 
   // fetches all availalle options
   const allOptions = useMemo(() => {
-    const options: Array<{ item: string; type: 'suggestion' | 'history' }> = [];
+    const options: Array<{
+      item: string;
+      type: 'suggestion' | 'completion' | 'history';
+    }> = [];
 
     search.suggestions.forEach(suggestion => {
-      options.push({ item: suggestion, type: 'suggestion' });
+      options.push({
+        item: getSearchHintQuery(suggestion),
+        type: 'suggestion',
+      });
+    });
+
+    search.completions.forEach(completion => {
+      options.push({ item: completion.value, type: 'completion' });
     });
 
     if (search.term.length === 0) {
@@ -172,21 +259,42 @@ export const SearchBar: React.FC<SearchBarProps> = ({
     }
 
     return options;
-  }, [search.suggestions, search.searchHistory, search.term]);
+  }, [
+    search.suggestions,
+    search.completions,
+    search.searchHistory,
+    search.term,
+  ]);
 
   const handleSuggestionClick = useCallback(
     (suggestion: string) => {
       setSearch(draft => {
         draft.term = suggestion;
         draft.suggestions = [];
+        draft.completions = [];
+        draft.errors = [];
       });
       setShowDropdown(false);
       setFocusedIndex(-1);
-      onSearch(suggestion);
+      emitSearch(suggestion);
       addTermToHistory(suggestion);
       inputRef.current?.focus();
     },
-    [addTermToHistory, onSearch, setSearch]
+    [addTermToHistory, emitSearch, setSearch]
+  );
+
+  /* accepts a field or value completion into the input
+   * the dropdown stays open so a field name can be followed by its values */
+  const handleCompletionClick = useCallback(
+    (value: string) => {
+      setSearch(draft => {
+        draft.term = value;
+      });
+      setFocusedIndex(-1);
+      debounceSearch(value);
+      inputRef.current?.focus();
+    },
+    [debounceSearch, setSearch]
   );
 
   const handleKeyDown = useCallback(
@@ -210,7 +318,11 @@ export const SearchBar: React.FC<SearchBarProps> = ({
           if (focusedIndex >= 0 && allOptions[focusedIndex]) {
             e.preventDefault();
             const selectedOption = allOptions[focusedIndex];
-            handleSuggestionClick(selectedOption.item);
+            if (selectedOption.type === 'completion') {
+              handleCompletionClick(selectedOption.item);
+            } else {
+              handleSuggestionClick(selectedOption.item);
+            }
           } else if (search.term.length > 2) {
             addTermToHistory(search.term);
           }
@@ -233,6 +345,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
       focusedIndex,
       search.term,
       handleSuggestionClick,
+      handleCompletionClick,
       addTermToHistory,
     ]
   );
@@ -241,9 +354,11 @@ export const SearchBar: React.FC<SearchBarProps> = ({
     setSearch(draft => {
       draft.term = '';
       draft.suggestions = [];
+      draft.completions = [];
+      draft.errors = [];
     });
-    onSearch('');
-  }, [onSearch, setSearch]);
+    emitSearch('');
+  }, [emitSearch, setSearch]);
 
   const handleFocus = useCallback(() => {
     setShowDropdown(true);
@@ -279,6 +394,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
           aria-owns="search-dropdown"
           aria-autocomplete="list"
           aria-describedby="search-help"
+          aria-invalid={search.errors.length > 0}
           role="combobox"
         />
         {search.term && (
@@ -286,6 +402,32 @@ export const SearchBar: React.FC<SearchBarProps> = ({
             <X size={16} />
           </button>
         )}
+        {onFuzzyChange && (
+          <button
+            onClick={() => onFuzzyChange(!fuzzy)}
+            className="fuzzy-toggle"
+            type="button"
+            aria-pressed={fuzzy}
+            aria-label="Tolerate typos"
+            title="Tolerate typos"
+          >
+            <SpellCheck size={16} />
+          </button>
+        )}
+      </div>
+
+      <div id="search-help" className="search-errors" role="alert">
+        {search.errors.map(error => (
+          <div key={`${error.start}-${error.message}`} className="search-error">
+            <AlertCircle size={14} className="item-icon" aria-hidden="true" />
+            {error.message}
+            {error.end > error.start && (
+              <code className="search-error-source">
+                {search.term.trim().slice(error.start, error.end)}
+              </code>
+            )}
+          </div>
+        ))}
       </div>
 
       {showDropdown && allOptions.length > 0 && (
@@ -311,26 +453,76 @@ export const SearchBar: React.FC<SearchBarProps> = ({
                 </span>
                 {search.suggestions.map((suggestion, index) => (
                   <div
-                    key={`suggestion-${suggestion}`}
+                    key={`suggestion-${suggestion.field}-${suggestion.normalized}`}
                     className={`suggestion-item ${index === focusedIndex ? 'focused' : ''}`}
-                    onClick={() => handleSuggestionClick(suggestion)}
+                    onClick={() =>
+                      handleSuggestionClick(getSearchHintQuery(suggestion))
+                    }
                     onMouseEnter={() => setFocusedIndex(index)}
                     role="option"
                     aria-selected={index === focusedIndex}
-                    aria-label={`Search suggestion: ${suggestion}`}
+                    aria-label={`Search suggestion: ${suggestion.value}, ${HINT_LABELS[suggestion.field]}, ${suggestion.count} transactions`}
                   >
                     <Search
                       size={14}
                       className="item-icon"
                       aria-hidden="true"
                     />
-                    {suggestion}
+                    {suggestion.value}
+                    <span className="completion-description">
+                      {HINT_LABELS[suggestion.field]} ·{' '}
+                      {formatNumber(suggestion.count)}
+                    </span>
                   </div>
                 ))}
               </div>
             </div>
           )}
 
+          {search.completions.length > 0 && (
+            <div className="dropdown-section">
+              <div
+                className="section-header"
+                role="group"
+                aria-labelledby="completions-heading"
+              >
+                <span id="completions-heading" className="sr-only">
+                  Query completions
+                </span>
+                {search.completions.map((completion, index) => {
+                  const optionIndex = search.suggestions.length + index;
+                  return (
+                    <div
+                      key={`completion-${completion.value}`}
+                      className={`suggestion-item completion-item ${optionIndex === focusedIndex ? 'focused' : ''}`}
+                      // keeps focus in the input so the dropdown stays open
+                      onMouseDown={event => event.preventDefault()}
+                      onClick={() => handleCompletionClick(completion.value)}
+                      onMouseEnter={() => setFocusedIndex(optionIndex)}
+                      role="option"
+                      aria-selected={optionIndex === focusedIndex}
+                      aria-label={`Complete search: ${completion.label}`}
+                    >
+                      <Sparkles
+                        size={14}
+                        className="item-icon"
+                        aria-hidden="true"
+                      />
+                      <code className="completion-label">
+                        {completion.label}
+                      </code>
+                      {completion.description && (
+                        <span className="completion-description">
+                          {completion.description}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {search.searchHistory.length > 0 && search.term.length === 0 && (
             <div className="dropdown-section">
               <div
@@ -342,7 +534,10 @@ export const SearchBar: React.FC<SearchBarProps> = ({
                   Recent searches
                 </span>
                 {search.searchHistory.slice(0, 10).map((item, index) => {
-                  const optionIndex = search.suggestions.length + index;
+                  const optionIndex =
+                    search.suggestions.length +
+                    search.completions.length +
+                    index;
                   return (
                     <div
                       key={`history-${index}`}
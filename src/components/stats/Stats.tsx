@@ -1,11 +1,14 @@
 import React from 'react';
 import { Clock, DollarSign, TrendingDown, TrendingUp, AlertTriangle } from 'lucide-react';
-import { Transaction, TransactionSummary } from '../../types/transaction';
+import { Transaction } from '../../types/transaction';
 import { AnalyticsSummary } from '../../hooks/useRiskAnalytics';
+import { ReportingSummary } from '../../utils/currencyConversion';
+import { useFormatters } from '../../hooks/useFormatters';
 import styles from './Stats.module.css';
 
 interface StatsProps {
-  summary: TransactionSummary | null;
+  // totals already converted into the reporting currency
+  summary: ReportingSummary | null;
   filteredTransactions: Transaction[];
   txnCount: number;
   isAnalyzing: boolean;
@@ -19,6 +22,12 @@ export const Stats = ({
   isAnalyzing,
   riskAnalytics,
 }: StatsProps): React.ReactElement => {
+  const { formatCurrency, formatNumber } = useFormatters();
+
+  // formats a summary total in the reporting currency
+  const formatTotal = (value: number) =>
+    formatCurrency(value, summary?.currency);
+
   return (
     <div className={styles.stats}>
       {/* total amount card displaying the sum of all transaction amounts */}
@@ -28,9 +37,18 @@ export const Stats = ({
         </div>
         <div className={styles.content}>
           <div className={styles.value}>
-            ${summary ? summary.totalAmount.toLocaleString() : '0'}
+            {formatTotal(summary?.totalAmount ?? 0)}
+          </div>
+          <div className={styles.label}>
+            Total Amount
+            {/* transactions in currencies the rate table doesn't quote are left out */}
+            {summary && summary.unconvertedCount > 0 && (
+              <span className={styles.secondary}>
+                {' '}
+                ({formatNumber(summary.unconvertedCount)} without FX rate)
+              </span>
+            )}
           </div>
-          <div className={styles.label}>Total Amount</div>
         </div>
       </div>
 
@@ -41,7 +59,7 @@ export const Stats = ({
         </div>
         <div className={styles.content}>
           <div className={styles.value}>
-            ${summary ? summary.totalCredits.toLocaleString() : '0'}
+            {formatTotal(summary?.totalCredits ?? 0)}
           </div>
           <div className={styles.label}>Total Credits</div>
         </div>
@@ -54,7 +72,7 @@ export const Stats = ({
         </div>
         <div className={styles.content}>
           <div className={styles.value}>
-            ${summary ? summary.totalDebits.toLocaleString() : '0'}
+            {formatTotal(summary?.totalDebits ?? 0)}
           </div>
           <div className={styles.label}>Total Debits</div>
         </div>
@@ -67,12 +85,12 @@ export const Stats = ({
         </div>
         <div className={styles.content}>
           <div className={styles.value}>
-            {filteredTransactions.length.toLocaleString()}
+            {formatNumber(filteredTransactions.length)}
             {/* displays secondary count showing total when different from filtered count */}
             {filteredTransactions.length !== txnCount && (
               <span className={styles.secondary}>
                 {' '}
-                of {txnCount.toLocaleString()}
+                of {formatNumber(txnCount)}
               </span>
             )}
           </div>
@@ -0,0 +1,145 @@
+import React, { useId, useState } from 'react';
+import { CheckCheck, Flag, Tag, X } from 'lucide-react';
+import styles from './BulkActionBar.module.css';
+import { Transaction } from '../../types/transaction';
+import { ExportColumnId } from '../../types/transactionExport';
+import {
+  TransactionReviewChange,
+  TransactionReviews,
+} from '../../types/transactionReview';
+import { useFormatters } from '../../hooks/useFormatters';
+import {
+  getReviewTags,
+  MAX_TAG_LENGTH,
+  normalizeTag,
+} from '../../utils/transactionReviews';
+import { Button } from '../ui/Button';
+import { ExportDialog } from '../export/ExportDialog';
+import { CompareTransactionsDialog } from './CompareTransactionsDialog';
+
+interface BulkActionBarProps {
+  // selected rows still in the table, in display order
+  selectedRows: Transaction[];
+  // rows matching the current filters
+  totalCount: number;
+  isAllSelected: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  reviews: TransactionReviews;
+  onReviewChange: (ids: string[], change: TransactionReviewChange) => void;
+  // columns currently shown in the table, for exports
+  visibleColumns: ExportColumnId[];
+  riskScores?: Record<string, number>;
+}
+
+/* actions on every selected row at once: export, tag, flag for review, mark as
+ * reviewed and compare; flag and reviewed clear again once every row has them */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedRows,
+  totalCount,
+  isAllSelected,
+  onSelectAll,
+  onClearSelection,
+  reviews,
+  onReviewChange,
+  visibleColumns,
+  riskScores,
+}) => {
+  const { formatNumber } = useFormatters();
+  const [tag, setTag] = useState('');
+  const tagListId = useId();
+  const ids = selectedRows.map(row => row.id);
+  const allFlagged = ids.every(id => reviews[id]?.flagged);
+  const allReviewed = ids.every(id => reviews[id]?.reviewed);
+
+  const handleTag = (event: React.FormEvent) => {
+    event.preventDefault();
+    const normalized = normalizeTag(tag);
+    if (!normalized) return;
+    onReviewChange(ids, { type: 'tag', tag: normalized });
+    setTag('');
+  };
+
+  return (
+    <div
+      className={styles.bar}
+      role="region"
+      aria-label="Selected transactions"
+    >
+      <span className={styles.count} role="status">
+        {formatNumber(selectedRows.length)} selected
+      </span>
+      {!isAllSelected && (
+        <button type="button" className={styles.link} onClick={onSelectAll}>
+          Select all {formatNumber(totalCount)} matching
+        </button>
+      )}
+
+      <div className={styles.actions}>
+        <ExportDialog
+          transactions={selectedRows}
+          visibleColumns={visibleColumns}
+          scope="selected"
+        />
+        <form className={styles.tagForm} onSubmit={handleTag}>
+          <input
+            className={styles.tagInput}
+            value={tag}
+            onChange={event => setTag(event.target.value)}
+            placeholder="Tag"
+            maxLength={MAX_TAG_LENGTH}
+            list={tagListId}
+            aria-label="Tag selected transactions"
+          />
+          <datalist id={tagListId}>
+            {getReviewTags(reviews).map(option => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+          <Button
+            type="submit"
+            variant="secondary"
+            size="sm"
+            disabled={!normalizeTag(tag)}
+          >
+            <Tag size={16} aria-hidden="true" />
+            Add tag
+          </Button>
+        </form>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() =>
+            onReviewChange(ids, { type: 'flag', flagged: !allFlagged })
+          }
+        >
+          <Flag size={16} aria-hidden="true" />
+          {allFlagged ? 'Remove flag' : 'Flag for review'}
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() =>
+            onReviewChange(ids, { type: 'review', reviewed: !allReviewed })
+          }
+        >
+          <CheckCheck size={16} aria-hidden="true" />
+          {allReviewed ? 'Mark unreviewed' : 'Mark reviewed'}
+        </Button>
+        <CompareTransactionsDialog
+          transactions={selectedRows}
+          reviews={reviews}
+          riskScores={riskScores}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClearSelection}
+          aria-label="Clear selection"
+        >
+          <X size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useRef } from 'react';
+import styles from './TransactionTable.module.css';
+import { MAX_COLUMN_WIDTH } from '../../utils/tableColumns';
+
+// pixels a column grows or shrinks per arrow key press
+const RESIZE_STEP = 16;
+
+interface ColumnResizeHandleProps {
+  label: string;
+  width: number;
+  minWidth: number;
+  // called while dragging
+  onResize: (width: number) => void;
+  // called once the drag ends, and on every arrow key press
+  onResizeEnd: (width: number) => void;
+}
+
+/* drag handle on a column header's right edge; arrow keys resize it too */
+export const ColumnResizeHandle: React.FC<ColumnResizeHandleProps> = ({
+  label,
+  width,
+  minWidth,
+  onResize,
+  onResizeEnd,
+}) => {
+  // pointer position and width when the drag started
+  const dragRef = useRef<{ x: number; width: number } | null>(null);
+
+  const getDragWidth = (event: React.PointerEvent) =>
+    dragRef.current
+      ? dragRef.current.width + event.clientX - dragRef.current.x
+      : width;
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, width };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragRef.current) onResize(getDragWidth(event));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    onResizeEnd(getDragWidth(event));
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      onResizeEnd(
+        width + (event.key === 'ArrowLeft' ? -RESIZE_STEP : RESIZE_STEP)
+      );
+    }
+  };
+
+  return (
+    <div
+      role="separator"
+      aria-orientation="vertical"
+      aria-label={`Resize ${label} column`}
+      aria-valuenow={width}
+      aria-valuemin={minWidth}
+      aria-valuemax={MAX_COLUMN_WIDTH}
+      tabIndex={0}
+      className={styles.resizeHandle}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+    />
+  );
+};
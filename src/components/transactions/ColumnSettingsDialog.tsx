@@ -0,0 +1,171 @@
+import React from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { ArrowLeft, ArrowRight, Columns3, X } from 'lucide-react';
+import styles from './ColumnSettingsDialog.module.css';
+import {
+  ColumnPresetId,
+  TableColumnLayout,
+  TransactionColumnId,
+} from '../../types/tableColumns';
+import {
+  applyColumnPreset,
+  clampColumnWidth,
+  COLUMN_PRESETS,
+  DEFAULT_COLUMN_LAYOUT,
+  MAX_COLUMN_WIDTH,
+  moveColumn,
+  resizeColumn,
+  setColumnVisible,
+  TABLE_COLUMNS,
+} from '../../utils/tableColumns';
+import { Button } from '../ui/Button';
+
+interface ColumnSettingsDialogProps {
+  columns: TableColumnLayout;
+  onChange: (columns: TableColumnLayout) => void;
+}
+
+/* shows, hides, orders and sizes the columns of the transaction table
+ * team presets replace the shown columns but keep the widths already set */
+export const ColumnSettingsDialog: React.FC<ColumnSettingsDialogProps> = ({
+  columns,
+  onChange,
+}) => {
+  const visibleCount = columns.filter(column => column.visible).length;
+
+  // widths apply once typed, on Enter or leaving the field
+  const commitWidth = (id: TransactionColumnId, input: HTMLInputElement) => {
+    const current = columns.find(column => column.id === id)?.width;
+    const width = Number.isFinite(input.valueAsNumber)
+      ? clampColumnWidth(id, input.valueAsNumber)
+      : current;
+    if (width === undefined) return;
+    // shows the width actually applied, e.g. after typing past the limits
+    input.value = String(width);
+    if (width !== current) onChange(resizeColumn(columns, id, width));
+  };
+
+  return (
+    <Dialog.Root>
+      <Dialog.Trigger asChild>
+        <Button variant="secondary" size="sm">
+          <Columns3 size={16} aria-hidden="true" />
+          Columns
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Portal>
+        <Dialog.Overlay className={styles.overlay} />
+        <Dialog.Content className={styles.content}>
+          <div className={styles.header}>
+            <div>
+              <Dialog.Title className={styles.title}>Columns</Dialog.Title>
+              <Dialog.Description className={styles.description}>
+                Choose the fields your table shows, in which order and how wide.
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className={styles.closeButton}
+                aria-label="Close columns"
+              >
+                <X size={20} />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className={styles.body}>
+            <div className={styles.presets} role="group" aria-label="Presets">
+              {(Object.keys(COLUMN_PRESETS) as ColumnPresetId[]).map(preset => (
+                <Button
+                  key={preset}
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => onChange(applyColumnPreset(columns, preset))}
+                >
+                  {COLUMN_PRESETS[preset].label}
+                </Button>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(DEFAULT_COLUMN_LAYOUT)}
+              >
+                Reset
+              </Button>
+            </div>
+
+            <ul className={styles.list} aria-label="Table columns">
+              {columns.map(({ id, visible, width }) => {
+                const { label, minWidth } = TABLE_COLUMNS[id];
+                const position = columns
+                  .filter(column => column.visible)
+                  .findIndex(column => column.id === id);
+                return (
+                  <li
+                    key={id}
+                    className={`${styles.item} ${visible ? '' : styles.hidden}`}
+                  >
+                    <label className={styles.option}>
+                      <input
+                        type="checkbox"
+                        checked={visible}
+                        // the last shown column stays
+                        disabled={visible && visibleCount === 1}
+                        onChange={event =>
+                          onChange(
+                            setColumnVisible(columns, id, event.target.checked)
+                          )
+                        }
+                      />
+                      {label}
+                    </label>
+                    <input
+                      // remounted when resized elsewhere, e.g. from the header
+                      key={width}
+                      type="number"
+                      className={styles.width}
+                      min={minWidth}
+                      max={MAX_COLUMN_WIDTH}
+                      step={10}
+                      defaultValue={width}
+                      onKeyDown={event => {
+                        if (event.key === 'Enter') {
+                          commitWidth(id, event.currentTarget);
+                        }
+                      }}
+                      onBlur={event => commitWidth(id, event.currentTarget)}
+                      aria-label={`${label} width in pixels`}
+                    />
+                    <div className={styles.itemActions}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={!visible || position === 0}
+                        onClick={() => onChange(moveColumn(columns, id, -1))}
+                        aria-label={`Move ${label} left`}
+                      >
+                        <ArrowLeft size={16} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={!visible || position === visibleCount - 1}
+                        onClick={() => onChange(moveColumn(columns, id, 1))}
+                        aria-label={`Move ${label} right`}
+                      >
+                        <ArrowRight size={16} />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
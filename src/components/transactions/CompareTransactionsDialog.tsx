@@ -0,0 +1,143 @@
+import React from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { GitCompare, X } from 'lucide-react';
+import styles from './CompareTransactionsDialog.module.css';
+import { Transaction } from '../../types/transaction';
+import { TransactionColumnId } from '../../types/tableColumns';
+import { TransactionReviews } from '../../types/transactionReview';
+import { useFormatters } from '../../hooks/useFormatters';
+import { TABLE_COLUMNS } from '../../utils/tableColumns';
+import { MAX_COMPARED_TRANSACTIONS } from '../../constants';
+import { Button } from '../ui/Button';
+
+interface CompareTransactionsDialogProps {
+  // selected rows in display order
+  transactions: Transaction[];
+  reviews: TransactionReviews;
+  riskScores?: Record<string, number>;
+}
+
+// fields compared, in the order of the table's columns
+const COMPARED_FIELDS = Object.keys(TABLE_COLUMNS) as TransactionColumnId[];
+
+/* shows a few selected transactions side by side, one column each
+ * fields whose values differ between them are marked */
+export const CompareTransactionsDialog: React.FC<
+  CompareTransactionsDialogProps
+> = ({ transactions, reviews, riskScores }) => {
+  const { formatCurrency, formatDateTime, formatNumber } = useFormatters();
+  const canCompare =
+    transactions.length >= 2 &&
+    transactions.length <= MAX_COMPARED_TRANSACTIONS;
+
+  // a field's value as shown in the comparison
+  const getValue = (
+    transaction: Transaction,
+    id: TransactionColumnId
+  ): string => {
+    switch (id) {
+      case 'merchant':
+        return transaction.merchantName;
+      case 'amount':
+        return `${transaction.type === 'debit' ? '-' : '+'}${formatCurrency(transaction.amount, transaction.currency)}`;
+      case 'date':
+        return formatDateTime(transaction.timestamp);
+      case 'risk': {
+        const score = riskScores?.[transaction.id];
+        return score === undefined
+          ? '—'
+          : formatNumber(Math.round(score * 100) / 100);
+      }
+      default:
+        return transaction[id] || '—';
+    }
+  };
+
+  const rows = [
+    ...COMPARED_FIELDS.map(id => ({
+      label: TABLE_COLUMNS[id].label,
+      values: transactions.map(transaction => getValue(transaction, id)),
+    })),
+    {
+      label: 'Tags',
+      values: transactions.map(({ id }) => reviews[id]?.tags.join(', ') || '—'),
+    },
+  ];
+
+  return (
+    <Dialog.Root>
+      <Dialog.Trigger asChild>
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={!canCompare}
+          title={
+            canCompare
+              ? undefined
+              : `Select 2 to ${MAX_COMPARED_TRANSACTIONS} transactions to compare`
+          }
+        >
+          <GitCompare size={16} aria-hidden="true" />
+          Compare
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Portal>
+        <Dialog.Overlay className={styles.overlay} />
+        <Dialog.Content className={styles.content}>
+          <div className={styles.header}>
+            <div>
+              <Dialog.Title className={styles.title}>
+                Compare transactions
+              </Dialog.Title>
+              <Dialog.Description className={styles.description}>
+                Fields that differ are highlighted.
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className={styles.closeButton}
+                aria-label="Close comparison"
+              >
+                <X size={20} />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className={styles.body}>
+            <table className={styles.comparison}>
+              <thead>
+                <tr>
+                  <th scope="col">Field</th>
+                  {transactions.map((transaction, index) => (
+                    <th key={transaction.id} scope="col">
+                      Transaction {index + 1}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ label, values }) => {
+                  const differs = values.some(value => value !== values[0]);
+                  return (
+                    <tr
+                      key={label}
+                      className={differs ? styles.differs : undefined}
+                    >
+                      <th scope="row">{label}</th>
+                      {values.map((value, index) => (
+                        <td key={transactions[index].id}>{value}</td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
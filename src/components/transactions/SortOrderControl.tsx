@@ -0,0 +1,102 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import styles from './SortOrderControl.module.css';
+import {
+  TransactionSortField,
+  TransactionSortOrder,
+} from '../../types/transaction';
+import {
+  getDefaultSortDirection,
+  SORT_FIELD_LABELS,
+} from '../../utils/sortTransactions';
+
+interface SortOrderControlProps {
+  order: TransactionSortOrder;
+  // fields that can be added, in menu order
+  fields: TransactionSortField[];
+  onChange: (order: TransactionSortOrder) => void;
+}
+
+/* the sort keys in priority order, each of which can be flipped or removed,
+ * and a menu adding any other field as the lowest priority key */
+export const SortOrderControl: React.FC<SortOrderControlProps> = ({
+  order,
+  fields,
+  onChange,
+}) => {
+  const unused = fields.filter(
+    field => !order.some(key => key.field === field)
+  );
+
+  return (
+    <div className={styles.sortOrder} aria-label="Sort order" role="group">
+      <span className={styles.label}>Sort</span>
+      <ol className={styles.keys}>
+        {order.map(({ field, direction }, priority) => (
+          <li key={field} className={styles.key}>
+            <button
+              type="button"
+              className={styles.keyButton}
+              onClick={() =>
+                onChange(
+                  order.map(key =>
+                    key.field === field
+                      ? {
+                          field,
+                          direction: direction === 'asc' ? 'desc' : 'asc',
+                        }
+                      : key
+                  )
+                )
+              }
+              aria-label={`${SORT_FIELD_LABELS[field]} ${direction === 'asc' ? 'ascending' : 'descending'}, priority ${priority + 1}`}
+            >
+              <span className={styles.priority}>{priority + 1}</span>
+              {SORT_FIELD_LABELS[field]}
+              {direction === 'asc' ? (
+                <ArrowUp size={12} aria-hidden="true" />
+              ) : (
+                <ArrowDown size={12} aria-hidden="true" />
+              )}
+            </button>
+            {order.length > 1 && (
+              <button
+                type="button"
+                className={styles.removeButton}
+                onClick={() =>
+                  onChange(order.filter(key => key.field !== field))
+                }
+                aria-label={`Stop sorting by ${SORT_FIELD_LABELS[field]}`}
+              >
+                <X size={12} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+      {unused.length > 0 && (
+        <select
+          className={styles.addSort}
+          value=""
+          aria-label="Then sort by"
+          onChange={event => {
+            const field = event.target.value as TransactionSortField;
+            onChange([
+              ...order,
+              { field, direction: getDefaultSortDirection(field) },
+            ]);
+          }}
+        >
+          <option value="" disabled>
+            Then by…
+          </option>
+          {unused.map(field => (
+            <option key={field} value={field}>
+              {SORT_FIELD_LABELS[field]}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
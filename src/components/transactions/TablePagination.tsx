@@ -0,0 +1,131 @@
+import React, { useCallback } from 'react';
+import {
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+} from 'lucide-react';
+import styles from './TablePagination.module.css';
+import { useFormatters } from '../../hooks/useFormatters';
+
+interface TablePaginationProps {
+  // zero-based
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  pageSizeOptions: number[];
+  total: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+/* page navigation under the paged transaction table: range summary, first/previous/
+ * next/last buttons, a jump-to-page box and the page size */
+export const TablePagination: React.FC<TablePaginationProps> = ({
+  page,
+  pageCount,
+  pageSize,
+  pageSizeOptions,
+  total,
+  onPageChange,
+  onPageSizeChange,
+}) => {
+  const { formatNumber } = useFormatters();
+  const first = total === 0 ? 0 : page * pageSize + 1;
+  const last = Math.min(total, (page + 1) * pageSize);
+
+  // jumps to the typed page, or restores the current one when it is not a number
+  const commitPageInput = useCallback(
+    (input: HTMLInputElement) => {
+      const next = Number.parseInt(input.value, 10);
+      if (Number.isNaN(next)) {
+        input.value = String(page + 1);
+        return;
+      }
+      onPageChange(next - 1);
+      input.value = String(Math.max(1, Math.min(next, pageCount)));
+    },
+    [page, pageCount, onPageChange]
+  );
+
+  return (
+    <nav className={styles.pagination} aria-label="Pagination">
+      <span className={styles.range}>
+        {formatNumber(first)}–{formatNumber(last)} of {formatNumber(total)}
+      </span>
+
+      <div className={styles.controls}>
+        <button
+          type="button"
+          className={styles.pageButton}
+          onClick={() => onPageChange(0)}
+          disabled={page === 0}
+          aria-label="First page"
+        >
+          <ChevronsLeft size={16} />
+        </button>
+        <button
+          type="button"
+          className={styles.pageButton}
+          onClick={() => onPageChange(page - 1)}
+          disabled={page === 0}
+          aria-label="Previous page"
+        >
+          <ChevronLeft size={16} />
+        </button>
+
+        <label className={styles.jump}>
+          Page
+          <input
+            // remounted on every page change so it shows the page reached
+            key={page}
+            type="number"
+            min={1}
+            max={pageCount}
+            defaultValue={page + 1}
+            className={styles.pageInput}
+            aria-label="Go to page"
+            onKeyDown={event => {
+              if (event.key === 'Enter') commitPageInput(event.currentTarget);
+            }}
+            onBlur={event => commitPageInput(event.currentTarget)}
+          />
+          of {formatNumber(pageCount)}
+        </label>
+
+        <button
+          type="button"
+          className={styles.pageButton}
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= pageCount - 1}
+          aria-label="Next page"
+        >
+          <ChevronRight size={16} />
+        </button>
+        <button
+          type="button"
+          className={styles.pageButton}
+          onClick={() => onPageChange(pageCount - 1)}
+          disabled={page >= pageCount - 1}
+          aria-label="Last page"
+        >
+          <ChevronsRight size={16} />
+        </button>
+      </div>
+
+      <label className={styles.pageSize}>
+        Rows per page
+        <select
+          value={pageSize}
+          onChange={event => onPageSizeChange(Number(event.target.value))}
+        >
+          {pageSizeOptions.map(option => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </label>
+    </nav>
+  );
+};
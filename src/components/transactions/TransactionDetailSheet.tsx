@@ -11,25 +11,43 @@ import {
 } from 'lucide-react';
 import styles from './TransactionDetailSheet.module.css';
 import { Transaction } from '../../types/transaction';
+import { FxConverter } from '../../types/currency';
 import { Button } from '../ui/Button';
-import { formatCurrency, formatDateTime } from '../../utils/dateHelpers';
+import { useFormatters } from '../../hooks/useFormatters';
+import { convertTransactionAmount } from '../../utils/currencyConversion';
 import { VisuallyHidden } from '../ui/VisuallyHidden.tsx';
 
 interface TransactionDetailSheetProps {
   transaction: Transaction | null;
   isOpen: boolean;
   onClose: () => void;
+  // when both are given, foreign-currency amounts also show their reporting-currency value
+  reportingCurrency?: string;
+  fxConverter?: FxConverter;
 }
 
 export const TransactionDetailSheet: React.FC<TransactionDetailSheetProps> = ({
   transaction,
   isOpen,
-  onClose
+  onClose,
+  reportingCurrency,
+  fxConverter
 }) => {
+  const { formatCurrency, formatLongDateTime, formatRelativeTime } =
+    useFormatters();
+
   if (!transaction) {
     return null;
   }
 
+  // converted at the rates in effect on the transaction date
+  const convertedAmount =
+    reportingCurrency &&
+    fxConverter &&
+    transaction.currency !== reportingCurrency
+      ? convertTransactionAmount(transaction, reportingCurrency, fxConverter)
+      : null;
+
   // returns the appropriate CSS class for the transaction status badge (completed, pending, failed)
   const getStatusClass = (status: string) => {
     return `${styles.status} ${styles[`status--${status}`]}`;
@@ -77,9 +95,15 @@ export const TransactionDetailSheet: React.FC<TransactionDetailSheetProps> = ({
               <div className={styles.amountSection}>
                 <div className={getAmountClass(transaction.type)}>
                   {transaction.type === 'debit' ? '-' : '+'}
-                  {formatCurrency(transaction.amount)}
+                  {formatCurrency(transaction.amount, transaction.currency)}
                 </div>
                 <div className={styles.currency}>{transaction.currency}</div>
+                {convertedAmount !== null && reportingCurrency && (
+                  <div className={styles.convertedAmount}>
+                    ≈ {formatCurrency(convertedAmount, reportingCurrency)} at the
+                    rate on that day
+                  </div>
+                )}
               </div>
             </div>
 
@@ -109,7 +133,10 @@ export const TransactionDetailSheet: React.FC<TransactionDetailSheetProps> = ({
                     <span>Date & Time</span>
                   </div>
                   <div className={styles.detailValue}>
-                    {formatDateTime(transaction.timestamp)}
+                    {formatLongDateTime(transaction.timestamp)}
+                    <span className={styles.relativeTime}>
+                      {formatRelativeTime(transaction.timestamp)}
+                    </span>
                   </div>
                 </div>
               </div>
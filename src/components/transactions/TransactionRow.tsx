@@ -0,0 +1,427 @@
+import React, { CSSProperties } from 'react';
+import type { RowComponentProps } from 'react-window';
+import { CheckCheck, ChevronDown, ChevronRight, Flag } from 'lucide-react';
+import styles from './TransactionTable.module.css';
+import { Transaction } from '../../types/transaction';
+import { FxConverter } from '../../types/currency';
+import {
+  TableColumnSetting,
+  TransactionColumnId,
+} from '../../types/tableColumns';
+import {
+  TransactionGroup,
+  TransactionTableItem,
+} from '../../types/transactionGroups';
+import {
+  TransactionReview,
+  TransactionReviews,
+} from '../../types/transactionReview';
+import { useFormatters } from '../../hooks/useFormatters';
+import { getGridRowId, getGroupRowKey } from '../../hooks/useGridNavigation';
+import { convertTransactionAmount } from '../../utils/currencyConversion';
+import { getHighlightedText } from '../../utils/getHighlightedText';
+import { HIGH_RISK_THRESHOLD } from '../../constants';
+import { getColumnClass } from './columnClasses';
+
+// what the virtual list hands every row, see TransactionListRow
+export interface RowItemData {
+  transactions: Transaction[];
+  // rows of a grouped table, used instead of transactions
+  groupedItems: TransactionTableItem[] | null;
+  onToggleGroup: (key: string) => void;
+  subtotalCurrency: string;
+  onTransactionClick: (transaction: Transaction) => void;
+  columns: TableColumnSetting[];
+  gridStyle: CSSProperties;
+  // height of a transaction row, lower in compact tables
+  rowHeight: number;
+  reportingCurrency?: string;
+  fxConverter?: FxConverter;
+  highlightTerms?: string[];
+  fuzzyHighlight?: boolean;
+  riskScores?: Record<string, number>;
+  selectedIds: ReadonlySet<string>;
+  onToggleSelect: (id: string, extendRange: boolean) => void;
+  reviews: TransactionReviews;
+  gridId: string;
+  activeIndex: number;
+  onActivate: (key: string) => void;
+  arrivedIds: ReadonlySet<string>;
+}
+
+/**
+ * row renderer function for react-window virtualized list
+ * receives row props including index, style positioning, and item data
+ */
+export const TransactionListRow = (props: RowComponentProps<RowItemData>) => {
+  const {
+    index,
+    style,
+    transactions,
+    groupedItems,
+    onToggleGroup,
+    subtotalCurrency,
+    onTransactionClick,
+    columns,
+    gridStyle,
+    reportingCurrency,
+    fxConverter,
+    highlightTerms,
+    fuzzyHighlight,
+    riskScores,
+    selectedIds,
+    onToggleSelect,
+    reviews,
+    gridId,
+    activeIndex,
+    onActivate,
+    arrivedIds,
+  } = props;
+  const item = groupedItems?.[index];
+
+  if (item?.kind === 'group') {
+    return (
+      <GroupHeaderRow
+        key={`group:${item.group.key}`}
+        style={style}
+        group={item.group}
+        collapsed={item.collapsed}
+        onToggle={onToggleGroup}
+        currency={subtotalCurrency}
+        rowId={getGridRowId(gridId, index)}
+        rowIndex={index + 2}
+        active={index === activeIndex}
+        onActivate={onActivate}
+      />
+    );
+  }
+
+  const transaction = item ? item.transaction : transactions[index];
+
+  if (!transaction) return null;
+
+  return (
+    <TransactionRow
+      key={transaction.id}
+      style={style}
+      transaction={transaction}
+      onTransactionClick={onTransactionClick}
+      columns={columns}
+      gridStyle={gridStyle}
+      reportingCurrency={reportingCurrency}
+      fxConverter={fxConverter}
+      highlightTerms={highlightTerms}
+      fuzzyHighlight={fuzzyHighlight}
+      riskScore={riskScores?.[transaction.id]}
+      selected={selectedIds.has(transaction.id)}
+      onToggleSelect={onToggleSelect}
+      review={reviews[transaction.id]}
+      rowId={getGridRowId(gridId, index)}
+      rowIndex={index + 2}
+      active={index === activeIndex}
+      onActivate={onActivate}
+      arrived={arrivedIds.has(transaction.id)}
+    />
+  );
+};
+
+interface GroupHeaderRowProps {
+  style: CSSProperties;
+  group: TransactionGroup;
+  collapsed: boolean;
+  onToggle: (key: string) => void;
+  // currency of the subtotals
+  currency: string;
+  rowId: string;
+  // position in the grid, counting the header row
+  rowIndex: number;
+  // row the grid's keyboard focus is on
+  active: boolean;
+  onActivate: (key: string) => void;
+}
+
+/* header of a group of rows: opens and closes the group and shows its count and
+ * credit and debit subtotals */
+const GroupHeaderRow: React.FC<GroupHeaderRowProps> = ({
+  style,
+  group,
+  collapsed,
+  onToggle,
+  currency,
+  rowId,
+  rowIndex,
+  active,
+  onActivate,
+}) => {
+  const { formatCurrency, formatNumber } = useFormatters();
+  const count = group.transactions.length;
+
+  return (
+    <div style={style}>
+      <div
+        id={rowId}
+        role="row"
+        aria-rowindex={rowIndex}
+        aria-expanded={!collapsed}
+        className={`${styles.groupRow} ${active ? styles.active : ''}`}
+      >
+        <div role="gridcell" className={styles.groupCell}>
+          <button
+            type="button"
+            className={styles.groupToggle}
+            onClick={() => {
+              onActivate(getGroupRowKey(group));
+              onToggle(group.key);
+            }}
+            aria-expanded={!collapsed}
+            // reached through the grid's keyboard model instead of Tab
+            tabIndex={-1}
+          >
+            {collapsed ? (
+              <ChevronRight size={16} aria-hidden="true" />
+            ) : (
+              <ChevronDown size={16} aria-hidden="true" />
+            )}
+            <span className={styles.groupLabel}>{group.label}</span>
+            <span className={styles.groupCount}>
+              {formatNumber(count)}{' '}
+              {count === 1 ? 'transaction' : 'transactions'}
+            </span>
+          </button>
+          <div className={styles.groupTotals}>
+            <span className={`${styles.amountValue} ${styles.credit}`}>
+              +{formatCurrency(group.credits, currency)}
+            </span>
+            <span className={`${styles.amountValue} ${styles.debit}`}>
+              -{formatCurrency(group.debits, currency)}
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface TransactionRowProps {
+  style: CSSProperties;
+  transaction: Transaction;
+  onTransactionClick: (transaction: Transaction) => void;
+  // shown columns, in order
+  columns: TableColumnSetting[];
+  gridStyle: CSSProperties;
+  reportingCurrency?: string;
+  fxConverter?: FxConverter;
+  highlightTerms?: string[];
+  fuzzyHighlight?: boolean;
+  riskScore?: number;
+  selected: boolean;
+  onToggleSelect: (id: string, extendRange: boolean) => void;
+  review?: TransactionReview;
+  rowId: string;
+  // position in the grid, counting the header row
+  rowIndex: number;
+  // row the grid's keyboard focus is on
+  active: boolean;
+  onActivate: (key: string) => void;
+  // streamed in moments ago
+  arrived?: boolean;
+}
+
+export const TransactionRow: React.FC<TransactionRowProps> = ({
+  style,
+  transaction,
+  onTransactionClick,
+  columns,
+  gridStyle,
+  reportingCurrency,
+  fxConverter,
+  highlightTerms = [],
+  fuzzyHighlight = false,
+  riskScore,
+  selected,
+  onToggleSelect,
+  review,
+  rowId,
+  rowIndex,
+  active,
+  onActivate,
+  arrived = false,
+}) => {
+  // reporting-currency equivalent, only for rows booked in another currency
+  const convertedAmount =
+    reportingCurrency &&
+    fxConverter &&
+    transaction.currency !== reportingCurrency
+      ? convertTransactionAmount(transaction, reportingCurrency, fxConverter)
+      : null;
+
+  // dates, times and amounts follow the user's locale and time zone
+  const { formatCurrency, formatDate, formatNumber, formatTime } =
+    useFormatters();
+
+  // content of one cell
+  const renderCell = (id: TransactionColumnId): React.ReactNode => {
+    switch (id) {
+      case 'merchant':
+        return (
+          <div className={styles.merchantInfo}>
+            <div className={styles.merchantName}>
+              {getHighlightedText(
+                transaction.merchantName,
+                highlightTerms,
+                fuzzyHighlight
+              )}
+              {review && <ReviewMarks review={review} />}
+            </div>
+            <div className={styles.description}>
+              {getHighlightedText(
+                transaction.description,
+                highlightTerms,
+                fuzzyHighlight
+              )}
+            </div>
+          </div>
+        );
+      case 'amount':
+        return (
+          <>
+            <div
+              className={`${styles.amountValue} ${styles[transaction.type]}`}
+            >
+              {transaction.type === 'debit' ? '-' : '+'}
+              {formatCurrency(transaction.amount, transaction.currency)}
+            </div>
+            {convertedAmount !== null && reportingCurrency && (
+              <div className={styles.convertedAmount}>
+                ≈ {formatCurrency(convertedAmount, reportingCurrency)}
+              </div>
+            )}
+          </>
+        );
+      case 'status':
+        return (
+          <span
+            className={`${styles.statusBadge} ${styles[transaction.status]}`}
+          >
+            {transaction.status}
+          </span>
+        );
+      case 'date':
+        return (
+          <div className={styles.dateInfo}>
+            <div className={styles.dateValue}>
+              {formatDate(transaction.timestamp)}
+            </div>
+            <div className={styles.timeValue}>
+              {formatTime(transaction.timestamp)}
+            </div>
+          </div>
+        );
+      case 'risk':
+        return riskScore === undefined ? (
+          <span className={styles.muted}>—</span>
+        ) : (
+          <span
+            className={`${styles.text} ${riskScore > HIGH_RISK_THRESHOLD ? styles.highRisk : ''}`}
+          >
+            {formatNumber(Math.round(riskScore * 100) / 100)}
+          </span>
+        );
+      case 'type':
+        return (
+          <span className={`${styles.text} ${styles.capitalize}`}>
+            {transaction.type}
+          </span>
+        );
+      default:
+        // plain fields, missing on some rows
+        return transaction[id] ? (
+          <span className={styles.text} title={transaction[id]}>
+            {transaction[id]}
+          </span>
+        ) : (
+          <span className={styles.muted}>—</span>
+        );
+    }
+  };
+
+  // triggers the parent click handler with the current transaction
+  // keyboard interaction is handled by the grid, see handleGridKeyDown
+  const handleClick = () => {
+    onActivate(transaction.id);
+    onTransactionClick(transaction);
+  };
+
+  return (
+    <div style={style}>
+      <div
+        id={rowId}
+        role="row"
+        aria-rowindex={rowIndex}
+        className={`${styles.row} ${selected ? styles.selected : ''} ${active ? styles.active : ''} ${arrived ? styles.arrived : ''}`}
+        style={gridStyle}
+        onClick={handleClick}
+        aria-selected={selected}
+        aria-label={`${transaction.merchantName} transaction for ${formatCurrency(transaction.amount, transaction.currency)}`}
+      >
+        <div
+          role="gridcell"
+          className={styles.selectCell}
+          // clicks around the checkbox don't open the transaction either
+          onClick={event => event.stopPropagation()}
+        >
+          <input
+            type="checkbox"
+            checked={selected}
+            // reached through the grid's keyboard model instead of Tab
+            tabIndex={-1}
+            // shift-clicks select the range from the row toggled last
+            onChange={event =>
+              onToggleSelect(
+                transaction.id,
+                (event.nativeEvent as MouseEvent).shiftKey === true
+              )
+            }
+            aria-label={`Select ${transaction.merchantName} transaction`}
+          />
+        </div>
+        {columns.map(column => (
+          <div
+            key={column.id}
+            role="gridcell"
+            className={`${styles.cell} ${getColumnClass(column)}`}
+          >
+            {renderCell(column.id)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/* tags, review flag and reviewed mark shown next to the merchant */
+const ReviewMarks: React.FC<{ review: TransactionReview }> = ({ review }) => (
+  <span className={styles.reviewMarks}>
+    {review.flagged && (
+      <Flag
+        size={12}
+        className={styles.flagged}
+        role="img"
+        aria-label="Flagged for review"
+      />
+    )}
+    {review.reviewed && (
+      <CheckCheck
+        size={12}
+        className={styles.reviewed}
+        role="img"
+        aria-label="Reviewed"
+      />
+    )}
+    {review.tags.map(tag => (
+      <span key={tag} className={styles.tag}>
+        {tag}
+      </span>
+    ))}
+  </span>
+);
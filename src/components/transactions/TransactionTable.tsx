@@ -1,91 +1,386 @@
-import React, { CSSProperties, useCallback, useMemo, useState } from 'react';
-import { List, type RowComponentProps } from 'react-window';
+import React, {
+  CSSProperties,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { List, type ListImperativeAPI } from 'react-window';
 import { ChevronDown, ChevronUp } from 'lucide-react';
-import { format } from 'date-fns';
 import styles from './TransactionTable.module.css';
-import { Transaction } from '../../types/transaction';
-import { formatCurrency } from '../../utils/dateHelpers';
-
-interface TransactionTableProps {
-  transactions: Transaction[];
-  onTransactionClick: (transaction: Transaction) => void;
-}
-
-type SortField = keyof Pick<
+import {
   Transaction,
-  'timestamp' | 'amount' | 'merchantName' | 'status'
->;
-type SortDirection = 'asc' | 'desc';
+  TransactionSortField,
+  TransactionSortOrder,
+} from '../../types/transaction';
+import { FxConverter } from '../../types/currency';
+import { TableColumnLayout } from '../../types/tableColumns';
+import {
+  TransactionGroupBy,
+  TransactionTableItem,
+} from '../../types/transactionGroups';
+import {
+  TransactionReviewChange,
+  TransactionReviews,
+} from '../../types/transactionReview';
+import { useStablePagination } from '../../hooks/useStablePagination';
+import { useRowSelection } from '../../hooks/useRowSelection';
+import { useHeldRows } from '../../hooks/useHeldRows';
+import { useRowArrivals } from '../../hooks/useRowArrivals';
+import { useScrollAnchor } from '../../hooks/useScrollAnchor';
+import { useTransactionGroups } from '../../hooks/useTransactionGroups';
+import { useColumnResize } from '../../hooks/useColumnResize';
+import {
+  getGridRowId,
+  getGroupRowKey,
+  useGridNavigation,
+} from '../../hooks/useGridNavigation';
+import { applyReviewChange } from '../../utils/transactionReviews';
+import {
+  createTransactionSorter,
+  toggleSortField,
+} from '../../utils/sortTransactions';
+import {
+  DEFAULT_COLUMN_LAYOUT,
+  getExportColumns,
+  TABLE_COLUMNS,
+} from '../../utils/tableColumns';
+import { DEFAULT_TRANSACTION_SORT } from '../../constants';
+import { TablePagination } from './TablePagination';
+import { TransactionTableToolbar } from './TransactionTableToolbar';
+import { BulkActionBar } from './BulkActionBar';
+import { ColumnResizeHandle } from './ColumnResizeHandle';
+import { getColumnClass } from './columnClasses';
+import {
+  RowItemData,
+  TransactionListRow,
+  TransactionRow,
+} from './TransactionRow';
+import { VisuallyHidden } from '../ui/VisuallyHidden';
 
-interface RowItemData {
+interface TransactionTableProps {
   transactions: Transaction[];
   onTransactionClick: (transaction: Transaction) => void;
+  // when both are given, foreign-currency rows also show the reporting-currency amount
+  reportingCurrency?: string;
+  fxConverter?: FxConverter;
+  // search words marked in the merchant and description, typo tolerant when fuzzy
+  highlightTerms?: string[];
+  fuzzyHighlight?: boolean;
+  // relevance of a row to the current search; enables ordering by best match
+  getRelevance?: (transaction: Transaction) => number;
+  // controlled ordering, e.g. restored from a saved view; kept internally when omitted
+  sort?: TransactionSortOrder;
+  onSortChange?: (sort: TransactionSortOrder) => void;
+  // rows per page when switched to pages
+  defaultPageSize?: number;
+  // denser rows showing one line per cell; every match is still listed
+  compact?: boolean;
+  // changing it, e.g. with new filters, returns the pages to the first one
+  pageResetKey?: unknown;
+  // controlled column layout, e.g. the user's stored one; kept internally when omitted
+  columns?: TableColumnLayout;
+  onColumnsChange?: (columns: TableColumnLayout) => void;
+  // risk score by transaction id, shown by the risk score column
+  riskScores?: Record<string, number>;
+  // controlled grouping, e.g. restored from a saved view; kept internally when omitted
+  groupBy?: TransactionGroupBy;
+  onGroupByChange?: (groupBy: TransactionGroupBy) => void;
+  // controlled reviewer marks, e.g. the stored ones; kept internally when omitted
+  reviews?: TransactionReviews;
+  onReviewChange?: (ids: string[], change: TransactionReviewChange) => void;
 }
 
 const ROW_HEIGHT = 56;
+const COMPACT_ROW_HEIGHT = 40;
+const GROUP_HEADER_HEIGHT = 44;
 const HEADER_HEIGHT = 44;
+// leading track holding the selection checkboxes
+const SELECT_COLUMN_WIDTH = 40;
 const HEIGHT = 600;
+const PAGE_SIZE_OPTIONS = [25, 50, 100, 250];
+// group headers are shorter than transaction rows
+const getGroupedRowHeight = (
+  index: number,
+  { groupedItems, rowHeight }: RowItemData
+): number =>
+  groupedItems?.[index]?.kind === 'group' ? GROUP_HEADER_HEIGHT : rowHeight;
 
 export const TransactionTable: React.FC<TransactionTableProps> = ({
   transactions,
   onTransactionClick,
+  reportingCurrency,
+  fxConverter,
+  highlightTerms,
+  fuzzyHighlight,
+  getRelevance,
+  sort,
+  onSortChange,
+  defaultPageSize = PAGE_SIZE_OPTIONS[1],
+  pageResetKey,
+  columns,
+  onColumnsChange,
+  riskScores,
+  groupBy,
+  onGroupByChange,
+  reviews,
+  onReviewChange,
+  compact = false,
 }) => {
-  const [sortField, setSortField] = useState<SortField>('timestamp');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const rowHeight = compact ? COMPACT_ROW_HEIGHT : ROW_HEIGHT;
+  // rows PageUp and PageDown move by, about one screen of the scrolling body
+  const pageStep = Math.floor((HEIGHT - HEADER_HEIGHT) / rowHeight);
+  const pagedRowStyle = useMemo<CSSProperties>(
+    () => ({ height: rowHeight }),
+    [rowHeight]
+  );
+  // virtualized scrolling through every row, or discrete pages
+  const [layout, setLayout] = useState<'scroll' | 'pages'>('scroll');
+  const [pageSize, setPageSize] = useState(defaultPageSize);
+  const [internalSort, setInternalSort] = useState<TransactionSortOrder>(
+    DEFAULT_TRANSACTION_SORT
+  );
+  const sortOrder = sort ?? internalSort;
+  // without a search there is nothing to rank, so best match falls back to newest first
+  const activeOrder = useMemo(() => {
+    const keys = sortOrder.map(key =>
+      key.field === 'relevance' && !getRelevance
+        ? { ...key, field: 'timestamp' as const }
+        : key
+    );
+    return keys.filter(
+      (key, index) =>
+        keys.findIndex(other => other.field === key.field) === index
+    );
+  }, [sortOrder, getRelevance]);
+  const setSortOrder = onSortChange ?? setInternalSort;
+
+  const [internalColumns, setInternalColumns] = useState<TableColumnLayout>(
+    DEFAULT_COLUMN_LAYOUT
+  );
+  const columnLayout = columns ?? internalColumns;
+  const setColumnLayout = onColumnsChange ?? setInternalColumns;
+  // shown columns, their grid and the widths being dragged, see useColumnResize
+  const {
+    visibleColumns,
+    gridStyle,
+    columnsStyle,
+    onResize: handleResize,
+    onResizeEnd: handleResizeEnd,
+  } = useColumnResize({
+    layout: columnLayout,
+    onLayoutChange: setColumnLayout,
+    leadingWidth: SELECT_COLUMN_WIDTH,
+  });
+
+  // fields of the shown columns for "visible columns" exports
+  const exportColumns = useMemo(
+    () => getExportColumns(columnLayout),
+    [columnLayout]
+  );
 
   /**
-   * handles column header clicks to toggle sorting
-   * if clicking the same field, toggles between asc/desc
-   * if clicking a new field, sets it as sort field with default direction (desc for timestamp, asc for others)
+   * handles column header clicks, see toggleSortField
+   * a plain click sorts by the column alone, a shift-click adds it as the next key
    */
   const handleSort = useCallback(
-    (field: SortField) => {
-      if (sortField === field) {
-        setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    (field: TransactionSortField, additive = false) => {
+      setSortOrder(toggleSortField(activeOrder, field, additive));
+    },
+    [activeOrder, setSortOrder]
+  );
+
+  /**
+   * memoized sorted transactions array that updates when the rows or the order change
+   * the sorter and its sorted index are kept while the order is, so streamed batches
+   * and filter changes are read off the index instead of re-sorting every row
+   */
+  const sortTransactions = useMemo(
+    () => createTransactionSorter(activeOrder, getRelevance),
+    [activeOrder, getRelevance]
+  );
+  const streamedTransactions = useMemo(
+    () => sortTransactions(transactions),
+    [sortTransactions, transactions]
+  );
+
+  // paused, the shown rows hold still and later arrivals wait, see useHeldRows
+  const [isLivePaused, setLivePaused] = useState(false);
+  const {
+    heldRows: sortedTransactions,
+    pendingCount: heldCount,
+    showPending: showHeldRows,
+  } = useHeldRows({
+    rows: streamedTransactions,
+    enabled: isLivePaused,
+    resetKey: pageResetKey,
+  });
+  // rows that just streamed in, highlighted for a moment
+  const arrivedIds = useRowArrivals({
+    rows: sortedTransactions,
+    resetKey: pageResetKey,
+  });
+
+  const [internalGroupBy, setInternalGroupBy] =
+    useState<TransactionGroupBy>('none');
+  const activeGroupBy = groupBy ?? internalGroupBy;
+  const setGroupBy = onGroupByChange ?? setInternalGroupBy;
+  // groups stand between the rows, so a grouped table always scrolls
+  const isPaged = layout === 'pages' && activeGroupBy === 'none';
+  // groups with their subtotals and collapsed state, see useTransactionGroups
+  const {
+    groups,
+    groupedItems,
+    subtotalCurrency,
+    allCollapsed,
+    onToggleGroup: handleToggleGroup,
+    onToggleAllGroups: handleToggleAllGroups,
+    groupSummary,
+  } = useTransactionGroups({
+    rows: sortedTransactions,
+    groupBy: activeGroupBy,
+    reportingCurrency,
+    fxConverter,
+  });
+
+  const [internalReviews, setInternalReviews] = useState<TransactionReviews>(
+    {}
+  );
+  const reviewMarks = reviews ?? internalReviews;
+  const handleReviewChange = useCallback(
+    (ids: string[], change: TransactionReviewChange) => {
+      if (onReviewChange) {
+        onReviewChange(ids, change);
       } else {
-        setSortField(field);
-        setSortDirection(field === 'timestamp' ? 'desc' : 'asc');
+        setInternalReviews(current => applyReviewChange(current, ids, change));
       }
     },
-    [sortField, sortDirection]
+    [onReviewChange]
   );
 
   /**
-   * memoized sorted transactions array that updates when transactions, sortField, or sortDirection changes
-   * converts timestamp to milliseconds for numeric comparison
-   * converts merchantName to lowercase for case-insensitive sorting
+   * rows in display order, grouped rows one group after another
+   * selection is kept by id, so it survives sorting, grouping and virtualization;
+   * a shift-click range across a collapsed group takes its rows too
    */
-  const sortedTransactions = useMemo(() => {
-    return [...transactions].sort((a, b) => {
-      let aValue: string | number;
-      let bValue: string | number;
+  const orderedRows = useMemo(
+    () =>
+      groups ? groups.flatMap(group => group.transactions) : sortedTransactions,
+    [groups, sortedTransactions]
+  );
+  const {
+    selectedIds,
+    selectedRows,
+    isAllSelected,
+    toggleRow,
+    selectAll,
+    clearSelection,
+  } = useRowSelection(orderedRows);
 
-      switch (sortField) {
-        case 'timestamp':
-          aValue = new Date(a.timestamp).getTime();
-          bValue = new Date(b.timestamp).getTime();
-          break;
-        case 'amount':
-          aValue = a.amount;
-          bValue = b.amount;
-          break;
-        case 'merchantName':
-          aValue = a.merchantName.toLowerCase();
-          bValue = b.merchantName.toLowerCase();
-          break;
-        case 'status':
-          aValue = a.status;
-          bValue = b.status;
-          break;
-        default:
-          return 0;
-      }
+  // pages hold still while rows stream in, see useStablePagination
+  const {
+    pageRows,
+    page,
+    pageCount,
+    total,
+    setPage,
+    pendingCount,
+    showPending,
+  } = useStablePagination({
+    rows: sortedTransactions,
+    pageSize,
+    enabled: isPaged,
+    resetKey: pageResetKey,
+  });
 
-      if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
+  /**
+   * rows the keyboard moves through, in display order: the rows of the page, the
+   * virtual rows of a grouped table, or every sorted row
+   */
+  const navigableItems = useMemo<TransactionTableItem[]>(
+    () =>
+      !isPaged && groupedItems
+        ? groupedItems
+        : (isPaged ? pageRows : sortedTransactions).map(transaction => ({
+            kind: 'row' as const,
+            transaction,
+          })),
+    [isPaged, groupedItems, pageRows, sortedTransactions]
+  );
+  const navigableKeys = useMemo(
+    () =>
+      navigableItems.map(item =>
+        item.kind === 'group' ? getGroupRowKey(item.group) : item.transaction.id
+      ),
+    [navigableItems]
+  );
+  const listRef = useRef<ListImperativeAPI>(null);
+  // top edge of every virtual row of a grouped table, whose headers are shorter
+  const rowTops = useMemo(() => {
+    if (!groupedItems) return null;
+    let top = 0;
+    return groupedItems.map(item => {
+      const rowTop = top;
+      top += item.kind === 'group' ? GROUP_HEADER_HEIGHT : rowHeight;
+      return rowTop;
     });
-  }, [transactions, sortField, sortDirection]);
+  }, [groupedItems, rowHeight]);
+  // another view of the rows, e.g. new filters or a re-sort, starts from the top
+  const viewKey = useMemo(
+    () => ({ pageResetKey, activeOrder, activeGroupBy }),
+    [pageResetKey, activeOrder, activeGroupBy]
+  );
+  // the viewed row stays in place while batches stream in above it
+  const {
+    onScroll: handleListScroll,
+    unseenCount,
+    showUnseen,
+  } = useScrollAnchor({
+    listRef,
+    keys: navigableKeys,
+    rowTops,
+    rowHeight,
+    arrivedIds,
+    enabled: !isPaged,
+    resetKey: viewKey,
+  });
+
+  // the first row of the page is row 2 of the grid, after the header row
+  const rowIndexOffset = isPaged ? page * pageSize : 0;
+  const rowCount = isPaged ? total : navigableItems.length;
+
+  // the grid's keyboard model and active row, see useGridNavigation
+  const {
+    gridId,
+    activeIndex,
+    onActivate: setActiveKey,
+    activeDescendant,
+    announcement,
+    onKeyDown: handleGridKeyDown,
+    onFocus: handleGridFocus,
+    onRowsRendered: handleRowsRendered,
+  } = useGridNavigation({
+    items: navigableItems,
+    keys: navigableKeys,
+    listRef,
+    isPaged,
+    pageStep,
+    rowIndexOffset,
+    rowCount,
+    onOpen: onTransactionClick,
+    onToggleSelect: toggleRow,
+    onToggleGroup: handleToggleGroup,
+  });
+
+  // keeps the first row of the current page in view when the page size changes
+  const handlePageSizeChange = useCallback(
+    (nextPageSize: number) => {
+      setPageSize(nextPageSize);
+      setPage(Math.floor((page * pageSize) / nextPageSize));
+    },
+    [page, pageSize, setPage]
+  );
 
   /**
    * memoized data object passed to react-window List component
@@ -94,233 +389,294 @@ export const TransactionTable: React.FC<TransactionTableProps> = ({
   const itemData = useMemo(
     () => ({
       transactions: sortedTransactions,
+      groupedItems,
+      onToggleGroup: handleToggleGroup,
+      subtotalCurrency,
       onTransactionClick,
+      columns: visibleColumns,
+      gridStyle,
+      rowHeight,
+      reportingCurrency,
+      fxConverter,
+      highlightTerms,
+      fuzzyHighlight,
+      riskScores,
+      selectedIds,
+      onToggleSelect: toggleRow,
+      reviews: reviewMarks,
+      gridId,
+      activeIndex,
+      onActivate: setActiveKey,
+      arrivedIds,
     }),
-    [sortedTransactions, onTransactionClick]
+    [
+      sortedTransactions,
+      groupedItems,
+      handleToggleGroup,
+      subtotalCurrency,
+      onTransactionClick,
+      visibleColumns,
+      gridStyle,
+      rowHeight,
+      reportingCurrency,
+      fxConverter,
+      highlightTerms,
+      fuzzyHighlight,
+      riskScores,
+      selectedIds,
+      toggleRow,
+      reviewMarks,
+      gridId,
+      activeIndex,
+      setActiveKey,
+      arrivedIds,
+    ]
   );
 
   /**
-   * returns the appropriate sort icon (up/down chevron) for a column header
-   * only shows icon for the currently active sort field
+   * returns the sort icon (up/down chevron) for a column header, with the key's
+   * priority when sorting by more than one column
    */
-  const getSortIcon = (field: SortField): React.ReactNode => {
-    if (sortField !== field) return null;
-    return sortDirection === 'asc' ? (
-      <ChevronUp size={14} />
-    ) : (
-      <ChevronDown size={14} />
+  const getSortIcon = (field: TransactionSortField): React.ReactNode => {
+    const priority = activeOrder.findIndex(key => key.field === field);
+    if (priority < 0) return null;
+    return (
+      <>
+        {activeOrder[priority].direction === 'asc' ? (
+          <ChevronUp size={14} />
+        ) : (
+          <ChevronDown size={14} />
+        )}
+        {activeOrder.length > 1 && (
+          <span className={styles.sortPriority}>{priority + 1}</span>
+        )}
+      </>
     );
   };
 
-  /**
-   * row renderer function for react-window virtualized list
-   * receives row props including index, style positioning, and item data
-   */
-  const rowRenderer = useCallback(
-    (props: RowComponentProps<RowItemData>) => {
-      const { index, style, transactions, onTransactionClick } = props;
-      const transaction = transactions[index];
-
-      if (!transaction) return null;
+  // aria-sort of a column header; only the leading key is announced as the table's order
+  const getAriaSort = (field: TransactionSortField) =>
+    activeOrder[0]?.field === field
+      ? activeOrder[0].direction === 'asc'
+        ? 'ascending'
+        : 'descending'
+      : 'none';
 
-      return (
-        <TransactionRow
-          key={transaction.id}
-          style={style}
-          transaction={transaction}
-          onTransactionClick={onTransactionClick}
-        />
-      );
-    },
-    []
-  );
+  // direction of a column's key for the sort button label, empty when unsorted
+  const getSortDirection = (field: TransactionSortField) =>
+    activeOrder.find(key => key.field === field)?.direction ?? '';
 
   return (
-    <div className={styles.table}>
-      <div className={styles.header} role="table" aria-label="Transactions">
-        <div role="row" className={styles.headerRow}>
-          <div
-            role="columnheader"
-            className={`${styles.headerCell} ${styles.merchant}`}
-            aria-sort={
-              sortField === 'merchantName'
-                ? sortDirection === 'asc'
-                  ? 'ascending'
-                  : 'descending'
-                : 'none'
-            }
-          >
-            <button
-              onClick={() => handleSort('merchantName')}
-              className={styles.sortButton}
-              aria-label={`Sort by merchant ${sortField === 'merchantName' ? sortDirection : ''}`}
-            >
-              Merchant
-              {getSortIcon('merchantName')}
-            </button>
-          </div>
+    <div
+      className={compact ? `${styles.table} ${styles.compact}` : styles.table}
+    >
+      <TransactionTableToolbar
+        count={sortedTransactions.length}
+        order={activeOrder}
+        onOrderChange={setSortOrder}
+        onSortByRelevance={
+          getRelevance ? () => handleSort('relevance') : undefined
+        }
+        isLivePaused={isLivePaused}
+        onLivePausedChange={setLivePaused}
+        heldCount={heldCount}
+        onShowHeld={showHeldRows}
+        unseenCount={unseenCount}
+        onShowUnseen={showUnseen}
+        isPaged={isPaged}
+        onLayoutChange={setLayout}
+        pendingCount={pendingCount}
+        onShowPending={showPending}
+        groupBy={activeGroupBy}
+        onGroupByChange={setGroupBy}
+        isGrouped={!!groups}
+        allCollapsed={allCollapsed}
+        onToggleAllGroups={handleToggleAllGroups}
+        columns={columnLayout}
+        onColumnsChange={setColumnLayout}
+        transactions={sortedTransactions}
+        exportColumns={exportColumns}
+        groupSummary={groupSummary}
+      />
 
-          <div
-            role="columnheader"
-            className={`${styles.headerCell} ${styles.amount}`}
-            aria-sort={
-              sortField === 'amount'
-                ? sortDirection === 'asc'
-                  ? 'ascending'
-                  : 'descending'
-                : 'none'
-            }
-          >
-            <button
-              onClick={() => handleSort('amount')}
-              className={styles.sortButton}
-              aria-label={`Sort by amount ${sortField === 'amount' ? sortDirection : ''}`}
-            >
-              Amount
-              {getSortIcon('amount')}
-            </button>
-          </div>
+      {selectedRows.length > 0 && (
+        <BulkActionBar
+          selectedRows={selectedRows}
+          totalCount={orderedRows.length}
+          isAllSelected={isAllSelected}
+          onSelectAll={selectAll}
+          onClearSelection={clearSelection}
+          reviews={reviewMarks}
+          onReviewChange={handleReviewChange}
+          visibleColumns={exportColumns}
+          riskScores={riskScores}
+        />
+      )}
 
-          <div
-            role="columnheader"
-            className={`${styles.headerCell} ${styles.status}`}
-            aria-sort={
-              sortField === 'status'
-                ? sortDirection === 'asc'
-                  ? 'ascending'
-                  : 'descending'
-                : 'none'
-            }
-          >
-            <button
-              onClick={() => handleSort('status')}
-              className={styles.sortButton}
-              aria-label={`Sort by status ${sortField === 'status' ? sortDirection : ''}`}
+      <div className={styles.scroller}>
+        <div
+          className={styles.columns}
+          style={columnsStyle}
+          role="grid"
+          aria-label="Transactions"
+          aria-rowcount={rowCount + 1}
+          aria-activedescendant={activeDescendant}
+          tabIndex={0}
+          onKeyDown={handleGridKeyDown}
+          onFocus={handleGridFocus}
+        >
+          <div className={styles.header} role="rowgroup">
+            <div
+              role="row"
+              aria-rowindex={1}
+              className={styles.headerRow}
+              style={gridStyle}
             >
-              Status
-              {getSortIcon('status')}
-            </button>
+              <div role="columnheader" className={styles.selectCell}>
+                <SelectAllCheckbox
+                  checked={isAllSelected}
+                  indeterminate={selectedRows.length > 0 && !isAllSelected}
+                  disabled={orderedRows.length === 0}
+                  onChange={isAllSelected ? clearSelection : selectAll}
+                />
+              </div>
+              {visibleColumns.map(column => {
+                const { label, sortField, minWidth } = TABLE_COLUMNS[column.id];
+                return (
+                  <div
+                    key={column.id}
+                    role="columnheader"
+                    className={`${styles.headerCell} ${getColumnClass(column)}`}
+                    aria-sort={sortField ? getAriaSort(sortField) : undefined}
+                  >
+                    {sortField ? (
+                      <button
+                        onClick={event => handleSort(sortField, event.shiftKey)}
+                        className={styles.sortButton}
+                        aria-label={`Sort by ${label.toLowerCase()} ${getSortDirection(sortField)}`}
+                        title="Shift-click to add as a further sort"
+                      >
+                        {label}
+                        {getSortIcon(sortField)}
+                      </button>
+                    ) : (
+                      <span className={styles.headerLabel}>{label}</span>
+                    )}
+                    <ColumnResizeHandle
+                      label={label}
+                      width={column.width}
+                      minWidth={minWidth}
+                      onResize={width => handleResize(column.id, width)}
+                      onResizeEnd={width => handleResizeEnd(column.id, width)}
+                    />
+                  </div>
+                );
+              })}
+            </div>
           </div>
 
-          <div
-            role="columnheader"
-            className={`${styles.headerCell} ${styles.date}`}
-            aria-sort={
-              sortField === 'timestamp'
-                ? sortDirection === 'asc'
-                  ? 'ascending'
-                  : 'descending'
-                : 'none'
-            }
-          >
-            <button
-              onClick={() => handleSort('timestamp')}
-              className={styles.sortButton}
-              aria-label={`Sort by date ${sortField === 'timestamp' ? sortDirection : ''}`}
+          {isPaged ? (
+            <div className={styles.pagedBody} role="rowgroup">
+              {pageRows.map((transaction, index) => (
+                <TransactionRow
+                  key={transaction.id}
+                  style={pagedRowStyle}
+                  transaction={transaction}
+                  onTransactionClick={onTransactionClick}
+                  columns={visibleColumns}
+                  gridStyle={gridStyle}
+                  reportingCurrency={reportingCurrency}
+                  fxConverter={fxConverter}
+                  highlightTerms={highlightTerms}
+                  fuzzyHighlight={fuzzyHighlight}
+                  riskScore={riskScores?.[transaction.id]}
+                  selected={selectedIds.has(transaction.id)}
+                  onToggleSelect={toggleRow}
+                  review={reviewMarks[transaction.id]}
+                  rowId={getGridRowId(gridId, index)}
+                  rowIndex={rowIndexOffset + index + 2}
+                  active={index === activeIndex}
+                  onActivate={setActiveKey}
+                  arrived={arrivedIds.has(transaction.id)}
+                />
+              ))}
+            </div>
+          ) : (
+            <div
+              className={styles.body}
+              style={{ height: HEIGHT - HEADER_HEIGHT }}
+              role="rowgroup"
             >
-              Date
-              {getSortIcon('timestamp')}
-            </button>
-          </div>
+              <List
+                listRef={listRef}
+                onScroll={handleListScroll}
+                onRowsRendered={handleRowsRendered}
+                rowComponent={TransactionListRow}
+                rowCount={groupedItems?.length ?? sortedTransactions.length}
+                rowHeight={groupedItems ? getGroupedRowHeight : rowHeight}
+                rowProps={itemData}
+                overscanCount={10}
+                style={{
+                  height: HEIGHT - HEADER_HEIGHT,
+                  width: '100%',
+                }}
+              />
+            </div>
+          )}
         </div>
       </div>
 
-      <div className={styles.body} style={{ height: HEIGHT - HEADER_HEIGHT }}>
-        <List
-          rowComponent={rowRenderer}
-          rowCount={sortedTransactions.length}
-          rowHeight={ROW_HEIGHT}
-          rowProps={itemData}
-          overscanCount={10}
-          style={{
-            height: HEIGHT - HEADER_HEIGHT,
-            width: '100%',
-          }}
+      <VisuallyHidden asChild>
+        <div aria-live="polite" aria-atomic="true">
+          {announcement}
+        </div>
+      </VisuallyHidden>
+
+      {isPaged && (
+        <TablePagination
+          page={page}
+          pageCount={pageCount}
+          pageSize={pageSize}
+          pageSizeOptions={PAGE_SIZE_OPTIONS}
+          total={total}
+          onPageChange={setPage}
+          onPageSizeChange={handlePageSizeChange}
         />
-      </div>
+      )}
     </div>
   );
 };
 
-interface TransactionRowProps {
-  style: CSSProperties;
-  transaction: Transaction;
-  onTransactionClick: (transaction: Transaction) => void;
+interface SelectAllCheckboxProps {
+  checked: boolean;
+  // some rows are selected, but not all
+  indeterminate: boolean;
+  disabled: boolean;
+  onChange: () => void;
 }
 
-const TransactionRow: React.FC<TransactionRowProps> = ({
-  style,
-  transaction,
-  onTransactionClick,
+/* header checkbox selecting every matching row, rendered or not */
+const SelectAllCheckbox: React.FC<SelectAllCheckboxProps> = ({
+  checked,
+  indeterminate,
+  disabled,
+  onChange,
 }) => {
-  // formats date as "MMM dd, yyyy" (e.g., "Jan 15, 2024")
-  const formatDate = (date: Date): string => {
-    return format(date, 'MMM dd, yyyy');
-  };
+  const ref = useRef<HTMLInputElement>(null);
 
-  // formats time as 24-hour "HH:mm" (e.g., "14:30")
-  const formatTime = (date: Date): string => {
-    return format(date, 'HH:mm');
-  };
-
-  // triggers the parent click handler with the current transaction
-  const handleClick = () => {
-    onTransactionClick(transaction);
-  };
-
-  // handles keyboard interaction for accessibility, triggering click on Enter or Space
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
-    if (e.key === 'Enter' || e.key === ' ') {
-      e.preventDefault();
-      handleClick();
-    }
-  };
+  // indeterminate has no attribute, only a DOM property
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = indeterminate;
+  }, [indeterminate]);
 
   return (
-    <div style={style}>
-      <div
-        role="row"
-        className={styles.row}
-        onClick={handleClick}
-        onKeyDown={handleKeyDown}
-        tabIndex={0}
-        aria-label={`${transaction.merchantName} transaction for ${formatCurrency(transaction.amount)}`}
-      >
-        <div role="gridcell" className={`${styles.cell} ${styles.merchant}`}>
-          <div className={styles.merchantInfo}>
-            <div className={styles.merchantName}>
-              {transaction.merchantName}
-            </div>
-            <div className={styles.description}>{transaction.description}</div>
-          </div>
-        </div>
-
-        <div role="gridcell" className={`${styles.cell} ${styles.amount}`}>
-          <div className={`${styles.amountValue} ${styles[transaction.type]}`}>
-            {transaction.type === 'debit' ? '-' : '+'}
-            {formatCurrency(transaction.amount)}
-          </div>
-        </div>
-
-        <div role="gridcell" className={`${styles.cell} ${styles.status}`}>
-          <span
-            className={`${styles.statusBadge} ${styles[transaction.status]}`}
-          >
-            {transaction.status}
-          </span>
-        </div>
-
-        <div role="gridcell" className={`${styles.cell} ${styles.date}`}>
-          <div className={styles.dateInfo}>
-            <div className={styles.dateValue}>
-              {formatDate(transaction.timestamp)}
-            </div>
-            <div className={styles.timeValue}>
-              {formatTime(transaction.timestamp)}
-            </div>
-          </div>
-        </div>
-      </div>
-    </div>
+    <input
+      ref={ref}
+      type="checkbox"
+      checked={checked}
+      disabled={disabled}
+      onChange={onChange}
+      aria-label="Select all matching transactions"
+    />
   );
 };
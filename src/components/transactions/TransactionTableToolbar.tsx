@@ -0,0 +1,222 @@
+import React from 'react';
+import { Pause, Rows3, ScrollText, Sparkles } from 'lucide-react';
+import styles from './TransactionTable.module.css';
+import {
+  Transaction,
+  TransactionSortField,
+  TransactionSortOrder,
+} from '../../types/transaction';
+import { TableColumnLayout } from '../../types/tableColumns';
+import { TransactionGroupBy } from '../../types/transactionGroups';
+import {
+  ExportColumnId,
+  GroupSummaryExport,
+} from '../../types/transactionExport';
+import { useFormatters } from '../../hooks/useFormatters';
+import {
+  GROUP_BY_LABELS,
+  GROUP_BY_OPTIONS,
+} from '../../utils/groupTransactions';
+import { ExportDialog } from '../export/ExportDialog';
+import { SortOrderControl } from './SortOrderControl';
+import { ColumnSettingsDialog } from './ColumnSettingsDialog';
+
+interface TransactionTableToolbarProps {
+  // rows in the table, held back ones excluded
+  count: number;
+  order: TransactionSortOrder;
+  onOrderChange: (order: TransactionSortOrder) => void;
+  // offers ordering by best match; only given while searching
+  onSortByRelevance?: () => void;
+  // paused, the rows hold still and later arrivals are counted, see useHeldRows
+  isLivePaused: boolean;
+  onLivePausedChange: (paused: boolean) => void;
+  heldCount: number;
+  onShowHeld: () => void;
+  // rows that arrived above the viewed row, see useScrollAnchor
+  unseenCount: number;
+  onShowUnseen: () => void;
+  isPaged: boolean;
+  onLayoutChange: (layout: 'scroll' | 'pages') => void;
+  // rows waiting to join the current page, see useStablePagination
+  pendingCount: number;
+  onShowPending: () => void;
+  groupBy: TransactionGroupBy;
+  onGroupByChange: (groupBy: TransactionGroupBy) => void;
+  // grouped rows are shown, which always scroll
+  isGrouped: boolean;
+  allCollapsed: boolean;
+  onToggleAllGroups: () => void;
+  columns: TableColumnLayout;
+  onColumnsChange: (columns: TableColumnLayout) => void;
+  // rows and columns offered by the export dialog
+  transactions: Transaction[];
+  exportColumns: ExportColumnId[];
+  groupSummary?: GroupSummaryExport;
+}
+
+// fields offered by the sort menu; best match has its own toggle
+const SORTABLE_FIELDS: TransactionSortField[] = [
+  'timestamp',
+  'amount',
+  'merchantName',
+  'status',
+  'category',
+  'type',
+  'location',
+  'accountId',
+  'reference',
+  'userId',
+];
+
+/* controls above the transaction table: the row count and sort order, new-row pills,
+ * grouping, live updates, scroll or page layout, columns and export */
+export const TransactionTableToolbar: React.FC<
+  TransactionTableToolbarProps
+> = ({
+  count,
+  order,
+  onOrderChange,
+  onSortByRelevance,
+  isLivePaused,
+  onLivePausedChange,
+  heldCount,
+  onShowHeld,
+  unseenCount,
+  onShowUnseen,
+  isPaged,
+  onLayoutChange,
+  pendingCount,
+  onShowPending,
+  groupBy,
+  onGroupByChange,
+  isGrouped,
+  allCollapsed,
+  onToggleAllGroups,
+  columns,
+  onColumnsChange,
+  transactions,
+  exportColumns,
+  groupSummary,
+}) => {
+  const { formatNumber } = useFormatters();
+
+  const formatNewCount = (newCount: number) =>
+    `${formatNumber(newCount)} new ${newCount === 1 ? 'transaction' : 'transactions'}`;
+
+  return (
+    <div className={styles.toolbar}>
+      <div className={styles.toolbarSummary}>
+        <span className={styles.count}>{formatNumber(count)} transactions</span>
+        <SortOrderControl
+          order={order}
+          fields={SORTABLE_FIELDS}
+          onChange={onOrderChange}
+        />
+      </div>
+      <div className={styles.toolbarActions}>
+        {isLivePaused && heldCount > 0 ? (
+          <button
+            type="button"
+            onClick={onShowHeld}
+            className={styles.pendingButton}
+          >
+            {formatNewCount(heldCount)}
+          </button>
+        ) : (
+          !isPaged &&
+          unseenCount > 0 && (
+            <button
+              type="button"
+              onClick={onShowUnseen}
+              className={styles.pendingButton}
+            >
+              {formatNewCount(unseenCount)}
+            </button>
+          )
+        )}
+        {isPaged && pendingCount > 0 && (
+          <button
+            type="button"
+            onClick={onShowPending}
+            className={styles.pendingButton}
+          >
+            {formatNumber(pendingCount)} new
+          </button>
+        )}
+        <select
+          className={styles.groupSelect}
+          value={groupBy}
+          onChange={event =>
+            onGroupByChange(event.target.value as TransactionGroupBy)
+          }
+          aria-label="Group by"
+        >
+          {GROUP_BY_OPTIONS.map(option => (
+            <option key={option} value={option}>
+              {option === 'none'
+                ? GROUP_BY_LABELS[option]
+                : `By ${GROUP_BY_LABELS[option].toLowerCase()}`}
+            </option>
+          ))}
+        </select>
+        {isGrouped && (
+          <button
+            type="button"
+            onClick={onToggleAllGroups}
+            className={styles.sortButton}
+          >
+            {allCollapsed ? 'Expand all' : 'Collapse all'}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => onLivePausedChange(!isLivePaused)}
+          className={styles.sortButton}
+          aria-pressed={isLivePaused}
+          title="Hold the rows still while new transactions stream in"
+        >
+          <Pause size={14} />
+          Pause updates
+        </button>
+        <button
+          type="button"
+          onClick={() => onLayoutChange('scroll')}
+          className={styles.sortButton}
+          aria-pressed={!isPaged}
+        >
+          <ScrollText size={14} />
+          Scroll
+        </button>
+        <button
+          type="button"
+          onClick={() => onLayoutChange('pages')}
+          className={styles.sortButton}
+          aria-pressed={isPaged}
+          disabled={isGrouped}
+          title={isGrouped ? 'Grouped rows always scroll' : undefined}
+        >
+          <Rows3 size={14} />
+          Pages
+        </button>
+        {onSortByRelevance && (
+          <button
+            type="button"
+            onClick={onSortByRelevance}
+            className={styles.sortButton}
+            aria-pressed={order[0]?.field === 'relevance'}
+          >
+            <Sparkles size={14} />
+            Best match
+          </button>
+        )}
+        <ColumnSettingsDialog columns={columns} onChange={onColumnsChange} />
+        <ExportDialog
+          transactions={transactions}
+          visibleColumns={exportColumns}
+          groupSummary={groupSummary}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import styles from './TransactionTable.module.css';
+import {
+  TableColumnSetting,
+  TransactionColumnId,
+} from '../../types/tableColumns';
+import { TABLE_COLUMNS } from '../../utils/tableColumns';
+
+// the first columns carry their own cell layout, see TransactionRow
+const COLUMN_CLASSES: Partial<Record<TransactionColumnId, string>> = {
+  merchant: styles.merchant,
+  amount: styles.amount,
+  status: styles.status,
+  date: styles.date,
+};
+
+// classes of a column's header and row cells: its alignment and its own layout
+export const getColumnClass = ({ id }: TableColumnSetting) =>
+  `${styles[TABLE_COLUMNS[id].align]} ${COLUMN_CLASSES[id] ?? ''}`;
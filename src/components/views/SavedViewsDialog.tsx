@@ -0,0 +1,217 @@
+import React, { useCallback, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import {
+  Bookmark,
+  Check,
+  Pencil,
+  RefreshCw,
+  Star,
+  Trash2,
+  X,
+} from 'lucide-react';
+import styles from './SavedViewsDialog.module.css';
+import { SavedView } from '../../types/savedView';
+import { Button } from '../ui/Button';
+
+interface SavedViewsDialogProps {
+  views: SavedView[];
+  defaultViewId: string | null;
+  // view last applied, marked in the list
+  activeViewId?: string | null;
+  onApply: (view: SavedView) => void;
+  // saves the current filters, search and sort under a name
+  onSave: (name: string) => void;
+  // overwrites a view with the current filters, search and sort
+  onUpdate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onSetDefault: (id: string | null) => void;
+}
+
+/* lists saved views of the dashboard and saves the current one
+ * applying a view closes the dialog; the default view opens with the dashboard */
+export const SavedViewsDialog: React.FC<SavedViewsDialogProps> = ({
+  views,
+  defaultViewId,
+  activeViewId,
+  onApply,
+  onSave,
+  onUpdate,
+  onRename,
+  onDelete,
+  onSetDefault,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  // view being renamed inline, with the name typed so far
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(
+    null
+  );
+
+  const handleSave = useCallback(
+    (event: React.FormEvent) => {
+      event.preventDefault();
+      if (!newName.trim()) return;
+      onSave(newName);
+      setNewName('');
+    },
+    [newName, onSave]
+  );
+
+  const handleApply = useCallback(
+    (view: SavedView) => {
+      onApply(view);
+      setIsOpen(false);
+    },
+    [onApply]
+  );
+
+  const handleRename = useCallback(
+    (event: React.FormEvent) => {
+      event.preventDefault();
+      if (renaming?.name.trim()) onRename(renaming.id, renaming.name);
+      setRenaming(null);
+    },
+    [renaming, onRename]
+  );
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={setIsOpen}>
+      <Dialog.Trigger asChild>
+        <Button variant="secondary" size="sm">
+          <Bookmark size={16} aria-hidden="true" />
+          Views
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Portal>
+        <Dialog.Overlay className={styles.overlay} />
+        <Dialog.Content className={styles.content}>
+          <div className={styles.header}>
+            <div>
+              <Dialog.Title className={styles.title}>Saved views</Dialog.Title>
+              <Dialog.Description className={styles.description}>
+                Filters, search, sort order and grouping saved under a name.
+              </Dialog.Description>
+            </div>
+            <Dialog.Close asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className={styles.closeButton}
+                aria-label="Close saved views"
+              >
+                <X size={20} />
+              </Button>
+            </Dialog.Close>
+          </div>
+
+          <div className={styles.body}>
+            <form className={styles.saveForm} onSubmit={handleSave}>
+              <input
+                className={styles.input}
+                value={newName}
+                onChange={event => setNewName(event.target.value)}
+                placeholder="Name the current view"
+                aria-label="View name"
+              />
+              <Button type="submit" size="sm" disabled={!newName.trim()}>
+                Save view
+              </Button>
+            </form>
+
+            {views.length === 0 ? (
+              <p className={styles.empty}>No saved views yet.</p>
+            ) : (
+              <ul className={styles.list} aria-label="Saved views">
+                {views.map(view => {
+                  const isDefault = view.id === defaultViewId;
+                  return (
+                    <li
+                      key={view.id}
+                      className={`${styles.item} ${view.id === activeViewId ? styles.active : ''}`}
+                    >
+                      {renaming?.id === view.id ? (
+                        <form className={styles.rename} onSubmit={handleRename}>
+                          <input
+                            className={styles.input}
+                            value={renaming.name}
+                            onChange={event =>
+                              setRenaming({
+                                id: view.id,
+                                name: event.target.value,
+                              })
+                            }
+                            aria-label={`New name for ${view.name}`}
+                            autoFocus
+                          />
+                          <Button
+                            type="submit"
+                            variant="ghost"
+                            size="sm"
+                            aria-label="Save name"
+                          >
+                            <Check size={16} />
+                          </Button>
+                        </form>
+                      ) : (
+                        <button
+                          type="button"
+                          className={styles.viewName}
+                          onClick={() => handleApply(view)}
+                        >
+                          {view.name}
+                        </button>
+                      )}
+
+                      <div className={styles.itemActions}>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label={`Open ${view.name} by default`}
+                          aria-pressed={isDefault}
+                          className={isDefault ? styles.defaultView : ''}
+                          onClick={() =>
+                            onSetDefault(isDefault ? null : view.id)
+                          }
+                        >
+                          <Star size={16} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label={`Rename ${view.name}`}
+                          onClick={() =>
+                            setRenaming({ id: view.id, name: view.name })
+                          }
+                        >
+                          <Pencil size={16} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label={`Update ${view.name} with the current view`}
+                          onClick={() => onUpdate(view.id)}
+                        >
+                          <RefreshCw size={16} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label={`Delete ${view.name}`}
+                          onClick={() => onDelete(view.id)}
+                        >
+                          <Trash2 size={16} />
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
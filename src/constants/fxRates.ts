@@ -0,0 +1,164 @@
+import { FxRateTable } from '../types/currency';
+
+/* built-in quarterly reference rates against USD
+ * used until (or instead of) a rate file configured through VITE_FX_RATES_URL */
+export const STATIC_FX_RATES: FxRateTable = {
+  base: 'USD',
+  snapshots: [
+    {
+      date: '2023-01-01',
+      rates: {
+        USD: 1,
+        EUR: 0.937,
+        GBP: 0.827,
+        JPY: 131.1,
+        CAD: 1.354,
+        AUD: 1.468,
+        CHF: 0.925,
+      },
+    },
+    {
+      date: '2023-04-01',
+      rates: {
+        USD: 1,
+        EUR: 0.92,
+        GBP: 0.809,
+        JPY: 132.8,
+        CAD: 1.352,
+        AUD: 1.496,
+        CHF: 0.914,
+      },
+    },
+    {
+      date: '2023-07-01',
+      rates: {
+        USD: 1,
+        EUR: 0.917,
+        GBP: 0.787,
+        JPY: 144.3,
+        CAD: 1.324,
+        AUD: 1.502,
+        CHF: 0.895,
+      },
+    },
+    {
+      date: '2023-10-01',
+      rates: {
+        USD: 1,
+        EUR: 0.946,
+        GBP: 0.82,
+        JPY: 149.4,
+        CAD: 1.358,
+        AUD: 1.555,
+        CHF: 0.915,
+      },
+    },
+    {
+      date: '2024-01-01',
+      rates: {
+        USD: 1,
+        EUR: 0.905,
+        GBP: 0.785,
+        JPY: 141.0,
+        CAD: 1.325,
+        AUD: 1.468,
+        CHF: 0.842,
+      },
+    },
+    {
+      date: '2024-04-01',
+      rates: {
+        USD: 1,
+        EUR: 0.927,
+        GBP: 0.792,
+        JPY: 151.3,
+        CAD: 1.354,
+        AUD: 1.534,
+        CHF: 0.902,
+      },
+    },
+    {
+      date: '2024-07-01',
+      rates: {
+        USD: 1,
+        EUR: 0.933,
+        GBP: 0.791,
+        JPY: 161.1,
+        CAD: 1.371,
+        AUD: 1.499,
+        CHF: 0.899,
+      },
+    },
+    {
+      date: '2024-10-01',
+      rates: {
+        USD: 1,
+        EUR: 0.897,
+        GBP: 0.748,
+        JPY: 143.6,
+        CAD: 1.352,
+        AUD: 1.445,
+        CHF: 0.846,
+      },
+    },
+    {
+      date: '2025-01-01',
+      rates: {
+        USD: 1,
+        EUR: 0.966,
+        GBP: 0.799,
+        JPY: 157.2,
+        CAD: 1.438,
+        AUD: 1.615,
+        CHF: 0.907,
+      },
+    },
+    {
+      date: '2025-04-01',
+      rates: {
+        USD: 1,
+        EUR: 0.925,
+        GBP: 0.774,
+        JPY: 149.9,
+        CAD: 1.437,
+        AUD: 1.6,
+        CHF: 0.884,
+      },
+    },
+    {
+      date: '2025-07-01',
+      rates: {
+        USD: 1,
+        EUR: 0.85,
+        GBP: 0.729,
+        JPY: 144.0,
+        CAD: 1.362,
+        AUD: 1.523,
+        CHF: 0.794,
+      },
+    },
+    {
+      date: '2025-10-01',
+      rates: {
+        USD: 1,
+        EUR: 0.852,
+        GBP: 0.743,
+        JPY: 147.9,
+        CAD: 1.392,
+        AUD: 1.512,
+        CHF: 0.796,
+      },
+    },
+  ],
+};
+
+// currency mix of generated transactions, as relative weights
+export const GENERATED_CURRENCY_WEIGHTS: Record<string, number> = {
+  USD: 0.6,
+  EUR: 0.15,
+  GBP: 0.1,
+  CAD: 0.06,
+  JPY: 0.04,
+  AUD: 0.03,
+  CHF: 0.02,
+};
@@ -1,3 +1,5 @@
+import { TransactionSortOrder } from '../types/transaction';
+
 export const CATEGORIES = [
   'Food & Dining',
   'Shopping',
@@ -69,3 +71,14 @@ export const ITEMS = [
   'Subscription',
   'ATM withdrawal',
 ] as const;
+
+// risk score above which the analytics worker counts a transaction as high risk
+export const HIGH_RISK_THRESHOLD = 0.7;
+
+// newest first, the table's ordering until the user picks another
+export const DEFAULT_TRANSACTION_SORT: TransactionSortOrder = [
+  { field: 'timestamp', direction: 'desc' },
+];
+
+// most selected transactions shown side by side by the compare dialog
+export const MAX_COMPARED_TRANSACTIONS = 4;
@@ -0,0 +1,117 @@
+import {
+  PersonaArchetype,
+  ScenarioId,
+  ScenarioProfile,
+  SeasonalityProfile,
+} from '../types/scenario';
+import { GENERATED_CURRENCY_WEIGHTS } from './fxRates';
+
+const PERSONAS: PersonaArchetype[] = [
+  {
+    name: 'Commuter',
+    weight: 3,
+    categories: ['Transportation', 'Food & Dining', 'Auto & Transport'],
+    amountRange: { min: 3, max: 80 },
+    activeHours: [6, 20],
+    creditRate: 0.15,
+  },
+  {
+    name: 'Family shopper',
+    weight: 3,
+    categories: ['Shopping', 'Home & Garden', 'Healthcare', 'Education'],
+    amountRange: { min: 15, max: 450 },
+    activeHours: [9, 21],
+    creditRate: 0.2,
+  },
+  {
+    name: 'Night owl',
+    weight: 1,
+    categories: ['Entertainment', 'Food & Dining', 'Personal Care'],
+    amountRange: { min: 5, max: 150 },
+    activeHours: [18, 24],
+    creditRate: 0.1,
+  },
+  {
+    name: 'Small business owner',
+    weight: 1,
+    categories: ['Business', 'Bills & Utilities', 'ATM & Banking', 'Travel'],
+    amountRange: { min: 50, max: 4000 },
+    activeHours: [8, 18],
+    creditRate: 0.45,
+  },
+  {
+    name: 'Investor',
+    weight: 1,
+    categories: ['Investments', 'ATM & Banking', 'Gifts & Donations'],
+    amountRange: { min: 100, max: 5000 },
+    activeHours: [13, 21],
+    creditRate: 0.35,
+  },
+];
+
+const WEEKLY_SEASONALITY: SeasonalityProfile = {
+  weekdayWeights: [1.3, 0.9, 0.9, 1, 1.1, 1.5, 1.6],
+  paydays: [1, 15],
+  paydayMultiplier: 1.8,
+};
+
+export const SCENARIO_PROFILES: Record<ScenarioId, ScenarioProfile> = {
+  everyday: {
+    id: 'everyday',
+    label: 'Everyday consumers',
+    description:
+      'Habitual spending around home locations with weekend and payday peaks',
+    consumerCount: 500,
+    habitualMerchantRate: 0.75,
+    homeLocationRate: 0.9,
+    currencyWeights: GENERATED_CURRENCY_WEIGHTS,
+    personas: PERSONAS,
+    seasonality: WEEKLY_SEASONALITY,
+    fraudBursts: [
+      { kind: 'card-testing', rate: 0.0005, size: { min: 5, max: 12 } },
+      { kind: 'impossible-travel', rate: 0.0005, size: { min: 2, max: 4 } },
+    ],
+  },
+  'payday-rush': {
+    id: 'payday-rush',
+    label: 'Payday rush',
+    description: 'Sharp spending spikes on the 1st and 15th of every month',
+    consumerCount: 500,
+    habitualMerchantRate: 0.7,
+    homeLocationRate: 0.9,
+    currencyWeights: GENERATED_CURRENCY_WEIGHTS,
+    personas: PERSONAS,
+    seasonality: { ...WEEKLY_SEASONALITY, paydayMultiplier: 5 },
+    fraudBursts: [
+      { kind: 'card-testing', rate: 0.0005, size: { min: 5, max: 12 } },
+    ],
+  },
+  'card-testing': {
+    id: 'card-testing',
+    label: 'Card-testing attack',
+    description:
+      'Frequent runs of tiny online charges against unfamiliar merchants',
+    consumerCount: 300,
+    habitualMerchantRate: 0.75,
+    homeLocationRate: 0.9,
+    personas: PERSONAS,
+    seasonality: WEEKLY_SEASONALITY,
+    fraudBursts: [
+      { kind: 'card-testing', rate: 0.01, size: { min: 8, max: 25 } },
+    ],
+  },
+  'impossible-travel': {
+    id: 'impossible-travel',
+    label: 'Impossible travel',
+    description:
+      'Cards used in distant cities minutes apart, as with cloned cards',
+    consumerCount: 300,
+    habitualMerchantRate: 0.75,
+    homeLocationRate: 0.95,
+    personas: PERSONAS,
+    seasonality: WEEKLY_SEASONALITY,
+    fraudBursts: [
+      { kind: 'impossible-travel', rate: 0.01, size: { min: 2, max: 6 } },
+    ],
+  },
+};
@@ -5,11 +5,15 @@ import React, {
   useMemo,
   useState,
 } from 'react';
+import { FormattersContext } from './formattersContext';
+import { createFormatters } from '../utils/createFormatters';
 
 // defines global application settings including theme, locale, currency, and user permissions
 // stores feature flags for enabling/disabling experimental features
 // tracks user role and permissions for access control
 interface GlobalSettings {
+  // signed-in user; per-user preferences such as table columns are stored under it
+  userId?: string;
   theme?: string;
   locale?: string;
   currency?: string;
@@ -48,6 +52,7 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({
   // initializes global settings with sensible defaults
   // TODO: should detect and use system theme preference instead of hardcoding 'light'
   const [globalSettings, setGlobalSettings] = useState<GlobalSettings>({
+    userId: 'local',
     theme: 'light',
     locale: 'en-US',
     currency: 'USD',
@@ -107,7 +112,23 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({
     ]
   );
 
-  return <UserContext.Provider value={value}>{children}</UserContext.Provider>;
+  // rebuilds the shared formatters only when the locale or time zone changes
+  const formatters = useMemo(
+    () =>
+      createFormatters({
+        locale: globalSettings.locale,
+        timezone: globalSettings.timezone,
+      }),
+    [globalSettings.locale, globalSettings.timezone]
+  );
+
+  return (
+    <UserContext.Provider value={value}>
+      <FormattersContext.Provider value={formatters}>
+        {children}
+      </FormattersContext.Provider>
+    </UserContext.Provider>
+  );
 };
 
 // hook to access user context from any component
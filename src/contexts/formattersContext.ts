@@ -0,0 +1,6 @@
+import { createContext } from 'react';
+import { DEFAULT_FORMATTERS, Formatters } from '../utils/createFormatters';
+
+// formatters for the user's locale and time zone, supplied by UserProvider
+// components rendered outside the provider fall back to en-US in UTC
+export const FormattersContext = createContext<Formatters>(DEFAULT_FORMATTERS);
@@ -0,0 +1,19 @@
+/* pseudo-random number source shared by anything that needs reproducible randomness
+ * mirrors the Math.random contract so the two can be swapped freely */
+export type RandomSource = () => number;
+
+/* creates a deterministic random source from a numeric seed using the mulberry32 algorithm
+ * identical seeds always yield the identical sequence of floats in the [0, 1) range
+ * fast and tiny, which matters when generating hundreds of thousands of records */
+export const createSeededRandom = (seed: number): RandomSource => {
+  // coerce the seed into an unsigned 32-bit integer so fractional or negative seeds still work
+  let state = Math.floor(seed) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,10 @@
+/* checks whether next is previous with rows added to the end
+ * every row of previous is compared by identity, so a row replaced or removed anywhere
+ * in the list is caught; identity checks are cheap next to re-indexing the whole list */
+export const isAppendOf = <T>(previous: T[], next: T[]) => {
+  if (previous.length === 0 || next.length < previous.length) return false;
+  for (let index = 0; index < previous.length; index += 1) {
+    if (next[index] !== previous[index]) return false;
+  }
+  return true;
+};
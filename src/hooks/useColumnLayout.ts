@@ -0,0 +1,52 @@
+import { useCallback, useState } from 'react';
+import { TableColumnLayout } from '../types/tableColumns';
+import {
+  loadColumnLayout,
+  storeColumnLayout,
+} from '../utils/columnLayoutStorage';
+import { DEFAULT_COLUMN_LAYOUT } from '../utils/tableColumns';
+
+interface UseColumnLayoutReturn {
+  columns: TableColumnLayout;
+  setColumns: (columns: TableColumnLayout) => void;
+}
+
+interface StoredLayout {
+  userId: string;
+  columns: TableColumnLayout;
+}
+
+/* the transaction table columns chosen by a user, persisted in localStorage
+ * switching users loads their own layout. initialColumns, e.g. from a shared link, are
+ * shown first without replacing the stored layout until the user changes the columns */
+export const useColumnLayout = (
+  userId: string,
+  initialColumns?: TableColumnLayout
+): UseColumnLayoutReturn => {
+  const [layout, setLayout] = useState<StoredLayout>(() => ({
+    userId,
+    columns:
+      initialColumns ?? loadColumnLayout(userId) ?? DEFAULT_COLUMN_LAYOUT,
+  }));
+
+  // reloads during render when the user changes, so no frame shows the previous layout
+  if (layout.userId !== userId) {
+    setLayout({
+      userId,
+      columns: loadColumnLayout(userId) ?? DEFAULT_COLUMN_LAYOUT,
+    });
+  }
+
+  const setColumns = useCallback(
+    (columns: TableColumnLayout) => {
+      storeColumnLayout(userId, columns);
+      setLayout({ userId, columns });
+    },
+    [userId]
+  );
+
+  return {
+    columns: layout.columns,
+    setColumns,
+  };
+};
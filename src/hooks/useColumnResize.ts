@@ -0,0 +1,91 @@
+import { CSSProperties, useCallback, useMemo, useState } from 'react';
+import {
+  TableColumnLayout,
+  TableColumnSetting,
+  TransactionColumnId,
+} from '../types/tableColumns';
+import { clampColumnWidth, resizeColumn } from '../utils/tableColumns';
+
+interface UseColumnResizeOptions {
+  // every column in display order, see TableColumnLayout
+  layout: TableColumnLayout;
+  onLayoutChange: (layout: TableColumnLayout) => void;
+  // track in front of the columns, e.g. the selection checkboxes
+  leadingWidth: number;
+}
+
+interface UseColumnResizeReturn {
+  // shown columns in order, the one being dragged at its dragged width
+  visibleColumns: TableColumnSetting[];
+  // grid template shared by the header and every row
+  gridStyle: CSSProperties;
+  // keeps the columns from shrinking below their widths
+  columnsStyle: CSSProperties;
+  // called while a column is dragged
+  onResize: (id: TransactionColumnId, width: number) => void;
+  // applies the width to the layout, e.g. once the drag ends
+  onResizeEnd: (id: TransactionColumnId, width: number) => void;
+}
+
+/* shown columns of the transaction table and their widths while being resized
+ * a dragged width is only shown until it is released, so the layout, and whoever
+ * stores it, changes once per drag */
+export const useColumnResize = ({
+  layout,
+  onLayoutChange,
+  leadingWidth,
+}: UseColumnResizeOptions): UseColumnResizeReturn => {
+  const [resizing, setResizing] = useState<{
+    id: TransactionColumnId;
+    width: number;
+  } | null>(null);
+
+  const visibleColumns = useMemo(
+    () =>
+      layout
+        .filter(column => column.visible)
+        .map(column =>
+          column.id === resizing?.id
+            ? { ...column, width: resizing.width }
+            : column
+        ),
+    [layout, resizing]
+  );
+
+  /* the leading track, the chosen widths, then a filler track taking the remaining
+   * space; header and rows scroll sideways together when the columns are wider than
+   * the table */
+  const { gridStyle, columnsStyle } = useMemo(() => {
+    const widths = [
+      leadingWidth,
+      ...visibleColumns.map(column => column.width),
+    ];
+    const total = widths.reduce((sum, width) => sum + width, 0);
+    return {
+      gridStyle: {
+        gridTemplateColumns: `${widths.map(width => `${width}px`).join(' ')} minmax(0, 1fr)`,
+      },
+      columnsStyle: { minWidth: `calc(${total}px + 2 * var(--space-4))` },
+    };
+  }, [leadingWidth, visibleColumns]);
+
+  const onResize = useCallback((id: TransactionColumnId, width: number) => {
+    setResizing({ id, width: clampColumnWidth(id, width) });
+  }, []);
+
+  const onResizeEnd = useCallback(
+    (id: TransactionColumnId, width: number) => {
+      setResizing(null);
+      onLayoutChange(resizeColumn(layout, id, width));
+    },
+    [layout, onLayoutChange]
+  );
+
+  return {
+    visibleColumns,
+    gridStyle,
+    columnsStyle,
+    onResize,
+    onResizeEnd,
+  };
+};
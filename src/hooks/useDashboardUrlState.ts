@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import { DEFAULT_TRANSACTION_SORT } from '../constants';
+import {
+  DashboardUrlState,
+  readDashboardUrlState,
+  serializeDashboardUrlState,
+} from '../utils/dashboardUrlState';
+
+interface UseDashboardUrlStateOptions {
+  state: DashboardUrlState;
+  // called with the state of the entry the user went back or forward to
+  onRestore: (state: DashboardUrlState) => void;
+}
+
+// what a URL without dashboard parameters stands for
+const EMPTY_URL_STATE: DashboardUrlState = {
+  filters: {},
+  searchTerm: '',
+  sort: DEFAULT_TRANSACTION_SORT,
+  transactionId: null,
+};
+
+/* mirrors dashboard state into the URL and restores it on back and forward
+ * each change adds a history entry, except search edits, which replace the current one
+ * so back does not step through every query typed. initial state is read with
+ * readDashboardUrlState by the caller, before the first render */
+export const useDashboardUrlState = ({
+  state,
+  onRestore,
+}: UseDashboardUrlStateOptions) => {
+  const url = serializeDashboardUrlState(state);
+  const urlWithoutSearch = serializeDashboardUrlState({
+    ...state,
+    searchTerm: '',
+  });
+  const lastUrlWithoutSearchRef = useRef(urlWithoutSearch);
+  const hasWrittenRef = useRef(false);
+  const onRestoreRef = useRef(onRestore);
+
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+  }, [onRestore]);
+
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    if (url !== search + hash) {
+      // the first write only tidies the URL the page was opened with
+      const replace =
+        !hasWrittenRef.current ||
+        urlWithoutSearch === lastUrlWithoutSearchRef.current;
+      if (replace) {
+        window.history.replaceState(null, '', pathname + url);
+      } else {
+        window.history.pushState(null, '', pathname + url);
+      }
+      hasWrittenRef.current = true;
+    }
+    lastUrlWithoutSearchRef.current = urlWithoutSearch;
+  }, [url, urlWithoutSearch]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      onRestoreRef.current(readDashboardUrlState() ?? EMPTY_URL_STATE);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+};
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FilterOptions, Transaction } from '../types/transaction';
+import {
+  FacetCounts,
+  FacetCountsWorkerRequest,
+  FacetCountsWorkerResponse,
+} from '../types/facetCounts';
+import { isAppendOf } from '../helpers/isAppendOf';
+import { getFacetSelections } from '../utils/facetFilters';
+
+interface UseFacetCountsOptions {
+  transactions: Transaction[];
+  // row indices passing every filter but the facets
+  rows: Int32Array;
+  filters: FilterOptions;
+}
+
+type CountRequest = Extract<FacetCountsWorkerRequest, { type: 'count' }>;
+
+/* rows per facet value, counted in a worker against the current filters
+ * the worker is kept in step with the growing transaction list like the search index;
+ * while a count runs only the newest request waits, so streamed batches never queue up;
+ * each answer is shown as it arrives, then the waiting request is sent.
+ * null until the first answer arrives */
+export const useFacetCounts = ({
+  transactions,
+  rows,
+  filters,
+}: UseFacetCountsOptions): FacetCounts | null => {
+  const [counts, setCounts] = useState<FacetCounts | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  // rows the worker has been sent, used to detect plain appends
+  const syncedRef = useRef<Transaction[]>([]);
+  const jobIdRef = useRef(0);
+  // job the worker is counting, and the request to send once it answers
+  const runningRef = useRef<number | null>(null);
+  const queuedRef = useRef<CountRequest | null>(null);
+
+  const handleMessage = useCallback(
+    (event: MessageEvent<FacetCountsWorkerResponse>) => {
+      if (event.data.jobId !== runningRef.current) return;
+      runningRef.current = null;
+      // shown even when a newer request waits, so streaming rows never hold counts back
+      setCounts(event.data.counts);
+
+      const queued = queuedRef.current;
+      if (queued) {
+        queuedRef.current = null;
+        runningRef.current = queued.jobId;
+        workerRef.current?.postMessage(queued);
+      }
+    },
+    []
+  );
+
+  // lazily creates the count worker on first use
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      const worker = new Worker(
+        new URL('../workers/facetCounts.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      worker.addEventListener('message', handleMessage);
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  }, [handleMessage]);
+
+  // sends new rows to the worker whenever the list changes
+  useEffect(() => {
+    const synced = syncedRef.current;
+    if (isAppendOf(synced, transactions)) {
+      if (transactions.length > synced.length) {
+        getWorker().postMessage({
+          type: 'append',
+          transactions: transactions.slice(synced.length),
+        } satisfies FacetCountsWorkerRequest);
+      }
+    } else {
+      getWorker().postMessage({
+        type: 'reset',
+        transactions,
+      } satisfies FacetCountsWorkerRequest);
+    }
+    syncedRef.current = transactions;
+  }, [transactions, getWorker]);
+
+  // requests counts for every new filter pass
+  useEffect(() => {
+    jobIdRef.current += 1;
+    const request: CountRequest = {
+      type: 'count',
+      jobId: jobIdRef.current,
+      rows,
+      facets: getFacetSelections(filters),
+    };
+
+    if (runningRef.current !== null) {
+      queuedRef.current = request;
+      return;
+    }
+    runningRef.current = request.jobId;
+    getWorker().postMessage(request);
+  }, [rows, filters, getWorker]);
+
+  // cleanup function to terminate the count worker and prevent memory leaks
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      syncedRef.current = [];
+      runningRef.current = null;
+      queuedRef.current = null;
+    };
+  }, []);
+
+  return counts;
+};
@@ -0,0 +1,6 @@
+import { useContext } from 'react';
+import { FormattersContext } from '../contexts/formattersContext';
+import { Formatters } from '../utils/createFormatters';
+
+// hook to format dates, numbers and currency for the user's locale and time zone
+export const useFormatters = (): Formatters => useContext(FormattersContext);
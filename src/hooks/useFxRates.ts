@@ -0,0 +1,53 @@
+import { useEffect, useMemo, useState } from 'react';
+import { FxConverter, FxRateTable } from '../types/currency';
+import { STATIC_FX_RATES } from '../constants/fxRates';
+import {
+  createFxConverter,
+  parseFxRateTable,
+} from '../utils/currencyConversion';
+
+interface UseFxRatesProps {
+  // JSON rate table to load; the built-in static rates are used when omitted
+  url?: string;
+}
+
+interface UseFxRatesReturn {
+  rates: FxRateTable;
+  converter: FxConverter;
+  // load or validation failure; the previous rates stay in use
+  error: Error | null;
+}
+
+/* provides the FX rate table and a converter over it
+ * starts from the static rates and swaps in the configured rate file once it loads */
+export const useFxRates = ({ url }: UseFxRatesProps = {}): UseFxRatesReturn => {
+  const [rates, setRates] = useState<FxRateTable>(STATIC_FX_RATES);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    const controller = new AbortController();
+
+    fetch(url, { signal: controller.signal })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`FX rates request failed with ${response.status}`);
+        }
+        return response.json();
+      })
+      .then(body => {
+        setRates(parseFxRateTable(body));
+        setError(null);
+      })
+      .catch((reason: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(reason instanceof Error ? reason : new Error(String(reason)));
+      });
+
+    return () => controller.abort();
+  }, [url]);
+
+  const converter = useMemo(() => createFxConverter(rates), [rates]);
+
+  return { rates, converter, error };
+};
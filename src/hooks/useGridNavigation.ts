@@ -0,0 +1,193 @@
+import { RefObject, useCallback, useId, useMemo, useState } from 'react';
+import type { ListImperativeAPI } from 'react-window';
+import { Transaction } from '../types/transaction';
+import {
+  TransactionGroup,
+  TransactionTableItem,
+} from '../types/transactionGroups';
+import { useFormatters } from './useFormatters';
+
+interface UseGridNavigationOptions {
+  // rows the keyboard moves through, in display order
+  items: TransactionTableItem[];
+  // key of each row, see getGroupRowKey
+  keys: string[];
+  // virtual list the rows scroll in; a page is scrolled by the browser instead
+  listRef: RefObject<ListImperativeAPI | null>;
+  isPaged: boolean;
+  // rows PageUp and PageDown move by
+  pageStep: number;
+  // position of the first row among all rows, and their count, as announced
+  rowIndexOffset: number;
+  rowCount: number;
+  onOpen: (transaction: Transaction) => void;
+  onToggleSelect: (id: string, extendRange: boolean) => void;
+  onToggleGroup: (key: string) => void;
+}
+
+interface RowRange {
+  startIndex: number;
+  stopIndex: number;
+}
+
+interface UseGridNavigationReturn {
+  // prefix of the row element ids, see getGridRowId
+  gridId: string;
+  // index of the active row in items, -1 when none is
+  activeIndex: number;
+  // makes the row with a key active, e.g. on a click
+  onActivate: (key: string) => void;
+  // id of the active row element, only while it is in the DOM
+  activeDescendant: string | undefined;
+  // spoken when the active row moves
+  announcement: string;
+  onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => void;
+  onFocus: (event: React.FocusEvent<HTMLElement>) => void;
+  // hands the virtual list's rendered rows, overscan included, to the hook
+  onRowsRendered: (visibleRows: RowRange, allRows: RowRange) => void;
+}
+
+// key of a row the keyboard can move to; group headers are keyed apart from transactions
+export const getGroupRowKey = (group: TransactionGroup) => `group:${group.key}`;
+
+// id of the row element at an index, referenced by the grid's aria-activedescendant
+export const getGridRowId = (gridId: string, index: number) =>
+  `${gridId}-row-${index}`;
+
+/* ARIA grid keyboard model: the grid keeps DOM focus and points at its active row,
+ * so focus survives the row leaving the virtual list's render window
+ * arrows, Home/End and PageUp/PageDown move, Enter opens a transaction, Space
+ * selects it (shift extends the range); both open and close group headers.
+ * the active row is kept by key, so it stays put while rows stream in or re-sort */
+export const useGridNavigation = ({
+  items,
+  keys,
+  listRef,
+  isPaged,
+  pageStep,
+  rowIndexOffset,
+  rowCount,
+  onOpen,
+  onToggleSelect,
+  onToggleGroup,
+}: UseGridNavigationOptions): UseGridNavigationReturn => {
+  const { formatCurrency, formatDate, formatNumber } = useFormatters();
+  const gridId = useId();
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const activeIndex = useMemo(
+    () => (activeKey === null ? -1 : keys.indexOf(activeKey)),
+    [activeKey, keys]
+  );
+  // read out by screen readers when the active row moves, also once it is scrolled away
+  const [announcement, setAnnouncement] = useState('');
+  const [renderedRows, setRenderedRows] = useState<RowRange | null>(null);
+  const onRowsRendered = useCallback(
+    (_: RowRange, allRows: RowRange) => setRenderedRows(allRows),
+    []
+  );
+
+  /* aria-activedescendant may only name a row in the DOM: a row scrolled out of the
+   * virtual list's render window is dropped until it is rendered again, which moving
+   * to it does by scrolling it into view; a page renders all of its rows */
+  const isActiveRendered =
+    isPaged ||
+    (!!renderedRows &&
+      activeIndex >= renderedRows.startIndex &&
+      activeIndex <= renderedRows.stopIndex);
+
+  // spoken description of a row
+  const describeItem = (item: TransactionTableItem) => {
+    if (item.kind === 'group') {
+      const count = item.group.transactions.length;
+      return `${item.group.label}, ${formatNumber(count)} ${count === 1 ? 'transaction' : 'transactions'}, ${item.collapsed ? 'collapsed' : 'expanded'}`;
+    }
+    const { transaction } = item;
+    return `${transaction.merchantName}, ${transaction.type === 'debit' ? '-' : '+'}${formatCurrency(transaction.amount, transaction.currency)}, ${transaction.status}, ${formatDate(transaction.timestamp)}`;
+  };
+
+  // makes a row active, scrolls it into view and announces it
+  const moveTo = (index: number) => {
+    setActiveKey(keys[index]);
+    if (isPaged) {
+      document
+        .getElementById(getGridRowId(gridId, index))
+        ?.scrollIntoView?.({ block: 'nearest' });
+    } else {
+      listRef.current?.scrollToRow({ index, align: 'auto' });
+    }
+    setAnnouncement(
+      `${describeItem(items[index])}. Row ${formatNumber(rowIndexOffset + index + 1)} of ${formatNumber(rowCount)}`
+    );
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    // keys on header controls and other widgets inside the grid are theirs
+    if (event.target !== event.currentTarget || !items.length) return;
+    const last = items.length - 1;
+    const current = Math.max(activeIndex, 0);
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        moveTo(activeIndex < 0 ? 0 : Math.min(activeIndex + 1, last));
+        return;
+      case 'ArrowUp':
+        event.preventDefault();
+        moveTo(Math.max(activeIndex - 1, 0));
+        return;
+      case 'PageDown':
+        event.preventDefault();
+        moveTo(Math.min(current + pageStep, last));
+        return;
+      case 'PageUp':
+        event.preventDefault();
+        moveTo(Math.max(current - pageStep, 0));
+        return;
+      case 'Home':
+        event.preventDefault();
+        moveTo(0);
+        return;
+      case 'End':
+        event.preventDefault();
+        moveTo(last);
+        return;
+      case 'Enter':
+      case ' ': {
+        const item = items[activeIndex];
+        if (!item) return;
+        event.preventDefault();
+        if (item.kind === 'group') {
+          onToggleGroup(item.group.key);
+          setAnnouncement(
+            `${item.group.label} ${item.collapsed ? 'expanded' : 'collapsed'}`
+          );
+        } else if (event.key === 'Enter') {
+          onOpen(item.transaction);
+        } else {
+          onToggleSelect(item.transaction.id, event.shiftKey);
+        }
+      }
+    }
+  };
+
+  // tabbing into the grid starts on its first row
+  const onFocus = (event: React.FocusEvent<HTMLElement>) => {
+    if (event.target === event.currentTarget && activeIndex < 0) {
+      setActiveKey(keys[0] ?? null);
+    }
+  };
+
+  return {
+    gridId,
+    activeIndex,
+    onActivate: setActiveKey,
+    activeDescendant:
+      activeIndex >= 0 && isActiveRendered
+        ? getGridRowId(gridId, activeIndex)
+        : undefined,
+    announcement,
+    onKeyDown,
+    onFocus,
+    onRowsRendered,
+  };
+};
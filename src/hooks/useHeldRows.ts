@@ -0,0 +1,68 @@
+import { useCallback, useMemo, useState } from 'react';
+
+interface UseHeldRowsOptions<T extends { id: string }> {
+  // rows in display order
+  rows: T[];
+  // rows are only held while enabled; the snapshot is dropped otherwise
+  enabled: boolean;
+  // changing it, e.g. with new filters, re-reads the rows
+  resetKey?: unknown;
+}
+
+interface UseHeldRowsReturn<T> {
+  heldRows: T[];
+  // rows that arrived after the snapshot was taken and are held back
+  pendingCount: number;
+  // adds the held back rows
+  showPending: () => void;
+}
+
+interface RowSnapshot {
+  key: unknown;
+  ids: Set<string>;
+}
+
+const takeSnapshot = (key: unknown, rows: { id: string }[]): RowSnapshot => ({
+  key,
+  ids: new Set(rows.map(row => row.id)),
+});
+
+/* holds a list of rows still while new rows stream in
+ * the rows present when enabled are remembered; later arrivals are counted but kept
+ * back until shown. rows that leave the list, e.g. cleared imports, drop out */
+export const useHeldRows = <T extends { id: string }>({
+  rows,
+  enabled,
+  resetKey,
+}: UseHeldRowsOptions<T>): UseHeldRowsReturn<T> => {
+  const [snapshot, setSnapshot] = useState<RowSnapshot | null>(null);
+
+  // the snapshot is taken on enabling and on a new reset key; an empty snapshot
+  // follows the rows until the first ones load, so the initial load is not held back
+  const isStale =
+    enabled &&
+    (!snapshot ||
+      !Object.is(snapshot.key, resetKey) ||
+      (snapshot.ids.size === 0 && rows.length > 0));
+  if (isStale) {
+    setSnapshot(takeSnapshot(resetKey, rows));
+  } else if (!enabled && snapshot) {
+    setSnapshot(null);
+  }
+
+  const heldRows = useMemo(
+    () =>
+      snapshot && enabled ? rows.filter(row => snapshot.ids.has(row.id)) : rows,
+    [rows, snapshot, enabled]
+  );
+
+  const showPending = useCallback(() => {
+    setSnapshot(takeSnapshot(resetKey, rows));
+  }, [resetKey, rows]);
+
+  return {
+    heldRows,
+    pendingCount: rows.length - heldRows.length,
+    showPending,
+  };
+};
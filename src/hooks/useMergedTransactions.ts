@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { Transaction } from '../types/transaction';
+import { isAppendOf } from '../helpers/isAppendOf';
+
+interface MergedTransactions {
+  source: Transaction[];
+  imported: Transaction[];
+  rows: Transaction[];
+}
+
+// an empty list is extended by anything
+const isExtendedBy = (previous: Transaction[], next: Transaction[]) =>
+  previous.length === 0 || isAppendOf(previous, next);
+
+/* merges streamed and imported transactions into one list that only grows at the end
+ * new rows from either input are appended in arrival order, so the search index, facet
+ * counts and sorting keep taking them incrementally; any other change, e.g. a new seed
+ * or cleared imports, rebuilds the list */
+export const useMergedTransactions = (
+  source: Transaction[],
+  imported: Transaction[]
+): Transaction[] => {
+  const [merged, setMerged] = useState<MergedTransactions>(() => ({
+    source,
+    imported,
+    rows: source.concat(imported),
+  }));
+
+  // compared during render, so the merged rows never lag their inputs
+  if (merged.source === source && merged.imported === imported) {
+    return merged.rows;
+  }
+
+  const rows =
+    isExtendedBy(merged.source, source) &&
+    isExtendedBy(merged.imported, imported)
+      ? merged.rows.concat(
+          source.slice(merged.source.length),
+          imported.slice(merged.imported.length)
+        )
+      : source.concat(imported);
+  setMerged({ source, imported, rows });
+  return rows;
+};
@@ -6,6 +6,7 @@ const ANALYTICS_CHUNK_SIZE = 1000;
 export interface AnalyticsSummary {
   totalRisk: number;
   highRiskTransactions: number;
+  risks: Record<string, number>;
   patterns: Record<string, number>;
   anomalies: Record<string, number>;
   generatedAt: number;
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+
+interface UseRowArrivalsOptions<T extends { id: string }> {
+  rows: T[];
+  // changing it, e.g. with new filters, re-reads the rows without counting arrivals
+  resetKey?: unknown;
+}
+
+interface SeenRows<T> {
+  rows: T[];
+  key: unknown;
+  ids: Set<string>;
+}
+
+// how long rows count as just arrived; matches the highlight animation
+const ARRIVAL_MS = 3000;
+
+const readRows = <T extends { id: string }>(
+  rows: T[],
+  key: unknown
+): SeenRows<T> => ({ rows, key, ids: new Set(rows.map(row => row.id)) });
+
+/* ids of rows that streamed in moments ago, e.g. to highlight them
+ * the first rows to load and rows re-read under a new reset key are not arrivals,
+ * and arrivals are forgotten once no batch has come in for a few seconds */
+export const useRowArrivals = <T extends { id: string }>({
+  rows,
+  resetKey,
+}: UseRowArrivalsOptions<T>): ReadonlySet<string> => {
+  const [seen, setSeen] = useState(() => readRows(rows, resetKey));
+  const [arrivedIds, setArrivedIds] = useState<ReadonlySet<string>>(
+    () => new Set()
+  );
+
+  // compared during render, so arrivals show in the same frame as their rows
+  if (seen.rows !== rows || !Object.is(seen.key, resetKey)) {
+    const counts = Object.is(seen.key, resetKey) && seen.ids.size > 0;
+    const arrivals = counts ? rows.filter(row => !seen.ids.has(row.id)) : [];
+    setSeen(readRows(rows, resetKey));
+    if (arrivals.length) {
+      setArrivedIds(new Set([...arrivedIds, ...arrivals.map(row => row.id)]));
+    } else if (!counts && arrivedIds.size) {
+      setArrivedIds(new Set());
+    }
+  }
+
+  useEffect(() => {
+    if (!arrivedIds.size) return;
+    const timer = setTimeout(() => setArrivedIds(new Set()), ARRIVAL_MS);
+    return () => clearTimeout(timer);
+  }, [arrivedIds]);
+
+  return arrivedIds;
+};
@@ -0,0 +1,58 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Transaction } from '../types/transaction';
+import { toggleRowSelection } from '../utils/rowSelection';
+
+interface UseRowSelectionReturn {
+  selectedIds: ReadonlySet<string>;
+  // selected rows still in the table, in display order
+  selectedRows: Transaction[];
+  isAllSelected: boolean;
+  // shift-clicks select or clear the range from the row toggled last
+  toggleRow: (id: string, extendRange: boolean) => void;
+  // selects every row in the table, including rows not rendered
+  selectAll: () => void;
+  clearSelection: () => void;
+}
+
+/* multi-row selection of the transaction table
+ * ids of rows filtered out stay selected and count again once they are back */
+export const useRowSelection = (rows: Transaction[]): UseRowSelectionReturn => {
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(
+    () => new Set()
+  );
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+
+  const order = useMemo(() => rows.map(row => row.id), [rows]);
+  const selectedRows = useMemo(
+    () => rows.filter(row => selectedIds.has(row.id)),
+    [rows, selectedIds]
+  );
+
+  const toggleRow = useCallback(
+    (id: string, extendRange: boolean) => {
+      setSelectedIds(
+        toggleRowSelection(selectedIds, order, id, anchorId, extendRange)
+      );
+      setAnchorId(id);
+    },
+    [selectedIds, order, anchorId]
+  );
+
+  const selectAll = useCallback(() => {
+    setSelectedIds(new Set([...selectedIds, ...order]));
+  }, [selectedIds, order]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds(new Set());
+    setAnchorId(null);
+  }, []);
+
+  return {
+    selectedIds,
+    selectedRows,
+    isAllSelected: rows.length > 0 && selectedRows.length === rows.length,
+    toggleRow,
+    selectAll,
+    clearSelection,
+  };
+};
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SavedView, SavedViews, SavedViewState } from '../types/savedView';
+import { TableColumnLayout } from '../types/tableColumns';
+import { loadSavedViews, storeSavedViews } from '../utils/savedViewsStorage';
+
+interface UseSavedViewsOptions {
+  // the table's current columns, taken by views stored before views kept columns
+  columns: TableColumnLayout;
+}
+
+interface UseSavedViewsReturn {
+  views: SavedView[];
+  defaultViewId: string | null;
+  saveView: (name: string, state: SavedViewState) => void;
+  // replaces a view's filters, search, sort, grouping and columns with the given state
+  updateView: (id: string, state: SavedViewState) => void;
+  renameView: (id: string, name: string) => void;
+  deleteView: (id: string) => void;
+  // null clears the default
+  setDefaultView: (id: string | null) => void;
+}
+
+const createViewId = () =>
+  `view_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/* named presets of filters, search, sort, grouping and columns, persisted in localStorage
+ * views are loaded once on mount and written back after every change; changes are
+ * pure state updates, stored from an effect once they are committed */
+export const useSavedViews = ({
+  columns,
+}: UseSavedViewsOptions): UseSavedViewsReturn => {
+  const [savedViews, setSavedViews] = useState<SavedViews>(() =>
+    loadSavedViews(columns)
+  );
+
+  // the document as loaded isn't written back, e.g. one from a newer schema
+  const loadedRef = useRef(savedViews);
+
+  useEffect(() => {
+    if (savedViews !== loadedRef.current) storeSavedViews(savedViews);
+  }, [savedViews]);
+
+  // applies a change; recipes must stay pure, React may call them twice
+  const update = useCallback((recipe: (current: SavedViews) => SavedViews) => {
+    setSavedViews(recipe);
+  }, []);
+
+  const saveView = useCallback(
+    (name: string, state: SavedViewState) => {
+      const now = Date.now();
+      const view: SavedView = {
+        ...state,
+        id: createViewId(),
+        name: name.trim(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      update(current => ({ ...current, views: [...current.views, view] }));
+    },
+    [update]
+  );
+
+  // applies changes to one view and stamps its update time
+  const changeView = useCallback(
+    (id: string, changes: Partial<SavedView>) => {
+      update(current => ({
+        ...current,
+        views: current.views.map(view =>
+          view.id === id ? { ...view, ...changes, updatedAt: Date.now() } : view
+        ),
+      }));
+    },
+    [update]
+  );
+
+  const updateView = useCallback(
+    (id: string, state: SavedViewState) => changeView(id, state),
+    [changeView]
+  );
+
+  const renameView = useCallback(
+    (id: string, name: string) => changeView(id, { name: name.trim() }),
+    [changeView]
+  );
+
+  const deleteView = useCallback(
+    (id: string) => {
+      update(current => ({
+        views: current.views.filter(view => view.id !== id),
+        defaultViewId:
+          current.defaultViewId === id ? null : current.defaultViewId,
+      }));
+    },
+    [update]
+  );
+
+  const setDefaultView = useCallback(
+    (id: string | null) => {
+      update(current => ({ ...current, defaultViewId: id }));
+    },
+    [update]
+  );
+
+  return {
+    views: savedViews.views,
+    defaultViewId: savedViews.defaultViewId,
+    saveView,
+    updateView,
+    renameView,
+    deleteView,
+    setDefaultView,
+  };
+};
@@ -0,0 +1,134 @@
+import {
+  RefObject,
+  useCallback,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import type { ListImperativeAPI } from 'react-window';
+
+interface UseScrollAnchorOptions {
+  listRef: RefObject<ListImperativeAPI | null>;
+  // keys of the list's rows in display order
+  keys: string[];
+  // top edge of every row when rows differ in height; rows are rowHeight apart otherwise
+  rowTops: number[] | null;
+  rowHeight: number;
+  // rows that streamed in moments ago, see useRowArrivals
+  arrivedIds: ReadonlySet<string>;
+  // rows are only anchored while enabled, e.g. not while paging
+  enabled: boolean;
+  // changing it, e.g. with another sort, lets go of the viewed row
+  resetKey?: unknown;
+}
+
+interface UseScrollAnchorReturn {
+  onScroll: (event: React.UIEvent<HTMLElement>) => void;
+  // rows that arrived above the viewed row since scrolling away from the top
+  unseenCount: number;
+  // scrolls back to the top, where the new rows are
+  showUnseen: () => void;
+}
+
+// the row at the top of the view and how far into it the view starts
+interface Anchor {
+  key: string;
+  offset: number;
+}
+
+// last row starting at or above an offset
+const findRowAt = (rowTops: number[], offset: number) => {
+  let low = 0;
+  let high = rowTops.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (rowTops[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+};
+
+/* keeps the viewed row in place while rows stream in or re-sort above it
+ * at the top of the list new rows push in as usual; scrolled down, the row at the top
+ * of the view stays put and the rows arriving above it are counted instead */
+export const useScrollAnchor = ({
+  listRef,
+  keys,
+  rowTops,
+  rowHeight,
+  arrivedIds,
+  enabled,
+  resetKey,
+}: UseScrollAnchorOptions): UseScrollAnchorReturn => {
+  const anchorRef = useRef<Anchor | null>(null);
+  const resetKeyRef = useRef(resetKey);
+  const [unseen, setUnseen] = useState<ReadonlySet<string>>(() => new Set());
+
+  const getTop = useCallback(
+    (index: number) => (rowTops ? (rowTops[index] ?? 0) : index * rowHeight),
+    [rowTops, rowHeight]
+  );
+
+  const onScroll = useCallback(
+    (event: React.UIEvent<HTMLElement>) => {
+      const { scrollTop } = event.currentTarget;
+      // back at the top every row has been seen
+      if (scrollTop <= 0) {
+        anchorRef.current = null;
+        setUnseen(current => (current.size ? new Set() : current));
+        return;
+      }
+      const index = rowTops
+        ? findRowAt(rowTops, scrollTop)
+        : Math.floor(scrollTop / rowHeight);
+      const key = keys[index];
+      anchorRef.current = key
+        ? { key, offset: scrollTop - getTop(index) }
+        : null;
+    },
+    [keys, rowTops, rowHeight, getTop]
+  );
+
+  // runs before paint, so the rows never show at their shifted position
+  useLayoutEffect(() => {
+    if (!Object.is(resetKeyRef.current, resetKey)) {
+      resetKeyRef.current = resetKey;
+      anchorRef.current = null;
+      setUnseen(current => (current.size ? new Set() : current));
+      return;
+    }
+
+    const anchor = anchorRef.current;
+    const element = listRef.current?.element;
+    if (!enabled || !anchor || !element) return;
+    const index = keys.indexOf(anchor.key);
+    if (index < 0) {
+      anchorRef.current = null;
+      return;
+    }
+
+    const target = getTop(index) + anchor.offset;
+    if (Math.abs(element.scrollTop - target) >= 1) element.scrollTop = target;
+    const above = keys.slice(0, index).filter(key => arrivedIds.has(key));
+    if (above.some(key => !unseen.has(key))) {
+      setUnseen(new Set([...unseen, ...above]));
+    }
+  }, [keys, getTop, arrivedIds, unseen, enabled, listRef, resetKey]);
+
+  const unseenCount = useMemo(
+    () => (unseen.size ? keys.filter(key => unseen.has(key)).length : 0),
+    [keys, unseen]
+  );
+
+  const showUnseen = useCallback(() => {
+    listRef.current?.scrollToRow({ index: 0, align: 'start' });
+    anchorRef.current = null;
+    setUnseen(new Set());
+  }, [listRef]);
+
+  return { onScroll, unseenCount, showUnseen };
+};
@@ -0,0 +1,29 @@
+import { useEffect, useRef, useState } from 'react';
+import { Transaction } from '../types/transaction';
+import { SearchHint } from '../types/searchQuery';
+import { isAppendOf } from '../helpers/isAppendOf';
+import { createSearchHintCounter } from '../utils/createSearchHints';
+
+/* search suggestions counted from the transactions as they are loaded
+ * appended rows, e.g. streamed batches and imports, are counted on arrival;
+ * any other change recounts the whole list. counting happens in an effect, render
+ * only reads the hints of the last count */
+export const useSearchHints = (transactions: Transaction[]): SearchHint[] => {
+  const [counter] = useState(createSearchHintCounter);
+  // rows already counted, used to detect plain appends
+  const countedRef = useRef<Transaction[]>([]);
+  const [hints, setHints] = useState<SearchHint[]>([]);
+
+  useEffect(() => {
+    const counted = countedRef.current;
+    if (isAppendOf(counted, transactions)) {
+      counter.append(transactions.slice(counted.length));
+    } else {
+      counter.reset(transactions);
+    }
+    countedRef.current = transactions;
+    setHints(counter.hints());
+  }, [counter, transactions]);
+
+  return hints;
+};
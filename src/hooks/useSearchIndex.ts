@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { Transaction } from '../types/transaction';
+import { isAppendOf } from '../helpers/isAppendOf';
+import {
+  SearchIndexTerm,
+  SearchIndexWorkerRequest,
+  SearchIndexWorkerResponse,
+} from '../types/searchIndex';
+
+interface UseSearchIndexOptions {
+  transactions: Transaction[];
+  // the worker is only started, and kept in sync, while enabled
+  enabled: boolean;
+}
+
+interface UseSearchIndexReturn {
+  /* resolves with the ascending row indices matching each term
+   * resolves null when a later query supersedes this one */
+  queryIndex: (
+    terms: SearchIndexTerm[],
+    fuzzy: boolean
+  ) => Promise<Int32Array[] | null>;
+}
+
+/* keeps a search index worker in step with a growing transaction list
+ * appended rows are sent as they arrive; any other change re-sends the whole list.
+ * the worker handles messages in order, so a query always sees the rows sent before it */
+export const useSearchIndex = ({
+  transactions,
+  enabled,
+}: UseSearchIndexOptions): UseSearchIndexReturn => {
+  const workerRef = useRef<Worker | null>(null);
+  // rows the worker has been sent, used to detect plain appends
+  const indexedRef = useRef<Transaction[]>([]);
+  const jobIdRef = useRef(0);
+  const pendingRef = useRef<{
+    jobId: number;
+    resolve: (matches: Int32Array[] | null) => void;
+  } | null>(null);
+
+  // resolves the pending query with the worker's answer
+  const handleMessage = useCallback(
+    (event: MessageEvent<SearchIndexWorkerResponse>) => {
+      const pending = pendingRef.current;
+      if (pending?.jobId === event.data.jobId) {
+        pendingRef.current = null;
+        pending.resolve(event.data.matches);
+      }
+    },
+    []
+  );
+
+  // lazily creates the index worker on first use
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      const worker = new Worker(
+        new URL('../workers/searchIndex.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      worker.addEventListener('message', handleMessage);
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  }, [handleMessage]);
+
+  // sends new rows to the worker whenever the list changes
+  useEffect(() => {
+    if (!enabled) return;
+
+    const indexed = indexedRef.current;
+    if (isAppendOf(indexed, transactions)) {
+      if (transactions.length > indexed.length) {
+        getWorker().postMessage({
+          type: 'append',
+          transactions: transactions.slice(indexed.length),
+        } satisfies SearchIndexWorkerRequest);
+      }
+    } else {
+      getWorker().postMessage({
+        type: 'reset',
+        transactions,
+      } satisfies SearchIndexWorkerRequest);
+    }
+    indexedRef.current = transactions;
+  }, [transactions, enabled, getWorker]);
+
+  const queryIndex = useCallback(
+    (terms: SearchIndexTerm[], fuzzy: boolean) => {
+      jobIdRef.current += 1;
+      const jobId = jobIdRef.current;
+      pendingRef.current?.resolve(null);
+
+      return new Promise<Int32Array[] | null>(resolve => {
+        pendingRef.current = { jobId, resolve };
+        getWorker().postMessage({
+          type: 'query',
+          jobId,
+          terms,
+          fuzzy,
+        } satisfies SearchIndexWorkerRequest);
+      });
+    },
+    [getWorker]
+  );
+
+  // cleanup function to terminate the index worker and prevent memory leaks
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      indexedRef.current = [];
+      pendingRef.current?.resolve(null);
+      pendingRef.current = null;
+    };
+  }, []);
+
+  return { queryIndex };
+};
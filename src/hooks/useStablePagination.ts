@@ -0,0 +1,75 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useHeldRows } from './useHeldRows';
+
+interface UseStablePaginationOptions<T extends { id: string }> {
+  // rows in display order
+  rows: T[];
+  pageSize: number;
+  // pages are only kept while enabled; the snapshot is dropped otherwise
+  enabled: boolean;
+  // changing it, e.g. with new filters, re-reads the rows and returns to the first page
+  resetKey?: unknown;
+}
+
+interface UseStablePaginationReturn<T> {
+  pageRows: T[];
+  // zero-based
+  page: number;
+  pageCount: number;
+  // rows spread over the pages
+  total: number;
+  setPage: (page: number) => void;
+  // rows that arrived after the pages were taken and are held back
+  pendingCount: number;
+  // adds the held back rows to the pages
+  showPending: () => void;
+}
+
+/* splits rows into pages that hold still while new rows stream in
+ * later arrivals are counted but kept off the pages until shown, see useHeldRows,
+ * so reading page 3 never shifts under the reader */
+export const useStablePagination = <T extends { id: string }>({
+  rows,
+  pageSize,
+  enabled,
+  resetKey,
+}: UseStablePaginationOptions<T>): UseStablePaginationReturn<T> => {
+  const {
+    heldRows: pagedRows,
+    pendingCount,
+    showPending,
+  } = useHeldRows({ rows, enabled, resetKey });
+  const [page, setPageState] = useState(0);
+  const [pageKey, setPageKey] = useState(resetKey);
+
+  // a new reset key returns to the first page
+  if (!Object.is(pageKey, resetKey)) {
+    setPageKey(resetKey);
+    setPageState(0);
+  }
+
+  const pageCount = Math.max(1, Math.ceil(pagedRows.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+
+  const setPage = useCallback(
+    (next: number) => {
+      setPageState(Math.max(0, Math.min(next, pageCount - 1)));
+    },
+    [pageCount]
+  );
+
+  const pageRows = useMemo(
+    () => pagedRows.slice(currentPage * pageSize, (currentPage + 1) * pageSize),
+    [pagedRows, currentPage, pageSize]
+  );
+
+  return {
+    pageRows,
+    page: currentPage,
+    pageCount,
+    total: pagedRows.length,
+    setPage,
+    pendingCount,
+    showPending,
+  };
+};
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Transaction } from '../types/transaction';
+import {
+  ExportOptions,
+  ExportWorkerRequest,
+  ExportWorkerResponse,
+  GroupSummaryExport,
+} from '../types/transactionExport';
+import { downloadBlob } from '../helpers/downloadBlob';
+import { useFormatters } from './useFormatters';
+import { writeGroupSummary } from '../utils/exportTransactions';
+
+interface UseTransactionExportReturn {
+  isExporting: boolean;
+  // share of rows written so far, between 0 and 1
+  progress: number;
+  exportTransactions: (
+    transactions: Transaction[],
+    options: ExportOptions
+  ) => void;
+  // downloads one row per group with its subtotals
+  exportGroupSummary: (
+    summary: GroupSummaryExport,
+    options: Omit<ExportOptions, 'columns'>
+  ) => void;
+  cancel: () => void;
+}
+
+/* runs transaction exports in a dedicated worker and downloads the result
+ * encoded parts are collected as the worker streams them and joined into a Blob
+ * once, so the main thread never builds the whole file as a single string */
+export const useTransactionExport = (): UseTransactionExportReturn => {
+  const workerRef = useRef<Worker | null>(null);
+  const partsRef = useRef<BlobPart[]>([]);
+  // id of the running export; responses for any other job are stale
+  const jobIdRef = useRef(0);
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  // file names carry the export time in the user's time zone
+  const { getFileStamp } = useFormatters();
+  // latest formatter for worker callbacks, which are registered once
+  const getFileStampRef = useRef(getFileStamp);
+  getFileStampRef.current = getFileStamp;
+
+  // processes streamed chunks and triggers the download on completion
+  const handleMessage = useCallback(
+    (event: MessageEvent<ExportWorkerResponse>) => {
+      const payload = event.data;
+      if (payload.jobId !== jobIdRef.current) {
+        return;
+      }
+
+      if (payload.type === 'chunk') {
+        partsRef.current.push(...payload.parts);
+        setProgress(payload.total > 0 ? payload.processed / payload.total : 1);
+        return;
+      }
+
+      const blob = new Blob(partsRef.current, { type: payload.mimeType });
+      partsRef.current = [];
+      downloadBlob(
+        blob,
+        `transactions-${getFileStampRef.current(new Date())}.${payload.extension}`
+      );
+      setIsExporting(false);
+    },
+    []
+  );
+
+  // lazily creates the export worker on first use
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      const worker = new Worker(
+        new URL('../workers/transactionExport.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      worker.addEventListener('message', handleMessage);
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  }, [handleMessage]);
+
+  const exportTransactions = useCallback(
+    (transactions: Transaction[], options: ExportOptions) => {
+      jobIdRef.current += 1;
+      partsRef.current = [];
+      setProgress(0);
+      setIsExporting(true);
+      getWorker().postMessage({
+        type: 'export',
+        jobId: jobIdRef.current,
+        transactions,
+        options,
+      } satisfies ExportWorkerRequest);
+    },
+    [getWorker]
+  );
+
+  // a few rows per group, so no worker is needed
+  const exportGroupSummary = useCallback(
+    (summary: GroupSummaryExport, options: Omit<ExportOptions, 'columns'>) => {
+      const { parts, mimeType, extension } = writeGroupSummary(
+        summary,
+        options
+      );
+      downloadBlob(
+        new Blob(parts, { type: mimeType }),
+        `transactions-by-${summary.groupLabel.toLowerCase()}-${getFileStamp(new Date())}.${extension}`
+      );
+    },
+    [getFileStamp]
+  );
+
+  const cancel = useCallback(() => {
+    jobIdRef.current += 1;
+    workerRef.current?.postMessage({
+      type: 'cancel',
+    } satisfies ExportWorkerRequest);
+    partsRef.current = [];
+    setIsExporting(false);
+    setProgress(0);
+  }, []);
+
+  // cleanup function to terminate the export worker and prevent memory leaks
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  return {
+    isExporting,
+    progress,
+    exportTransactions,
+    exportGroupSummary,
+    cancel,
+  };
+};
@@ -1,23 +1,31 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { FilterOptions, Transaction } from '../types/transaction';
-
-// determines if a transaction matches the search term across multiple fields
-// performs case-insensitive search on description, merchant, category, ID, and amount
-const transactionMatchesSearch = (transaction: Transaction, term: string) => {
-  const lowerTerm = term.toLowerCase();
-  return (
-    transaction.description.toLowerCase().includes(lowerTerm) ||
-    transaction.merchantName.toLowerCase().includes(lowerTerm) ||
-    transaction.category.toLowerCase().includes(lowerTerm) ||
-    transaction.id.toLowerCase().includes(lowerTerm) ||
-    transaction.amount.toString().includes(lowerTerm)
-  );
-};
+import { SearchQueryTerm } from '../types/searchQuery';
+import { useFormatters } from './useFormatters';
+import { useSearchIndex } from './useSearchIndex';
+import { isAppendOf } from '../helpers/isAppendOf';
+import { isWithinDateRange, resolveDateRange } from '../utils/resolveDateRange';
+import { parseSearchQuery } from '../utils/parseSearchQuery';
+import { compileFacetFilter } from '../utils/facetFilters';
+import {
+  collectIndexTerms,
+  compileSearchQuery,
+  findCandidateRows,
+  TransactionPredicate,
+} from '../utils/matchSearchQuery';
 
 interface UseTransactionFiltersOptions {
   transactions: Transaction[];
-  itemsPerPage: number;
-  compactView: boolean;
+  // amount compared against amountRange and amount: search terms,
+  // e.g. converted into the reporting currency
+  // the raw transaction amount is used when omitted
+  getAmount?: (transaction: Transaction) => number;
+  // row count from which text search is answered by the index worker instead of a scan
+  // every search scans on the main thread when omitted
+  indexThreshold?: number;
+  // state to start from, e.g. restored from a shared link
+  initialFilters?: FilterOptions;
+  initialSearchTerm?: string;
 }
 
 interface UseTransactionFiltersReturn {
@@ -28,95 +36,192 @@ interface UseTransactionFiltersReturn {
   setSearchTerm: (term: string) => void;
   applyFilters: (filters: FilterOptions, search: string) => void;
   getUniqueCategories: () => string[];
+  // row indices passing the search, date and amount filters, before the facets
+  facetRows: Int32Array;
 }
 
+// matches of a filter pass, as indices into the rows the pass ran over
+interface FilterResult {
+  rows: Transaction[];
+  ids: number[];
+  facetRows: Int32Array;
+}
+
+const EMPTY_RESULT: FilterResult = {
+  rows: [],
+  ids: [],
+  facetRows: new Int32Array(0),
+};
+
+const DEFAULT_FILTERS: FilterOptions = {
+  type: 'all',
+  status: 'all',
+  category: '',
+  searchTerm: '',
+};
+
 /* handles all filtering, searching, and category extraction with efficient ID-based filtering
- * supports search term matching, type/status/category filters, and compact view with pagination */
+ * supports structured search queries, include/exclude facets and date/amount filters; every
+ * match is returned, paging and row density are up to the table
+ * date presets are resolved in the user's time zone each time filters are applied
+ * past indexThreshold rows, text terms are looked up in the search index worker and
+ * only the rows they allow are checked against the remaining filters. while the index
+ * answers, the last matches stay shown; after a change other than an append their indices
+ * would point at other rows, so that pass scans on the main thread first */
 export const useTransactionFilters = ({
   transactions,
-  itemsPerPage,
-  compactView,
+  getAmount,
+  indexThreshold = Number.POSITIVE_INFINITY,
+  initialFilters = DEFAULT_FILTERS,
+  initialSearchTerm = '',
 }: UseTransactionFiltersOptions): UseTransactionFiltersReturn => {
-  const [filteredIds, setFilteredIds] = useState<number[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filters, setFilters] = useState<FilterOptions>({
-    type: 'all',
-    status: 'all',
-    category: '',
-    searchTerm: '',
-  });
-
-  /* applies all filters to the transaction list and returns array indices of matching items
-   * uses ID-based filtering to avoid array duplication and supports pagination limits */
-  const applyFilters = useCallback(
-    (currentFilters: FilterOptions, search: string) => {
-      const lowerSearch = search.trim().toLowerCase();
+  const formatters = useFormatters();
+  const isIndexed = transactions.length >= indexThreshold;
+  const { queryIndex } = useSearchIndex({ transactions, enabled: isIndexed });
+  // counts filter passes so an index answer arriving after a newer pass is dropped
+  const passRef = useRef(0);
+  // rows the shown matches were found in
+  const appliedRef = useRef<Transaction[]>([]);
+  const [result, setResult] = useState<FilterResult>(EMPTY_RESULT);
+  const [searchTerm, setSearchTerm] = useState(initialSearchTerm);
+  const [filters, setFilters] = useState<FilterOptions>(initialFilters);
+
+  /* runs the filter criteria over candidate rows, or every row when candidates is null,
+   * and stores the array indices of matching items */
+  const filterRows = useCallback(
+    (
+      currentFilters: FilterOptions,
+      matchesSearch: TransactionPredicate | null,
+      candidates: Int32Array | null
+    ) => {
       const nextIds: number[] = [];
-      const limit = compactView ? itemsPerPage : Number.POSITIVE_INFINITY;
+      const facetIds: number[] = [];
+      const dateRange = resolveDateRange(currentFilters, formatters);
+      const matchesFacets = compileFacetFilter(currentFilters);
+      const { min: minAmount, max: maxAmount } =
+        currentFilters.amountRange ?? {};
 
       // iterate through transactions and apply all filter criteria
-      for (let index = 0; index < transactions.length; index += 1) {
+      const total = candidates ? candidates.length : transactions.length;
+      for (let position = 0; position < total; position += 1) {
+        const index = candidates ? candidates[position] : position;
         const transaction = transactions[index];
 
-        // skip transactions that don't match search term
-        if (
-          lowerSearch &&
-          !transactionMatchesSearch(transaction, lowerSearch)
-        ) {
+        // skip transactions that don't match the search query
+        if (matchesSearch && !matchesSearch(transaction, index)) {
           continue;
         }
 
-        // apply type filter (debit/credit)
-        if (
-          currentFilters.type &&
-          currentFilters.type !== 'all' &&
-          transaction.type !== currentFilters.type
-        ) {
+        // apply date window
+        if (dateRange && !isWithinDateRange(transaction.timestamp, dateRange)) {
           continue;
         }
 
-        // apply status filter (pending/completed/failed)
-        if (
-          currentFilters.status &&
-          currentFilters.status !== 'all' &&
-          transaction.status !== currentFilters.status
-        ) {
-          continue;
+        // apply inclusive amount bounds
+        if (minAmount !== undefined || maxAmount !== undefined) {
+          const amount = getAmount
+            ? getAmount(transaction)
+            : transaction.amount;
+          if (
+            (minAmount !== undefined && amount < minAmount) ||
+            (maxAmount !== undefined && amount > maxAmount)
+          ) {
+            continue;
+          }
         }
 
-        // apply category filter
-        if (
-          currentFilters.category &&
-          transaction.category !== currentFilters.category
-        ) {
+        // rows this far are what the facet counts are taken over
+        facetIds.push(index);
+
+        // apply include/exclude facets, e.g. travel or shopping but not failed
+        if (matchesFacets && !matchesFacets(transaction)) {
           continue;
         }
 
-        // add matching transaction index to results
         nextIds.push(index);
+      }
 
-        // stop if we've reached the pagination limit
-        if (nextIds.length >= limit) {
-          break;
+      appliedRef.current = transactions;
+      setResult({
+        rows: transactions,
+        ids: nextIds,
+        facetRows: Int32Array.from(facetIds),
+      });
+    },
+    [transactions, formatters, getAmount]
+  );
+
+  /* applies all filters to the transaction list and returns array indices of matching items
+   * uses ID-based filtering to avoid array duplication */
+  const applyFilters = useCallback(
+    (currentFilters: FilterOptions, search: string) => {
+      passRef.current += 1;
+      const pass = passRef.current;
+      // invalid parts of the query are reported by the search bar and ignored here
+      const { root } = parseSearchQuery(search.trim());
+      const indexTerms = root && isIndexed ? collectIndexTerms(root) : [];
+      const fuzzy = currentFilters.fuzzy ?? false;
+
+      if (root && indexTerms.length > 0) {
+        if (!isAppendOf(appliedRef.current, transactions)) {
+          filterRows(
+            currentFilters,
+            compileSearchQuery(root, { formatters, getAmount, fuzzy }),
+            null
+          );
         }
+        void queryIndex(indexTerms, fuzzy).then(matches => {
+          if (!matches || pass !== passRef.current) return;
+
+          const termMatches = new Map<SearchQueryTerm, Int32Array>();
+          indexTerms.forEach((term, index) => {
+            termMatches.set(term, matches[index]);
+          });
+          const matchesSearch = compileSearchQuery(root, {
+            formatters,
+            getAmount,
+            fuzzy,
+            matchIndexedTerm: term => {
+              const rows = termMatches.get(term);
+              if (!rows) return undefined;
+              const marks = new Uint8Array(transactions.length);
+              rows.forEach(row => {
+                marks[row] = 1;
+              });
+              return (_transaction, index) => marks[index] === 1;
+            },
+          });
+          filterRows(
+            currentFilters,
+            matchesSearch,
+            findCandidateRows(root, termMatches)
+          );
+        });
+        return;
       }
 
-      setFilteredIds(nextIds);
+      filterRows(
+        currentFilters,
+        root
+          ? compileSearchQuery(root, { formatters, getAmount, fuzzy })
+          : null,
+        null
+      );
     },
-    [transactions, compactView, itemsPerPage]
+    [transactions, isIndexed, queryIndex, filterRows, formatters, getAmount]
   );
 
   useEffect(() => {
     applyFilters(filters, searchTerm);
   }, [transactions, filters, searchTerm, applyFilters]);
 
-  // converts filtered IDs back to transaction objects with null safety
+  // converts filtered IDs back to transaction objects of the rows they were found in
   const filteredTransactions = useMemo(
     () =>
-      filteredIds
-      .map(id => transactions[id])
-      .filter((txn): txn is Transaction => Boolean(txn)),
-    [filteredIds, transactions]
+      result.ids
+        .map(id => result.rows[id])
+        .filter((txn): txn is Transaction => Boolean(txn)),
+    [result]
   );
 
   // extracts unique categories from all transactions for filter dropdown
@@ -134,6 +239,6 @@ export const useTransactionFilters = ({
     setSearchTerm,
     applyFilters,
     getUniqueCategories,
+    facetRows: result.facetRows,
   };
 };
-
@@ -1,15 +1,15 @@
 import { useEffect, useRef, useState } from 'react';
 import { Transaction, TransactionSummary } from '../types/transaction';
-import {
-  GeneratorRequest,
-  GeneratorResponse,
-} from '../workers/transactionGenerator.worker.ts';
+import { TransactionSourceConfig } from '../types/transactionSource';
+import { createTransactionSource } from '../sources/createTransactionSource';
 import wait from '../helpers/wait';
 
 interface UseTransactionGeneratorOptions {
   initialTotal: number;
   streamBatchTotal: number;
   refreshInterval: number;
+  // where transactions come from; defaults to the in-browser generator worker
+  source?: TransactionSourceConfig;
   onIdle?: () => void;
 }
 
@@ -17,52 +17,83 @@ interface UseTransactionGeneratorReturn {
   transactions: Transaction[];
   summary: TransactionSummary | null;
   loading: boolean;
+  // most recent transport error, cleared as soon as data flows again
+  error: Error | null;
   scheduleNextBatch: () => void;
 }
 
-/* manages web worker lifecycle for transaction generation with streaming batch processing
- * handles worker instantiation, cleanup, and processes seed and streaming batch messages */
+const DEFAULT_SOURCE: TransactionSourceConfig = { kind: 'worker' };
+
+/* manages the transaction source lifecycle with streaming batch processing
+ * seeds the initial dataset, streams further batches at the refresh interval, and
+ * tears the source down on unmount; the source itself is chosen through configuration */
 export const useTransactionGenerator = ({
   initialTotal,
   streamBatchTotal,
   refreshInterval,
+  source = DEFAULT_SOURCE,
   onIdle,
 }: UseTransactionGeneratorOptions): UseTransactionGeneratorReturn => {
-  const workerRef = useRef<Worker | null>(null);
   const scheduleNextBatchRef = useRef<() => void>(() => {});
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [summary, setSummary] = useState<TransactionSummary | null>(null);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
 
   useEffect(() => {
     let cancelled = false;
     let hasLoadedOnce = false;
 
-    // create and initialize the transaction generator worker with module type support
-    const worker = new Worker(
-      new URL('../workers/transactionGenerator.worker.ts', import.meta.url),
-      {
-        type: 'module',
+    // clears the loading state the first time any data (or completion) arrives
+    const markLoaded = () => {
+      if (!hasLoadedOnce) {
+        setLoading(false);
+        hasLoadedOnce = true;
       }
-    );
-
-    workerRef.current = worker;
-
-    // queues a new transaction generation job with specified total and batch size
-    const queueGeneratorJob = (total: number) => {
-      worker.postMessage({
-        type: 'init',
-        total,
-        batchSize: streamBatchTotal,
-      } satisfies GeneratorRequest);
     };
 
-    // schedules the next batch generation after waiting for the refresh interval
+    /* processes source callbacks and updates transaction state
+     * handles both the initial seed data and subsequent streaming batches */
+    const transactionSource = createTransactionSource(
+      source,
+      {
+        onSeed: (seedTransactions, seedSummary) => {
+          if (cancelled) return;
+          setTransactions(seedTransactions);
+          setSummary(seedSummary);
+          setError(null);
+          markLoaded();
+        },
+        // append new transactions from streaming batches
+        onBatch: nextTransactions => {
+          if (cancelled) return;
+          setTransactions(prev => prev.concat(nextTransactions));
+          setError(null);
+          markLoaded();
+        },
+        // handle completion - call idle callback or schedule next batch
+        onIdle: () => {
+          if (cancelled) return;
+          markLoaded();
+          if (onIdle) {
+            onIdle();
+          } else {
+            scheduleNextBatchRef.current?.();
+          }
+        },
+        onError: sourceError => {
+          if (!cancelled) setError(sourceError);
+        },
+      },
+      streamBatchTotal
+    );
+
+    // schedules the next batch after waiting for the refresh interval
     const scheduleNextBatch = async () => {
       if (cancelled) return;
       await wait(refreshInterval);
       if (!cancelled) {
-        queueGeneratorJob(streamBatchTotal);
+        transactionSource.stream(streamBatchTotal);
       }
     };
 
@@ -70,67 +101,21 @@ export const useTransactionGenerator = ({
       void scheduleNextBatch();
     };
 
-    /* processes worker messages and updates transaction state based on message type
-     * handles both initial seed data and subsequent streaming batches */
-    const handleMessage = (event: MessageEvent<GeneratorResponse>) => {
-      const payload = event.data;
-      const nextTransactions = payload?.transactions ?? [];
-
-      // handle initial seed data with summary information
-      if (payload.type === 'seed') {
-        setTransactions(prev =>
-          hasLoadedOnce ? prev.concat(nextTransactions) : nextTransactions
-        );
-
-        // set summary and mark as loaded only on first seed
-        if (!hasLoadedOnce) {
-          setSummary(payload.summary);
-          setLoading(false);
-          hasLoadedOnce = true;
-        }
-
-        return;
-      }
-
-      // append new transactions from streaming batches
-      if (nextTransactions.length > 0) {
-        setTransactions(prev => prev.concat(nextTransactions));
-      }
-
-      // ensure loading state is cleared even for non-seed messages
-      if (!hasLoadedOnce) {
-        setLoading(false);
-        hasLoadedOnce = true;
-      }
-
-      // handle batch completion - call idle callback or schedule next batch
-      if (payload?.done && nextTransactions.length === 0) {
-        if (onIdle) {
-          onIdle();
-        } else {
-          scheduleNextBatchRef.current?.();
-        }
-      }
-    };
-
-    worker.addEventListener('message', handleMessage);
-    queueGeneratorJob(initialTotal);
+    transactionSource.seed(initialTotal);
 
-    // cleanup function to properly terminate worker and prevent memory leaks
+    // cleanup function to properly stop the source and prevent memory leaks
     return () => {
       cancelled = true;
-      worker.removeEventListener('message', handleMessage);
-      worker.postMessage({ type: 'kill' } satisfies GeneratorRequest);
-      worker.terminate();
-      workerRef.current = null;
+      transactionSource.stop();
       scheduleNextBatchRef.current = () => {};
     };
-  }, [initialTotal, streamBatchTotal, refreshInterval, onIdle]);
+  }, [initialTotal, streamBatchTotal, refreshInterval, source, onIdle]);
 
   return {
     transactions,
     summary,
     loading,
+    error,
     scheduleNextBatch: () => scheduleNextBatchRef.current(),
   };
 };
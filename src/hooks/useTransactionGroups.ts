@@ -0,0 +1,147 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Transaction } from '../types/transaction';
+import { FxConverter } from '../types/currency';
+import {
+  TransactionGroup,
+  TransactionGroupBy,
+  TransactionTableItem,
+} from '../types/transactionGroups';
+import { GroupSummaryExport } from '../types/transactionExport';
+import { useFormatters } from './useFormatters';
+import { convertTransactionAmount } from '../utils/currencyConversion';
+import { GROUP_BY_LABELS, groupTransactions } from '../utils/groupTransactions';
+
+interface UseTransactionGroupsOptions {
+  // sorted rows; each group keeps their order
+  rows: Transaction[];
+  groupBy: TransactionGroupBy;
+  // subtotals are converted into it when a converter is given
+  reportingCurrency?: string;
+  fxConverter?: FxConverter;
+}
+
+interface UseTransactionGroupsReturn {
+  // null when not grouped
+  groups: TransactionGroup[] | null;
+  // virtual rows of the grouped table: every header, followed by its rows when open
+  groupedItems: TransactionTableItem[] | null;
+  // currency the subtotals are in
+  subtotalCurrency: string;
+  allCollapsed: boolean;
+  // opens or closes the group with a key
+  onToggleGroup: (key: string) => void;
+  onToggleAllGroups: () => void;
+  // the groups and their subtotals, offered by the export dialog
+  groupSummary: GroupSummaryExport | undefined;
+}
+
+// subtotals are in the reporting currency; without a converter amounts are summed as booked
+const FALLBACK_SUBTOTAL_CURRENCY = 'USD';
+
+/* groups of the transaction table with their subtotals and open or collapsed state
+ * collapsed groups belong to the grouping they were closed in; another grouping
+ * starts with every group open */
+export const useTransactionGroups = ({
+  rows,
+  groupBy,
+  reportingCurrency,
+  fxConverter,
+}: UseTransactionGroupsOptions): UseTransactionGroupsReturn => {
+  const formatters = useFormatters();
+  const [collapsed, setCollapsed] = useState<{
+    groupBy: TransactionGroupBy;
+    keys: Set<string>;
+  }>({ groupBy, keys: new Set() });
+  const collapsedKeys = collapsed.groupBy === groupBy ? collapsed.keys : null;
+
+  const subtotalCurrency =
+    reportingCurrency && fxConverter
+      ? reportingCurrency
+      : FALLBACK_SUBTOTAL_CURRENCY;
+
+  // amounts are converted to the reporting currency when possible
+  const groups = useMemo(() => {
+    if (groupBy === 'none') return null;
+    return groupTransactions(rows, groupBy, {
+      formatters,
+      getAmount: transaction =>
+        (reportingCurrency && fxConverter
+          ? convertTransactionAmount(
+              transaction,
+              reportingCurrency,
+              fxConverter
+            )
+          : null) ?? transaction.amount,
+    });
+  }, [rows, groupBy, formatters, reportingCurrency, fxConverter]);
+
+  const groupedItems = useMemo(
+    () =>
+      groups?.flatMap<TransactionTableItem>(group => {
+        const isCollapsed = collapsedKeys?.has(group.key) ?? false;
+        const header: TransactionTableItem = {
+          kind: 'group',
+          group,
+          collapsed: isCollapsed,
+        };
+        return isCollapsed
+          ? [header]
+          : [
+              header,
+              ...group.transactions.map(transaction => ({
+                kind: 'row' as const,
+                transaction,
+              })),
+            ];
+      }) ?? null,
+    [groups, collapsedKeys]
+  );
+
+  const onToggleGroup = useCallback(
+    (key: string) => {
+      setCollapsed(current => {
+        const keys = new Set(current.groupBy === groupBy ? current.keys : []);
+        if (!keys.delete(key)) keys.add(key);
+        return { groupBy, keys };
+      });
+    },
+    [groupBy]
+  );
+
+  const allCollapsed =
+    !!groups && groups.every(group => collapsedKeys?.has(group.key));
+
+  const onToggleAllGroups = useCallback(() => {
+    setCollapsed({
+      groupBy,
+      keys: new Set(allCollapsed ? [] : groups?.map(group => group.key)),
+    });
+  }, [groupBy, allCollapsed, groups]);
+
+  const groupSummary = useMemo<GroupSummaryExport | undefined>(
+    () =>
+      groups && groupBy !== 'none'
+        ? {
+            groupLabel: GROUP_BY_LABELS[groupBy],
+            currency: subtotalCurrency,
+            groups: groups.map(({ label, transactions, credits, debits }) => ({
+              label,
+              count: transactions.length,
+              credits,
+              debits,
+            })),
+          }
+        : undefined,
+    [groups, groupBy, subtotalCurrency]
+  );
+
+  return {
+    groups,
+    groupedItems,
+    subtotalCurrency,
+    allCollapsed,
+    onToggleGroup,
+    onToggleAllGroups,
+    groupSummary,
+  };
+};
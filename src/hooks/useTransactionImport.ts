@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  CsvPreview,
+  ImportFormat,
+  ImportOptions,
+  ImportResult,
+  ImportWorkerRequest,
+  ImportWorkerResponse,
+} from '../types/transactionImport';
+
+export type ImportStep =
+  | 'idle'
+  | 'reading'
+  | 'mapping'
+  | 'parsing'
+  | 'review'
+  | 'error';
+
+interface UseTransactionImportReturn {
+  step: ImportStep;
+  fileName: string | null;
+  format: ImportFormat | null;
+  // CSV header and sample rows for the column-mapping step
+  preview: CsvPreview | null;
+  options: ImportOptions;
+  result: ImportResult | null;
+  error: string | null;
+  selectFile: (file: File) => void;
+  updateOptions: (updates: Partial<ImportOptions>) => void;
+  parse: () => void;
+  reset: () => void;
+}
+
+const DEFAULT_OPTIONS: ImportOptions = {
+  dateOrder: 'mdy',
+  defaultCurrency: 'USD',
+  mapping: {},
+};
+
+/* drives the bank statement import flow through a dedicated parsing worker
+ * reads the file, lets CSV imports pick a column mapping, then parses and exposes
+ * the result for review; the worker is created on first use and terminated on unmount */
+export const useTransactionImport = (): UseTransactionImportReturn => {
+  const workerRef = useRef<Worker | null>(null);
+  const textRef = useRef('');
+  const importCountRef = useRef(0);
+  // latest request; responses and file reads for older ones are dropped
+  const jobIdRef = useRef(0);
+  const [step, setStep] = useState<ImportStep>('idle');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [format, setFormat] = useState<ImportFormat | null>(null);
+  const [preview, setPreview] = useState<CsvPreview | null>(null);
+  const [options, setOptions] = useState<ImportOptions>(DEFAULT_OPTIONS);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // latest options for worker callbacks, which are registered once
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // sends a parse request for the current file with a unique import id
+  const postParse = useCallback(
+    (parseFormat: ImportFormat, parseOptions: ImportOptions) => {
+      importCountRef.current += 1;
+      jobIdRef.current += 1;
+      setStep('parsing');
+      workerRef.current?.postMessage({
+        type: 'parse',
+        jobId: jobIdRef.current,
+        importId: `${Date.now().toString(36)}${importCountRef.current}`,
+        text: textRef.current,
+        format: parseFormat,
+        options: parseOptions,
+      } satisfies ImportWorkerRequest);
+    },
+    []
+  );
+
+  // processes worker responses and advances the import step
+  const handleMessage = useCallback(
+    (event: MessageEvent<ImportWorkerResponse>) => {
+      const payload = event.data;
+      // answer for a file that was replaced or reset meanwhile
+      if (payload.jobId !== jobIdRef.current) return;
+
+      if (payload.type === 'error') {
+        setError(payload.message);
+        setStep('error');
+        return;
+      }
+
+      if (payload.type === 'parsed') {
+        setResult(payload.result);
+        setStep('review');
+        return;
+      }
+
+      // CSV needs a column mapping first; OFX and QIF are self-describing
+      const { format: detectedFormat, preview: csvPreview } = payload;
+      setFormat(detectedFormat);
+      setPreview(csvPreview);
+      if (csvPreview) {
+        setOptions(prev => ({
+          ...prev,
+          mapping: csvPreview.suggestedMapping,
+          dateOrder: csvPreview.suggestedDateOrder,
+        }));
+        setStep('mapping');
+      } else {
+        postParse(detectedFormat, optionsRef.current);
+      }
+    },
+    [postParse]
+  );
+
+  // lazily creates the parsing worker so dashboards that never import don't pay for it
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      const worker = new Worker(
+        new URL('../workers/transactionImport.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      worker.addEventListener('message', handleMessage);
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  }, [handleMessage]);
+
+  const selectFile = useCallback(
+    (file: File) => {
+      jobIdRef.current += 1;
+      const jobId = jobIdRef.current;
+      setFileName(file.name);
+      setFormat(null);
+      setPreview(null);
+      setResult(null);
+      setError(null);
+      setStep('reading');
+
+      // reading is async I/O; only the parsing itself needs the worker
+      file
+        .text()
+        .then(text => {
+          if (jobId !== jobIdRef.current) return;
+          textRef.current = text;
+          getWorker().postMessage({
+            type: 'inspect',
+            jobId,
+            fileName: file.name,
+            text,
+          } satisfies ImportWorkerRequest);
+        })
+        .catch(() => {
+          if (jobId !== jobIdRef.current) return;
+          setError(`Could not read ${file.name}`);
+          setStep('error');
+        });
+    },
+    [getWorker]
+  );
+
+  const updateOptions = useCallback((updates: Partial<ImportOptions>) => {
+    setOptions(prev => ({ ...prev, ...updates }));
+  }, []);
+
+  const parse = useCallback(() => {
+    if (format) {
+      postParse(format, options);
+    }
+  }, [format, options, postParse]);
+
+  const reset = useCallback(() => {
+    jobIdRef.current += 1;
+    textRef.current = '';
+    setStep('idle');
+    setFileName(null);
+    setFormat(null);
+    setPreview(null);
+    setOptions(DEFAULT_OPTIONS);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  // cleanup function to terminate the parsing worker and prevent memory leaks
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  return {
+    step,
+    fileName,
+    format,
+    preview,
+    options,
+    result,
+    error,
+    selectFile,
+    updateOptions,
+    parse,
+    reset,
+  };
+};
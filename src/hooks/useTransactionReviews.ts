@@ -0,0 +1,33 @@
+import { useCallback, useState } from 'react';
+import {
+  TransactionReviewChange,
+  TransactionReviews,
+} from '../types/transactionReview';
+import {
+  loadTransactionReviews,
+  storeTransactionReviews,
+} from '../utils/transactionReviewStorage';
+import { applyReviewChange } from '../utils/transactionReviews';
+
+interface UseTransactionReviewsReturn {
+  reviews: TransactionReviews;
+  changeReviews: (ids: string[], change: TransactionReviewChange) => void;
+}
+
+/* tags, review flags and reviewed marks set from the transaction table,
+ * persisted in localStorage */
+export const useTransactionReviews = (): UseTransactionReviewsReturn => {
+  const [reviews, setReviews] = useState(loadTransactionReviews);
+
+  const changeReviews = useCallback(
+    (ids: string[], change: TransactionReviewChange) => {
+      const next = applyReviewChange(reviews, ids, change);
+      if (next === reviews) return;
+      storeTransactionReviews(next);
+      setReviews(next);
+    },
+    [reviews]
+  );
+
+  return { reviews, changeReviews };
+};
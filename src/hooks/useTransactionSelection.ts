@@ -1,4 +1,4 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Transaction } from '../types/transaction';
 
 interface UserPreferences {
@@ -17,11 +17,17 @@ interface UserPreferences {
 interface UseTransactionSelectionOptions {
   transactions: Transaction[];
   onPreferencesUpdate?: (prefs: UserPreferences) => void;
+  // transaction to open once it is loaded, e.g. from a shared link
+  initialSelectedId?: string | null;
 }
 
 interface UseTransactionSelectionReturn {
   selectedTransaction: Transaction | null;
+  // id of the open transaction, or of the one waiting to be loaded
+  selectedTransactionId: string | null;
   handleTransactionClick: (transaction: Transaction) => void;
+  // opens a transaction by id as soon as it is loaded; null closes the detail
+  selectTransactionById: (id: string | null) => void;
   closeTransactionDetail: () => void;
 }
 
@@ -30,15 +36,38 @@ interface UseTransactionSelectionReturn {
 export const useTransactionSelection = ({
   transactions,
   onPreferencesUpdate,
+  initialSelectedId = null,
 }: UseTransactionSelectionOptions): UseTransactionSelectionReturn => {
   const [selectedTransaction, setSelectedTransaction] =
     useState<Transaction | null>(null);
+  // requested transaction that has not arrived yet, e.g. while the seed is loading
+  const [pendingId, setPendingId] = useState<string | null>(initialSelectedId);
+
+  // opens the pending transaction once it shows up in the list
+  useEffect(() => {
+    if (!pendingId) return;
+    const transaction = transactions.find(t => t.id === pendingId);
+    if (transaction) {
+      setSelectedTransaction(transaction);
+      setPendingId(null);
+    }
+  }, [transactions, pendingId]);
+
+  const selectTransactionById = useCallback(
+    (id: string | null) => {
+      const transaction = id ? transactions.find(t => t.id === id) : undefined;
+      setSelectedTransaction(transaction ?? null);
+      setPendingId(id && !transaction ? id : null);
+    },
+    [transactions]
+  );
 
   /* handles transaction click events and collects analytics data for tracking user interactions
    * finds related transactions by merchant, category, or user ID for contextual analysis */
   const handleTransactionClick = useCallback(
     (transaction: Transaction) => {
       setSelectedTransaction(transaction);
+      setPendingId(null);
 
       // locate transactions related to the clicked one by matching merchant, category, or user
       const relatedTransactions = transactions.filter(
@@ -78,11 +107,14 @@ export const useTransactionSelection = ({
   // clears the selected transaction to close the detail modal
   const closeTransactionDetail = useCallback(() => {
     setSelectedTransaction(null);
+    setPendingId(null);
   }, []);
 
   return {
     selectedTransaction,
+    selectedTransactionId: selectedTransaction?.id ?? pendingId,
     handleTransactionClick,
+    selectTransactionById,
     closeTransactionDetail,
   };
 };
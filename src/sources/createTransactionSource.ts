@@ -0,0 +1,67 @@
+import {
+  TransactionSource,
+  TransactionSourceConfig,
+  TransactionSourceListener,
+} from '../types/transactionSource';
+import { isScenarioId } from '../utils/generateTransactions';
+import { createWorkerSource } from './workerSource';
+import { createRestPollingSource } from './restPollingSource';
+import { createPushStreamSource } from './pushStreamSource';
+
+const DEFAULT_LEDGER_URL = 'http://localhost:4000';
+
+/* seed of a reproducible generator run; a value that is not a number would seed the
+ * generator with 0, so it is reported and the run is left unseeded instead */
+const parseGeneratorSeed = (value: string | undefined) => {
+  if (!value) return undefined;
+  const seed = Number(value);
+  if (Number.isFinite(seed)) return seed;
+  console.warn(`Ignoring invalid VITE_GENERATOR_SEED "${value}"`);
+  return undefined;
+};
+
+// instantiates the transaction source described by the configuration
+export const createTransactionSource = (
+  config: TransactionSourceConfig,
+  listener: TransactionSourceListener,
+  batchSize: number
+): TransactionSource => {
+  switch (config.kind) {
+    case 'worker':
+      return createWorkerSource(config, listener, batchSize);
+    case 'rest':
+      return createRestPollingSource(config, listener);
+    case 'stream':
+      return createPushStreamSource(config, listener);
+  }
+};
+
+/* resolves the source configuration from Vite env variables, e.g.
+ * VITE_TRANSACTION_SOURCE=websocket VITE_LEDGER_URL=http://localhost:4000 yarn dev
+ * falls back to the in-browser generator worker when nothing is configured */
+export const resolveTransactionSourceConfig = (
+  env: ImportMetaEnv
+): TransactionSourceConfig => {
+  const baseUrl = env.VITE_LEDGER_URL || DEFAULT_LEDGER_URL;
+
+  switch (env.VITE_TRANSACTION_SOURCE) {
+    case 'rest':
+      return { kind: 'rest', baseUrl };
+    case 'websocket':
+    case 'sse':
+      return {
+        kind: 'stream',
+        baseUrl,
+        transport: env.VITE_TRANSACTION_SOURCE,
+      };
+    default:
+      return {
+        kind: 'worker',
+        seed: parseGeneratorSeed(env.VITE_GENERATOR_SEED),
+        // unknown names fall back to uniform generation
+        scenario: isScenarioId(env.VITE_GENERATOR_SCENARIO)
+          ? env.VITE_GENERATOR_SCENARIO
+          : undefined,
+      };
+  }
+};
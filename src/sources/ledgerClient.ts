@@ -0,0 +1,119 @@
+import { Transaction } from '../types/transaction';
+import {
+  SerializedTransaction,
+  TransactionFeedResponse,
+  TransactionPageResponse,
+  TransactionSourceListener,
+} from '../types/transactionSource';
+import wait from '../helpers/wait';
+
+const MAX_RETRY_DELAY_MS = 30000;
+const BASE_RETRY_DELAY_MS = 500;
+
+// revives wire-format transactions, turning ISO timestamps back into Date objects
+export const deserializeTransaction = (
+  transaction: SerializedTransaction
+): Transaction => ({
+  ...transaction,
+  timestamp: new Date(transaction.timestamp),
+});
+
+// exponential backoff capped at MAX_RETRY_DELAY_MS
+export const getRetryDelay = (attempt: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+
+/* thin HTTP client for the ledger API shared by the polling and push sources
+ * failed requests are reported through onError and retried with backoff until they
+ * succeed or the client is stopped, so callers only ever see successful responses */
+export const createLedgerClient = (
+  baseUrl: string,
+  listener: TransactionSourceListener
+) => {
+  const controller = new AbortController();
+
+  // unwinds pending work once the source has been stopped
+  const throwIfStopped = () => {
+    if (controller.signal.aborted)
+      throw new Error('Transaction source stopped');
+  };
+
+  // fetches a JSON resource, retrying transport and server errors with backoff
+  const request = async <T>(path: string): Promise<T> => {
+    for (let attempt = 0; ; attempt += 1) {
+      throwIfStopped();
+
+      try {
+        const response = await fetch(`${baseUrl}${path}`, {
+          signal: controller.signal,
+          headers: { Accept: 'application/json' },
+        });
+        if (!response.ok) {
+          throw new Error(
+            `Ledger request failed with status ${response.status}`
+          );
+        }
+        return (await response.json()) as T;
+      } catch (error) {
+        throwIfStopped();
+        listener.onError(
+          error instanceof Error ? error : new Error(String(error))
+        );
+        await wait(getRetryDelay(attempt));
+      }
+    }
+  };
+
+  /* pages through GET /transactions until `total` records are loaded
+   * the first page is delivered as the seed, later pages as batches
+   * returns the feed cursor positioned right after the last loaded page */
+  const loadSeed = async (total: number, pageSize: number) => {
+    let offset: number | null = 0;
+    let loaded = 0;
+    let cursor = '';
+
+    while (offset !== null && loaded < total) {
+      const limit = Math.min(pageSize, total - loaded);
+      const page: TransactionPageResponse = await request(
+        `/transactions?offset=${offset}&limit=${limit}`
+      );
+      const transactions = page.transactions.map(deserializeTransaction);
+
+      cursor = page.cursor;
+      if (loaded === 0) {
+        listener.onSeed(transactions, null);
+      } else {
+        listener.onBatch(transactions);
+      }
+
+      loaded += transactions.length;
+      offset = transactions.length > 0 ? page.nextOffset : null;
+    }
+
+    return cursor;
+  };
+
+  // fetches transactions recorded after the given cursor
+  const fetchFeed = (cursor: string, limit: number) =>
+    request<TransactionFeedResponse>(
+      `/transactions/feed?cursor=${encodeURIComponent(cursor)}&limit=${limit}`
+    );
+
+  return {
+    loadSeed,
+    fetchFeed,
+    signal: controller.signal,
+    stop: () => controller.abort(),
+  };
+};
+
+// runs a source task, swallowing the expected errors raised once the signal is aborted
+export const runSourceTask = (
+  signal: AbortSignal,
+  task: () => Promise<void>
+) => {
+  task().catch(error => {
+    if (!signal.aborted) {
+      console.warn('Transaction source task failed:', error);
+    }
+  });
+};
@@ -0,0 +1,115 @@
+import {
+  TransactionPushMessage,
+  TransactionSource,
+  TransactionSourceConfig,
+  TransactionSourceListener,
+} from '../types/transactionSource';
+import {
+  createLedgerClient,
+  deserializeTransaction,
+  getRetryDelay,
+  runSourceTask,
+} from './ledgerClient';
+
+type PushSourceConfig = Extract<TransactionSourceConfig, { kind: 'stream' }>;
+
+const DEFAULT_PAGE_SIZE = 500;
+
+/* transaction source that seeds over REST and then listens on a push channel
+ * supports WebSocket (/stream) and server-sent events (/events); the channel resumes
+ * from the last cursor after a disconnect, reconnecting with exponential backoff */
+export const createPushStreamSource = (
+  config: PushSourceConfig,
+  listener: TransactionSourceListener
+): TransactionSource => {
+  const client = createLedgerClient(config.baseUrl, listener);
+  const pageSize = config.pageSize ?? DEFAULT_PAGE_SIZE;
+  let cursor = '';
+  let connection: WebSocket | EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+
+  // parses a pushed message and forwards its transactions as a batch
+  const handlePayload = (raw: string) => {
+    try {
+      const message = JSON.parse(raw) as TransactionPushMessage;
+      if (message.type !== 'batch') return;
+
+      cursor = message.cursor;
+      attempt = 0;
+      if (message.transactions.length > 0) {
+        listener.onBatch(message.transactions.map(deserializeTransaction));
+      }
+    } catch (error) {
+      listener.onError(
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  };
+
+  // detaches handlers before closing so a deliberate close doesn't trigger a reconnect
+  const closeConnection = () => {
+    if (!connection) return;
+
+    connection.onopen = null;
+    connection.onmessage = null;
+    connection.onerror = null;
+    if (connection instanceof WebSocket) connection.onclose = null;
+    connection.close();
+    connection = null;
+  };
+
+  // drops the broken connection and schedules another attempt with backoff
+  const scheduleReconnect = (error: Error) => {
+    closeConnection();
+    if (client.signal.aborted) return;
+
+    listener.onError(error);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, getRetryDelay(attempt));
+    attempt += 1;
+  };
+
+  // opens the push channel, resuming from the latest known cursor
+  const connect = () => {
+    if (client.signal.aborted || connection || reconnectTimer) return;
+
+    const query = `?cursor=${encodeURIComponent(cursor)}`;
+
+    if (config.transport === 'sse') {
+      const source = new EventSource(`${config.baseUrl}/events${query}`);
+      source.onmessage = event => handlePayload(event.data);
+      source.onerror = () =>
+        scheduleReconnect(new Error('Transaction event stream disconnected'));
+      connection = source;
+      return;
+    }
+
+    const socket = new WebSocket(
+      `${config.baseUrl.replace(/^http/, 'ws')}/stream${query}`
+    );
+    socket.onmessage = event => handlePayload(String(event.data));
+    socket.onclose = () =>
+      scheduleReconnect(new Error('Transaction socket disconnected'));
+    connection = socket;
+  };
+
+  return {
+    // loads the initial pages, then switches to push updates; the source never goes idle
+    seed: total =>
+      runSourceTask(client.signal, async () => {
+        cursor = await client.loadSeed(total, pageSize);
+        connect();
+      }),
+    // pushes are server-driven, so streaming only makes sure the channel is open
+    stream: () => connect(),
+    stop: () => {
+      client.stop();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      closeConnection();
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import {
+  TransactionSource,
+  TransactionSourceConfig,
+  TransactionSourceListener,
+} from '../types/transactionSource';
+import {
+  createLedgerClient,
+  deserializeTransaction,
+  runSourceTask,
+} from './ledgerClient';
+
+type RestSourceConfig = Extract<TransactionSourceConfig, { kind: 'rest' }>;
+
+const DEFAULT_PAGE_SIZE = 500;
+
+/* transaction source that polls a ledger REST API
+ * seed pages through GET /transactions, each stream call asks the cursor-based feed
+ * for anything new; polling cadence is left to the caller via stream() */
+export const createRestPollingSource = (
+  config: RestSourceConfig,
+  listener: TransactionSourceListener
+): TransactionSource => {
+  const client = createLedgerClient(config.baseUrl, listener);
+  const pageSize = config.pageSize ?? DEFAULT_PAGE_SIZE;
+  let cursor = '';
+
+  return {
+    seed: total =>
+      runSourceTask(client.signal, async () => {
+        cursor = await client.loadSeed(total, pageSize);
+        listener.onIdle();
+      }),
+    stream: total =>
+      runSourceTask(client.signal, async () => {
+        const feed = await client.fetchFeed(cursor, total);
+        cursor = feed.cursor;
+        if (feed.transactions.length > 0) {
+          listener.onBatch(feed.transactions.map(deserializeTransaction));
+        }
+        listener.onIdle();
+      }),
+    stop: client.stop,
+  };
+};
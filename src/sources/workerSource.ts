@@ -0,0 +1,82 @@
+import {
+  TransactionSource,
+  TransactionSourceConfig,
+  TransactionSourceListener,
+} from '../types/transactionSource';
+import {
+  GeneratorRequest,
+  GeneratorResponse,
+} from '../workers/transactionGenerator.worker.ts';
+
+type WorkerSourceConfig = Extract<TransactionSourceConfig, { kind: 'worker' }>;
+
+/* transaction source backed by the in-browser mock generator worker
+ * every seed or stream call queues a generator job; the first job's seed message
+ * becomes the dataset seed and everything after it is forwarded as batches */
+export const createWorkerSource = (
+  config: WorkerSourceConfig,
+  listener: TransactionSourceListener,
+  batchSize: number
+): TransactionSource => {
+  let jobCount = 0;
+  let hasSeeded = false;
+
+  // create and initialize the transaction generator worker with module type support
+  const worker = new Worker(
+    new URL('../workers/transactionGenerator.worker.ts', import.meta.url),
+    {
+      type: 'module',
+    }
+  );
+
+  // queues a new transaction generation job with specified total and batch size
+  // offsets the seed per job so streamed batches stay reproducible without repeating
+  const queueGeneratorJob = (total: number) => {
+    worker.postMessage({
+      type: 'init',
+      total,
+      batchSize,
+      seed: config.seed === undefined ? undefined : config.seed + jobCount,
+      scenario: config.scenario,
+    } satisfies GeneratorRequest);
+    jobCount += 1;
+  };
+
+  // translates generator worker messages into source listener callbacks
+  const handleMessage = (event: MessageEvent<GeneratorResponse>) => {
+    const payload = event.data;
+    const nextTransactions = payload?.transactions ?? [];
+
+    if (payload.type === 'seed' && !hasSeeded) {
+      hasSeeded = true;
+      listener.onSeed(nextTransactions, payload.summary);
+      return;
+    }
+
+    if (nextTransactions.length > 0) {
+      listener.onBatch(nextTransactions);
+    }
+
+    // a done message without transactions marks the end of the job
+    if (
+      payload.type === 'batch' &&
+      payload.done &&
+      nextTransactions.length === 0
+    ) {
+      listener.onIdle();
+    }
+  };
+
+  worker.addEventListener('message', handleMessage);
+
+  return {
+    seed: queueGeneratorJob,
+    stream: queueGeneratorJob,
+    // terminates the worker to stop generation and prevent memory leaks
+    stop: () => {
+      worker.removeEventListener('message', handleMessage);
+      worker.postMessage({ type: 'kill' } satisfies GeneratorRequest);
+      worker.terminate();
+    },
+  };
+};
@@ -0,0 +1,25 @@
+// exchange rates on a given day, quoted as units of each currency per one unit of the base currency
+export interface FxRateSnapshot {
+  // ISO date (yyyy-MM-dd) from which the rates apply
+  date: string;
+  rates: Record<string, number>;
+}
+
+export interface FxRateTable {
+  base: string;
+  // rates apply from their date until the next snapshot
+  snapshots: FxRateSnapshot[];
+}
+
+export interface FxConverter {
+  // converts using the rates in effect on the given date
+  // null when either currency is unknown or the date is invalid
+  convert: (
+    amount: number,
+    from: string,
+    to: string,
+    date: Date
+  ) => number | null;
+  // currencies quoted in the rate table
+  currencies: string[];
+}
@@ -0,0 +1,24 @@
+import { FacetField, FacetSelection, Transaction } from './transaction';
+
+// rows per facet value, keyed by normalised value
+export type FacetCounts = Record<FacetField, Record<string, number>>;
+
+export type FacetCountsWorkerRequest =
+  // replaces the counted rows, e.g. after a new seed
+  | { type: 'reset'; transactions: Transaction[] }
+  // rows appended to the end of the dataset, e.g. a streamed batch
+  | { type: 'append'; transactions: Transaction[] }
+  | {
+      type: 'count';
+      // echoed on the result so answers to superseded requests can be ignored
+      jobId: number;
+      // row indices passing every filter but the facets
+      rows: Int32Array;
+      facets: Partial<Record<FacetField, FacetSelection>>;
+    };
+
+export type FacetCountsWorkerResponse = {
+  type: 'result';
+  jobId: number;
+  counts: FacetCounts;
+};
@@ -0,0 +1,28 @@
+import { FilterOptions, TransactionSortOrder } from './transaction';
+import { TableColumnLayout } from './tableColumns';
+import { TransactionGroupBy } from './transactionGroups';
+
+// the parts of the dashboard a saved view restores
+export interface SavedViewState {
+  filters: FilterOptions;
+  searchTerm: string;
+  sort: TransactionSortOrder;
+  // absent in views saved before grouping existed, meaning no grouping
+  groupBy?: TransactionGroupBy;
+  // the table's column order, visibility and widths
+  columns: TableColumnLayout;
+}
+
+export interface SavedView extends SavedViewState {
+  id: string;
+  name: string;
+  // epoch ms
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SavedViews {
+  views: SavedView[];
+  // view applied when the dashboard opens, if any
+  defaultViewId: string | null;
+}
@@ -0,0 +1,53 @@
+export type ScenarioId =
+  | 'everyday'
+  | 'payday-rush'
+  | 'card-testing'
+  | 'impossible-travel';
+
+export type FraudBurstKind = 'card-testing' | 'impossible-travel';
+
+export interface PersonaArchetype {
+  name: string;
+  // relative share of the consumer population using this archetype
+  weight: number;
+  categories: string[];
+  amountRange: {
+    min: number;
+    max: number;
+  };
+  // UTC hour window [start, end) in which this persona usually transacts
+  activeHours: [number, number];
+  creditRate: number;
+}
+
+export interface SeasonalityProfile {
+  // relative volume per weekday, Sunday first
+  weekdayWeights: [number, number, number, number, number, number, number];
+  // days of the month on which volume is multiplied by paydayMultiplier
+  paydays: number[];
+  paydayMultiplier: number;
+}
+
+export interface FraudBurstProfile {
+  kind: FraudBurstKind;
+  // probability that any generated transaction starts a new burst instead
+  rate: number;
+  size: {
+    min: number;
+    max: number;
+  };
+}
+
+export interface ScenarioProfile {
+  id: ScenarioId;
+  label: string;
+  description: string;
+  consumerCount: number;
+  habitualMerchantRate: number;
+  homeLocationRate: number;
+  // account currency mix of the population; consumers bank in USD when omitted
+  currencyWeights?: Record<string, number>;
+  personas: PersonaArchetype[];
+  seasonality: SeasonalityProfile;
+  fraudBursts: FraudBurstProfile[];
+}
@@ -0,0 +1,29 @@
+import { SearchQueryTerm } from './searchQuery';
+import { Transaction } from './transaction';
+
+// query terms answered from the inverted index; every other term is cheap to check per row
+export type SearchIndexTerm = Extract<
+  SearchQueryTerm,
+  { kind: 'text' | 'field' }
+>;
+
+export type SearchIndexWorkerRequest =
+  // replaces the indexed rows, e.g. after a new seed
+  | { type: 'reset'; transactions: Transaction[] }
+  // indexes rows appended to the end of the dataset, e.g. a streamed batch
+  | { type: 'append'; transactions: Transaction[] }
+  | {
+      type: 'query';
+      // echoed on the result so answers to superseded queries can be ignored
+      jobId: number;
+      terms: SearchIndexTerm[];
+      // tolerate typos in fuzzy fields, as the scanning matcher's fuzzy option does
+      fuzzy: boolean;
+    };
+
+export type SearchIndexWorkerResponse = {
+  type: 'result';
+  jobId: number;
+  // ascending row indices matching each term, in request order
+  matches: Int32Array[];
+};
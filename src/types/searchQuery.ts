@@ -0,0 +1,97 @@
+import { TransactionStatus, TransactionType } from './transaction';
+
+// text fields match by case- and accent-insensitive substring
+export type SearchTextField =
+  | 'merchant'
+  | 'description'
+  | 'category'
+  | 'location'
+  | 'reference'
+  | 'id'
+  | 'account'
+  | 'user';
+
+export type SearchField =
+  | SearchTextField
+  | 'status'
+  | 'type'
+  | 'currency'
+  | 'amount'
+  | 'date'
+  | 'before'
+  | 'after';
+
+export type SearchComparator = '=' | '>' | '>=' | '<' | '<=';
+
+// character offsets into the query text, end exclusive
+export interface SearchQuerySpan {
+  start: number;
+  end: number;
+}
+
+export type SearchQueryTerm =
+  | { kind: 'text'; value: string }
+  | { kind: 'field'; field: SearchTextField; value: string }
+  | { kind: 'status'; value: TransactionStatus }
+  | { kind: 'type'; value: TransactionType }
+  | { kind: 'currency'; value: string }
+  | {
+      kind: 'amount';
+      comparator: SearchComparator;
+      value: number;
+      // inclusive upper bound for min..max ranges
+      max?: number;
+    }
+  // calendar days as yyyy-MM-dd, resolved in the user's time zone when matching
+  | {
+      kind: 'date';
+      comparator: SearchComparator;
+      day: string;
+      // inclusive last day for from..to ranges
+      toDay?: string;
+    };
+
+export type SearchQueryNode =
+  | { kind: 'term'; term: SearchQueryTerm; span: SearchQuerySpan }
+  | { kind: 'not'; operand: SearchQueryNode }
+  | { kind: 'and'; operands: SearchQueryNode[] }
+  | { kind: 'or'; operands: SearchQueryNode[] };
+
+export interface SearchQueryError extends SearchQuerySpan {
+  message: string;
+}
+
+export interface ParsedSearchQuery {
+  // null for an empty query, or when nothing valid remains after errors
+  root: SearchQueryNode | null;
+  // invalid parts are reported here and left out of root
+  errors: SearchQueryError[];
+}
+
+export interface SearchCompletion {
+  // text shown in the dropdown, e.g. "status:failed"
+  label: string;
+  // full query text after accepting the completion
+  value: string;
+  description?: string;
+}
+
+// fields whose values in the data are suggested while typing plain text
+export type SearchHintField = Extract<
+  SearchTextField,
+  'merchant' | 'category' | 'location' | 'reference' | 'account'
+>;
+
+// a value seen in the data, suggested as a search for that field
+export interface SearchHint {
+  field: SearchHintField;
+  // as first seen in the data, shown and searched for
+  value: string;
+  // normalised form the typed text is matched against
+  normalized: string;
+  // number of transactions carrying the value
+  count: number;
+}
+
+// known values offered when completing field:value terms, e.g. categories seen in the data
+export type SearchFieldValues = Partial<Record<SearchField, string[]>>;
@@ -0,0 +1,26 @@
+// columns the transaction table can show
+export type TransactionColumnId =
+  | 'merchant'
+  | 'amount'
+  | 'status'
+  | 'date'
+  | 'category'
+  | 'type'
+  | 'location'
+  | 'reference'
+  | 'userId'
+  | 'accountId'
+  // score from the risk analytics worker, blank until a row is analysed
+  | 'risk';
+
+export interface TableColumnSetting {
+  id: TransactionColumnId;
+  visible: boolean;
+  // in CSS pixels
+  width: number;
+}
+
+// every column in display order; hidden columns keep their place and width
+export type TableColumnLayout = TableColumnSetting[];
+
+export type ColumnPresetId = 'operations' | 'fraud' | 'finance';
@@ -1,6 +1,14 @@
+import { FraudBurstKind, ScenarioId } from './scenario';
+
 export type TransactionStatus = 'pending' | 'completed' | 'failed';
 export type TransactionType = 'debit' | 'credit';
 
+// ground-truth label attached to generated suspicious activity, never shown in the normal UI
+export interface FraudLabel {
+  fraudType: FraudBurstKind;
+  scenarioId: ScenarioId;
+}
+
 export interface Transaction {
   id: string;
   timestamp: Date;
@@ -15,6 +23,7 @@ export interface Transaction {
   accountId: string;
   location?: string;
   reference?: string;
+  groundTruth?: FraudLabel;
 }
 
 export interface TransactionSummary {
@@ -26,17 +35,75 @@ export interface TransactionSummary {
   categoryCounts: Record<string, number>;
 }
 
+// relative windows are resolved against the current day whenever filters run
+export type DateRangePreset =
+  | 'today'
+  | 'last7'
+  | 'last30'
+  | 'last90'
+  | 'thisMonth'
+  | 'custom';
+
+export type TransactionSortField =
+  | 'timestamp'
+  | 'amount'
+  | 'merchantName'
+  | 'status'
+  | 'category'
+  | 'type'
+  | 'location'
+  | 'accountId'
+  | 'reference'
+  | 'userId'
+  // score against the current search, see createRelevanceScorer
+  | 'relevance';
+
+export type SortDirection = 'asc' | 'desc';
+
+// one sort key of the transaction table
+export interface TransactionSort {
+  field: TransactionSortField;
+  direction: SortDirection;
+}
+
+// ordering of the transaction table; each key breaks the ties of the ones before it
+export type TransactionSortOrder = TransactionSort[];
+
+// fields the filter bar can narrow to several values, or exclude values from
+export type FacetField =
+  | 'category'
+  | 'status'
+  | 'type'
+  | 'merchant'
+  | 'location'
+  | 'account';
+
+/* a row passes when it carries one of the included values, if any are given,
+ * and none of the excluded ones */
+export interface FacetSelection {
+  include: string[];
+  exclude: string[];
+}
+
 export interface FilterOptions {
+  datePreset?: DateRangePreset;
+  // explicit window used by the custom preset; start inclusive, end exclusive
   dateRange?: {
-    start: Date;
-    end: Date;
+    start?: Date;
+    end?: Date;
   };
+  // inclusive bounds, either of which may be open
   amountRange?: {
-    min: number;
-    max: number;
+    min?: number;
+    max?: number;
   };
+  // single-value filters, still honoured alongside facets, see getFacetSelections
   type?: TransactionType | 'all';
   category?: string;
   status?: TransactionStatus | 'all';
+  // multi-value include/exclude filters per field
+  facets?: Partial<Record<FacetField, FacetSelection>>;
   searchTerm?: string;
+  // tolerate typos in merchant, description, reference and location searches
+  fuzzy?: boolean;
 }
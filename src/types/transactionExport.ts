@@ -0,0 +1,56 @@
+import { Transaction } from './transaction';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+/* formatted exports render amounts and dates for the locale;
+ * raw exports use signed numbers (debits negative) and ISO timestamps for downstream tooling */
+export type ExportAmountMode = 'formatted' | 'raw';
+
+export type ExportColumnId = keyof Omit<Transaction, 'groundTruth'>;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumnId[];
+  amountMode: ExportAmountMode;
+  // BCP 47 locale used for formatted amounts and dates
+  locale: string;
+  // IANA time zone for formatted dates; UTC when omitted
+  timezone?: string;
+}
+
+// a grouped table written as one row per group with its subtotals
+export interface GroupSummaryExport {
+  // what the rows are grouped by, e.g. Category
+  groupLabel: string;
+  // currency of the subtotals
+  currency: string;
+  groups: Array<{
+    label: string;
+    count: number;
+    // both positive
+    credits: number;
+    debits: number;
+  }>;
+}
+
+export type ExportWorkerRequest =
+  | {
+      type: 'export';
+      // echoed on every response so chunks of a cancelled job can be ignored
+      jobId: number;
+      transactions: Transaction[];
+      options: ExportOptions;
+      chunkSize?: number;
+    }
+  | { type: 'cancel' };
+
+export type ExportWorkerResponse =
+  | {
+      type: 'chunk';
+      jobId: number;
+      // encoded file content for this chunk, appended in order
+      parts: Array<string | Uint8Array>;
+      processed: number;
+      total: number;
+    }
+  | { type: 'complete'; jobId: number; mimeType: string; extension: string };
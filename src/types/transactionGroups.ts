@@ -0,0 +1,29 @@
+import { Transaction } from './transaction';
+
+// what the transaction table groups its rows by
+export type TransactionGroupBy =
+  | 'none'
+  | 'merchant'
+  | 'category'
+  | 'account'
+  | 'user'
+  | 'status'
+  // calendar buckets of the timestamp in the user's time zone; weeks start on Monday
+  | 'day'
+  | 'week'
+  | 'month';
+
+export interface TransactionGroup {
+  key: string;
+  label: string;
+  // in display order
+  transactions: Transaction[];
+  // totals of the group's credits and debits, both positive, in the reporting currency
+  credits: number;
+  debits: number;
+}
+
+// a row of the transaction table: a group header, or a transaction of an open group
+export type TransactionTableItem =
+  | { kind: 'group'; group: TransactionGroup; collapsed: boolean }
+  | { kind: 'row'; transaction: Transaction };
@@ -0,0 +1,75 @@
+import { Transaction } from './transaction';
+
+export type ImportFormat = 'csv' | 'ofx' | 'qif';
+
+// order of day, month and year in numeric dates such as 03/04/2024
+export type ImportDateOrder = 'ymd' | 'mdy' | 'dmy';
+
+// transaction fields a CSV column can be mapped onto
+export type CsvImportField =
+  | 'date'
+  | 'amount'
+  | 'description'
+  | 'merchantName'
+  | 'category'
+  | 'type'
+  | 'currency'
+  | 'status'
+  | 'reference'
+  | 'accountId';
+
+// column index per field; unmapped optional fields fall back to defaults
+export type CsvColumnMapping = Partial<Record<CsvImportField, number>>;
+
+export interface ImportOptions {
+  // applies to numeric dates in CSV and QIF files; OFX dates are unambiguous
+  dateOrder: ImportDateOrder;
+  // used when the file doesn't state a currency
+  defaultCurrency: string;
+  // CSV only; maps transaction fields onto column indexes
+  mapping?: CsvColumnMapping;
+}
+
+// header row and a few data rows shown in the column-mapping step
+export interface CsvPreview {
+  headers: string[];
+  rows: string[][];
+  totalRows: number;
+  suggestedMapping: CsvColumnMapping;
+  suggestedDateOrder: ImportDateOrder;
+}
+
+// a rejected row; line is 1-based within the source file
+export interface ImportRowError {
+  line: number;
+  message: string;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  transactions: Transaction[];
+  errors: ImportRowError[];
+}
+
+// jobId ties a response to its request so a newer file discards stale answers
+export type ImportWorkerRequest =
+  | { type: 'inspect'; jobId: number; fileName: string; text: string }
+  | {
+      type: 'parse';
+      jobId: number;
+      // unique per import so ids don't collide when the same file is imported twice
+      importId: string;
+      text: string;
+      format: ImportFormat;
+      options: ImportOptions;
+    };
+
+export type ImportWorkerResponse =
+  | {
+      type: 'inspected';
+      jobId: number;
+      format: ImportFormat;
+      preview: CsvPreview | null;
+    }
+  | { type: 'parsed'; jobId: number; result: ImportResult }
+  | { type: 'error'; jobId: number; message: string };
@@ -0,0 +1,15 @@
+// reviewer marks on a transaction, kept apart from the transaction data itself
+export interface TransactionReview {
+  tags: string[];
+  flagged: boolean;
+  reviewed: boolean;
+}
+
+// keyed by transaction id; transactions without marks have no entry
+export type TransactionReviews = Record<string, TransactionReview>;
+
+// one bulk action applied to every selected transaction
+export type TransactionReviewChange =
+  | { type: 'tag'; tag: string }
+  | { type: 'flag'; flagged: boolean }
+  | { type: 'review'; reviewed: boolean };
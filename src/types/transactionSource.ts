@@ -0,0 +1,69 @@
+import { Transaction, TransactionSummary } from './transaction';
+import { ScenarioId } from './scenario';
+
+// callbacks a transaction source uses to hand data back to its consumer
+export interface TransactionSourceListener {
+  // initial dataset (or the first page of it); summary is null when the source can't provide one
+  onSeed: (
+    transactions: Transaction[],
+    summary: TransactionSummary | null
+  ) => void;
+  // additional transactions arriving after the seed
+  onBatch: (transactions: Transaction[]) => void;
+  // the current seed or stream request is exhausted and the source is waiting for more work
+  onIdle: () => void;
+  // transport failure; sources retry on their own and keep running
+  onError: (error: Error) => void;
+}
+
+/* a pluggable supplier of transactions for the dashboard
+ * seed loads the initial dataset, stream asks for more data, stop tears everything down */
+export interface TransactionSource {
+  seed: (total: number) => void;
+  stream: (total: number) => void;
+  stop: () => void;
+}
+
+export type TransactionSourceConfig =
+  | {
+      kind: 'worker';
+      seed?: number;
+      scenario?: ScenarioId;
+    }
+  | {
+      kind: 'rest';
+      baseUrl: string;
+      pageSize?: number;
+    }
+  | {
+      kind: 'stream';
+      baseUrl: string;
+      transport: 'websocket' | 'sse';
+      pageSize?: number;
+    };
+
+// JSON shape of a transaction on the wire, with the timestamp as an ISO string
+export type SerializedTransaction = Omit<Transaction, 'timestamp'> & {
+  timestamp: string;
+};
+
+// response body of GET /transactions
+export interface TransactionPageResponse {
+  transactions: SerializedTransaction[];
+  nextOffset: number | null;
+  // feed position right after this page, used to continue incrementally
+  cursor: string;
+}
+
+// response body of GET /transactions/feed
+export interface TransactionFeedResponse {
+  transactions: SerializedTransaction[];
+  cursor: string;
+}
+
+// message pushed over the WebSocket or SSE channel
+export interface TransactionPushMessage {
+  type: 'batch';
+  transactions: SerializedTransaction[];
+  cursor: string;
+}
@@ -0,0 +1,62 @@
+/* reads and writes transaction table column layouts in localStorage, one per user
+ * like saved views, the document is versioned and a newer one is never overwritten */
+import { TableColumnLayout } from '../types/tableColumns';
+import { reviveColumnLayout } from './tableColumns';
+
+export const COLUMN_LAYOUTS_KEY = 'transaction-table-columns';
+export const COLUMN_LAYOUTS_VERSION = 1;
+
+interface ColumnLayoutsDocument {
+  version: number;
+  // keyed by user id
+  layouts: Record<string, unknown>;
+}
+
+const readDocument = (): ColumnLayoutsDocument | null => {
+  const stored = localStorage.getItem(COLUMN_LAYOUTS_KEY);
+  if (!stored) return null;
+  const document = JSON.parse(stored);
+  return typeof document?.version === 'number' &&
+    typeof document.layouts === 'object' &&
+    document.layouts !== null
+    ? document
+    : null;
+};
+
+// the user's layout, or null when none is stored or it can't be used
+export const loadColumnLayout = (userId: string): TableColumnLayout | null => {
+  try {
+    const document = readDocument();
+    if (!document || document.version !== COLUMN_LAYOUTS_VERSION) return null;
+    return reviveColumnLayout(document.layouts[userId]);
+  } catch (error) {
+    console.warn('Failed to load column layout:', error);
+    return null;
+  }
+};
+
+export const storeColumnLayout = (
+  userId: string,
+  layout: TableColumnLayout
+) => {
+  try {
+    const document = readDocument();
+    if (document && document.version > COLUMN_LAYOUTS_VERSION) {
+      console.warn('Not saving columns over a newer schema');
+      return;
+    }
+
+    // layouts of other users survive, unless stored by an older version
+    const layouts =
+      document?.version === COLUMN_LAYOUTS_VERSION ? document.layouts : {};
+    localStorage.setItem(
+      COLUMN_LAYOUTS_KEY,
+      JSON.stringify({
+        version: COLUMN_LAYOUTS_VERSION,
+        layouts: { ...layouts, [userId]: layout },
+      } satisfies ColumnLayoutsDocument)
+    );
+  } catch (error) {
+    console.warn('Failed to save column layout:', error);
+  }
+};
@@ -0,0 +1,217 @@
+/* locale and timezone aware formatting shared by every view and export
+ * Intl formatters are expensive to build, so each formatter set creates them once
+ * and caches currency formatters per currency code */
+
+export interface FormatterSettings {
+  // BCP 47 locale, e.g. en-GB
+  locale?: string;
+  // IANA time zone, e.g. Europe/London
+  timezone?: string;
+}
+
+export interface Formatters {
+  locale: string;
+  timezone: string;
+  formatNumber: (value: number) => string;
+  // formats a 0-1 ratio as a percentage
+  formatPercent: (value: number, fractionDigits?: number) => string;
+  formatCurrency: (amount: number, currency?: string) => string;
+  // e.g. "Mar 1, 2024"
+  formatDate: (date: Date) => string;
+  // e.g. "10:00 AM" or "10:00" depending on the locale
+  formatTime: (date: Date) => string;
+  // e.g. "Mar 1, 2024, 10:00 AM"
+  formatDateTime: (date: Date) => string;
+  // e.g. "Friday, March 1, 2024 at 10:00 AM"
+  formatLongDateTime: (date: Date) => string;
+  // e.g. "3 days ago" or "in 2 hours"
+  formatRelativeTime: (date: Date, now?: number) => string;
+  // calendar day in the configured zone as yyyy-MM-dd, for grouping and bucketing
+  getDayKey: (date: Date) => string;
+  // first instant of the calendar day containing date, in the configured zone
+  startOfDay: (date: Date) => Date;
+  // first instant of a yyyy-MM-dd calendar day in the configured zone; null if malformed
+  parseDayKey: (key: string) => Date | null;
+  // minute in the configured zone as yyyyMMdd-HHmm, for file names
+  getFileStamp: (date: Date) => string;
+}
+
+export const DEFAULT_LOCALE = 'en-US';
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['year', 365 * 24 * 60 * 60 * 1000],
+  ['month', 30 * 24 * 60 * 60 * 1000],
+  ['week', 7 * 24 * 60 * 60 * 1000],
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+  ['second', 1000],
+];
+
+// falls back to the default when the runtime rejects a locale or zone from settings
+const resolveSettings = ({ locale, timezone }: FormatterSettings) => {
+  let resolvedLocale = DEFAULT_LOCALE;
+  let resolvedTimezone = DEFAULT_TIMEZONE;
+
+  try {
+    if (locale) resolvedLocale = Intl.getCanonicalLocales(locale)[0];
+  } catch {
+    // keep the default locale
+  }
+  try {
+    if (timezone) {
+      resolvedTimezone = new Intl.DateTimeFormat(DEFAULT_LOCALE, {
+        timeZone: timezone,
+      }).resolvedOptions().timeZone;
+    }
+  } catch {
+    // keep the default zone
+  }
+
+  return { locale: resolvedLocale, timezone: resolvedTimezone };
+};
+
+/* builds the formatter set for a locale and time zone
+ * unknown locales, zones and currency codes degrade to defaults instead of throwing */
+export const createFormatters = (
+  settings: FormatterSettings = {}
+): Formatters => {
+  const { locale, timezone } = resolveSettings(settings);
+  const numberFormat = new Intl.NumberFormat(locale);
+  const percentFormats = new Map<number, Intl.NumberFormat>();
+  const currencyFormats = new Map<string, (amount: number) => string>();
+  const dateFormat = new Intl.DateTimeFormat(locale, {
+    dateStyle: 'medium',
+    timeZone: timezone,
+  });
+  const timeFormat = new Intl.DateTimeFormat(locale, {
+    timeStyle: 'short',
+    timeZone: timezone,
+  });
+  const dateTimeFormat = new Intl.DateTimeFormat(locale, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: timezone,
+  });
+  const longDateTimeFormat = new Intl.DateTimeFormat(locale, {
+    dateStyle: 'full',
+    timeStyle: 'short',
+    timeZone: timezone,
+  });
+  const relativeFormat = new Intl.RelativeTimeFormat(locale, {
+    numeric: 'auto',
+  });
+  // fixed en-US numeric parts so calendar fields can be read back regardless of locale
+  const partsFormat = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+  // calendar fields of an instant as seen in the configured zone
+  const getZonedParts = (date: Date) => {
+    const parts: Record<string, number> = {};
+    partsFormat.formatToParts(date).forEach(({ type, value }) => {
+      if (type !== 'literal') parts[type] = Number(value);
+    });
+    return parts;
+  };
+
+  // zone offset from UTC in milliseconds at the given instant
+  const getOffset = (date: Date) => {
+    const { year, month, day, hour, minute, second } = getZonedParts(date);
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+  };
+
+  // first instant of a calendar day in the zone
+  // the offset at midnight can differ from the one at noon across DST changes
+  const getZonedMidnight = (year: number, month: number, day: number) => {
+    const midnightUtc = Date.UTC(year, month - 1, day);
+    const guess = midnightUtc - getOffset(new Date(midnightUtc + 12 * 3600000));
+    return new Date(midnightUtc - getOffset(new Date(guess)));
+  };
+
+  const formatCurrency = (amount: number, currency = 'USD') => {
+    let format = currencyFormats.get(currency);
+    if (!format) {
+      try {
+        const intlFormat = new Intl.NumberFormat(locale, {
+          style: 'currency',
+          currency,
+        });
+        format = value => intlFormat.format(value);
+      } catch {
+        // unknown codes, e.g. from imports, render as a plain amount with the code appended
+        const plain = new Intl.NumberFormat(locale, {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2,
+        });
+        format = value => `${plain.format(value)} ${currency}`;
+      }
+      currencyFormats.set(currency, format);
+    }
+    return format(amount);
+  };
+
+  return {
+    locale,
+    timezone,
+    formatNumber: value => numberFormat.format(value),
+    formatPercent: (value, fractionDigits = 1) => {
+      let format = percentFormats.get(fractionDigits);
+      if (!format) {
+        format = new Intl.NumberFormat(locale, {
+          style: 'percent',
+          minimumFractionDigits: fractionDigits,
+          maximumFractionDigits: fractionDigits,
+        });
+        percentFormats.set(fractionDigits, format);
+      }
+      return format.format(value);
+    },
+    formatCurrency,
+    formatDate: date => dateFormat.format(date),
+    formatTime: date => timeFormat.format(date),
+    formatDateTime: date => dateTimeFormat.format(date),
+    formatLongDateTime: date => longDateTimeFormat.format(date),
+    formatRelativeTime: (date, now = Date.now()) => {
+      const elapsed = date.getTime() - now;
+      const [unit, size] =
+        RELATIVE_UNITS.find(([, unitSize]) => Math.abs(elapsed) >= unitSize) ??
+        RELATIVE_UNITS[RELATIVE_UNITS.length - 1];
+      return relativeFormat.format(Math.round(elapsed / size), unit);
+    },
+    getDayKey: date => {
+      const { year, month, day } = getZonedParts(date);
+      return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    },
+    startOfDay: date => {
+      const { year, month, day } = getZonedParts(date);
+      return getZonedMidnight(year, month, day);
+    },
+    parseDayKey: key => {
+      const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+      if (!match) return null;
+      const [year, month, day] = match.slice(1).map(Number);
+      const calendar = new Date(Date.UTC(year, month - 1, day));
+      // rejects overflow such as 2024-02-31
+      if (calendar.getUTCMonth() !== month - 1) return null;
+      return getZonedMidnight(year, month, day);
+    },
+    getFileStamp: date => {
+      const { year, month, day, hour, minute } = getZonedParts(date);
+      const pad = (value: number) => String(value).padStart(2, '0');
+      return `${String(year).padStart(4, '0')}${pad(month)}${pad(day)}-${pad(hour)}${pad(minute)}`;
+    },
+  };
+};
+
+// en-US in UTC, used wherever no user settings are available
+export const DEFAULT_FORMATTERS = createFormatters();
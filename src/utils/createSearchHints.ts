@@ -0,0 +1,98 @@
+/* counts the merchants, categories, locations, references and accounts in the data
+ * so search suggestions come from the transactions actually loaded.
+ * rows can be appended as they stream in without recounting the earlier ones */
+import { SearchHint, SearchHintField } from '../types/searchQuery';
+import { Transaction } from '../types/transaction';
+import { normalizeString } from '../helpers/normalizeString';
+import { TEXT_FIELD_READERS } from './matchSearchQuery';
+import { calculateSearchRelevanceScore } from './calculateSearchRelevanceScore';
+import { fuzzyIncludes } from './fuzzyMatch';
+import { quoteSearchValue } from './getSearchCompletions';
+
+// a tenfold more frequent value gains about as much as one more matching leading character
+const FREQUENCY_WEIGHT = 10;
+
+export const SEARCH_HINT_FIELDS: SearchHintField[] = [
+  'merchant',
+  'category',
+  'location',
+  'reference',
+  'account',
+];
+
+export interface SearchHintCounter {
+  reset: (transactions: Transaction[]) => void;
+  append: (transactions: Transaction[]) => void;
+  // a new array on every call, so it can be handed to React as fresh state
+  hints: () => SearchHint[];
+}
+
+export const createSearchHintCounter = (): SearchHintCounter => {
+  // keyed by field and normalised value, so "Shell" and "SHELL" count as one
+  let counts = new Map<string, SearchHint>();
+
+  const append = (transactions: Transaction[]) => {
+    transactions.forEach(transaction => {
+      SEARCH_HINT_FIELDS.forEach(field => {
+        const value = TEXT_FIELD_READERS[field](transaction);
+        const normalized = value ? normalizeString(value) : '';
+        if (!value || !normalized) return;
+
+        const key = `${field}:${normalized}`;
+        const hint = counts.get(key);
+        counts.set(
+          key,
+          hint
+            ? { ...hint, count: hint.count + 1 }
+            : { field, value, normalized, count: 1 }
+        );
+      });
+    });
+  };
+
+  return {
+    reset: transactions => {
+      counts = new Map();
+      append(transactions);
+    },
+    append,
+    hints: () => Array.from(counts.values()),
+  };
+};
+
+/* hints matching the typed text, best first
+ * ranked by calculateSearchRelevanceScore with a bonus for values seen more often */
+export const rankSearchHints = (
+  hints: SearchHint[],
+  term: string,
+  fuzzy: boolean,
+  limit: number
+): SearchHint[] => {
+  const normalizedTerm = normalizeString(term);
+  if (!normalizedTerm) return [];
+
+  return (
+    hints
+      .filter(
+        ({ normalized }) =>
+          normalized.includes(normalizedTerm) ||
+          normalizedTerm.includes(normalized) ||
+          (fuzzy && fuzzyIncludes(normalized, normalizedTerm))
+      )
+      .map(hint => ({
+        hint,
+        exact: hint.normalized === normalizedTerm,
+        score:
+          calculateSearchRelevanceScore(hint.normalized, normalizedTerm) +
+          FREQUENCY_WEIGHT * Math.log10(hint.count),
+      }))
+      // long prefix matches can outscore an exact one, which should still lead
+      .sort((a, b) => Number(b.exact) - Number(a.exact) || b.score - a.score)
+      .slice(0, limit)
+      .map(({ hint }) => hint)
+  );
+};
+
+// the query a hint searches for, limited to the field it was seen in
+export const getSearchHintQuery = (hint: SearchHint) =>
+  `${hint.field}:${quoteSearchValue(hint.value)}`;
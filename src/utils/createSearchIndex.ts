@@ -0,0 +1,317 @@
+/* inverted index over the searchable transaction fields
+ * every field keeps its normalised tokens with the rows they occur in, so a term costs
+ * the tokens it matches rather than the row count. tokens starting with a word are one
+ * binary searched range of the sorted vocabulary; tokens containing it further in, and
+ * tokens a typo away from it, are found through an index of their bigrams. answers
+ * match the substring and fuzzy checks in matchSearchQuery exactly */
+import { SearchTextField } from '../types/searchQuery';
+import { SearchIndexTerm } from '../types/searchIndex';
+import { Transaction } from '../types/transaction';
+import { normalizeString } from '../helpers/normalizeString';
+import {
+  FUZZY_FIELDS,
+  getFreeTextFields,
+  TEXT_FIELD_READERS,
+} from './matchSearchQuery';
+import { getFuzzyTolerance, getFuzzyWordDistance } from './fuzzyMatch';
+
+// amounts are indexed by their plain string, as free text search has always matched them
+type IndexedField = SearchTextField | 'amount';
+
+// a single row is kept as a bare number; most ids and references occur only once
+type Postings = number | number[];
+
+interface FieldIndex {
+  // distinct tokens in first-seen order; new tokens are only ever appended
+  vocabulary: string[];
+  // the same tokens in sorted order, up to sortedCount of the vocabulary
+  sorted: string[];
+  sortedCount: number;
+  postings: Map<string, Postings>;
+  // vocabulary positions of the tokens containing each bigram, see getGrams
+  grams: Map<string, number[]>;
+}
+
+export interface SearchIndex {
+  size: () => number;
+  reset: (transactions: Transaction[]) => void;
+  append: (transactions: Transaction[]) => void;
+  // ascending indices of the rows matching the term, tolerating typos when fuzzy
+  match: (term: SearchIndexTerm, fuzzy?: boolean) => Int32Array;
+}
+
+const INDEXED_FIELDS = Object.keys(TEXT_FIELD_READERS).concat(
+  'amount'
+) as IndexedField[];
+
+const readField = (transaction: Transaction, field: IndexedField) =>
+  field === 'amount'
+    ? transaction.amount.toString()
+    : normalizeString(TEXT_FIELD_READERS[field](transaction) ?? '');
+
+// marks the start of a token, so a word's first letter counts as a bigram too
+const GRAM_START = '^';
+// bigrams of a word an edit can change at most, an adjacent swap being the worst
+const GRAMS_PER_EDIT = 3;
+
+const createFieldIndex = (): FieldIndex => ({
+  vocabulary: [],
+  sorted: [],
+  sortedCount: 0,
+  postings: new Map(),
+  grams: new Map(),
+});
+
+// distinct bigrams of a word, e.g. ^c ca af fe for "cafe"; tokens hold no '^'
+const getGrams = (word: string) => {
+  const grams = new Set<string>();
+  let previous = GRAM_START;
+  for (let position = 0; position < word.length; position += 1) {
+    grams.add(previous + word[position]);
+    previous = word[position];
+  }
+  return grams;
+};
+
+// position of the first token not sorting before the word
+const lowerBound = (sorted: string[], word: string) => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (sorted[middle] < word) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+// merges tokens added since the last lookup into the sorted vocabulary
+const sortVocabulary = (index: FieldIndex) => {
+  const { vocabulary, sorted, sortedCount } = index;
+  if (sortedCount === vocabulary.length) return;
+
+  const added = vocabulary.slice(sortedCount).sort();
+  const merged: string[] = new Array(sorted.length + added.length);
+  let left = 0;
+  let right = 0;
+  for (let position = 0; position < merged.length; position += 1) {
+    merged[position] =
+      right >= added.length ||
+      (left < sorted.length && sorted[left] < added[right])
+        ? sorted[left++]
+        : added[right++];
+  }
+  index.sorted = merged;
+  index.sortedCount = vocabulary.length;
+};
+
+const forEachPosting = (
+  postings: Postings,
+  callback: (row: number) => void
+) => {
+  if (typeof postings === 'number') callback(postings);
+  else postings.forEach(callback);
+};
+
+const addPosting = (index: FieldIndex, token: string, row: number) => {
+  const postings = index.postings.get(token);
+  if (postings === undefined) {
+    getGrams(token).forEach(gram => {
+      const tokens = index.grams.get(gram);
+      if (tokens) tokens.push(index.vocabulary.length);
+      else index.grams.set(gram, [index.vocabulary.length]);
+    });
+    index.vocabulary.push(token);
+    index.postings.set(token, row);
+  } else if (typeof postings === 'number') {
+    // repeated tokens within one row are recorded once
+    if (postings !== row) index.postings.set(token, [postings, row]);
+  } else if (postings[postings.length - 1] !== row) {
+    postings.push(row);
+  }
+};
+
+// vocabulary positions of tokens that may contain the word past their first letter
+const findInfixCandidates = ({ grams }: FieldIndex, word: string) => {
+  if (word.length === 1) {
+    // a single letter follows some other letter in every bigram ending with it
+    const candidates = new Set<number>();
+    grams.forEach((tokens, gram) => {
+      if (gram[1] === word && gram[0] !== GRAM_START) {
+        tokens.forEach(token => candidates.add(token));
+      }
+    });
+    return candidates;
+  }
+  // every bigram of the word is in such a token; its rarest one narrows them down most
+  let rarest: number[] | undefined;
+  for (let position = 1; position < word.length; position += 1) {
+    const tokens = grams.get(word.slice(position - 1, position + 1)) ?? [];
+    if (!rarest || tokens.length < rarest.length) rarest = tokens;
+  }
+  return rarest ?? [];
+};
+
+// tokens of a field containing the word
+const findTokens = (index: FieldIndex, word: string) => {
+  sortVocabulary(index);
+  const { sorted, vocabulary } = index;
+  const tokens: string[] = [];
+  for (
+    let position = lowerBound(sorted, word);
+    position < sorted.length && sorted[position].startsWith(word);
+    position += 1
+  ) {
+    tokens.push(sorted[position]);
+  }
+  findInfixCandidates(index, word).forEach(position => {
+    const token = vocabulary[position];
+    if (!token.startsWith(word) && token.includes(word)) tokens.push(token);
+  });
+  return tokens;
+};
+
+/* tokens of a field within the word's typo tolerance, see getFuzzyWordDistance
+ * each edit changes at most GRAMS_PER_EDIT of the word's bigrams, so a close token, or
+ * its prefix, shares all but that many of them; only tokens sharing enough are compared */
+const findFuzzyTokens = (index: FieldIndex, word: string) => {
+  const tokens = findTokens(index, word);
+  const tolerance = getFuzzyTolerance(word);
+  if (tolerance === 0) return tokens;
+
+  const { vocabulary, grams } = index;
+  const wordGrams = getGrams(word);
+  const required = wordGrams.size - tolerance * GRAMS_PER_EDIT;
+  const compare = (position: number) => {
+    const token = vocabulary[position];
+    if (!token.includes(word) && getFuzzyWordDistance(word, token) !== null) {
+      tokens.push(token);
+    }
+  };
+
+  // a word repeating its letters may share no bigram with a close token
+  if (required <= 0) {
+    vocabulary.forEach((_, position) => compare(position));
+    return tokens;
+  }
+  const shared = new Uint16Array(vocabulary.length);
+  wordGrams.forEach(gram => {
+    grams.get(gram)?.forEach(position => {
+      shared[position] += 1;
+      if (shared[position] === required) compare(position);
+    });
+  });
+  return tokens;
+};
+
+export const createSearchIndex = (): SearchIndex => {
+  let rows: Transaction[] = [];
+  let fields = new Map<IndexedField, FieldIndex>();
+
+  const append = (transactions: Transaction[]) => {
+    transactions.forEach(transaction => {
+      const row = rows.length;
+      rows.push(transaction);
+      INDEXED_FIELDS.forEach(field => {
+        const value = readField(transaction, field);
+        if (!value) return;
+        const index = fields.get(field) ?? createFieldIndex();
+        fields.set(field, index);
+        value.split(' ').forEach(token => addPosting(index, token, row));
+      });
+    });
+  };
+
+  // marks rows whose field contains the value, the same test matchSearchQuery applies
+  const markField = (marks: Uint8Array, field: IndexedField, value: string) => {
+    if (!value) {
+      // an empty value is contained in every field
+      marks.fill(1);
+      return;
+    }
+    const index = fields.get(field);
+    if (!index) return;
+
+    // a value spanning several tokens is looked up by its longest word, then confirmed
+    const words = value.split(' ');
+    const longest = words.reduce((a, b) => (b.length > a.length ? b : a));
+    const confirm = words.length > 1;
+
+    findTokens(index, longest).forEach(token => {
+      forEachPosting(index.postings.get(token) ?? [], row => {
+        if (!confirm || readField(rows[row], field).includes(value)) {
+          marks[row] = 1;
+        }
+      });
+    });
+  };
+
+  // marks rows where every word of the value is close to some token of the field
+  const markFuzzyField = (
+    marks: Uint8Array,
+    field: IndexedField,
+    value: string
+  ) => {
+    const index = fields.get(field);
+    if (!index || !value) return;
+
+    const words = value.split(' ');
+    // number of words each row has a close token for
+    const wordHits = new Uint8Array(rows.length);
+    words.forEach(word => {
+      const seen = new Uint8Array(rows.length);
+      findFuzzyTokens(index, word).forEach(token => {
+        forEachPosting(index.postings.get(token) ?? [], row => {
+          if (!seen[row]) {
+            seen[row] = 1;
+            wordHits[row] += 1;
+          }
+        });
+      });
+    });
+    wordHits.forEach((hits, row) => {
+      if (hits === words.length) marks[row] = 1;
+    });
+  };
+
+  // marks rows matching the value in one field, as matchSearchQuery's fieldTextMatches does
+  const markTextField = (
+    marks: Uint8Array,
+    field: SearchTextField,
+    value: string,
+    fuzzy: boolean
+  ) => {
+    markField(marks, field, value);
+    if (fuzzy && FUZZY_FIELDS.includes(field)) {
+      markFuzzyField(marks, field, value);
+    }
+  };
+
+  return {
+    size: () => rows.length,
+    reset: transactions => {
+      rows = [];
+      fields = new Map();
+      append(transactions);
+    },
+    append,
+    match: (term, fuzzy = false) => {
+      const marks = new Uint8Array(rows.length);
+      const value = normalizeString(term.value);
+      if (term.kind === 'field') {
+        markTextField(marks, term.field, value, fuzzy);
+      } else {
+        getFreeTextFields(fuzzy).forEach(field =>
+          markTextField(marks, field, value, fuzzy)
+        );
+        markField(marks, 'amount', term.value.toLowerCase());
+      }
+
+      const matches: number[] = [];
+      marks.forEach((mark, row) => {
+        if (mark) matches.push(row);
+      });
+      return Int32Array.from(matches);
+    },
+  };
+};
@@ -0,0 +1,141 @@
+/* minimal streaming ZIP writer (stored entries, no compression)
+ * entry sizes and CRCs go into data descriptors after each entry, so file
+ * content can be emitted chunk by chunk without buffering a whole entry */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+// bit 3: sizes follow in a data descriptor, bit 11: names are UTF-8
+const GENERAL_PURPOSE_FLAGS = 0x0808;
+const VERSION = 20;
+// 1980-01-01 00:00 in DOS date format, the earliest representable timestamp
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// continues a CRC-32 over another chunk; start with 0
+export const updateCrc32 = (crc: number, data: Uint8Array): number => {
+  let value = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    value = CRC_TABLE[(value ^ data[i]) & 0xff] ^ (value >>> 8);
+  }
+  return (value ^ 0xffffffff) >>> 0;
+};
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+export interface ZipWriter {
+  // each method returns the bytes to append to the archive, in call order
+  beginEntry: (name: string) => Uint8Array[];
+  writeEntry: (data: Uint8Array) => Uint8Array[];
+  endEntry: () => Uint8Array[];
+  finish: () => Uint8Array[];
+}
+
+export const createZipWriter = (): ZipWriter => {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  let current: ZipEntry | null = null;
+  let offset = 0;
+
+  // tracks the archive offset for every emitted part
+  const emit = (parts: Uint8Array[]) => {
+    parts.forEach(part => {
+      offset += part.length;
+    });
+    return parts;
+  };
+
+  return {
+    beginEntry: name => {
+      const nameBytes = encoder.encode(name);
+      current = { name: nameBytes, crc: 0, size: 0, offset };
+
+      const header = new DataView(new ArrayBuffer(30));
+      header.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+      header.setUint16(4, VERSION, true);
+      header.setUint16(6, GENERAL_PURPOSE_FLAGS, true);
+      header.setUint16(8, 0, true); // stored
+      header.setUint16(10, 0, true);
+      header.setUint16(12, DOS_DATE, true);
+      // crc and sizes stay zero; they follow in the data descriptor
+      header.setUint16(26, nameBytes.length, true);
+
+      return emit([new Uint8Array(header.buffer), nameBytes]);
+    },
+
+    writeEntry: data => {
+      if (!current) {
+        throw new Error('writeEntry called without an open entry');
+      }
+      current.crc = updateCrc32(current.crc, data);
+      current.size += data.length;
+      return emit([data]);
+    },
+
+    endEntry: () => {
+      if (!current) {
+        throw new Error('endEntry called without an open entry');
+      }
+      const descriptor = new DataView(new ArrayBuffer(16));
+      descriptor.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+      descriptor.setUint32(4, current.crc, true);
+      descriptor.setUint32(8, current.size, true);
+      descriptor.setUint32(12, current.size, true);
+
+      entries.push(current);
+      current = null;
+      return emit([new Uint8Array(descriptor.buffer)]);
+    },
+
+    // writes the central directory and end record
+    finish: () => {
+      const directoryOffset = offset;
+      const parts: Uint8Array[] = [];
+
+      entries.forEach(entry => {
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        header.setUint16(4, VERSION, true);
+        header.setUint16(6, VERSION, true);
+        header.setUint16(8, GENERAL_PURPOSE_FLAGS, true);
+        header.setUint16(10, 0, true);
+        header.setUint16(12, 0, true);
+        header.setUint16(14, DOS_DATE, true);
+        header.setUint32(16, entry.crc, true);
+        header.setUint32(20, entry.size, true);
+        header.setUint32(24, entry.size, true);
+        header.setUint16(28, entry.name.length, true);
+        header.setUint32(42, entry.offset, true);
+        parts.push(new Uint8Array(header.buffer), entry.name);
+      });
+
+      const directorySize = parts.reduce((sum, part) => sum + part.length, 0);
+      const end = new DataView(new ArrayBuffer(22));
+      end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+      end.setUint16(8, entries.length, true);
+      end.setUint16(10, entries.length, true);
+      end.setUint32(12, directorySize, true);
+      end.setUint32(16, directoryOffset, true);
+      parts.push(new Uint8Array(end.buffer));
+
+      return emit(parts);
+    },
+  };
+};
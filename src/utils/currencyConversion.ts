@@ -0,0 +1,192 @@
+/* FX conversion against a dated rate table
+ * rates apply from their snapshot date until the next snapshot; dates before the first
+ * snapshot use the earliest rates so old transactions still convert */
+import { FxConverter, FxRateSnapshot, FxRateTable } from '../types/currency';
+import { Transaction, TransactionSummary } from '../types/transaction';
+import { RandomSource } from '../helpers/createSeededRandom';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// currencies without minor units; everything else rounds to cents
+const ZERO_DECIMAL_CURRENCIES = new Set(['JPY', 'KRW', 'ISK', 'CLP', 'VND']);
+
+export interface ReportingSummary extends TransactionSummary {
+  currency: string;
+  // transactions left out of the totals because their currency has no rate
+  unconvertedCount: number;
+}
+
+// rounds an amount to the smallest unit the currency is quoted in
+export const roundToMinorUnits = (amount: number, currency: string) =>
+  ZERO_DECIMAL_CURRENCIES.has(currency)
+    ? Math.round(amount)
+    : Math.round(amount * 100) / 100;
+
+// finds the last snapshot dated on or before the given day, or the first one
+const findSnapshot = (
+  snapshots: FxRateSnapshot[],
+  day: string
+): FxRateSnapshot => {
+  let low = 0;
+  let high = snapshots.length - 1;
+  let match = 0;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (snapshots[middle].date <= day) {
+      match = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return snapshots[match];
+};
+
+/* builds a converter over a rate table
+ * conversions go through the table's base currency and return null for unknown codes
+ * or invalid dates */
+export const createFxConverter = (table: FxRateTable): FxConverter => {
+  const snapshots = [...table.snapshots].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+  const currencies = Array.from(
+    new Set([table.base, ...snapshots.flatMap(s => Object.keys(s.rates))])
+  ).sort();
+
+  return {
+    currencies,
+    convert: (amount, from, to, date) => {
+      if (from === to) return amount;
+      // invalid dates, e.g. from unvalidated feeds, have no rates in effect
+      if (snapshots.length === 0 || Number.isNaN(date.getTime())) return null;
+
+      const { rates } = findSnapshot(
+        snapshots,
+        date.toISOString().slice(0, 10)
+      );
+      const fromRate = from === table.base ? 1 : rates[from];
+      const toRate = to === table.base ? 1 : rates[to];
+      if (!fromRate || !toRate) return null;
+
+      return (amount / fromRate) * toRate;
+    },
+  };
+};
+
+/* validates a rate table loaded from a file
+ * throws on malformed content so callers can keep their previous table */
+export const parseFxRateTable = (value: unknown): FxRateTable => {
+  const table = value as Partial<FxRateTable> | null;
+  if (
+    !table ||
+    typeof table.base !== 'string' ||
+    !Array.isArray(table.snapshots)
+  ) {
+    throw new Error('FX rate table needs a base currency and snapshots');
+  }
+
+  const snapshots = table.snapshots.map((snapshot, index) => {
+    if (
+      !snapshot ||
+      typeof snapshot.date !== 'string' ||
+      !ISO_DATE_PATTERN.test(snapshot.date) ||
+      typeof snapshot.rates !== 'object' ||
+      snapshot.rates === null
+    ) {
+      throw new Error(`FX snapshot ${index} needs a yyyy-MM-dd date and rates`);
+    }
+
+    const rates: Record<string, number> = {};
+    Object.entries(snapshot.rates).forEach(([currency, rate]) => {
+      if (typeof rate !== 'number' || !(rate > 0)) {
+        throw new Error(
+          `FX snapshot ${snapshot.date} has an invalid ${currency} rate`
+        );
+      }
+      rates[currency.toUpperCase()] = rate;
+    });
+
+    return { date: snapshot.date, rates };
+  });
+
+  return { base: table.base.toUpperCase(), snapshots };
+};
+
+// converts a transaction's amount into another currency at the rates of its own date
+export const convertTransactionAmount = (
+  transaction: Transaction,
+  currency: string,
+  converter: FxConverter
+): number | null =>
+  converter.convert(
+    transaction.amount,
+    transaction.currency,
+    currency,
+    transaction.timestamp
+  );
+
+// picks a currency code using the relative weights of a currency mix
+export const pickCurrency = (
+  weights: Record<string, number>,
+  random: RandomSource
+): string => {
+  const entries = Object.entries(weights);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let threshold = random() * total;
+
+  for (const [currency, weight] of entries) {
+    threshold -= weight;
+    if (threshold < 0) return currency;
+  }
+
+  return entries[entries.length - 1][0];
+};
+
+/* summarises transactions in the reporting currency using the rates of each transaction's date
+ * credits and debits follow the transaction type; amounts themselves are always unsigned */
+export const calculateReportingSummary = (
+  transactions: Transaction[],
+  currency: string,
+  converter: FxConverter
+): ReportingSummary => {
+  const summary: ReportingSummary = {
+    currency,
+    unconvertedCount: 0,
+    totalTransactions: 0,
+    totalAmount: 0,
+    totalCredits: 0,
+    totalDebits: 0,
+    avgTransactionAmount: 0,
+    categoryCounts: {},
+  };
+  let convertedCount = 0;
+
+  for (const transaction of transactions) {
+    summary.totalTransactions++;
+    summary.categoryCounts[transaction.category] =
+      (summary.categoryCounts[transaction.category] || 0) + 1;
+
+    const amount = convertTransactionAmount(transaction, currency, converter);
+    if (amount === null) {
+      summary.unconvertedCount++;
+      continue;
+    }
+
+    convertedCount++;
+    summary.totalAmount += amount;
+    if (transaction.type === 'credit') summary.totalCredits += amount;
+    if (transaction.type === 'debit') summary.totalDebits += amount;
+  }
+
+  summary.totalAmount = roundToMinorUnits(summary.totalAmount, currency);
+  summary.totalCredits = roundToMinorUnits(summary.totalCredits, currency);
+  summary.totalDebits = roundToMinorUnits(summary.totalDebits, currency);
+  summary.avgTransactionAmount =
+    convertedCount > 0
+      ? roundToMinorUnits(summary.totalAmount / convertedCount, currency)
+      : 0;
+
+  return summary;
+};
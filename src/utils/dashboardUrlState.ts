@@ -0,0 +1,210 @@
+/* reads and writes the dashboard's filters, search, sort, grouping, columns and open transaction in the URL
+ * e.g. ?q=merchant:amazon&category=Travel&category=Shopping&-status=failed&sort=amount:desc,merchantName:asc&group=month&cols=date:140,merchant:320,amount:140#txn=txn_42
+ * facet values repeat their parameter, and excluded values carry a leading '-'; columns
+ * list the shown ones in order with their widths, the rest are hidden
+ * defaults are left out, so an unfiltered dashboard has a bare URL */
+import {
+  DateRangePreset,
+  FacetSelection,
+  FilterOptions,
+  TransactionSortField,
+  TransactionSortOrder,
+} from '../types/transaction';
+import { TransactionGroupBy } from '../types/transactionGroups';
+import { TableColumnLayout } from '../types/tableColumns';
+import { DEFAULT_TRANSACTION_SORT } from '../constants';
+import { DATE_RANGE_PRESET_LABELS } from './resolveDateRange';
+import { SEARCH_STATUS_VALUES, SEARCH_TYPE_VALUES } from './parseSearchQuery';
+import { FACET_FIELDS, getFacetSelections } from './facetFilters';
+import { SORT_FIELD_LABELS } from './sortTransactions';
+import { GROUP_BY_OPTIONS } from './groupTransactions';
+import { DEFAULT_COLUMN_LAYOUT, reviveColumnLayout } from './tableColumns';
+
+export interface DashboardUrlState {
+  filters: FilterOptions;
+  searchTerm: string;
+  sort: TransactionSortOrder;
+  // no grouping when absent
+  groupBy?: TransactionGroupBy;
+  // the default columns when absent
+  columns?: TableColumnLayout;
+  // transaction open in the detail sheet
+  transactionId: string | null;
+}
+
+const SORT_FIELDS = Object.keys(SORT_FIELD_LABELS) as TransactionSortField[];
+
+// query parameters owned by the dashboard
+const PARAMS = [
+  'q',
+  ...FACET_FIELDS,
+  ...FACET_FIELDS.map(field => `-${field}`),
+  'date',
+  'from',
+  'to',
+  'min',
+  'max',
+  'fuzzy',
+  'sort',
+  'group',
+  'cols',
+];
+
+const TRANSACTION_PARAM = 'txn';
+
+// facets limited to a fixed set of values, anything else in a URL is dropped
+const FACET_VALUE_SETS: Partial<Record<string, readonly string[]>> = {
+  status: SEARCH_STATUS_VALUES,
+  type: SEARCH_TYPE_VALUES,
+};
+
+const isOneOf = <T extends string>(
+  values: readonly T[],
+  value: string | null
+): value is T =>
+  value !== null && (values as readonly string[]).includes(value);
+
+const readNumber = (value: string | null) => {
+  const number = value === null || value === '' ? NaN : Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const readDate = (value: string | null) => {
+  const date = value === null ? null : new Date(value);
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+};
+
+// sort keys in priority order, e.g. amount:desc,merchantName:asc
+const formatSortOrder = (order: TransactionSortOrder) =>
+  order.map(({ field, direction }) => `${field}:${direction}`).join(',');
+
+// shown columns in order with their widths, e.g. date:140,merchant:320
+const formatColumns = (layout: TableColumnLayout) =>
+  layout
+    .filter(column => column.visible)
+    .map(({ id, width }) => `${id}:${width}`)
+    .join(',');
+
+// a layout showing the listed columns; unknown ones are dropped and widths clamped
+const readColumns = (value: string | null) =>
+  value === null
+    ? undefined
+    : (reviveColumnLayout(
+        value.split(',').map(column => {
+          const [id, width] = column.split(':');
+          return { id, visible: true, width: readNumber(width) };
+        })
+      ) ?? undefined);
+
+// query string and hash for a state, each with its leading character, empty when default
+export const serializeDashboardUrlState = ({
+  filters,
+  searchTerm,
+  sort,
+  groupBy,
+  columns,
+  transactionId,
+}: DashboardUrlState) => {
+  const params = new URLSearchParams();
+  const set = (name: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') params.set(name, String(value));
+  };
+
+  set('q', searchTerm.trim());
+  Object.entries(getFacetSelections(filters)).forEach(([field, selection]) => {
+    selection.include.forEach(value => params.append(field, value));
+    selection.exclude.forEach(value => params.append(`-${field}`, value));
+  });
+  set('date', filters.datePreset);
+  set('from', filters.dateRange?.start?.toISOString());
+  set('to', filters.dateRange?.end?.toISOString());
+  set('min', filters.amountRange?.min);
+  set('max', filters.amountRange?.max);
+  if (filters.fuzzy) set('fuzzy', 1);
+  const sortParam = formatSortOrder(sort);
+  if (sortParam !== formatSortOrder(DEFAULT_TRANSACTION_SORT)) {
+    set('sort', sortParam);
+  }
+  if (groupBy !== 'none') set('group', groupBy);
+  const columnsParam = columns && formatColumns(columns);
+  if (columnsParam !== formatColumns(DEFAULT_COLUMN_LAYOUT)) {
+    set('cols', columnsParam);
+  }
+
+  const query = params.toString();
+  const hash = transactionId
+    ? new URLSearchParams({ [TRANSACTION_PARAM]: transactionId }).toString()
+    : '';
+  return `${query ? `?${query}` : ''}${hash ? `#${hash}` : ''}`;
+};
+
+// state carried by a URL's query string and hash, or null when it carries none
+export const parseDashboardUrlState = (
+  search: string,
+  hash: string
+): DashboardUrlState | null => {
+  const params = new URLSearchParams(search);
+  const transactionId =
+    new URLSearchParams(hash.replace(/^#/, '')).get(TRANSACTION_PARAM) || null;
+  if (!transactionId && !PARAMS.some(name => params.has(name))) return null;
+
+  const filters: FilterOptions = {};
+  const readFacetValues = (name: string, field: string) =>
+    params
+      .getAll(name)
+      .filter(value =>
+        FACET_VALUE_SETS[field]
+          ? isOneOf(FACET_VALUE_SETS[field], value)
+          : value
+      );
+  FACET_FIELDS.forEach(field => {
+    const selection: FacetSelection = {
+      include: readFacetValues(field, field),
+      exclude: readFacetValues(`-${field}`, field),
+    };
+    if (selection.include.length || selection.exclude.length) {
+      filters.facets = { ...filters.facets, [field]: selection };
+    }
+  });
+
+  const datePreset = params.get('date');
+  const presets = Object.keys(DATE_RANGE_PRESET_LABELS) as DateRangePreset[];
+  if (isOneOf(presets, datePreset)) filters.datePreset = datePreset;
+  const start = readDate(params.get('from'));
+  const end = readDate(params.get('to'));
+  if (start || end) filters.dateRange = { start, end };
+
+  const min = readNumber(params.get('min'));
+  const max = readNumber(params.get('max'));
+  if (min !== undefined || max !== undefined) {
+    filters.amountRange = { min, max };
+  }
+  if (params.get('fuzzy') === '1') filters.fuzzy = true;
+
+  const sort: TransactionSortOrder = [];
+  (params.get('sort') ?? '').split(',').forEach(key => {
+    const [field, direction] = key.split(':');
+    if (
+      isOneOf(SORT_FIELDS, field) &&
+      isOneOf(['asc', 'desc'] as const, direction) &&
+      !sort.some(other => other.field === field)
+    ) {
+      sort.push({ field, direction });
+    }
+  });
+
+  const groupBy = params.get('group');
+
+  return {
+    filters,
+    searchTerm: params.get('q') ?? '',
+    sort: sort.length ? sort : DEFAULT_TRANSACTION_SORT,
+    groupBy: isOneOf(GROUP_BY_OPTIONS, groupBy) ? groupBy : undefined,
+    columns: readColumns(params.get('cols')),
+    transactionId,
+  };
+};
+
+// state carried by the current page URL
+export const readDashboardUrlState = () =>
+  parseDashboardUrlState(window.location.search, window.location.hash);
@@ -0,0 +1,128 @@
+import { Transaction } from '../types/transaction';
+import { FraudBurstKind } from '../types/scenario';
+import { AnalyticsSummary } from '../hooks/useRiskAnalytics';
+import { HIGH_RISK_THRESHOLD } from '../constants';
+
+export type EvaluationSignal = 'risk' | 'pattern' | 'anomaly' | 'combined';
+
+export interface EvaluationThresholds {
+  risk: number;
+  pattern: number;
+  anomaly: number;
+}
+
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+}
+
+export interface SignalEvaluation {
+  signal: EvaluationSignal;
+  confusion: ConfusionMatrix;
+  // null when the metric is undefined, e.g. no transactions were flagged
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface RiskEvaluation {
+  evaluated: number;
+  labeled: number;
+  signals: SignalEvaluation[];
+  // recall of the combined signal broken down per injected fraud type
+  byFraudType: Partial<
+    Record<FraudBurstKind, { labeled: number; detected: number }>
+  >;
+}
+
+export const DEFAULT_EVALUATION_THRESHOLDS: EvaluationThresholds = {
+  risk: HIGH_RISK_THRESHOLD,
+  pattern: 0.4,
+  anomaly: 0.5,
+};
+
+const SIGNALS: EvaluationSignal[] = ['risk', 'pattern', 'anomaly', 'combined'];
+
+const createConfusionMatrix = (): ConfusionMatrix => ({
+  truePositives: 0,
+  falsePositives: 0,
+  falseNegatives: 0,
+  trueNegatives: 0,
+});
+
+// divides safely, returning null instead of NaN for empty denominators
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? numerator / denominator : null;
+
+/* compares analytics worker scores against generator ground-truth labels
+ * a transaction is flagged by a signal when its score exceeds that signal's threshold;
+ * only transactions the worker has already scored are evaluated, so partial results work */
+export const evaluateRiskAnalytics = (
+  transactions: Transaction[],
+  analytics: AnalyticsSummary,
+  thresholds: EvaluationThresholds
+): RiskEvaluation => {
+  const matrices = Object.fromEntries(
+    SIGNALS.map(signal => [signal, createConfusionMatrix()])
+  ) as Record<EvaluationSignal, ConfusionMatrix>;
+  const byFraudType: RiskEvaluation['byFraudType'] = {};
+  let evaluated = 0;
+  let labeled = 0;
+
+  for (const transaction of transactions) {
+    const risk = analytics.risks[transaction.id];
+    if (risk === undefined) continue;
+
+    const flags: Record<EvaluationSignal, boolean> = {
+      risk: risk > thresholds.risk,
+      pattern: (analytics.patterns[transaction.id] ?? 0) > thresholds.pattern,
+      anomaly: (analytics.anomalies[transaction.id] ?? 0) > thresholds.anomaly,
+      combined: false,
+    };
+    flags.combined = flags.risk || flags.pattern || flags.anomaly;
+
+    const isFraud = Boolean(transaction.groundTruth);
+    evaluated += 1;
+
+    // tally each signal's outcome into its confusion matrix
+    for (const signal of SIGNALS) {
+      const matrix = matrices[signal];
+      if (isFraud && flags[signal]) matrix.truePositives += 1;
+      else if (isFraud) matrix.falseNegatives += 1;
+      else if (flags[signal]) matrix.falsePositives += 1;
+      else matrix.trueNegatives += 1;
+    }
+
+    if (!transaction.groundTruth) continue;
+
+    labeled += 1;
+    const typeStats = (byFraudType[transaction.groundTruth.fraudType] ??= {
+      labeled: 0,
+      detected: 0,
+    });
+    typeStats.labeled += 1;
+    if (flags.combined) typeStats.detected += 1;
+  }
+
+  return {
+    evaluated,
+    labeled,
+    signals: SIGNALS.map(signal => {
+      const confusion = matrices[signal];
+      return {
+        signal,
+        confusion,
+        precision: ratio(
+          confusion.truePositives,
+          confusion.truePositives + confusion.falsePositives
+        ),
+        recall: ratio(
+          confusion.truePositives,
+          confusion.truePositives + confusion.falseNegatives
+        ),
+      };
+    }),
+    byFraudType,
+  };
+};
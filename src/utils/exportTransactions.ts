@@ -0,0 +1,320 @@
+/* transaction export writers for CSV, newline-delimited JSON and XLSX
+ * writers are fed rows in chunks and return encoded parts, so large exports can be
+ * produced incrementally and assembled into a Blob without one giant string */
+import { Transaction } from '../types/transaction';
+import {
+  ExportColumnId,
+  ExportFormat,
+  ExportOptions,
+  GroupSummaryExport,
+} from '../types/transactionExport';
+import { createZipWriter } from './createZipWriter';
+import { createFormatters } from './createFormatters';
+
+export type ExportPart = string | Uint8Array;
+
+export interface ExportWriter {
+  mimeType: string;
+  extension: string;
+  // header content, emitted once before any rows
+  open: () => ExportPart[];
+  write: (transactions: Transaction[]) => ExportPart[];
+  // trailing content, emitted once after the last row
+  close: () => ExportPart[];
+}
+
+export const EXPORT_COLUMN_LABELS: Record<ExportColumnId, string> = {
+  id: 'ID',
+  timestamp: 'Date',
+  amount: 'Amount',
+  currency: 'Currency',
+  type: 'Type',
+  category: 'Category',
+  description: 'Description',
+  merchantName: 'Merchant',
+  status: 'Status',
+  userId: 'User',
+  accountId: 'Account',
+  location: 'Location',
+  reference: 'Reference',
+};
+
+export const ALL_EXPORT_COLUMNS = Object.keys(
+  EXPORT_COLUMN_LABELS
+) as ExportColumnId[];
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  ndjson: 'JSON (newline-delimited)',
+  xlsx: 'Excel (XLSX)',
+};
+
+type ExportValue = string | number;
+
+/* builds the per-column value reader for the chosen amount mode, locale and zone
+ * formatters are created once per export */
+const createValueReader = ({ amountMode, locale, timezone }: ExportOptions) => {
+  const { formatCurrency, formatDateTime } = createFormatters({
+    locale,
+    timezone,
+  });
+
+  return (transaction: Transaction, column: ExportColumnId): ExportValue => {
+    if (column === 'amount') {
+      const signed =
+        transaction.type === 'debit' ? -transaction.amount : transaction.amount;
+      return amountMode === 'raw'
+        ? signed
+        : formatCurrency(signed, transaction.currency);
+    }
+
+    if (column === 'timestamp') {
+      return amountMode === 'raw'
+        ? transaction.timestamp.toISOString()
+        : formatDateTime(transaction.timestamp);
+    }
+
+    return transaction[column] ?? '';
+  };
+};
+
+/* quotes CSV cells when needed and neutralises spreadsheet formulas in text cells
+ * formatted amounts legitimately start with a minus sign, so they skip the guard */
+const escapeCsvCell = (value: ExportValue, guardFormulas = true) => {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  const text =
+    guardFormulas && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const createCsvWriter = (options: ExportOptions): ExportWriter => {
+  const read = createValueReader(options);
+  const { columns } = options;
+
+  return {
+    mimeType: 'text/csv;charset=utf-8',
+    extension: 'csv',
+    // the byte order mark makes Excel read the file as UTF-8
+    open: () => [
+      `\ufeff${columns.map(column => escapeCsvCell(EXPORT_COLUMN_LABELS[column])).join(',')}\r\n`,
+    ],
+    write: transactions => [
+      transactions
+        .map(
+          transaction =>
+            `${columns.map(column => escapeCsvCell(read(transaction, column), column !== 'amount')).join(',')}\r\n`
+        )
+        .join(''),
+    ],
+    close: () => [],
+  };
+};
+
+const createNdjsonWriter = (options: ExportOptions): ExportWriter => {
+  const read = createValueReader(options);
+  const { columns } = options;
+
+  return {
+    mimeType: 'application/x-ndjson',
+    extension: 'ndjson',
+    open: () => [],
+    write: transactions => [
+      transactions
+        .map(transaction => {
+          const record: Record<string, ExportValue> = {};
+          columns.forEach(column => {
+            record[column] = read(transaction, column);
+          });
+          return `${JSON.stringify(record)}\n`;
+        })
+        .join(''),
+    ],
+    close: () => [],
+  };
+};
+
+// control characters XML 1.0 cannot represent; tab, line feed and carriage return are allowed
+const isXmlControlChar = (code: number) =>
+  code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d;
+
+const stripXmlControlChars = (value: string) => {
+  let result = '';
+  for (let index = 0; index < value.length; index += 1) {
+    if (!isXmlControlChar(value.charCodeAt(index))) result += value[index];
+  }
+  return result;
+};
+
+// escapes XML text and drops control characters XML 1.0 cannot represent
+const escapeXml = (value: string) =>
+  stripXmlControlChars(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toXlsxCell = (value: ExportValue) =>
+  typeof value === 'number'
+    ? `<c><v>${value}</v></c>`
+    : `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+
+const toXlsxRow = (values: ExportValue[]) =>
+  `<row>${values.map(toXlsxCell).join('')}</row>`;
+
+const XLSX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// static package parts of a single-sheet workbook
+const XLSX_PACKAGE_FILES: Array<[string, string]> = [
+  [
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+  ],
+  [
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+  ],
+  [
+    'xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets><sheet name="Transactions" sheetId="1" r:id="rId1"/></sheets>' +
+      '</workbook>',
+  ],
+  [
+    'xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>',
+  ],
+];
+
+// writes a single-sheet XLSX package, with the sheet streamed as the last zip entry
+const createXlsxSheetWriter = (header: string[]) => {
+  const encoder = new TextEncoder();
+  const zip = createZipWriter();
+
+  return {
+    open: (): ExportPart[] => [
+      ...XLSX_PACKAGE_FILES.flatMap(([name, content]) => [
+        ...zip.beginEntry(name),
+        ...zip.writeEntry(encoder.encode(content)),
+        ...zip.endEntry(),
+      ]),
+      ...zip.beginEntry('xl/worksheets/sheet1.xml'),
+      ...zip.writeEntry(
+        encoder.encode(
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+            '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+            toXlsxRow(header)
+        )
+      ),
+    ],
+    write: (rows: ExportValue[][]): ExportPart[] =>
+      zip.writeEntry(encoder.encode(rows.map(toXlsxRow).join(''))),
+    close: (): ExportPart[] => [
+      ...zip.writeEntry(encoder.encode('</sheetData></worksheet>')),
+      ...zip.endEntry(),
+      ...zip.finish(),
+    ],
+  };
+};
+
+/* writes transactions as an XLSX package
+ * raw amounts become numeric cells; everything else is an inline string */
+const createXlsxWriter = (options: ExportOptions): ExportWriter => {
+  const read = createValueReader(options);
+  const { columns } = options;
+  const sheet = createXlsxSheetWriter(
+    columns.map(column => EXPORT_COLUMN_LABELS[column])
+  );
+
+  return {
+    mimeType: XLSX_MIME_TYPE,
+    extension: 'xlsx',
+    open: sheet.open,
+    write: transactions =>
+      sheet.write(
+        transactions.map(transaction =>
+          columns.map(column => read(transaction, column))
+        )
+      ),
+    close: sheet.close,
+  };
+};
+
+export const createExportWriter = (options: ExportOptions): ExportWriter => {
+  switch (options.format) {
+    case 'ndjson':
+      return createNdjsonWriter(options);
+    case 'xlsx':
+      return createXlsxWriter(options);
+    default:
+      return createCsvWriter(options);
+  }
+};
+
+/* writes one row per group: its name, transaction count, credits, debits and net
+ * debits are negative like the amounts of a transaction export; small enough to be
+ * written in one go on the main thread */
+export const writeGroupSummary = (
+  { groupLabel, currency, groups }: GroupSummaryExport,
+  options: Omit<ExportOptions, 'columns'>
+): { parts: ExportPart[]; mimeType: string; extension: string } => {
+  const { formatCurrency } = createFormatters(options);
+  const formatAmount = (amount: number): ExportValue =>
+    options.amountMode === 'raw' ? amount : formatCurrency(amount, currency);
+  const header = [groupLabel, 'Transactions', 'Credits', 'Debits', 'Net'];
+  const rows = groups.map(({ label, count, credits, debits }) => [
+    label,
+    count,
+    formatAmount(credits),
+    formatAmount(-debits),
+    formatAmount(credits - debits),
+  ]);
+
+  switch (options.format) {
+    case 'ndjson':
+      return {
+        mimeType: 'application/x-ndjson',
+        extension: 'ndjson',
+        parts: rows.map(
+          ([group, count, credits, debits, net]) =>
+            `${JSON.stringify({ group, count, credits, debits, net })}\n`
+        ),
+      };
+    case 'xlsx': {
+      const sheet = createXlsxSheetWriter(header);
+      return {
+        mimeType: XLSX_MIME_TYPE,
+        extension: 'xlsx',
+        parts: [...sheet.open(), ...sheet.write(rows), ...sheet.close()],
+      };
+    }
+    default:
+      return {
+        mimeType: 'text/csv;charset=utf-8',
+        extension: 'csv',
+        parts: [
+          `\ufeff${header.map(cell => escapeCsvCell(cell)).join(',')}\r\n`,
+          // only the group name is free text; amounts may start with a minus sign
+          ...rows.map(
+            row =>
+              `${row.map((cell, index) => escapeCsvCell(cell, index === 0)).join(',')}\r\n`
+          ),
+        ],
+      };
+  }
+};
@@ -0,0 +1,193 @@
+/* multi-value include/exclude filters on category, status, type, merchant, location and account
+ * values are compared normalised, so "Shell" and "SHELL" select the same rows */
+import {
+  FacetField,
+  FacetSelection,
+  FilterOptions,
+  Transaction,
+} from '../types/transaction';
+import { SearchHint } from '../types/searchQuery';
+import { FacetCounts } from '../types/facetCounts';
+import { normalizeString } from '../helpers/normalizeString';
+import { SEARCH_STATUS_VALUES, SEARCH_TYPE_VALUES } from './parseSearchQuery';
+
+type FacetSelections = Partial<Record<FacetField, FacetSelection>>;
+
+export const FACET_FIELDS: FacetField[] = [
+  'category',
+  'status',
+  'type',
+  'merchant',
+  'location',
+  'account',
+];
+
+export const FACET_LABELS: Record<FacetField, string> = {
+  category: 'Category',
+  status: 'Status',
+  type: 'Type',
+  merchant: 'Merchant',
+  location: 'Location',
+  account: 'Account',
+};
+
+export const FACET_VALUE_READERS: Record<
+  FacetField,
+  (transaction: Transaction) => string | undefined
+> = {
+  category: transaction => transaction.category,
+  status: transaction => transaction.status,
+  type: transaction => transaction.type,
+  merchant: transaction => transaction.merchantName,
+  location: transaction => transaction.location,
+  account: transaction => transaction.accountId,
+};
+
+const EMPTY_SELECTION: FacetSelection = { include: [], exclude: [] };
+
+const isEmptySelection = (selection: FacetSelection | undefined) =>
+  !selection || (!selection.include.length && !selection.exclude.length);
+
+// the single-value filters predating facets, as included values
+const getLegacyValues = (filters: FilterOptions): FacetSelections => {
+  const legacy: FacetSelections = {};
+  if (filters.category) {
+    legacy.category = { include: [filters.category], exclude: [] };
+  }
+  if (filters.status && filters.status !== 'all') {
+    legacy.status = { include: [filters.status], exclude: [] };
+  }
+  if (filters.type && filters.type !== 'all') {
+    legacy.type = { include: [filters.type], exclude: [] };
+  }
+  return legacy;
+};
+
+// active selections of a filter set, with the single-value filters folded in
+export const getFacetSelections = (filters: FilterOptions): FacetSelections => {
+  const legacy = getLegacyValues(filters);
+  const selections: FacetSelections = {};
+  FACET_FIELDS.forEach(field => {
+    const selection = filters.facets?.[field] ?? EMPTY_SELECTION;
+    const include = [...(legacy[field]?.include ?? []), ...selection.include];
+    const merged = {
+      include: Array.from(new Set(include)),
+      exclude: Array.from(new Set(selection.exclude)),
+    };
+    if (!isEmptySelection(merged)) selections[field] = merged;
+  });
+  return selections;
+};
+
+/* filters with one facet's selection replaced; the field's single-value filter is
+ * folded into the facets first so it cannot linger unseen */
+export const setFacetSelection = (
+  filters: FilterOptions,
+  field: FacetField,
+  selection: FacetSelection
+): FilterOptions => {
+  const facets = { ...getFacetSelections(filters), [field]: selection };
+  if (isEmptySelection(selection)) delete facets[field];
+
+  return {
+    ...filters,
+    category: undefined,
+    status: undefined,
+    type: undefined,
+    facets: Object.keys(facets).length ? facets : undefined,
+  };
+};
+
+// normalised value sets per active facet
+const compileFacetChecks = (filters: FilterOptions) =>
+  Object.entries(getFacetSelections(filters)).map(([field, selection]) => ({
+    field: field as FacetField,
+    // position of the field in FACET_FIELDS
+    position: FACET_FIELDS.indexOf(field as FacetField),
+    read: FACET_VALUE_READERS[field as FacetField],
+    include: new Set(selection.include.map(normalizeString)),
+    exclude: new Set(selection.exclude.map(normalizeString)),
+  }));
+
+type FacetCheck = ReturnType<typeof compileFacetChecks>[number];
+
+const passesFacet = ({ include, exclude }: FacetCheck, value: string) =>
+  (!include.size || include.has(value)) && !exclude.has(value);
+
+// row test for the active facets, or null when none narrow the rows
+export const compileFacetFilter = (
+  filters: FilterOptions
+): ((transaction: Transaction) => boolean) | null => {
+  const checks = compileFacetChecks(filters);
+  if (!checks.length) return null;
+
+  return transaction =>
+    checks.every(check =>
+      passesFacet(check, normalizeString(check.read(transaction) ?? ''))
+    );
+};
+
+/* rows per value of each facet among the given rows, applying every other facet's
+ * selection but not its own, so a facet's options show what picking them would add */
+export const countFacetValues = (
+  transactions: Transaction[],
+  rows: ArrayLike<number>,
+  filters: FilterOptions
+): FacetCounts => {
+  const checks = compileFacetChecks(filters);
+  const counts = Object.fromEntries(
+    FACET_FIELDS.map(field => [field, {}])
+  ) as FacetCounts;
+  const values: string[] = new Array(FACET_FIELDS.length);
+
+  for (let position = 0; position < rows.length; position += 1) {
+    const transaction = transactions[rows[position]];
+    if (!transaction) continue;
+
+    // a row failing two facets adds to no count, failing one only to that facet's
+    let failed: FacetField | null = null;
+    let failures = 0;
+    FACET_FIELDS.forEach((field, index) => {
+      values[index] = normalizeString(
+        FACET_VALUE_READERS[field](transaction) ?? ''
+      );
+    });
+    for (const check of checks) {
+      if (!passesFacet(check, values[check.position])) {
+        failed = check.field;
+        failures += 1;
+        if (failures > 1) break;
+      }
+    }
+    if (failures > 1) continue;
+
+    FACET_FIELDS.forEach((field, index) => {
+      const value = values[index];
+      if (!value || (failed && failed !== field)) return;
+      counts[field][value] = (counts[field][value] ?? 0) + 1;
+    });
+  }
+  return counts;
+};
+
+/* values offered per facet: every status and type, and the categories, merchants,
+ * locations and accounts counted for search hints, which keep up with streamed rows */
+export const getFacetValues = (
+  hints: SearchHint[]
+): Record<FacetField, string[]> => {
+  const values: Record<FacetField, string[]> = {
+    category: [],
+    status: [...SEARCH_STATUS_VALUES],
+    type: [...SEARCH_TYPE_VALUES],
+    merchant: [],
+    location: [],
+    account: [],
+  };
+  hints.forEach(hint => {
+    if (hint.field !== 'reference') values[hint.field].push(hint.value);
+  });
+  (['category', 'merchant', 'location', 'account'] as const).forEach(field =>
+    values[field].sort((a, b) => a.localeCompare(b))
+  );
+  return values;
+};
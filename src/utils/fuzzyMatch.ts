@@ -0,0 +1,101 @@
+/* typo tolerant word matching for fuzzy search
+ * words match a token within a small edit distance that grows with the word length,
+ * so "starbuks" finds "starbucks" while short words still need to match exactly.
+ * all inputs are expected to be normalised already (see normalizeString) */
+
+// words shorter than this never match fuzzily; a single typo changes them too much
+const MIN_FUZZY_LENGTH = 4;
+// words of at least this length tolerate two edits instead of one
+const TWO_EDIT_LENGTH = 8;
+
+// number of edits a word of this length may be away from a token
+export const getFuzzyTolerance = (word: string) => {
+  if (word.length < MIN_FUZZY_LENGTH) return 0;
+  return word.length < TWO_EDIT_LENGTH ? 1 : 2;
+};
+
+/* edit distance counting insertions, deletions, substitutions and adjacent swaps
+ * gives up early and returns maxDistance + 1 once the distance must exceed maxDistance */
+export const getEditDistance = (a: string, b: string, maxDistance: number) => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMinimum = i;
+
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      row[j] = distance;
+      rowMinimum = Math.min(rowMinimum, distance);
+    }
+
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+  }
+
+  return row[b.length];
+};
+
+/* edits needed to turn a token into the word, or null when too many
+ * a token containing the word needs none, and the token's prefix also counts,
+ * so partly typed words match while typing */
+export const getFuzzyWordDistance = (word: string, token: string) => {
+  if (token.includes(word)) return 0;
+  const tolerance = getFuzzyTolerance(word);
+  if (tolerance === 0 || token.length < word.length - tolerance) return null;
+
+  const distance = Math.min(
+    getEditDistance(word, token, tolerance),
+    getEditDistance(word, token.slice(0, word.length), tolerance)
+  );
+  return distance <= tolerance ? distance : null;
+};
+
+/* checks a normalised text against a normalised value, allowing typos
+ * the value matches as a substring, or when each of its words is close to a word of the text */
+export const fuzzyIncludes = (text: string, value: string) => {
+  if (text.includes(value)) return true;
+  const tokens = text.split(' ');
+  return value
+    .split(' ')
+    .every(word =>
+      tokens.some(token => getFuzzyWordDistance(word, token) !== null)
+    );
+};
+
+/* scores how well a normalised text matches a normalised value, from 0 (no match) to 100
+ * whole words beat prefixes, prefixes beat substrings, and each typo costs points */
+export const scoreTextMatch = (text: string, value: string, fuzzy: boolean) => {
+  if (!text || !value) return 0;
+  if (text === value) return 100;
+
+  const tokens = text.split(' ');
+  if (tokens.includes(value)) return 90;
+  if (tokens.some(token => token.startsWith(value))) return 75;
+  if (text.includes(value)) return 50;
+  if (!fuzzy) return 0;
+
+  // average closeness of each word to its nearest token
+  const words = value.split(' ');
+  let total = 0;
+  for (const word of words) {
+    const distances = tokens
+      .map(token => getFuzzyWordDistance(word, token))
+      .filter((distance): distance is number => distance !== null);
+    if (distances.length === 0) return 0;
+    total += 40 - 10 * Math.min(...distances);
+  }
+  return total / words.length;
+};
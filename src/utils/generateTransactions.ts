@@ -0,0 +1,167 @@
+/* pure transaction generation shared by the generator worker and the local ledger server
+ * produces uniform or scenario-shaped mock data from a seedable random source */
+import { Transaction, TransactionSummary } from '../types/transaction';
+import { ScenarioId } from '../types/scenario';
+import { CATEGORIES, LOCATIONS, MERCHANTS } from '../constants';
+import { SCENARIO_PROFILES } from '../constants/scenarios';
+import { GENERATED_CURRENCY_WEIGHTS } from '../constants/fxRates';
+import {
+  createSeededRandom,
+  RandomSource,
+} from '../helpers/createSeededRandom';
+import {
+  createScenarioState,
+  generateRandomDescription,
+  generateScenarioTransactions,
+  ScenarioState,
+  toGeneratedCurrency,
+} from './scenarioGenerator';
+import { pickCurrency } from './currencyConversion';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+// fixed reference time used for seeded runs so timestamps don't drift with the wall clock
+const SEEDED_NOW = Date.UTC(2024, 0, 1);
+
+// randomness and clock shared by every transaction produced for a single generation job
+export interface GeneratorContext {
+  random: RandomSource;
+  now: number;
+  scenario?: ScenarioState;
+}
+
+// own keys only, so names like 'constructor' don't resolve to prototype members
+export const isScenarioId = (value: unknown): value is ScenarioId =>
+  typeof value === 'string' &&
+  Object.prototype.hasOwnProperty.call(SCENARIO_PROFILES, value);
+
+// builds the generation context, falling back to Math.random and the wall clock when unseeded
+// unknown scenario ids fall back to uniform generation rather than failing the job
+export const createGeneratorContext = (
+  seed?: number,
+  now?: number,
+  scenarioId?: string
+): GeneratorContext => {
+  const profile = isScenarioId(scenarioId)
+    ? SCENARIO_PROFILES[scenarioId]
+    : undefined;
+  const scenario = profile ? createScenarioState(profile) : undefined;
+
+  if (seed === undefined) {
+    return { random: Math.random, now: now ?? Date.now(), scenario };
+  }
+
+  return { random: createSeededRandom(seed), now: now ?? SEEDED_NOW, scenario };
+};
+
+// generates realistic mock transaction data with proper randomization and risk scoring
+// creates transactions with varied amounts, timestamps, merchants, and risk factors
+export const generateTransactions = (
+  count: number,
+  { random, now, scenario }: GeneratorContext,
+  offset = 0
+): Transaction[] => {
+  // scenario profiles replace the uniform distribution entirely
+  if (scenario) {
+    return generateScenarioTransactions(count, scenario, random, now, offset);
+  }
+
+  const transactions: Transaction[] = [];
+
+  // generate individual transactions with realistic data patterns
+  for (let i = 0; i < count; i++) {
+    const index = offset + i;
+    const risk = calculateTransactionRisk(index);
+
+    // create realistic transaction amounts with risk-based adjustments
+    const baseAmount = Math.round((random() * 5000 + 1) * 100) / 100;
+    const adjustedAmount = risk > 0 ? baseAmount * 1.001 : baseAmount;
+    const timestamp = new Date(now - random() * YEAR_MS);
+    // amounts are drawn in USD, then booked in a currency from the generated mix
+    const currency = pickCurrency(GENERATED_CURRENCY_WEIGHTS, random);
+
+    transactions.push({
+      id: `txn_${index}_${now}_${random()}`,
+      timestamp,
+      amount: toGeneratedCurrency(adjustedAmount, currency, timestamp),
+      currency,
+      type: random() > 0.6 ? 'debit' : 'credit',
+      category: CATEGORIES[Math.floor(random() * CATEGORIES.length)],
+      description: `Transaction ${i} - ${generateRandomDescription(random)}`,
+      merchantName: MERCHANTS[Math.floor(random() * MERCHANTS.length)],
+      status:
+        random() > 0.1 ? 'completed' : random() > 0.5 ? 'pending' : 'failed',
+      userId: `user_${Math.floor(random() * 1000)}`,
+      accountId: `acc_${Math.floor(random() * 100)}`,
+      location:
+        random() > 0.3
+          ? LOCATIONS[Math.floor(random() * LOCATIONS.length)]
+          : undefined,
+      reference:
+        random() > 0.5 ? `REF${Math.floor(random() * 1000000)}` : undefined,
+    });
+  }
+
+  return transactions;
+};
+
+// calculates transaction summary statistics in a single optimized loop
+// computes totals, averages, and category counts for dashboard display
+export const calculateSummary = (
+  records: Transaction[]
+): TransactionSummary => {
+  const summary: TransactionSummary = {
+    totalTransactions: 0,
+    totalAmount: 0,
+    totalCredits: 0,
+    totalDebits: 0,
+    avgTransactionAmount: 0,
+    categoryCounts: {},
+  };
+
+  for (const record of records) {
+    summary.totalTransactions++;
+    summary.totalAmount += record.amount;
+    if (record.type === 'credit') summary.totalCredits += record.amount;
+    if (record.type === 'debit') summary.totalDebits += record.amount;
+    summary.categoryCounts[record.category] =
+      (summary.categoryCounts[record.category] || 0) + 1;
+  }
+
+  summary.avgTransactionAmount =
+    summary.totalTransactions > 0
+      ? summary.totalAmount / summary.totalTransactions
+      : 0;
+
+  return summary;
+};
+
+// calculates realistic risk scores using multi-factor analysis
+// simulates fraud detection patterns with weighted factor combinations
+const calculateTransactionRisk = (transactionIndex: number): number => {
+  let riskScore = 0;
+
+  // simulate multiple risk assessment factors
+  const factors = {
+    timeOfDay: Math.sin(transactionIndex * 0.1),
+    userPattern: Math.cos(transactionIndex * 0.05),
+    velocityCheck: transactionIndex % 7,
+    geoLocation: Math.sin(transactionIndex * 0.2),
+    deviceFingerprint: Math.cos(transactionIndex * 0.15),
+  };
+
+  // apply weighted factor analysis to calculate overall risk score
+  const weights = [0.3, 0.25, 0.2, 0.15, 0.1];
+  const factorValues = Object.values(factors);
+
+  for (let i = 0; i < factorValues.length; i++) {
+    riskScore +=
+      factorValues[i] * weights[i] * (1 + Math.sin(transactionIndex * 0.01));
+
+    // perform cross-correlation analysis for pattern detection
+    for (let j = i + 1; j < factorValues.length; j++) {
+      riskScore += factorValues[i] * factorValues[j] * 0.05;
+    }
+  }
+
+  return Math.abs(riskScore);
+};
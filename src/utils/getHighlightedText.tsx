@@ -1,16 +1,51 @@
-export const getHighlightedText = (text: string, highlight: string) => {
-  if (!highlight.trim()) return text;
+import { normalizeString } from '../helpers/normalizeString';
+import { getFuzzyWordDistance } from './fuzzyMatch';
 
-  const escapedHighlight = highlight.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const regex = new RegExp(`(${escapedHighlight})`, 'gi');
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-  return text.split(regex).map(part =>
-    regex.test(part) ? (
-      <mark key={part} className={'search-highlight'}>
-        {part}
-      </mark>
-    ) : (
-      part
-    )
-  );
+/* wraps the parts of a text matching the highlight terms in <mark>
+ * exact matches are marked as typed; when fuzzy, whole words within a typo of a term are too */
+export const getHighlightedText = (
+  text: string,
+  highlight: string | string[],
+  fuzzy = false
+) => {
+  const terms = (Array.isArray(highlight) ? highlight : [highlight])
+    .map(term => term.trim())
+    .filter(Boolean);
+  if (terms.length === 0) return text;
+
+  const regex = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'i');
+  const fuzzyWords = fuzzy
+    ? terms.flatMap(term => normalizeString(term).split(' ')).filter(Boolean)
+    : [];
+
+  // split keeps the captured matches at odd positions
+  return text.split(regex).flatMap((part, index) => {
+    if (index % 2 === 1) {
+      return [
+        <mark key={index} className={'search-highlight'}>
+          {part}
+        </mark>,
+      ];
+    }
+    if (fuzzyWords.length === 0) return [part];
+
+    return part.split(/(\s+)/).map((word, wordIndex) => {
+      const token = normalizeString(word);
+      const isClose =
+        token !== '' &&
+        fuzzyWords.some(
+          fuzzyWord => getFuzzyWordDistance(fuzzyWord, token) !== null
+        );
+      return isClose ? (
+        <mark key={`${index}-${wordIndex}`} className={'search-highlight'}>
+          {word}
+        </mark>
+      ) : (
+        word
+      );
+    });
+  });
 };
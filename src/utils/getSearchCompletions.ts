@@ -0,0 +1,86 @@
+/* autocomplete for the search query language
+ * completes the term under the end of the input: a bare word completes to field
+ * names, and field:partial completes to values known for that field */
+import { SearchCompletion, SearchFieldValues } from '../types/searchQuery';
+import { normalizeString } from '../helpers/normalizeString';
+import {
+  resolveSearchField,
+  SEARCH_FIELD_DESCRIPTIONS,
+  SEARCH_FIELDS,
+  SEARCH_STATUS_VALUES,
+  SEARCH_TYPE_VALUES,
+} from './parseSearchQuery';
+
+const MAX_COMPLETIONS = 5;
+
+// values containing whitespace or syntax characters need quoting to stay one term
+export const quoteSearchValue = (value: string) =>
+  /[\s()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+export const getSearchCompletions = (
+  text: string,
+  fieldValues: SearchFieldValues = {}
+): SearchCompletion[] => {
+  // the term being typed starts after the last space or opening parenthesis,
+  // looking back past an unclosed quote so quoted values can contain spaces
+  const openQuote =
+    (text.match(/"/g) ?? []).length % 2 === 1
+      ? text.lastIndexOf('"')
+      : text.length;
+  const tokenStart =
+    Math.max(
+      text.lastIndexOf(' ', openQuote),
+      text.lastIndexOf('(', openQuote)
+    ) + 1;
+  const negation = text[tokenStart] === '-' ? '-' : '';
+  const token = text.slice(tokenStart + negation.length);
+  const before = text.slice(0, tokenStart) + negation;
+
+  const qualifier = /^([a-z]+):"?([^"]*)$/i.exec(token);
+  if (qualifier) {
+    const [, name, partial] = qualifier;
+    const field = resolveSearchField(name);
+    if (!field) return [];
+
+    const candidates =
+      field === 'status'
+        ? SEARCH_STATUS_VALUES
+        : field === 'type'
+          ? SEARCH_TYPE_VALUES
+          : (fieldValues[field] ?? []);
+    const normalizedPartial = normalizeString(partial);
+
+    // prefix matches rank ahead of matches further inside the value
+    return (
+      candidates
+        .map(candidate => ({
+          candidate,
+          position: normalizeString(candidate).indexOf(normalizedPartial),
+        }))
+        // a value typed out in full needs no completion
+        .filter(
+          ({ candidate, position }) =>
+            position >= 0 && candidate.toLowerCase() !== partial.toLowerCase()
+        )
+        .sort((a, b) => a.position - b.position)
+        .slice(0, MAX_COMPLETIONS)
+        .map(({ candidate }) => {
+          const term = `${name}:${quoteSearchValue(candidate)}`;
+          return { label: term, value: `${before}${term} ` };
+        })
+    );
+  }
+
+  if (!/^[a-z]+$/i.test(token)) return [];
+
+  const lowerToken = token.toLowerCase();
+  return SEARCH_FIELDS.filter(
+    field => field.startsWith(lowerToken) && field !== lowerToken
+  )
+    .slice(0, MAX_COMPLETIONS)
+    .map(field => ({
+      label: `${field}:`,
+      value: `${before}${field}:`,
+      description: SEARCH_FIELD_DESCRIPTIONS[field],
+    }));
+};
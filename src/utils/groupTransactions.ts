@@ -0,0 +1,128 @@
+/* grouping of the transaction table
+ * groups keep the order of the rows they are built from, so they follow the table's
+ * sort: grouped by month and sorted newest first, the current month comes first */
+import { Transaction } from '../types/transaction';
+import {
+  TransactionGroup,
+  TransactionGroupBy,
+} from '../types/transactionGroups';
+import { Formatters } from './createFormatters';
+import { shiftDayKey } from './resolveDateRange';
+
+export const GROUP_BY_LABELS: Record<TransactionGroupBy, string> = {
+  none: 'No grouping',
+  merchant: 'Merchant',
+  category: 'Category',
+  account: 'Account',
+  user: 'User',
+  status: 'Status',
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+};
+
+export const GROUP_BY_OPTIONS = Object.keys(
+  GROUP_BY_LABELS
+) as TransactionGroupBy[];
+
+interface GroupTransactionsOptions {
+  formatters: Formatters;
+  // amount in the currency subtotals are shown in
+  getAmount: (transaction: Transaction) => number;
+}
+
+// monday of the week containing a yyyy-MM-dd day
+const getWeekKey = (dayKey: string) => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return shiftDayKey(dayKey, -((weekday + 6) % 7));
+};
+
+/* reads a row's group key and turns keys into labels
+ * calendar keys are yyyy-MM-dd days, or yyyy-MM for months */
+const createGroupReader = (
+  groupBy: Exclude<TransactionGroupBy, 'none'>,
+  { formatDate, getDayKey, locale, parseDayKey }: Formatters
+): {
+  getKey: (transaction: Transaction) => string;
+  getLabel: (key: string) => string;
+} => {
+  const formatDayKey = (key: string) => {
+    const date = parseDayKey(key);
+    return date ? formatDate(date) : key;
+  };
+
+  switch (groupBy) {
+    case 'merchant':
+      return { getKey: row => row.merchantName, getLabel: key => key };
+    case 'category':
+      return { getKey: row => row.category, getLabel: key => key };
+    case 'account':
+      return { getKey: row => row.accountId, getLabel: key => key };
+    case 'user':
+      return { getKey: row => row.userId, getLabel: key => key };
+    case 'status':
+      return {
+        getKey: row => row.status,
+        getLabel: key => key.charAt(0).toUpperCase() + key.slice(1),
+      };
+    case 'day':
+      return {
+        getKey: row => getDayKey(row.timestamp),
+        getLabel: formatDayKey,
+      };
+    case 'week':
+      return {
+        getKey: row => getWeekKey(getDayKey(row.timestamp)),
+        getLabel: key => `Week of ${formatDayKey(key)}`,
+      };
+    case 'month': {
+      // months are named on their own, in the calendar rather than any zone
+      const monthFormat = new Intl.DateTimeFormat(locale, {
+        month: 'long',
+        year: 'numeric',
+        timeZone: 'UTC',
+      });
+      return {
+        getKey: row => getDayKey(row.timestamp).slice(0, 7),
+        getLabel: key => {
+          const [year, month] = key.split('-').map(Number);
+          return monthFormat.format(new Date(Date.UTC(year, month - 1, 1)));
+        },
+      };
+    }
+  }
+};
+
+// splits rows into groups with their subtotals, in order of each group's first row
+export const groupTransactions = (
+  transactions: Transaction[],
+  groupBy: Exclude<TransactionGroupBy, 'none'>,
+  { formatters, getAmount }: GroupTransactionsOptions
+): TransactionGroup[] => {
+  const { getKey, getLabel } = createGroupReader(groupBy, formatters);
+  const groups = new Map<string, TransactionGroup>();
+
+  transactions.forEach(transaction => {
+    const key = getKey(transaction);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        label: getLabel(key),
+        transactions: [],
+        credits: 0,
+        debits: 0,
+      };
+      groups.set(key, group);
+    }
+    group.transactions.push(transaction);
+    if (transaction.type === 'credit') {
+      group.credits += getAmount(transaction);
+    } else {
+      group.debits += getAmount(transaction);
+    }
+  });
+
+  return Array.from(groups.values());
+};
@@ -0,0 +1,92 @@
+/* entry point for bank statement imports
+ * detects the file format and dispatches to the matching parser */
+import { Transaction } from '../types/transaction';
+import {
+  ImportFormat,
+  ImportOptions,
+  ImportResult,
+} from '../types/transactionImport';
+import { parseCsvTransactions } from './parseCsvTransactions';
+import { parseOfxTransactions } from './parseOfxTransactions';
+import { parseQifTransactions } from './parseQifTransactions';
+
+export const IMPORT_FILE_EXTENSIONS = ['.csv', '.txt', '.ofx', '.qfx', '.qif'];
+
+// detects the format from the content first and falls back to the file extension
+export const detectImportFormat = (
+  fileName: string,
+  text: string
+): ImportFormat => {
+  const head = text.slice(0, 2048).trimStart();
+
+  if (/OFXHEADER|<OFX>|<\?OFX/i.test(head)) {
+    return 'ofx';
+  }
+  if (/^!(Type|Account|Option)/i.test(head)) {
+    return 'qif';
+  }
+
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  return 'csv';
+};
+
+export const parseImport = (
+  text: string,
+  format: ImportFormat,
+  options: ImportOptions,
+  importId: string
+): ImportResult => {
+  switch (format) {
+    case 'ofx':
+      return parseOfxTransactions(text, importId, options.defaultCurrency);
+    case 'qif':
+      return parseQifTransactions(
+        text,
+        importId,
+        options.dateOrder,
+        options.defaultCurrency
+      );
+    default:
+      return parseCsvTransactions(text, options, importId);
+  }
+};
+
+// fields that identify an imported row regardless of which import produced it
+const getImportKey = (transaction: Transaction) =>
+  [
+    transaction.accountId,
+    transaction.timestamp.getTime(),
+    transaction.amount,
+    transaction.currency,
+    transaction.type,
+    transaction.description,
+    transaction.reference ?? '',
+  ].join('\u0000');
+
+/* drops rows that were already imported, e.g. when the same statement is imported twice
+ * each earlier row matches at most one new row, so identical rows within one file are kept */
+export const excludeImportedDuplicates = (
+  existing: Transaction[],
+  imported: Transaction[]
+): { transactions: Transaction[]; duplicateCount: number } => {
+  const remaining = new Map<string, number>();
+  for (const transaction of existing) {
+    const key = getImportKey(transaction);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  const transactions = imported.filter(transaction => {
+    const key = getImportKey(transaction);
+    const count = remaining.get(key) ?? 0;
+    if (count === 0) return true;
+    remaining.set(key, count - 1);
+    return false;
+  });
+
+  return {
+    transactions,
+    duplicateCount: imported.length - transactions.length,
+  };
+};
@@ -0,0 +1,307 @@
+/* compiles a parsed search query into a transaction predicate
+ * date terms are resolved to instants once per compile, so matching a large list
+ * only compares timestamps */
+import {
+  SearchQueryNode,
+  SearchQueryTerm,
+  SearchTextField,
+} from '../types/searchQuery';
+import { Transaction } from '../types/transaction';
+import { SearchIndexTerm } from '../types/searchIndex';
+import { normalizeString } from '../helpers/normalizeString';
+import { Formatters } from './createFormatters';
+import { fuzzyIncludes, scoreTextMatch } from './fuzzyMatch';
+import {
+  isWithinDateRange,
+  ResolvedDateRange,
+  shiftDayKey,
+} from './resolveDateRange';
+
+// index is the transaction's position in the list being filtered
+export type TransactionPredicate = (
+  transaction: Transaction,
+  index: number
+) => boolean;
+
+export interface SearchMatchOptions {
+  formatters: Formatters;
+  // amount compared by amount: terms, e.g. converted into the reporting currency
+  getAmount?: (transaction: Transaction) => number;
+  // tolerates typos in FUZZY_FIELDS, which free text terms then search as well
+  fuzzy?: boolean;
+  // precomputed matches for text terms, e.g. from the search index; scanned when undefined
+  matchIndexedTerm?: (
+    term: SearchIndexTerm
+  ) => TransactionPredicate | undefined;
+}
+
+export const TEXT_FIELD_READERS: Record<
+  SearchTextField,
+  (transaction: Transaction) => string | undefined
+> = {
+  merchant: transaction => transaction.merchantName,
+  description: transaction => transaction.description,
+  category: transaction => transaction.category,
+  location: transaction => transaction.location,
+  reference: transaction => transaction.reference,
+  id: transaction => transaction.id,
+  account: transaction => transaction.accountId,
+  user: transaction => transaction.userId,
+};
+
+// fields searched by free text terms without a qualifier, besides the amount
+export const FREE_TEXT_FIELDS: SearchTextField[] = [
+  'description',
+  'merchant',
+  'category',
+  'id',
+];
+
+// fields where fuzzy search tolerates typos, e.g. misspelt merchant names
+// references are nearly all distinct and only ever matched exactly
+export const FUZZY_FIELDS: SearchTextField[] = [
+  'merchant',
+  'description',
+  'location',
+];
+
+// fields a free text term searches in fuzzy mode, besides FREE_TEXT_FIELDS
+const FUZZY_FREE_TEXT_FIELDS: SearchTextField[] = [
+  ...FUZZY_FIELDS,
+  'reference',
+];
+
+// fields a free text term searches in the given mode
+export const getFreeTextFields = (fuzzy: boolean): SearchTextField[] =>
+  fuzzy
+    ? Array.from(new Set([...FREE_TEXT_FIELDS, ...FUZZY_FREE_TEXT_FIELDS]))
+    : FREE_TEXT_FIELDS;
+
+// checks a normalised field text against a normalised value, the test the search index mirrors
+export const fieldTextMatches = (
+  field: SearchTextField,
+  text: string,
+  value: string,
+  fuzzy: boolean
+) =>
+  fuzzy && FUZZY_FIELDS.includes(field)
+    ? fuzzyIncludes(text, value)
+    : text.includes(value);
+
+const fieldContains = (
+  transaction: Transaction,
+  field: SearchTextField,
+  value: string,
+  fuzzy: boolean
+) =>
+  fieldTextMatches(
+    field,
+    normalizeString(TEXT_FIELD_READERS[field](transaction) ?? ''),
+    value,
+    fuzzy
+  );
+
+// turns a date term into a window of whole days in the user's time zone
+const resolveDateTerm = (
+  term: Extract<SearchQueryTerm, { kind: 'date' }>,
+  { parseDayKey }: Formatters
+): ResolvedDateRange => {
+  const dayStart = parseDayKey(term.day) ?? undefined;
+  const dayEnd = parseDayKey(shiftDayKey(term.day, 1)) ?? undefined;
+
+  if (term.toDay) {
+    return {
+      start: dayStart,
+      end: parseDayKey(shiftDayKey(term.toDay, 1)) ?? undefined,
+    };
+  }
+
+  switch (term.comparator) {
+    case '>':
+      return { start: dayEnd };
+    case '>=':
+      return { start: dayStart };
+    case '<':
+      return { end: dayStart };
+    case '<=':
+      return { end: dayEnd };
+    default:
+      return { start: dayStart, end: dayEnd };
+  }
+};
+
+const compileTerm = (
+  term: SearchQueryTerm,
+  { formatters, getAmount, fuzzy = false, matchIndexedTerm }: SearchMatchOptions
+): TransactionPredicate => {
+  if (term.kind === 'text' || term.kind === 'field') {
+    const indexed = matchIndexedTerm?.(term);
+    if (indexed) return indexed;
+  }
+
+  switch (term.kind) {
+    case 'text': {
+      const value = normalizeString(term.value);
+      const rawValue = term.value.toLowerCase();
+      const fields = getFreeTextFields(fuzzy);
+      return transaction =>
+        fields.some(field => fieldContains(transaction, field, value, fuzzy)) ||
+        transaction.amount.toString().includes(rawValue);
+    }
+    case 'field': {
+      const value = normalizeString(term.value);
+      return transaction =>
+        fieldContains(transaction, term.field, value, fuzzy);
+    }
+    case 'status':
+      return transaction => transaction.status === term.value;
+    case 'type':
+      return transaction => transaction.type === term.value;
+    case 'currency':
+      return transaction => transaction.currency.toUpperCase() === term.value;
+    case 'amount':
+      return transaction => {
+        const amount = getAmount ? getAmount(transaction) : transaction.amount;
+        if (term.max !== undefined) {
+          return amount >= term.value && amount <= term.max;
+        }
+        switch (term.comparator) {
+          case '>':
+            return amount > term.value;
+          case '>=':
+            return amount >= term.value;
+          case '<':
+            return amount < term.value;
+          case '<=':
+            return amount <= term.value;
+          default:
+            return amount === term.value;
+        }
+      };
+    case 'date': {
+      const range = resolveDateTerm(term, formatters);
+      return transaction => isWithinDateRange(transaction.timestamp, range);
+    }
+  }
+};
+
+export const compileSearchQuery = (
+  node: SearchQueryNode,
+  options: SearchMatchOptions
+): TransactionPredicate => {
+  switch (node.kind) {
+    case 'term':
+      return compileTerm(node.term, options);
+    case 'not': {
+      const operand = compileSearchQuery(node.operand, options);
+      return (transaction, index) => !operand(transaction, index);
+    }
+    case 'and': {
+      const operands = node.operands.map(child =>
+        compileSearchQuery(child, options)
+      );
+      return (transaction, index) =>
+        operands.every(operand => operand(transaction, index));
+    }
+    case 'or': {
+      const operands = node.operands.map(child =>
+        compileSearchQuery(child, options)
+      );
+      return (transaction, index) =>
+        operands.some(operand => operand(transaction, index));
+    }
+  }
+};
+
+// text terms in the query, in the order they appear
+export const collectIndexTerms = (
+  node: SearchQueryNode,
+  terms: SearchIndexTerm[] = []
+): SearchIndexTerm[] => {
+  if (node.kind === 'term') {
+    if (node.term.kind === 'text' || node.term.kind === 'field') {
+      terms.push(node.term);
+    }
+  } else if (node.kind === 'not') {
+    collectIndexTerms(node.operand, terms);
+  } else {
+    node.operands.forEach(operand => collectIndexTerms(operand, terms));
+  }
+  return terms;
+};
+
+/* picks the rows a query can possibly match from per-term index results
+ * a term every match must satisfy bounds the result, so only its rows need checking;
+ * returns null when the whole list has to be scanned */
+export const findCandidateRows = (
+  node: SearchQueryNode,
+  matches: Map<SearchQueryTerm, Int32Array>
+): Int32Array | null => {
+  if (node.kind === 'term') return matches.get(node.term) ?? null;
+  if (node.kind !== 'and') return null;
+
+  let smallest: Int32Array | null = null;
+  for (const operand of node.operands) {
+    const rows = findCandidateRows(operand, matches);
+    if (rows && (!smallest || rows.length < smallest.length)) smallest = rows;
+  }
+  return smallest;
+};
+
+// how much each field counts towards relevance; a merchant hit beats a description hit
+const RELEVANCE_WEIGHTS: Partial<Record<SearchTextField, number>> = {
+  merchant: 1,
+  description: 0.8,
+  reference: 0.6,
+  location: 0.6,
+  category: 0.5,
+  id: 0.5,
+};
+
+// text terms a match has to satisfy, skipping negated ones
+const collectPositiveTerms = (
+  node: SearchQueryNode,
+  terms: SearchIndexTerm[] = []
+): SearchIndexTerm[] => {
+  if (node.kind === 'term') {
+    if (node.term.kind === 'text' || node.term.kind === 'field') {
+      terms.push(node.term);
+    }
+  } else if (node.kind !== 'not') {
+    node.operands.forEach(operand => collectPositiveTerms(operand, terms));
+  }
+  return terms;
+};
+
+/* scores a transaction's relevance to the query's text terms for ranked ordering
+ * each term counts its best field match, weighted by field; higher is more relevant */
+export const createRelevanceScorer = (
+  node: SearchQueryNode,
+  fuzzy = false
+): ((transaction: Transaction) => number) => {
+  const terms = collectPositiveTerms(node).map(term => ({
+    value: normalizeString(term.value),
+    fields: term.kind === 'field' ? [term.field] : getFreeTextFields(fuzzy),
+  }));
+
+  return transaction =>
+    terms.reduce((score, { value, fields }) => {
+      let best = 0;
+      fields.forEach(field => {
+        const text = normalizeString(
+          TEXT_FIELD_READERS[field](transaction) ?? ''
+        );
+        const fieldScore =
+          scoreTextMatch(text, value, fuzzy && FUZZY_FIELDS.includes(field)) *
+          (RELEVANCE_WEIGHTS[field] ?? 0.4);
+        best = Math.max(best, fieldScore);
+      });
+      return score + best;
+    }, 0);
+};
+
+// words worth highlighting in results: the values of text terms that are not negated
+export const getHighlightTerms = (node: SearchQueryNode): string[] =>
+  collectPositiveTerms(node)
+    .map(term => term.value.trim())
+    .filter(Boolean);
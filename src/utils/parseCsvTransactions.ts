@@ -0,0 +1,291 @@
+/* CSV bank statement import
+ * tokenizes RFC 4180 style CSV, suggests a column mapping from the header row
+ * and converts mapped rows into transactions with per-row validation errors */
+import { Transaction } from '../types/transaction';
+import {
+  CsvColumnMapping,
+  CsvImportField,
+  CsvPreview,
+  ImportDateOrder,
+  ImportOptions,
+  ImportResult,
+  ImportRowError,
+} from '../types/transactionImport';
+import {
+  createImportedTransaction,
+  parseImportAmount,
+  parseImportDate,
+  parseImportStatus,
+  parseImportType,
+} from './parseImportFields';
+
+const PREVIEW_ROW_COUNT = 5;
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+export const REQUIRED_CSV_FIELDS: CsvImportField[] = [
+  'date',
+  'amount',
+  'description',
+];
+
+// header spellings commonly used by banks, matched after lowercasing and stripping punctuation
+const FIELD_ALIASES: Record<CsvImportField, string[]> = {
+  date: [
+    'date',
+    'transactiondate',
+    'posteddate',
+    'postingdate',
+    'bookingdate',
+    'valuedate',
+    'txndate',
+  ],
+  amount: ['amount', 'transactionamount', 'value', 'amt', 'sum'],
+  description: [
+    'description',
+    'details',
+    'memo',
+    'narrative',
+    'transactiondescription',
+    'particulars',
+  ],
+  merchantName: [
+    'merchant',
+    'merchantname',
+    'payee',
+    'name',
+    'counterparty',
+    'beneficiary',
+  ],
+  category: ['category', 'transactioncategory'],
+  type: ['type', 'transactiontype', 'debitcredit', 'drcr'],
+  currency: ['currency', 'ccy', 'currencycode'],
+  status: ['status', 'state'],
+  reference: [
+    'reference',
+    'ref',
+    'checknumber',
+    'chequenumber',
+    'transactionid',
+    'fitid',
+  ],
+  accountId: ['account', 'accountid', 'accountnumber'],
+};
+
+export interface CsvRow {
+  // 1-based line on which the row starts
+  line: number;
+  cells: string[];
+}
+
+// picks the candidate delimiter that appears most often in the first line
+export const detectCsvDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/* splits CSV text into rows of cells in a single pass
+ * supports quoted cells containing delimiters, escaped quotes and newlines; skips blank lines */
+export const tokenizeCsv = (text: string, delimiter: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  // strip a UTF-8 byte order mark left by spreadsheet exports
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell.trim() === '') {
+      cell = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || cells.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z]/g, '');
+
+// maps each field to the first header matching one of its aliases, without reusing columns
+export const suggestCsvMapping = (headers: string[]): CsvColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<number>();
+
+  (Object.keys(FIELD_ALIASES) as CsvImportField[]).forEach(field => {
+    const index = normalized.findIndex(
+      (header, column) =>
+        !used.has(column) && FIELD_ALIASES[field].includes(header)
+    );
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+};
+
+/* guesses the day/month order from sample date values
+ * a first part above 12 means day-first, a second part above 12 means month-first */
+export const suggestDateOrder = (values: string[]): ImportDateOrder => {
+  for (const value of values) {
+    const parts = value
+      .trim()
+      .split(/[/.\-' ]/)
+      .map(Number);
+    if (parts.length < 3 || parts.some(Number.isNaN)) continue;
+    if (value.trim().match(/^\d{4}/)) return 'ymd';
+    if (parts[0] > 12) return 'dmy';
+    if (parts[1] > 12) return 'mdy';
+  }
+  return 'mdy';
+};
+
+// header row, sample rows and suggestions for the column-mapping step
+export const inspectCsv = (text: string): CsvPreview => {
+  const [header, ...rows] = tokenizeCsv(text, detectCsvDelimiter(text));
+  const headers = header?.cells.map(cell => cell.trim()) ?? [];
+  const suggestedMapping = suggestCsvMapping(headers);
+  const dateColumn = suggestedMapping.date;
+
+  return {
+    headers,
+    rows: rows.slice(0, PREVIEW_ROW_COUNT).map(row => row.cells),
+    totalRows: rows.length,
+    suggestedMapping,
+    suggestedDateOrder:
+      dateColumn === undefined
+        ? 'mdy'
+        : suggestDateOrder(rows.map(row => row.cells[dateColumn] ?? '')),
+  };
+};
+
+/* converts mapped CSV rows into transactions
+ * the first row is treated as the header; invalid rows are reported and skipped */
+export const parseCsvTransactions = (
+  text: string,
+  { mapping = {}, dateOrder, defaultCurrency }: ImportOptions,
+  importId: string
+): ImportResult => {
+  const missing = REQUIRED_CSV_FIELDS.filter(
+    field => mapping[field] === undefined
+  );
+  if (missing.length > 0) {
+    return {
+      format: 'csv',
+      transactions: [],
+      errors: [
+        {
+          line: 1,
+          message: `Missing column mapping for ${missing.join(', ')}`,
+        },
+      ],
+    };
+  }
+
+  const [, ...rows] = tokenizeCsv(text, detectCsvDelimiter(text));
+  const transactions: Transaction[] = [];
+  const errors: ImportRowError[] = [];
+
+  // reads a mapped cell, returning an empty string for unmapped fields or short rows
+  const read = (cells: string[], field: CsvImportField) => {
+    const column = mapping[field];
+    return column === undefined ? '' : (cells[column] ?? '').trim();
+  };
+
+  for (const { line, cells } of rows) {
+    const rawDate = read(cells, 'date');
+    const rawAmount = read(cells, 'amount');
+    const description = read(cells, 'description');
+    const rawType = read(cells, 'type');
+
+    const timestamp = parseImportDate(rawDate, dateOrder);
+    const amount = parseImportAmount(rawAmount);
+    const type = rawType ? parseImportType(rawType) : null;
+
+    const problems: string[] = [];
+    if (!timestamp) problems.push(`invalid date "${rawDate}"`);
+    if (amount === null) problems.push(`invalid amount "${rawAmount}"`);
+    if (!description) problems.push('missing description');
+    if (rawType && !type) problems.push(`unknown type "${rawType}"`);
+
+    if (problems.length > 0 || !timestamp || amount === null) {
+      errors.push({ line, message: problems.join('; ') });
+      continue;
+    }
+
+    const rawStatus = read(cells, 'status');
+
+    transactions.push(
+      createImportedTransaction({
+        importId,
+        line,
+        timestamp,
+        amount,
+        description,
+        type,
+        merchantName: read(cells, 'merchantName'),
+        category: read(cells, 'category'),
+        currency: read(cells, 'currency') || defaultCurrency,
+        status: rawStatus ? parseImportStatus(rawStatus) : undefined,
+        reference: read(cells, 'reference'),
+        accountId: read(cells, 'accountId'),
+      })
+    );
+  }
+
+  return { format: 'csv', transactions, errors };
+};
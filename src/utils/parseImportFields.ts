@@ -0,0 +1,206 @@
+/* field-level parsing shared by the CSV, OFX and QIF importers
+ * each parser returns null for unusable input so callers can report a row error */
+import {
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+} from '../types/transaction';
+import { ImportDateOrder } from '../types/transactionImport';
+
+export const IMPORTED_CATEGORY = 'Uncategorized';
+export const IMPORTED_USER_ID = 'imported';
+export const IMPORTED_ACCOUNT_ID = 'imported';
+
+const ISO_DATE_PATTERN =
+  /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s](\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+const NUMERIC_DATE_PATTERN = /^(\d{1,4})[/.\-' ](\d{1,2})[/.\-' ]\s*(\d{1,4})$/;
+
+// expands two-digit years, treating 70-99 as the 1900s like most bank exports do
+const expandYear = (year: number) =>
+  year >= 100 ? year : year < 70 ? 2000 + year : 1900 + year;
+
+// builds a local calendar date, rejecting overflow such as 31/02
+const createCalendarDate = (
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+): Date | null => {
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    return null;
+  }
+  return date;
+};
+
+/* parses ISO dates and numeric dates in the given day/month/year order
+ * accepts /, ., - and the QIF apostrophe as separators and two-digit years */
+export const parseImportDate = (
+  value: string,
+  order: ImportDateOrder
+): Date | null => {
+  const trimmed = value.trim();
+
+  const iso = ISO_DATE_PATTERN.exec(trimmed);
+  if (iso) {
+    const [, year, month, day, hours, minutes, seconds] = iso;
+    return createCalendarDate(
+      Number(year),
+      Number(month),
+      Number(day),
+      Number(hours ?? 0),
+      Number(minutes ?? 0),
+      Number(seconds ?? 0)
+    );
+  }
+
+  const numeric = NUMERIC_DATE_PATTERN.exec(trimmed);
+  if (!numeric) {
+    return null;
+  }
+
+  const [first, second, third] = numeric.slice(1).map(Number);
+  // a leading four-digit year is unambiguous whatever order was requested
+  if (numeric[1].length === 4 || order === 'ymd') {
+    return createCalendarDate(expandYear(first), second, third);
+  }
+
+  return order === 'mdy'
+    ? createCalendarDate(expandYear(third), first, second)
+    : createCalendarDate(expandYear(third), second, first);
+};
+
+/* parses a signed amount as written in bank exports
+ * handles currency symbols, thousands separators, decimal commas,
+ * (parentheses) and trailing minus signs for negatives */
+export const parseImportAmount = (value: string): number | null => {
+  let text = value.trim().replace(/\s/g, '');
+  if (!text) {
+    return null;
+  }
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  // strip currency symbols and codes on either side of the number
+  text = text.replace(/^[^\d.,-]+|[^\d.,]+$/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  // whichever separator comes last is the decimal one; a lone comma only counts
+  // as decimal when followed by one or two digits (1,50 vs 1,500)
+  const decimalComma =
+    lastComma > lastDot && (lastDot !== -1 || /,\d{1,2}$/.test(text));
+
+  const normalized = decimalComma
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  if (!/^\d*\.?\d+$|^\d+\.$/.test(normalized)) {
+    return null;
+  }
+
+  const amount = Number(normalized);
+  return negative ? -amount : amount;
+};
+
+// maps free-form debit/credit markers (DR, CR, withdrawal, deposit...) onto a transaction type
+export const parseImportType = (value: string): TransactionType | null => {
+  const normalized = value.trim().toLowerCase();
+  if (
+    /^(debit|dr|d|withdrawal|payment|purchase|pos|atm|fee|check|cheque)$/.test(
+      normalized
+    )
+  ) {
+    return 'debit';
+  }
+  if (
+    /^(credit|cr|c|deposit|refund|interest|dividend|income|dep|directdep)$/.test(
+      normalized
+    )
+  ) {
+    return 'credit';
+  }
+  return null;
+};
+
+// maps bank status wording onto a transaction status, defaulting to completed
+export const parseImportStatus = (value: string): TransactionStatus => {
+  const normalized = value.trim().toLowerCase();
+  if (/pending|processing|authori[sz]ed|uncleared/.test(normalized)) {
+    return 'pending';
+  }
+  if (/fail|declin|reject|reversed|returned/.test(normalized)) {
+    return 'failed';
+  }
+  return 'completed';
+};
+
+interface ImportedTransactionFields {
+  importId: string;
+  line: number;
+  timestamp: Date;
+  // signed as in the source file; negative amounts are debits unless a type is given
+  amount: number;
+  description: string;
+  type?: TransactionType | null;
+  merchantName?: string;
+  category?: string;
+  currency: string;
+  status?: TransactionStatus;
+  reference?: string;
+  accountId?: string;
+}
+
+/* converts parsed fields into the dashboard's Transaction shape
+ * amounts are stored unsigned with the direction carried by type, as the generator does */
+export const createImportedTransaction = ({
+  importId,
+  line,
+  timestamp,
+  amount,
+  description,
+  type,
+  merchantName,
+  category,
+  currency,
+  status = 'completed',
+  reference,
+  accountId,
+}: ImportedTransactionFields): Transaction => ({
+  id: `imp_${importId}_${line}`,
+  timestamp,
+  amount: Math.abs(amount),
+  currency: currency.toUpperCase(),
+  type: type ?? (amount < 0 ? 'debit' : 'credit'),
+  category: category || IMPORTED_CATEGORY,
+  description,
+  merchantName: merchantName || description,
+  status,
+  userId: IMPORTED_USER_ID,
+  accountId: accountId || IMPORTED_ACCOUNT_ID,
+  reference: reference || undefined,
+});
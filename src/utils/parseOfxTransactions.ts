@@ -0,0 +1,179 @@
+/* OFX / QFX bank statement import
+ * handles both SGML (OFX 1.x, unclosed leaf tags) and XML (OFX 2.x) bodies
+ * by reading leaf values tag by tag inside each STMTTRN block */
+import { Transaction } from '../types/transaction';
+import { ImportResult, ImportRowError } from '../types/transactionImport';
+import {
+  createImportedTransaction,
+  parseImportAmount,
+  parseImportType,
+} from './parseImportFields';
+
+const TRANSACTION_BLOCK_PATTERN =
+  /<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>))/gi;
+const LEAF_TAG_PATTERN = /<([A-Z0-9.]+)>([^<\r\n]*)/gi;
+const OFX_DATE_PATTERN =
+  /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?(?:\.\d+)?)?(?:\[([+-]?\d+(?:\.\d+)?)(?::[A-Z]+)?\])?/i;
+
+// OFX transaction types that describe money leaving the account
+const DEBIT_TRANSACTION_TYPES = new Set([
+  'DEBIT',
+  'PAYMENT',
+  'CHECK',
+  'ATM',
+  'POS',
+  'FEE',
+  'SRVCHG',
+  'CASH',
+  'DIRECTDEBIT',
+  'REPEATPMT',
+]);
+
+// reads every leaf tag in a block into an upper-cased tag -> value map
+const readLeafTags = (block: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+  for (const [, tag, value] of block.matchAll(LEAF_TAG_PATTERN)) {
+    const trimmed = value.trim();
+    if (trimmed) values[tag.toUpperCase()] = trimmed;
+  }
+  return values;
+};
+
+// decodes the handful of entities OFX files use in free text
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/* parses OFX datetimes such as 20240115, 20240115093000 or 20240115093000.000[-5:EST]
+ * the bracketed offset is in hours from UTC; dates without one are read as local time */
+export const parseOfxDate = (value: string): Date | null => {
+  const match = OFX_DATE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [
+    ,
+    year,
+    month,
+    day,
+    hours = '0',
+    minutes = '0',
+    seconds = '0',
+    offset,
+  ] = match;
+  const parts = [year, month, day, hours, minutes, seconds].map(Number);
+  if (parts[1] < 1 || parts[1] > 12 || parts[2] < 1 || parts[2] > 31) {
+    return null;
+  }
+
+  if (offset === undefined) {
+    return new Date(
+      parts[0],
+      parts[1] - 1,
+      parts[2],
+      parts[3],
+      parts[4],
+      parts[5]
+    );
+  }
+
+  const utc = Date.UTC(
+    parts[0],
+    parts[1] - 1,
+    parts[2],
+    parts[3],
+    parts[4],
+    parts[5]
+  );
+  return new Date(utc - Number(offset) * 60 * 60 * 1000);
+};
+
+// returns a lookup from character offset to 1-based line, for offsets visited in ascending order
+const createLineCounter = (text: string) => {
+  let position = 0;
+  let line = 1;
+  return (index: number) => {
+    for (; position < index; position++) {
+      if (text.charCodeAt(position) === 10) line++;
+    }
+    return line;
+  };
+};
+
+export const parseOfxTransactions = (
+  text: string,
+  importId: string,
+  defaultCurrency = 'USD'
+): ImportResult => {
+  const transactions: Transaction[] = [];
+  const errors: ImportRowError[] = [];
+
+  const firstBlock = text.search(/<STMTTRN>/i);
+  const header = readLeafTags(
+    firstBlock === -1 ? text : text.slice(0, firstBlock)
+  );
+  const currency = header.CURDEF ?? defaultCurrency;
+  const accountId = header.ACCTID;
+  const lineAt = createLineCounter(text);
+
+  for (const match of text.matchAll(TRANSACTION_BLOCK_PATTERN)) {
+    const line = lineAt(match.index ?? 0);
+    const fields = readLeafTags(match[1]);
+
+    const timestamp = parseOfxDate(fields.DTPOSTED ?? fields.DTUSER ?? '');
+    const amount = parseImportAmount(fields.TRNAMT ?? '');
+    const name = decodeEntities(fields.NAME ?? fields.PAYEE ?? '');
+    const memo = decodeEntities(fields.MEMO ?? '');
+    const description = memo || name;
+
+    const problems: string[] = [];
+    if (!timestamp)
+      problems.push(`invalid DTPOSTED "${fields.DTPOSTED ?? ''}"`);
+    if (amount === null)
+      problems.push(`invalid TRNAMT "${fields.TRNAMT ?? ''}"`);
+    if (!description) problems.push('missing NAME and MEMO');
+
+    if (problems.length > 0 || !timestamp || amount === null) {
+      errors.push({ line, message: problems.join('; ') });
+      continue;
+    }
+
+    const trnType = fields.TRNTYPE?.toUpperCase();
+    // the amount sign is authoritative; TRNTYPE only decides unsigned amounts
+    const type =
+      amount !== 0
+        ? null
+        : trnType && DEBIT_TRANSACTION_TYPES.has(trnType)
+          ? 'debit'
+          : trnType
+            ? parseImportType(trnType)
+            : null;
+
+    transactions.push(
+      createImportedTransaction({
+        importId,
+        line,
+        timestamp,
+        amount,
+        description,
+        type,
+        merchantName: name,
+        // foreign-currency transactions carry their own CURRENCY aggregate
+        currency: fields.CURSYM ?? currency,
+        reference: fields.FITID ?? fields.CHECKNUM ?? fields.REFNUM,
+        accountId,
+      })
+    );
+  }
+
+  if (transactions.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: 'No STMTTRN records found' });
+  }
+
+  return { format: 'ofx', transactions, errors };
+};
@@ -0,0 +1,120 @@
+/* QIF (Quicken Interchange Format) bank statement import
+ * records are runs of single-letter field lines terminated by ^;
+ * only bank, cash and credit card sections are read, other sections are skipped */
+import { Transaction } from '../types/transaction';
+import {
+  ImportDateOrder,
+  ImportResult,
+  ImportRowError,
+} from '../types/transactionImport';
+import {
+  createImportedTransaction,
+  parseImportAmount,
+  parseImportDate,
+} from './parseImportFields';
+
+// !Type headers whose records are account transactions
+const TRANSACTION_SECTIONS = new Set([
+  'bank',
+  'cash',
+  'ccard',
+  'oth a',
+  'oth l',
+]);
+
+interface QifRecord {
+  line: number;
+  fields: Record<string, string>;
+}
+
+export const parseQifTransactions = (
+  text: string,
+  importId: string,
+  // US software writes month-first dates, which is the QIF default
+  dateOrder: ImportDateOrder = 'mdy',
+  currency = 'USD'
+): ImportResult => {
+  const transactions: Transaction[] = [];
+  const errors: ImportRowError[] = [];
+  const records: QifRecord[] = [];
+
+  let inTransactions = true;
+  let current: QifRecord | null = null;
+
+  // first pass: group field lines into records, remembering where each record starts
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      const header = line.toLowerCase();
+      if (header.startsWith('!type:')) {
+        inTransactions = TRANSACTION_SECTIONS.has(header.slice(6).trim());
+      } else if (header.startsWith('!account')) {
+        inTransactions = false;
+      }
+      current = null;
+      return;
+    }
+
+    if (line === '^') {
+      if (current && inTransactions) records.push(current);
+      current = null;
+      return;
+    }
+
+    current ??= { line: index + 1, fields: {} };
+    const code = line[0].toUpperCase();
+    // split lines (S/E/$) repeat per split; only the first value of each code is kept
+    if (!(code in current.fields)) {
+      current.fields[code] = line.slice(1).trim();
+    }
+  });
+
+  // tolerate a missing terminator on the final record
+  if (current && inTransactions) records.push(current);
+
+  for (const { line, fields } of records) {
+    const rawDate = fields.D ?? '';
+    const rawAmount = fields.T ?? fields.U ?? '';
+    const payee = fields.P ?? '';
+    const memo = fields.M ?? '';
+    const description = memo || payee;
+
+    const timestamp = parseImportDate(rawDate.replace(/\s/g, ''), dateOrder);
+    const amount = parseImportAmount(rawAmount);
+
+    const problems: string[] = [];
+    if (!timestamp) problems.push(`invalid date "${rawDate}"`);
+    if (amount === null) problems.push(`invalid amount "${rawAmount}"`);
+    if (!description) problems.push('missing payee and memo');
+
+    if (problems.length > 0 || !timestamp || amount === null) {
+      errors.push({ line, message: problems.join('; ') });
+      continue;
+    }
+
+    // L holds "Category:Subcategory" or "[Transfer account]"
+    const category = fields.L?.replace(/^\[(.*)\]$/, 'Transfer').split(':')[0];
+
+    transactions.push(
+      createImportedTransaction({
+        importId,
+        line,
+        timestamp,
+        amount,
+        description,
+        merchantName: payee,
+        category,
+        currency,
+        reference: fields.N,
+      })
+    );
+  }
+
+  if (transactions.length === 0 && errors.length === 0) {
+    errors.push({ line: 1, message: 'No transaction records found' });
+  }
+
+  return { format: 'qif', transactions, errors };
+};
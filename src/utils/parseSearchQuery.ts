@@ -0,0 +1,410 @@
+/* parser for the search bar query language, e.g.
+ *   merchant:amazon amount:>500 status:failed after:2026-01-01 -category:"Food & Dining"
+ * terms are joined by AND unless separated by OR; NOT or a leading minus negates,
+ * and parentheses group. invalid terms are reported with their position and skipped
+ * so the rest of the query still filters */
+import {
+  ParsedSearchQuery,
+  SearchComparator,
+  SearchField,
+  SearchQueryError,
+  SearchQueryNode,
+  SearchQuerySpan,
+  SearchQueryTerm,
+  SearchTextField,
+} from '../types/searchQuery';
+import { TransactionStatus, TransactionType } from '../types/transaction';
+
+export const SEARCH_FIELD_DESCRIPTIONS: Record<SearchField, string> = {
+  merchant: 'Merchant name contains',
+  description: 'Description contains',
+  category: 'Category contains',
+  location: 'Location contains',
+  reference: 'Reference contains',
+  id: 'Transaction ID contains',
+  account: 'Account ID contains',
+  user: 'User ID contains',
+  status: 'completed, pending or failed',
+  type: 'debit or credit',
+  currency: 'ISO currency code',
+  amount: 'e.g. >500, <=20, 100..250',
+  date: 'e.g. 2026-01-31, >=2026-01-01, 2026-01-01..2026-01-31',
+  before: 'Before a day, e.g. 2026-02-01',
+  after: 'On or after a day, e.g. 2026-01-01',
+};
+
+export const SEARCH_FIELDS = Object.keys(
+  SEARCH_FIELD_DESCRIPTIONS
+) as SearchField[];
+
+export const SEARCH_STATUS_VALUES: TransactionStatus[] = [
+  'completed',
+  'pending',
+  'failed',
+];
+export const SEARCH_TYPE_VALUES: TransactionType[] = ['debit', 'credit'];
+
+// common synonyms accepted in place of the canonical field names
+const FIELD_ALIASES: Record<string, SearchField> = {
+  merchantname: 'merchant',
+  desc: 'description',
+  cat: 'category',
+  loc: 'location',
+  ref: 'reference',
+  accountid: 'account',
+  userid: 'user',
+  ccy: 'currency',
+  amt: 'amount',
+  on: 'date',
+  since: 'after',
+  until: 'before',
+};
+
+const TEXT_FIELDS = new Set<SearchField>([
+  'merchant',
+  'description',
+  'category',
+  'location',
+  'reference',
+  'id',
+  'account',
+  'user',
+]);
+
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=)?(.*)$/;
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?$/;
+
+type Token =
+  | { kind: 'lparen'; span: SearchQuerySpan }
+  | { kind: 'rparen'; span: SearchQuerySpan }
+  | { kind: 'or'; span: SearchQuerySpan }
+  | { kind: 'and'; span: SearchQuerySpan }
+  | { kind: 'not'; span: SearchQuerySpan }
+  | {
+      kind: 'term';
+      // field name as typed, when the term has a qualifier
+      field?: string;
+      value: string;
+      // value came from a quoted string, so keywords and operators are literal
+      quoted: boolean;
+      span: SearchQuerySpan;
+    };
+
+// resolves a typed field name, accepting aliases and any letter case
+export const resolveSearchField = (name: string): SearchField | null => {
+  const lower = name.toLowerCase();
+  if ((SEARCH_FIELDS as string[]).includes(lower)) return lower as SearchField;
+  return FIELD_ALIASES[lower] ?? null;
+};
+
+const isBoundary = (char: string | undefined) =>
+  char === undefined || /[\s()]/.test(char);
+
+// reads a possibly quoted value starting at index; returns the value and the end offset
+const readValue = (
+  text: string,
+  index: number,
+  errors: SearchQueryError[]
+): { value: string; quoted: boolean; end: number } => {
+  if (text[index] === '"') {
+    const close = text.indexOf('"', index + 1);
+    if (close === -1) {
+      errors.push({
+        message: 'Missing closing quote',
+        start: index,
+        end: text.length,
+      });
+      return { value: text.slice(index + 1), quoted: true, end: text.length };
+    }
+    return {
+      value: text.slice(index + 1, close),
+      quoted: true,
+      end: close + 1,
+    };
+  }
+
+  let end = index;
+  while (!isBoundary(text[end])) end += 1;
+  return { value: text.slice(index, end), quoted: false, end };
+};
+
+// splits the query into parentheses, keywords and (field:)value terms
+const tokenize = (text: string, errors: SearchQueryError[]): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({
+        kind: char === '(' ? 'lparen' : 'rparen',
+        span: { start: index, end: index + 1 },
+      });
+      index += 1;
+      continue;
+    }
+    // a minus directly before a term negates it; on its own it is just text
+    if (char === '-' && !isBoundary(text[index + 1])) {
+      tokens.push({ kind: 'not', span: { start: index, end: index + 1 } });
+      index += 1;
+      continue;
+    }
+
+    const start = index;
+    const qualifier = /^([a-z]+):/i.exec(text.slice(index));
+    if (qualifier) {
+      const read = readValue(text, index + qualifier[0].length, errors);
+      tokens.push({
+        kind: 'term',
+        field: qualifier[1],
+        value: read.value,
+        quoted: read.quoted,
+        span: { start, end: read.end },
+      });
+      index = read.end;
+      continue;
+    }
+
+    const read = readValue(text, index, errors);
+    const span = { start, end: read.end };
+    // keywords only count in upper case, so "or" and "not" stay searchable words
+    if (!read.quoted && ['AND', 'OR', 'NOT'].includes(read.value)) {
+      tokens.push({
+        kind: read.value.toLowerCase() as 'and' | 'or' | 'not',
+        span,
+      });
+    } else {
+      tokens.push({
+        kind: 'term',
+        value: read.value,
+        quoted: read.quoted,
+        span,
+      });
+    }
+    index = read.end;
+  }
+
+  return tokens;
+};
+
+// validates a yyyy-MM-dd calendar day
+const isValidDay = (day: string) => {
+  const match = DAY_PATTERN.exec(day);
+  if (!match) return false;
+  const [year, month, date] = match.slice(1).map(Number);
+  const calendar = new Date(Date.UTC(year, month - 1, date));
+  return calendar.getUTCMonth() === month - 1 && calendar.getUTCDate() === date;
+};
+
+// builds the typed term for a field qualifier, or an error message
+const createFieldTerm = (
+  field: SearchField,
+  value: string
+): SearchQueryTerm | string => {
+  if (!value) return `Missing value for ${field}:`;
+
+  if (TEXT_FIELDS.has(field)) {
+    return { kind: 'field', field: field as SearchTextField, value };
+  }
+
+  const lower = value.toLowerCase();
+  switch (field) {
+    case 'status':
+      return (SEARCH_STATUS_VALUES as string[]).includes(lower)
+        ? { kind: 'status', value: lower as TransactionStatus }
+        : `Unknown status "${value}", expected ${SEARCH_STATUS_VALUES.join(', ')}`;
+    case 'type':
+      return (SEARCH_TYPE_VALUES as string[]).includes(lower)
+        ? { kind: 'type', value: lower as TransactionType }
+        : `Unknown type "${value}", expected ${SEARCH_TYPE_VALUES.join(' or ')}`;
+    case 'currency':
+      return /^[a-z]{3}$/i.test(value)
+        ? { kind: 'currency', value: value.toUpperCase() }
+        : `"${value}" is not a three-letter currency code`;
+    case 'amount': {
+      const [min, max] = value.split('..');
+      if (max !== undefined) {
+        return NUMBER_PATTERN.test(min) &&
+          NUMBER_PATTERN.test(max) &&
+          Number(min) <= Number(max)
+          ? {
+              kind: 'amount',
+              comparator: '>=',
+              value: Number(min),
+              max: Number(max),
+            }
+          : `Invalid amount range "${value}", expected e.g. 100..250`;
+      }
+      const [, comparator = '=', number] = COMPARATOR_PATTERN.exec(value) ?? [];
+      return NUMBER_PATTERN.test(number)
+        ? {
+            kind: 'amount',
+            comparator: comparator as SearchComparator,
+            value: Number(number),
+          }
+        : `Invalid amount "${value}", expected e.g. >500 or 100..250`;
+    }
+    default: {
+      // date, before and after
+      const [from, to] = value.split('..');
+      if (to !== undefined) {
+        return field === 'date' &&
+          isValidDay(from) &&
+          isValidDay(to) &&
+          from <= to
+          ? { kind: 'date', comparator: '>=', day: from, toDay: to }
+          : `Invalid date range "${value}", expected e.g. 2026-01-01..2026-01-31`;
+      }
+      const [, typed, day] = COMPARATOR_PATTERN.exec(value) ?? [];
+      if (!isValidDay(day) || (typed && field !== 'date')) {
+        return `Invalid date "${value}", expected yyyy-MM-dd`;
+      }
+      const comparator =
+        field === 'before' ? '<' : field === 'after' ? '>=' : (typed ?? '=');
+      return { kind: 'date', comparator: comparator as SearchComparator, day };
+    }
+  }
+};
+
+/* recursive descent over the tokens
+ *   or   := and (OR and)*
+ *   and  := unary ([AND] unary)*
+ *   unary:= (NOT | -) unary | '(' or ')' | term */
+export const parseSearchQuery = (text: string): ParsedSearchQuery => {
+  const errors: SearchQueryError[] = [];
+  const tokens = tokenize(text, errors);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const combine = (
+    kind: 'and' | 'or',
+    operands: Array<SearchQueryNode | null>
+  ): SearchQueryNode | null => {
+    const valid = operands.filter(
+      (operand): operand is SearchQueryNode => operand !== null
+    );
+    if (valid.length <= 1) return valid[0] ?? null;
+    return { kind, operands: valid };
+  };
+
+  const parseUnary = (): SearchQueryNode | null => {
+    const token = peek();
+    if (!token) return null;
+
+    if (token.kind === 'not') {
+      position += 1;
+      if (!peek() || ['rparen', 'or', 'and'].includes(peek().kind)) {
+        errors.push({ message: 'Nothing to exclude', ...token.span });
+        return null;
+      }
+      const operand = parseUnary();
+      return operand ? { kind: 'not', operand } : null;
+    }
+
+    if (token.kind === 'lparen') {
+      position += 1;
+      const inner = parseOr();
+      if (peek()?.kind === 'rparen') {
+        position += 1;
+      } else {
+        errors.push({ message: 'Missing closing parenthesis', ...token.span });
+      }
+      return inner;
+    }
+
+    if (token.kind === 'term') {
+      position += 1;
+      if (token.field === undefined) {
+        return token.value
+          ? {
+              kind: 'term',
+              term: { kind: 'text', value: token.value },
+              span: token.span,
+            }
+          : null;
+      }
+
+      const field = resolveSearchField(token.field);
+      if (!field) {
+        errors.push({
+          message: `Unknown field "${token.field}"`,
+          ...token.span,
+        });
+        return null;
+      }
+      const term = createFieldTerm(field, token.value);
+      if (typeof term === 'string') {
+        errors.push({ message: term, ...token.span });
+        return null;
+      }
+      return { kind: 'term', term, span: token.span };
+    }
+
+    // stray operator or closing parenthesis
+    position += 1;
+    errors.push({
+      message:
+        token.kind === 'rparen'
+          ? 'Unexpected closing parenthesis'
+          : `${token.kind.toUpperCase()} needs a term on both sides`,
+      ...token.span,
+    });
+    return null;
+  };
+
+  const parseAnd = (): SearchQueryNode | null => {
+    const operands = [parseUnary()];
+    while (peek() && !['or', 'rparen'].includes(peek().kind)) {
+      if (peek().kind === 'and') {
+        const and = peek();
+        position += 1;
+        if (!peek() || ['or', 'rparen', 'and'].includes(peek().kind)) {
+          errors.push({
+            message: 'AND needs a term on both sides',
+            ...and.span,
+          });
+          continue;
+        }
+      }
+      operands.push(parseUnary());
+    }
+    return combine('and', operands);
+  };
+
+  const parseOr = (): SearchQueryNode | null => {
+    const operands = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const or = peek();
+      position += 1;
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or') {
+        errors.push({ message: 'OR needs a term on both sides', ...or.span });
+        continue;
+      }
+      operands.push(parseAnd());
+    }
+    return combine('or', operands);
+  };
+
+  let root = parseOr();
+  // anything left over starts with an unmatched closing parenthesis
+  while (position < tokens.length) {
+    const token = tokens[position];
+    position += 1;
+    errors.push({ message: 'Unexpected closing parenthesis', ...token.span });
+    root = combine('and', [root, parseOr()]);
+  }
+
+  return { root, errors };
+};
+
+/* tells structured queries apart from plain search text
+ * plain text keeps the search bar's normalisation, which would strip query syntax */
+export const isStructuredQuery = (text: string) =>
+  /(^|[\s(])(-(?=\S)|[a-z]+:)/i.test(text) || /\b(AND|OR|NOT)\b/.test(text);
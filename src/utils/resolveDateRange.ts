@@ -0,0 +1,70 @@
+/* date range presets for the filter bar
+ * windows are whole calendar days in the user's time zone, so "today" and
+ * "this month" start at local midnight rather than the browser's */
+import { DateRangePreset, FilterOptions } from '../types/transaction';
+import { Formatters } from './createFormatters';
+
+export interface ResolvedDateRange {
+  // inclusive
+  start?: Date;
+  // exclusive
+  end?: Date;
+}
+
+export const DATE_RANGE_PRESET_LABELS: Record<DateRangePreset, string> = {
+  today: 'Today',
+  last7: 'Last 7 days',
+  last30: 'Last 30 days',
+  last90: 'Last 90 days',
+  thisMonth: 'This month',
+  custom: 'Custom range',
+};
+
+// number of calendar days, including today, covered by the rolling presets
+const ROLLING_PRESET_DAYS: Partial<Record<DateRangePreset, number>> = {
+  today: 1,
+  last7: 7,
+  last30: 30,
+  last90: 90,
+};
+
+// moves a yyyy-MM-dd day key by whole calendar days
+export const shiftDayKey = (key: string, days: number): string => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+};
+
+/* turns the preset or custom range in the filters into concrete instants
+ * returns null when no date filter is active */
+export const resolveDateRange = (
+  filters: FilterOptions,
+  { getDayKey, parseDayKey }: Formatters,
+  now = Date.now()
+): ResolvedDateRange | null => {
+  const { datePreset } = filters;
+  if (!datePreset) return null;
+
+  if (datePreset === 'custom') {
+    const { start, end } = filters.dateRange ?? {};
+    return start || end ? { start, end } : null;
+  }
+
+  const today = getDayKey(new Date(now));
+  const startKey =
+    datePreset === 'thisMonth'
+      ? `${today.slice(0, 8)}01`
+      : shiftDayKey(today, 1 - (ROLLING_PRESET_DAYS[datePreset] ?? 1));
+
+  return { start: parseDayKey(startKey) ?? undefined };
+};
+
+// checks an instant against a resolved range
+export const isWithinDateRange = (
+  timestamp: Date,
+  { start, end }: ResolvedDateRange
+) => {
+  const time = timestamp.getTime();
+  return (!start || time >= start.getTime()) && (!end || time < end.getTime());
+};
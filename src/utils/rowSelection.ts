@@ -0,0 +1,32 @@
+/* checkbox selection of table rows, kept as ids so it survives sorting, grouping and
+ * rows leaving the rendered window */
+
+/* toggles a row, or with extendRange every row between the anchor and it
+ * a range takes the state the clicked row moves to, like file managers do */
+export const toggleRowSelection = (
+  selected: ReadonlySet<string>,
+  // row ids in display order
+  order: string[],
+  id: string,
+  // row toggled last, where a range starts
+  anchorId: string | null,
+  extendRange: boolean
+): Set<string> => {
+  const next = new Set(selected);
+  const select = !selected.has(id);
+  const from = extendRange && anchorId ? order.indexOf(anchorId) : -1;
+  const to = order.indexOf(id);
+  const range =
+    from >= 0 && to >= 0
+      ? order.slice(Math.min(from, to), Math.max(from, to) + 1)
+      : [id];
+
+  range.forEach(rowId => {
+    if (select) {
+      next.add(rowId);
+    } else {
+      next.delete(rowId);
+    }
+  });
+  return next;
+};
@@ -0,0 +1,283 @@
+/* reads and writes saved views in localStorage
+ * the stored document carries a schema version: older documents are migrated one
+ * version at a time when loaded, and documents from a newer version are never overwritten */
+import { SavedView, SavedViews } from '../types/savedView';
+import { TableColumnLayout } from '../types/tableColumns';
+import {
+  DateRangePreset,
+  FacetSelection,
+  FilterOptions,
+  TransactionSortField,
+  TransactionSortOrder,
+} from '../types/transaction';
+import { FACET_FIELDS, getFacetSelections } from './facetFilters';
+import { GROUP_BY_OPTIONS } from './groupTransactions';
+import { DATE_RANGE_PRESET_LABELS } from './resolveDateRange';
+import { SEARCH_STATUS_VALUES, SEARCH_TYPE_VALUES } from './parseSearchQuery';
+import { SORT_FIELD_LABELS } from './sortTransactions';
+import { reviveColumnLayout } from './tableColumns';
+
+export const SAVED_VIEWS_KEY = 'transaction-saved-views';
+export const SAVED_VIEWS_VERSION = 4;
+
+const SORT_FIELDS = Object.keys(SORT_FIELD_LABELS) as TransactionSortField[];
+const DATE_RANGE_PRESETS = Object.keys(
+  DATE_RANGE_PRESET_LABELS
+) as DateRangePreset[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isOneOf = <T extends string>(
+  values: readonly T[],
+  value: unknown
+): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+// views as JSON, with dates as ISO strings
+interface SavedViewsDocument {
+  version: number;
+  views: unknown[];
+  defaultViewId: string | null;
+}
+
+/* upgrades a document from the version it is keyed by to the next one, given the
+ * table columns currently shown; add an entry here whenever SAVED_VIEWS_VERSION is bumped */
+const MIGRATIONS: Record<
+  number,
+  (
+    document: SavedViewsDocument,
+    columns: TableColumnLayout
+  ) => SavedViewsDocument
+> = {
+  // single category, status and type filters become include facets
+  1: document => ({
+    ...document,
+    version: 2,
+    views: document.views.map(view => {
+      if (!isRecord(view) || !isRecord(view.filters)) return view;
+      const { category, status, type, ...filters } =
+        view.filters as FilterOptions;
+      const facets = getFacetSelections({ category, status, type });
+      return {
+        ...view,
+        filters: Object.keys(facets).length ? { ...filters, facets } : filters,
+      };
+    }),
+  }),
+  // the single sort key becomes a list of keys
+  2: document => ({
+    ...document,
+    version: 3,
+    views: document.views.map(view =>
+      isRecord(view) && isRecord(view.sort) && !Array.isArray(view.sort)
+        ? { ...view, sort: [view.sort] }
+        : view
+    ),
+  }),
+  // views keep the table columns; older ones take the columns the user has now
+  3: (document, columns) => ({
+    ...document,
+    version: 4,
+    views: document.views.map(view =>
+      isRecord(view) ? { ...view, columns } : view
+    ),
+  }),
+};
+
+const EMPTY_SAVED_VIEWS: SavedViews = { views: [], defaultViewId: null };
+
+// malformed dates are dropped rather than restored as Invalid Dates
+const reviveDate = (value: unknown) => {
+  if (typeof value !== 'string') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const reviveNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const reviveStrings = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+
+// sort keys naming a known field and direction, each field once
+const reviveSort = (value: unknown[]): TransactionSortOrder => {
+  const sort: TransactionSortOrder = [];
+  value.forEach(key => {
+    if (
+      isRecord(key) &&
+      isOneOf(SORT_FIELDS, key.field) &&
+      isOneOf(['asc', 'desc'] as const, key.direction) &&
+      !sort.some(other => other.field === key.field)
+    ) {
+      sort.push({ field: key.field, direction: key.direction });
+    }
+  });
+  return sort;
+};
+
+// restores the filter fields a view can hold, leaving out malformed ones
+const reviveFilters = (value: Record<string, unknown>): FilterOptions => {
+  const filters: FilterOptions = {};
+
+  if (isOneOf(DATE_RANGE_PRESETS, value.datePreset)) {
+    filters.datePreset = value.datePreset;
+  }
+  if (isRecord(value.dateRange)) {
+    const start = reviveDate(value.dateRange.start);
+    const end = reviveDate(value.dateRange.end);
+    if (start || end) filters.dateRange = { start, end };
+  }
+  if (isRecord(value.amountRange)) {
+    const min = reviveNumber(value.amountRange.min);
+    const max = reviveNumber(value.amountRange.max);
+    if (min !== undefined || max !== undefined) {
+      filters.amountRange = { min, max };
+    }
+  }
+
+  if (isOneOf(['all', ...SEARCH_TYPE_VALUES] as const, value.type)) {
+    filters.type = value.type;
+  }
+  if (isOneOf(['all', ...SEARCH_STATUS_VALUES] as const, value.status)) {
+    filters.status = value.status;
+  }
+  if (typeof value.category === 'string') filters.category = value.category;
+
+  if (isRecord(value.facets)) {
+    const stored = value.facets;
+    FACET_FIELDS.forEach(field => {
+      const selection = stored[field];
+      if (!isRecord(selection)) return;
+      const revived: FacetSelection = {
+        include: reviveStrings(selection.include),
+        exclude: reviveStrings(selection.exclude),
+      };
+      if (revived.include.length || revived.exclude.length) {
+        filters.facets = { ...filters.facets, [field]: revived };
+      }
+    });
+  }
+
+  if (typeof value.searchTerm === 'string') {
+    filters.searchTerm = value.searchTerm;
+  }
+  if (value.fuzzy === true) filters.fuzzy = true;
+  return filters;
+};
+
+/* restores one stored view, or null when it is too damaged to use
+ * a damaged column layout is replaced by the given one rather than losing the view */
+const reviveView = (
+  value: unknown,
+  columns: TableColumnLayout
+): SavedView | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    !isRecord(value.filters) ||
+    !Array.isArray(value.sort)
+  ) {
+    return null;
+  }
+
+  const sort = reviveSort(value.sort);
+  if (sort.length === 0) return null;
+
+  const createdAt = reviveNumber(value.createdAt) ?? 0;
+  return {
+    id: value.id,
+    name: value.name,
+    createdAt,
+    updatedAt: reviveNumber(value.updatedAt) ?? createdAt,
+    filters: reviveFilters(value.filters),
+    searchTerm: typeof value.searchTerm === 'string' ? value.searchTerm : '',
+    sort,
+    groupBy: isOneOf(GROUP_BY_OPTIONS, value.groupBy)
+      ? value.groupBy
+      : undefined,
+    columns: reviveColumnLayout(value.columns) ?? columns,
+  };
+};
+
+/* brings a parsed document up to SAVED_VIEWS_VERSION, or null when that is not possible
+ * columns are the table columns currently shown, which views from before columns take */
+export const migrateSavedViews = (
+  document: unknown,
+  columns: TableColumnLayout
+): SavedViewsDocument | null => {
+  if (
+    !isRecord(document) ||
+    typeof document.version !== 'number' ||
+    !Array.isArray(document.views)
+  ) {
+    return null;
+  }
+
+  let current: SavedViewsDocument = {
+    version: document.version,
+    views: document.views,
+    defaultViewId:
+      typeof document.defaultViewId === 'string'
+        ? document.defaultViewId
+        : null,
+  };
+  while (current.version < SAVED_VIEWS_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) return null;
+    current = migrate(current, columns);
+  }
+  return current.version === SAVED_VIEWS_VERSION ? current : null;
+};
+
+// the stored views; columns fill in for views stored without usable ones
+export const loadSavedViews = (columns: TableColumnLayout): SavedViews => {
+  try {
+    const stored = localStorage.getItem(SAVED_VIEWS_KEY);
+    if (!stored) return EMPTY_SAVED_VIEWS;
+
+    const document = migrateSavedViews(JSON.parse(stored), columns);
+    if (!document) {
+      console.warn('Ignoring saved views with an unsupported schema');
+      return EMPTY_SAVED_VIEWS;
+    }
+
+    const views = document.views
+      .map(view => reviveView(view, columns))
+      .filter((view): view is SavedView => view !== null);
+    const hasDefault = views.some(view => view.id === document.defaultViewId);
+    return { views, defaultViewId: hasDefault ? document.defaultViewId : null };
+  } catch (error) {
+    console.warn('Failed to load saved views:', error);
+    return EMPTY_SAVED_VIEWS;
+  }
+};
+
+/* stores the views unless a newer app version has written its own schema,
+ * which this version could only damage */
+export const storeSavedViews = (savedViews: SavedViews) => {
+  try {
+    const stored = localStorage.getItem(SAVED_VIEWS_KEY);
+    const storedVersion = stored ? JSON.parse(stored)?.version : undefined;
+    if (
+      typeof storedVersion === 'number' &&
+      storedVersion > SAVED_VIEWS_VERSION
+    ) {
+      console.warn('Not saving views over a newer schema');
+      return;
+    }
+
+    localStorage.setItem(
+      SAVED_VIEWS_KEY,
+      JSON.stringify({
+        version: SAVED_VIEWS_VERSION,
+        ...savedViews,
+      } satisfies SavedViewsDocument)
+    );
+  } catch (error) {
+    console.warn('Failed to save views:', error);
+  }
+};
@@ -0,0 +1,328 @@
+import { Transaction } from '../types/transaction';
+import {
+  FraudBurstProfile,
+  PersonaArchetype,
+  ScenarioProfile,
+} from '../types/scenario';
+import { ACTIONS, ITEMS, LOCATIONS, MERCHANTS } from '../constants';
+import { STATIC_FX_RATES } from '../constants/fxRates';
+import {
+  createSeededRandom,
+  RandomSource,
+} from '../helpers/createSeededRandom';
+import {
+  createFxConverter,
+  pickCurrency,
+  roundToMinorUnits,
+} from './currencyConversion';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const HABITUAL_MERCHANT_COUNT = 4;
+const MAX_TIMESTAMP_ATTEMPTS = 20;
+// the consumer population is always built from this seed so every generator job,
+// seeded or not, keeps talking about the same customers
+const POPULATION_SEED = 20240101;
+// generated amounts are drawn in USD and converted with the built-in rates
+const GENERATOR_FX = createFxConverter(STATIC_FX_RATES);
+
+export interface Consumer {
+  userId: string;
+  accountId: string;
+  persona: PersonaArchetype;
+  homeLocation: string;
+  habitualMerchants: string[];
+  // account currency every transaction of this consumer is booked in
+  currency: string;
+}
+
+export interface ScenarioState {
+  profile: ScenarioProfile;
+  consumers: Consumer[];
+}
+
+// picks a uniformly random element from a non-empty list
+const pick = <T>(items: readonly T[], random: RandomSource): T =>
+  items[Math.floor(random() * items.length)];
+
+// picks a random integer between min and max, both inclusive
+const randomInt = (min: number, max: number, random: RandomSource) =>
+  min + Math.floor(random() * (max - min + 1));
+
+// rounds a float to whole cents
+const toCents = (value: number) => Math.round(value * 100) / 100;
+
+// picks an element using the relative weights returned by getWeight
+const pickWeighted = <T>(
+  items: readonly T[],
+  getWeight: (item: T) => number,
+  random: RandomSource
+): T => {
+  const total = items.reduce((sum, item) => sum + getWeight(item), 0);
+  let threshold = random() * total;
+
+  for (const item of items) {
+    threshold -= getWeight(item);
+    if (threshold < 0) return item;
+  }
+
+  return items[items.length - 1];
+};
+
+// converts a USD amount into the given currency at the rates in effect on that date
+export const toGeneratedCurrency = (
+  amount: number,
+  currency: string,
+  timestamp: Date
+): number => {
+  if (currency === 'USD') return amount;
+  const converted = GENERATOR_FX.convert(amount, 'USD', currency, timestamp);
+  return converted === null ? amount : roundToMinorUnits(converted, currency);
+};
+
+// generates realistic transaction descriptions by combining random actions and items
+export const generateRandomDescription = (random: RandomSource): string => {
+  return `${pick(ACTIONS, random)} - ${pick(ITEMS, random)}`;
+};
+
+/* builds the consumer population for a scenario profile
+ * each consumer gets a persona, a home location, and a handful of habitual merchants */
+export const createScenarioState = (
+  profile: ScenarioProfile
+): ScenarioState => {
+  const random = createSeededRandom(POPULATION_SEED);
+  const consumers: Consumer[] = [];
+
+  for (let index = 0; index < profile.consumerCount; index += 1) {
+    const habitualMerchants = new Set<string>();
+    while (habitualMerchants.size < HABITUAL_MERCHANT_COUNT) {
+      habitualMerchants.add(pick(MERCHANTS, random));
+    }
+
+    consumers.push({
+      userId: `user_${index}`,
+      accountId: `acc_${index}`,
+      persona: pickWeighted(profile.personas, p => p.weight, random),
+      homeLocation: pick(LOCATIONS, random),
+      habitualMerchants: Array.from(habitualMerchants),
+      currency: profile.currencyWeights
+        ? pickCurrency(profile.currencyWeights, random)
+        : 'USD',
+    });
+  }
+
+  return { profile, consumers };
+};
+
+/* samples a timestamp within the past year following the profile's seasonality
+ * uses rejection sampling against weekday and payday weights, then places the time
+ * inside the persona's active hours; all calendar maths is UTC so output is machine-independent */
+const sampleTimestamp = (
+  state: ScenarioState,
+  persona: PersonaArchetype,
+  random: RandomSource,
+  now: number
+): number => {
+  const { weekdayWeights, paydays, paydayMultiplier } =
+    state.profile.seasonality;
+  const maxWeight = Math.max(...weekdayWeights) * Math.max(1, paydayMultiplier);
+  let day = new Date(now - random() * YEAR_MS);
+
+  for (let attempt = 0; attempt < MAX_TIMESTAMP_ATTEMPTS; attempt += 1) {
+    let weight = weekdayWeights[day.getUTCDay()];
+    if (paydays.includes(day.getUTCDate())) weight *= paydayMultiplier;
+    if (random() * maxWeight <= weight) break;
+    day = new Date(now - random() * YEAR_MS);
+  }
+
+  const [startHour, endHour] = persona.activeHours;
+  day.setUTCHours(
+    startHour + Math.floor(random() * (endHour - startHour)),
+    Math.floor(random() * 60),
+    Math.floor(random() * 60),
+    0
+  );
+
+  const timestamp = day.getTime();
+  return timestamp > now ? timestamp - DAY_MS : timestamp;
+};
+
+// fills in the fields shared by every scenario transaction
+// amounts are given in USD and booked in the consumer's account currency
+const createTransaction = (
+  index: number,
+  consumer: Consumer,
+  random: RandomSource,
+  now: number,
+  fields: Pick<
+    Transaction,
+    'timestamp' | 'amount' | 'type' | 'category' | 'merchantName' | 'status'
+  > &
+    Partial<Pick<Transaction, 'description' | 'location' | 'groundTruth'>>
+): Transaction => ({
+  id: `txn_${index}_${now}_${random()}`,
+  description: `Transaction ${index} - ${generateRandomDescription(random)}`,
+  userId: consumer.userId,
+  accountId: consumer.accountId,
+  reference:
+    random() > 0.5 ? `REF${Math.floor(random() * 1000000)}` : undefined,
+  ...fields,
+  currency: consumer.currency,
+  amount: toGeneratedCurrency(
+    fields.amount,
+    consumer.currency,
+    fields.timestamp
+  ),
+});
+
+// generates a single habitual transaction for a random consumer
+const generateHabitualTransaction = (
+  index: number,
+  state: ScenarioState,
+  random: RandomSource,
+  now: number
+): Transaction => {
+  const { profile } = state;
+  const consumer = pick(state.consumers, random);
+  const { persona } = consumer;
+
+  return createTransaction(index, consumer, random, now, {
+    timestamp: new Date(sampleTimestamp(state, persona, random, now)),
+    amount: toCents(
+      persona.amountRange.min +
+        random() * (persona.amountRange.max - persona.amountRange.min)
+    ),
+    type: random() < persona.creditRate ? 'credit' : 'debit',
+    category: pick(persona.categories, random),
+    merchantName:
+      random() < profile.habitualMerchantRate
+        ? pick(consumer.habitualMerchants, random)
+        : pick(MERCHANTS, random),
+    status:
+      random() > 0.1 ? 'completed' : random() > 0.5 ? 'pending' : 'failed',
+    location:
+      random() < profile.homeLocationRate
+        ? consumer.homeLocation
+        : pick(LOCATIONS, random),
+  });
+};
+
+/* generates a card-testing run: many tiny online charges at a merchant the victim never uses
+ * most attempts are declined, mimicking a fraudster probing a stolen card */
+const generateCardTestingBurst = (
+  count: number,
+  offset: number,
+  state: ScenarioState,
+  random: RandomSource,
+  now: number
+): Transaction[] => {
+  const victim = pick(state.consumers, random);
+  const unfamiliar = MERCHANTS.filter(
+    merchant => !victim.habitualMerchants.includes(merchant)
+  );
+  const merchantName = pick(unfamiliar, random);
+  let timestamp = now - random() * YEAR_MS;
+
+  return Array.from({ length: count }, (_, i) => {
+    timestamp = Math.min(timestamp + random() * 2 * MINUTE_MS, now);
+
+    return createTransaction(offset + i, victim, random, now, {
+      timestamp: new Date(timestamp),
+      amount: toCents(0.5 + random() * 4.5),
+      type: 'debit',
+      category: 'Shopping',
+      merchantName,
+      status: random() < 0.7 ? 'failed' : 'completed',
+      description: `Transaction ${offset + i} - Purchase - Card verification`,
+      groundTruth: { fraudType: 'card-testing', scenarioId: state.profile.id },
+    });
+  });
+};
+
+/* generates an impossible-travel run: large purchases alternating between the victim's
+ * home and a distant city only minutes apart */
+const generateImpossibleTravelBurst = (
+  count: number,
+  offset: number,
+  state: ScenarioState,
+  random: RandomSource,
+  now: number
+): Transaction[] => {
+  const victim = pick(state.consumers, random);
+  const distant = pick(
+    LOCATIONS.filter(location => location !== victim.homeLocation),
+    random
+  );
+  let timestamp = now - random() * YEAR_MS;
+
+  return Array.from({ length: count }, (_, i) => {
+    timestamp = Math.min(timestamp + (5 + random() * 25) * MINUTE_MS, now);
+
+    return createTransaction(offset + i, victim, random, now, {
+      timestamp: new Date(timestamp),
+      amount: toCents(500 + random() * 2500),
+      type: 'debit',
+      category: pick(['Shopping', 'Travel'], random),
+      merchantName: pick(MERCHANTS, random),
+      status: 'completed',
+      location: i % 2 === 0 ? victim.homeLocation : distant,
+      groundTruth: {
+        fraudType: 'impossible-travel',
+        scenarioId: state.profile.id,
+      },
+    });
+  });
+};
+
+// dispatches a fraud burst to the generator matching its kind
+const generateFraudBurst = (
+  burst: FraudBurstProfile,
+  count: number,
+  offset: number,
+  state: ScenarioState,
+  random: RandomSource,
+  now: number
+): Transaction[] => {
+  switch (burst.kind) {
+    case 'card-testing':
+      return generateCardTestingBurst(count, offset, state, random, now);
+    case 'impossible-travel':
+      return generateImpossibleTravelBurst(count, offset, state, random, now);
+  }
+};
+
+/* generates exactly `count` transactions for a scenario, mixing habitual spending with
+ * injected fraud bursts; bursts are truncated so batch sizes are always honoured */
+export const generateScenarioTransactions = (
+  count: number,
+  state: ScenarioState,
+  random: RandomSource,
+  now: number,
+  offset = 0
+): Transaction[] => {
+  const { fraudBursts } = state.profile;
+  const burstRate = fraudBursts.reduce((sum, burst) => sum + burst.rate, 0);
+  const transactions: Transaction[] = [];
+
+  while (transactions.length < count) {
+    const index = offset + transactions.length;
+
+    // occasionally start a fraud burst instead of a regular transaction
+    if (fraudBursts.length > 0 && random() < burstRate) {
+      const burst = pickWeighted(fraudBursts, b => b.rate, random);
+      const size = Math.min(
+        randomInt(burst.size.min, burst.size.max, random),
+        count - transactions.length
+      );
+      transactions.push(
+        ...generateFraudBurst(burst, size, index, state, random, now)
+      );
+      continue;
+    }
+
+    transactions.push(generateHabitualTransaction(index, state, random, now));
+  }
+
+  return transactions;
+};
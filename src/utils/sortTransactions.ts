@@ -0,0 +1,174 @@
+/* multi-key ordering of the transaction table
+ * a sorter keeps its last input in sort order: rows it has not seen yet, e.g. a streamed
+ * batch, a widened filter or an updated row, are sorted on their own and merged in, and
+ * rows left out of the input are dropped in one pass. filter changes and rows arriving in
+ * between others therefore never re-sort 100k rows. changing the order starts a new sorter */
+import {
+  SortDirection,
+  Transaction,
+  TransactionSortField,
+  TransactionSortOrder,
+} from '../types/transaction';
+
+type SortKey = string | number;
+
+export const SORT_FIELD_LABELS: Record<TransactionSortField, string> = {
+  timestamp: 'Date',
+  amount: 'Amount',
+  merchantName: 'Merchant',
+  status: 'Status',
+  category: 'Category',
+  type: 'Type',
+  location: 'Location',
+  accountId: 'Account',
+  reference: 'Reference',
+  userId: 'User',
+  relevance: 'Best match',
+};
+
+const SORT_KEY_READERS: Record<
+  Exclude<TransactionSortField, 'relevance'>,
+  (transaction: Transaction) => SortKey
+> = {
+  timestamp: transaction => new Date(transaction.timestamp).getTime(),
+  amount: transaction => transaction.amount,
+  merchantName: transaction => transaction.merchantName.toLowerCase(),
+  status: transaction => transaction.status,
+  category: transaction => transaction.category.toLowerCase(),
+  type: transaction => transaction.type,
+  location: transaction => transaction.location?.toLowerCase() ?? '',
+  accountId: transaction => transaction.accountId,
+  reference: transaction => transaction.reference?.toLowerCase() ?? '',
+  userId: transaction => transaction.userId,
+};
+
+// direction a field starts in: newest and best matches first, everything else ascending
+export const getDefaultSortDirection = (
+  field: TransactionSortField
+): SortDirection =>
+  field === 'timestamp' || field === 'relevance' ? 'desc' : 'asc';
+
+/* order after a header click: a plain click sorts by the field alone, flipping it when
+ * it already is the only key; a shift-click adds the field as the last key, or flips it
+ * when it is already one */
+export const toggleSortField = (
+  order: TransactionSortOrder,
+  field: TransactionSortField,
+  additive: boolean
+): TransactionSortOrder => {
+  const current = order.find(key => key.field === field);
+  const flipped: SortDirection = current?.direction === 'asc' ? 'desc' : 'asc';
+
+  if (additive) {
+    return current
+      ? order.map(key =>
+          key.field === field ? { field, direction: flipped } : key
+        )
+      : [...order, { field, direction: getDefaultSortDirection(field) }];
+  }
+  return [
+    {
+      field,
+      direction:
+        current && order.length === 1
+          ? flipped
+          : getDefaultSortDirection(field),
+    },
+  ];
+};
+
+// merges two sorted lists; on ties rows of sorted come first, matching a stable full sort
+const mergeSorted = <T>(
+  sorted: T[],
+  added: T[],
+  compare: (a: T, b: T) => number
+) => {
+  const merged: T[] = new Array(sorted.length + added.length);
+  let left = 0;
+  let right = 0;
+  for (let index = 0; index < merged.length; index += 1) {
+    merged[index] =
+      right >= added.length ||
+      (left < sorted.length && compare(added[right], sorted[left]) >= 0)
+        ? sorted[left++]
+        : added[right++];
+  }
+  return merged;
+};
+
+/* creates a sorter for an order; best match needs getRelevance and breaks its ties by
+ * newest first. keys are read once per row and kept for later calls */
+export const createTransactionSorter = (
+  order: TransactionSortOrder,
+  getRelevance?: (transaction: Transaction) => number
+) => {
+  const keys = order.some(key => key.field === 'relevance')
+    ? order.some(key => key.field === 'timestamp')
+      ? order
+      : [...order, { field: 'timestamp' as const, direction: 'desc' as const }]
+    : order;
+  const readers = keys.map(({ field }) =>
+    field === 'relevance'
+      ? (transaction: Transaction) => getRelevance?.(transaction) ?? 0
+      : SORT_KEY_READERS[field]
+  );
+  const directions = keys.map(key => (key.direction === 'asc' ? 1 : -1));
+  const cache = new WeakMap<Transaction, SortKey[]>();
+
+  const readKeys = (transaction: Transaction) => {
+    let values = cache.get(transaction);
+    if (!values) {
+      values = readers.map(read => read(transaction));
+      cache.set(transaction, values);
+    }
+    return values;
+  };
+
+  const compare = (a: Transaction, b: Transaction) => {
+    const aKeys = readKeys(a);
+    const bKeys = readKeys(b);
+    for (let index = 0; index < directions.length; index += 1) {
+      if (aKeys[index] < bKeys[index]) return -directions[index];
+      if (aKeys[index] > bKeys[index]) return directions[index];
+    }
+    return 0;
+  };
+
+  /* the distinct rows of the last input in sort order, and how often each occurred;
+   * rows are told apart by reference, so an updated row, or another row reusing an id,
+   * is a row of its own */
+  let index: Transaction[] = [];
+  let indexed = new Map<Transaction, number>();
+  let source: Transaction[] | null = null;
+  let sorted: Transaction[] = [];
+
+  return (transactions: Transaction[]): Transaction[] => {
+    if (transactions === source) return sorted;
+
+    const present = new Map<Transaction, number>();
+    const added: Transaction[] = [];
+    for (const transaction of transactions) {
+      const count = present.get(transaction) ?? 0;
+      present.set(transaction, count + 1);
+      if (count === 0 && !indexed.has(transaction)) added.push(transaction);
+    }
+
+    // rows missing from this input, e.g. filtered out or replaced, leave the index
+    if (present.size - added.length < index.length) {
+      index = index.filter(row => present.has(row));
+    }
+    if (added.length > 0) {
+      index = mergeSorted(index, added.sort(compare), compare);
+    }
+    indexed = present;
+    source = transactions;
+    // a row passed more than once is listed as often as it was passed
+    sorted =
+      present.size === transactions.length
+        ? index
+        : index.flatMap(row =>
+            new Array<Transaction>(present.get(row) ?? 1).fill(row)
+          );
+    return sorted;
+  };
+};
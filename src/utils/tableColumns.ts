@@ -0,0 +1,265 @@
+/* column model of the transaction table
+ * a layout lists every column in display order with its visibility and width, so hiding
+ * a column and showing it again puts it back where it was */
+import {
+  ColumnPresetId,
+  TableColumnLayout,
+  TransactionColumnId,
+} from '../types/tableColumns';
+import { TransactionSortField } from '../types/transaction';
+import { ExportColumnId } from '../types/transactionExport';
+
+interface TableColumnDefinition {
+  label: string;
+  // field ordered by the column's header, none for columns that can't be sorted
+  sortField?: TransactionSortField;
+  defaultWidth: number;
+  minWidth: number;
+  align: 'start' | 'center' | 'end';
+  // fields written by "visible columns" exports
+  exportColumns: ExportColumnId[];
+}
+
+export const MAX_COLUMN_WIDTH = 640;
+
+export const TABLE_COLUMNS: Record<TransactionColumnId, TableColumnDefinition> =
+  {
+    merchant: {
+      label: 'Merchant',
+      sortField: 'merchantName',
+      defaultWidth: 280,
+      minWidth: 140,
+      align: 'start',
+      exportColumns: ['merchantName', 'description'],
+    },
+    amount: {
+      label: 'Amount',
+      sortField: 'amount',
+      defaultWidth: 140,
+      minWidth: 96,
+      align: 'end',
+      exportColumns: ['amount', 'currency'],
+    },
+    status: {
+      label: 'Status',
+      sortField: 'status',
+      defaultWidth: 110,
+      minWidth: 96,
+      align: 'center',
+      exportColumns: ['status'],
+    },
+    date: {
+      label: 'Date',
+      sortField: 'timestamp',
+      defaultWidth: 140,
+      minWidth: 104,
+      align: 'end',
+      exportColumns: ['timestamp'],
+    },
+    category: {
+      label: 'Category',
+      sortField: 'category',
+      defaultWidth: 160,
+      minWidth: 96,
+      align: 'start',
+      exportColumns: ['category'],
+    },
+    type: {
+      label: 'Type',
+      sortField: 'type',
+      defaultWidth: 90,
+      minWidth: 72,
+      align: 'start',
+      exportColumns: ['type'],
+    },
+    location: {
+      label: 'Location',
+      sortField: 'location',
+      defaultWidth: 160,
+      minWidth: 96,
+      align: 'start',
+      exportColumns: ['location'],
+    },
+    reference: {
+      label: 'Reference',
+      sortField: 'reference',
+      defaultWidth: 150,
+      minWidth: 96,
+      align: 'start',
+      exportColumns: ['reference'],
+    },
+    userId: {
+      label: 'User',
+      sortField: 'userId',
+      defaultWidth: 120,
+      minWidth: 80,
+      align: 'start',
+      exportColumns: ['userId'],
+    },
+    accountId: {
+      label: 'Account',
+      sortField: 'accountId',
+      defaultWidth: 120,
+      minWidth: 80,
+      align: 'start',
+      exportColumns: ['accountId'],
+    },
+    risk: {
+      label: 'Risk score',
+      defaultWidth: 100,
+      minWidth: 80,
+      align: 'end',
+      exportColumns: [],
+    },
+  };
+
+const TABLE_COLUMN_IDS = Object.keys(TABLE_COLUMNS) as TransactionColumnId[];
+const DEFAULT_VISIBLE_COLUMNS: TransactionColumnId[] = [
+  'merchant',
+  'amount',
+  'status',
+  'date',
+];
+
+// starting points for the fields each team works with
+export const COLUMN_PRESETS: Record<
+  ColumnPresetId,
+  { label: string; columns: TransactionColumnId[] }
+> = {
+  operations: {
+    label: 'Operations',
+    columns: ['date', 'merchant', 'status', 'reference', 'accountId', 'amount'],
+  },
+  fraud: {
+    label: 'Fraud',
+    columns: ['risk', 'merchant', 'userId', 'location', 'date', 'amount'],
+  },
+  finance: {
+    label: 'Finance',
+    columns: ['date', 'merchant', 'category', 'type', 'accountId', 'amount'],
+  },
+};
+
+// shows the given columns in the given order, followed by every other column hidden
+const layoutFromColumns = (
+  columns: TransactionColumnId[],
+  widths: Partial<Record<TransactionColumnId, number>> = {}
+): TableColumnLayout =>
+  [...columns, ...TABLE_COLUMN_IDS.filter(id => !columns.includes(id))].map(
+    id => ({
+      id,
+      visible: columns.includes(id),
+      width: widths[id] ?? TABLE_COLUMNS[id].defaultWidth,
+    })
+  );
+
+export const DEFAULT_COLUMN_LAYOUT = layoutFromColumns(DEFAULT_VISIBLE_COLUMNS);
+
+// keeps the widths the user has set
+export const applyColumnPreset = (
+  layout: TableColumnLayout,
+  preset: ColumnPresetId
+) =>
+  layoutFromColumns(
+    COLUMN_PRESETS[preset].columns,
+    Object.fromEntries(layout.map(column => [column.id, column.width]))
+  );
+
+// the last visible column can't be hidden
+export const setColumnVisible = (
+  layout: TableColumnLayout,
+  id: TransactionColumnId,
+  visible: boolean
+): TableColumnLayout => {
+  if (!visible && layout.filter(column => column.visible).length <= 1) {
+    return layout;
+  }
+  return layout.map(column =>
+    column.id === id ? { ...column, visible } : column
+  );
+};
+
+// moves a column past offset of the visible columns, e.g. -1 swaps it with the one before
+export const moveColumn = (
+  layout: TableColumnLayout,
+  id: TransactionColumnId,
+  offset: number
+): TableColumnLayout => {
+  const visible = layout.filter(column => column.visible);
+  const from = visible.findIndex(column => column.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= visible.length) return layout;
+
+  // lands before the target when moving back, after it when moving forward
+  const next = layout.filter(column => column.id !== id);
+  const target = next.indexOf(visible[to]);
+  next.splice(offset < 0 ? target : target + 1, 0, visible[from]);
+  return next;
+};
+
+export const clampColumnWidth = (id: TransactionColumnId, width: number) =>
+  Math.round(
+    Math.min(MAX_COLUMN_WIDTH, Math.max(TABLE_COLUMNS[id].minWidth, width))
+  );
+
+export const resizeColumn = (
+  layout: TableColumnLayout,
+  id: TransactionColumnId,
+  width: number
+): TableColumnLayout =>
+  layout.map(column =>
+    column.id === id
+      ? { ...column, width: clampColumnWidth(id, width) }
+      : column
+  );
+
+/* restores a stored layout, or null when it is not one
+ * unknown columns are dropped and columns added since it was stored are appended hidden */
+export const reviveColumnLayout = (
+  value: unknown
+): TableColumnLayout | null => {
+  if (!Array.isArray(value)) return null;
+
+  const seen = new Set<TransactionColumnId>();
+  const layout: TableColumnLayout = [];
+  value.forEach(column => {
+    if (
+      typeof column !== 'object' ||
+      column === null ||
+      !TABLE_COLUMN_IDS.includes(column.id) ||
+      seen.has(column.id)
+    ) {
+      return;
+    }
+    const id = column.id as TransactionColumnId;
+    seen.add(id);
+    layout.push({
+      id,
+      visible: column.visible === true,
+      width: clampColumnWidth(
+        id,
+        typeof column.width === 'number'
+          ? column.width
+          : TABLE_COLUMNS[id].defaultWidth
+      ),
+    });
+  });
+
+  if (!layout.some(column => column.visible)) return null;
+  TABLE_COLUMN_IDS.forEach(id => {
+    if (!seen.has(id)) {
+      layout.push({
+        id,
+        visible: false,
+        width: TABLE_COLUMNS[id].defaultWidth,
+      });
+    }
+  });
+  return layout;
+};
+
+// fields of the shown columns, in column order, for "visible columns" exports
+export const getExportColumns = (layout: TableColumnLayout) =>
+  layout
+    .filter(column => column.visible)
+    .flatMap(column => TABLE_COLUMNS[column.id].exportColumns);
@@ -0,0 +1,53 @@
+/* reads and writes reviewer marks in localStorage
+ * like saved views, the document is versioned and a newer one is never overwritten */
+import { TransactionReviews } from '../types/transactionReview';
+import { reviveTransactionReviews } from './transactionReviews';
+
+export const TRANSACTION_REVIEWS_KEY = 'transaction-reviews';
+export const TRANSACTION_REVIEWS_VERSION = 1;
+
+interface TransactionReviewsDocument {
+  version: number;
+  // keyed by transaction id
+  reviews: unknown;
+}
+
+const readDocument = (): TransactionReviewsDocument | null => {
+  const stored = localStorage.getItem(TRANSACTION_REVIEWS_KEY);
+  if (!stored) return null;
+  const document = JSON.parse(stored);
+  return typeof document?.version === 'number' ? document : null;
+};
+
+// the stored marks, none when nothing is stored or it can't be used
+export const loadTransactionReviews = (): TransactionReviews => {
+  try {
+    const document = readDocument();
+    if (!document || document.version !== TRANSACTION_REVIEWS_VERSION) {
+      return {};
+    }
+    return reviveTransactionReviews(document.reviews);
+  } catch (error) {
+    console.warn('Failed to load transaction reviews:', error);
+    return {};
+  }
+};
+
+export const storeTransactionReviews = (reviews: TransactionReviews) => {
+  try {
+    const document = readDocument();
+    if (document && document.version > TRANSACTION_REVIEWS_VERSION) {
+      console.warn('Not saving reviews over a newer schema');
+      return;
+    }
+    localStorage.setItem(
+      TRANSACTION_REVIEWS_KEY,
+      JSON.stringify({
+        version: TRANSACTION_REVIEWS_VERSION,
+        reviews,
+      } satisfies TransactionReviewsDocument)
+    );
+  } catch (error) {
+    console.warn('Failed to save transaction reviews:', error);
+  }
+};
@@ -0,0 +1,89 @@
+/* reviewer marks of the transaction table: tags, review flags and reviewed marks
+ * changes apply to many transactions at once, as made by the bulk action bar */
+import {
+  TransactionReview,
+  TransactionReviewChange,
+  TransactionReviews,
+} from '../types/transactionReview';
+
+// longest tag kept, longer ones are cut
+export const MAX_TAG_LENGTH = 32;
+
+const EMPTY_REVIEW: TransactionReview = {
+  tags: [],
+  flagged: false,
+  reviewed: false,
+};
+
+// trims and shortens a typed tag, empty when nothing is left
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+
+const applyChange = (
+  review: TransactionReview,
+  change: TransactionReviewChange
+): TransactionReview => {
+  switch (change.type) {
+    case 'tag':
+      return review.tags.includes(change.tag)
+        ? review
+        : { ...review, tags: [...review.tags, change.tag] };
+    case 'flag':
+      return { ...review, flagged: change.flagged };
+    case 'review':
+      return { ...review, reviewed: change.reviewed };
+  }
+};
+
+const isEmpty = ({ tags, flagged, reviewed }: TransactionReview) =>
+  !tags.length && !flagged && !reviewed;
+
+// applies a change to the given transactions; marks left empty are dropped
+export const applyReviewChange = (
+  reviews: TransactionReviews,
+  ids: string[],
+  change: TransactionReviewChange
+): TransactionReviews => {
+  if (change.type === 'tag' && !change.tag) return reviews;
+
+  const next = { ...reviews };
+  ids.forEach(id => {
+    const review = applyChange(reviews[id] ?? EMPTY_REVIEW, change);
+    if (isEmpty(review)) {
+      delete next[id];
+    } else {
+      next[id] = review;
+    }
+  });
+  return next;
+};
+
+// every tag in use, alphabetically, for suggestions
+export const getReviewTags = (reviews: TransactionReviews) =>
+  Array.from(
+    new Set(Object.values(reviews).flatMap(review => review.tags))
+  ).sort((a, b) => a.localeCompare(b));
+
+// restores stored marks, skipping entries that aren't marks
+export const reviveTransactionReviews = (
+  value: unknown
+): TransactionReviews => {
+  if (typeof value !== 'object' || value === null) return {};
+
+  const reviews: TransactionReviews = {};
+  Object.entries(value).forEach(([id, review]) => {
+    if (typeof review !== 'object' || review === null) return;
+    const revived: TransactionReview = {
+      tags: Array.isArray(review.tags)
+        ? review.tags
+            .filter((tag: unknown): tag is string => typeof tag === 'string')
+            .map(normalizeTag)
+            .filter(Boolean)
+        : [],
+      flagged: review.flagged === true,
+      reviewed: review.reviewed === true,
+    };
+    if (!isEmpty(revived)) reviews[id] = revived;
+  });
+  return reviews;
+};
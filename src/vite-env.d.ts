@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TRANSACTION_SOURCE?: 'worker' | 'rest' | 'websocket' | 'sse';
+  readonly VITE_LEDGER_URL?: string;
+  readonly VITE_GENERATOR_SEED?: string;
+  readonly VITE_GENERATOR_SCENARIO?: string;
+  readonly VITE_FX_RATES_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -3,6 +3,7 @@
  * Supports cancellation, partial results, and progress reporting for responsive UI */
 import { Transaction } from '../types/transaction';
 import wait from '../helpers/wait';
+import { HIGH_RISK_THRESHOLD } from '../constants';
 
 type AnalyticsRequest =
   | { type: 'analyze'; transactions: Transaction[]; chunkSize?: number }
@@ -12,6 +13,7 @@ type AnalyticsRequest =
 type AnalyticsSummary = {
   totalRisk: number;
   highRiskTransactions: number;
+  risks: Record<string, number>;
   patterns: Record<string, number>;
   anomalies: Record<string, number>;
   generatedAt: number;
@@ -66,6 +68,7 @@ self.addEventListener('message', async (event: MessageEvent<AnalyticsRequest>) =
   const summary: AnalyticsSummary = {
     totalRisk: 0,
     highRiskTransactions: 0,
+    risks: {},
     patterns: {},
     anomalies: {},
     generatedAt: Date.now(),
@@ -89,11 +92,12 @@ self.addEventListener('message', async (event: MessageEvent<AnalyticsRequest>) =
 
     // accumulate risk metrics and classify high-risk transactions
     summary.totalRisk += risk;
-    if (risk > 0.7) {
+    if (risk > HIGH_RISK_THRESHOLD) {
       summary.highRiskTransactions += 1;
     }
 
-    // store per-transaction pattern and anomaly scores
+    // store per-transaction risk, pattern, and anomaly scores
+    summary.risks[transaction.id] = risk;
     summary.patterns[transaction.id] = patternScore;
     summary.anomalies[transaction.id] = anomalyScore;
 
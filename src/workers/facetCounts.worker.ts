@@ -0,0 +1,39 @@
+/* Web Worker counting rows per facet value for the filter bar
+ * keeps its own copy of the dataset in step with the main thread, so a count
+ * request only carries the row indices the other filters allow */
+import { Transaction } from '../types/transaction';
+import {
+  FacetCountsWorkerRequest,
+  FacetCountsWorkerResponse,
+} from '../types/facetCounts';
+import { countFacetValues } from '../utils/facetFilters';
+
+let transactions: Transaction[] = [];
+
+// main message handler for dataset updates and count requests (reset, append, count)
+self.addEventListener(
+  'message',
+  (event: MessageEvent<FacetCountsWorkerRequest>) => {
+    const { data } = event;
+
+    if (data.type === 'reset') {
+      transactions = data.transactions;
+      return;
+    }
+
+    if (data.type === 'append') {
+      transactions = transactions.concat(data.transactions);
+      return;
+    }
+
+    if (data.type === 'count') {
+      self.postMessage({
+        type: 'result',
+        jobId: data.jobId,
+        counts: countFacetValues(transactions, data.rows, {
+          facets: data.facets,
+        }),
+      } satisfies FacetCountsWorkerResponse);
+    }
+  }
+);
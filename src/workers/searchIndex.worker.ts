@@ -0,0 +1,41 @@
+/* Web Worker holding the inverted search index for large datasets
+ * rows are indexed as the dataset grows and queries answer with matching row indices,
+ * so typing never rescans the transactions on the main thread */
+import {
+  SearchIndexWorkerRequest,
+  SearchIndexWorkerResponse,
+} from '../types/searchIndex';
+import { createSearchIndex } from '../utils/createSearchIndex';
+
+const index = createSearchIndex();
+
+// main message handler for index updates and queries (reset, append, query)
+self.addEventListener(
+  'message',
+  (event: MessageEvent<SearchIndexWorkerRequest>) => {
+    const { data } = event;
+
+    if (data.type === 'reset') {
+      index.reset(data.transactions);
+      return;
+    }
+
+    if (data.type === 'append') {
+      index.append(data.transactions);
+      return;
+    }
+
+    if (data.type === 'query') {
+      const matches = data.terms.map(term => index.match(term, data.fuzzy));
+      // row indices are transferred rather than copied
+      self.postMessage(
+        {
+          type: 'result',
+          jobId: data.jobId,
+          matches,
+        } satisfies SearchIndexWorkerResponse,
+        { transfer: matches.map(rows => rows.buffer) }
+      );
+    }
+  }
+);
@@ -0,0 +1,75 @@
+/* Web Worker for writing transaction exports off the main thread
+ * encodes rows in chunks and streams the encoded parts back as they are produced,
+ * yielding between chunks so large exports stay cancellable */
+import {
+  ExportWorkerRequest,
+  ExportWorkerResponse,
+} from '../types/transactionExport';
+import { createExportWriter } from '../utils/exportTransactions';
+import wait from '../helpers/wait';
+
+const DEFAULT_CHUNK_SIZE = 5000;
+
+let currentJobToken = 0;
+
+const post = (response: ExportWorkerResponse) => {
+  self.postMessage(response);
+};
+
+// main message handler for export requests (export, cancel)
+self.addEventListener(
+  'message',
+  async (event: MessageEvent<ExportWorkerRequest>) => {
+    const { data } = event;
+
+    // invalidate the running job; its loop stops at the next chunk boundary
+    currentJobToken += 1;
+    if (data.type !== 'export') {
+      return;
+    }
+
+    const jobToken = currentJobToken;
+    const {
+      jobId,
+      transactions,
+      options,
+      chunkSize = DEFAULT_CHUNK_SIZE,
+    } = data;
+    const writer = createExportWriter(options);
+    const total = transactions.length;
+    const effectiveChunkSize = Math.max(1, chunkSize);
+
+    post({ type: 'chunk', jobId, parts: writer.open(), processed: 0, total });
+
+    for (let start = 0; start < total; start += effectiveChunkSize) {
+      const end = Math.min(start + effectiveChunkSize, total);
+      post({
+        type: 'chunk',
+        jobId,
+        parts: writer.write(transactions.slice(start, end)),
+        processed: end,
+        total,
+      });
+
+      // yield so cancel requests can be received between chunks
+      await wait(0);
+      if (jobToken !== currentJobToken) {
+        return;
+      }
+    }
+
+    post({
+      type: 'chunk',
+      jobId,
+      parts: writer.close(),
+      processed: total,
+      total,
+    });
+    post({
+      type: 'complete',
+      jobId,
+      mimeType: writer.mimeType,
+      extension: writer.extension,
+    });
+  }
+);
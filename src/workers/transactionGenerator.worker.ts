@@ -2,11 +2,27 @@
  * Handles large-scale transaction generation off the main thread to prevent UI blocking
  * Supports both initial seed data and continuous streaming with configurable batch sizes */
 import { Transaction, TransactionSummary } from '../types/transaction.ts';
-import { ACTIONS, CATEGORIES, ITEMS, LOCATIONS, MERCHANTS } from '../constants';
+import { ScenarioId } from '../types/scenario.ts';
 import wait from '../helpers/wait.ts';
+import {
+  calculateSummary,
+  createGeneratorContext,
+  GeneratorContext,
+  generateTransactions,
+} from '../utils/generateTransactions.ts';
 
 type GeneratorRequest =
-  | { type: 'init'; total: number; batchSize?: number }
+  | {
+      type: 'init';
+      total: number;
+      batchSize?: number;
+      // drives a seeded PRNG so identical seeds produce identical datasets
+      seed?: number;
+      // reference "now" (epoch ms) that timestamps are spread back from
+      now?: number;
+      // named scenario profile; omitted means uniform random data
+      scenario?: ScenarioId;
+    }
   | { type: 'kill' };
 
 type GeneratorResponse =
@@ -22,7 +38,6 @@ type GeneratorResponse =
       done: boolean;
     };
 
-const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
 const BATCH_SIZE = 500;
 const SEED_COUNT = 200;
 
@@ -45,9 +60,13 @@ self.addEventListener(
     const batchSize = data.batchSize ?? BATCH_SIZE;
 
     const targetSize = data.total;
+    const context = createGeneratorContext(data.seed, data.now, data.scenario);
 
     // generate initial seed data, ensuring we don't exceed the target size
-    const initialData = generateTransactions(Math.min(SEED_COUNT, targetSize));
+    const initialData = generateTransactions(
+      Math.min(SEED_COUNT, targetSize),
+      context
+    );
 
     // send initial seed data with summary to main thread
     self.postMessage({
@@ -67,7 +86,7 @@ self.addEventListener(
       return;
     }
 
-    await scheduleNextBatch(initialData.length, targetSize, batchSize);
+    await scheduleNextBatch(initialData.length, targetSize, batchSize, context);
   }
 );
 
@@ -76,7 +95,8 @@ self.addEventListener(
 const scheduleNextBatch = async (
   producedCount: number,
   targetSize: number,
-  batchSize: number
+  batchSize: number,
+  context: GeneratorContext
 ) => {
   let produced = producedCount;
 
@@ -84,7 +104,11 @@ const scheduleNextBatch = async (
   while (!killGeneration && produced < targetSize) {
     const remaining = targetSize - produced;
     const transactionCount = Math.min(batchSize, remaining);
-    const transactions = generateTransactions(transactionCount, produced);
+    const transactions = generateTransactions(
+      transactionCount,
+      context,
+      produced
+    );
     produced += transactions.length;
 
     // send batch data with summary delta and completion status
@@ -112,116 +136,4 @@ const scheduleNextBatch = async (
   }
 };
 
-// generates realistic mock transaction data with proper randomization and risk scoring
-// creates transactions with varied amounts, timestamps, merchants, and risk factors
-const generateTransactions = (count: number, offset = 0): Transaction[] => {
-  const transactions: Transaction[] = [];
-
-  // generate individual transactions with realistic data patterns
-  for (let i = 0; i < count; i++) {
-    const index = offset + i;
-    const risk = calculateTransactionRisk(index);
-
-    // create realistic transaction amounts with risk-based adjustments
-    const baseAmount = Math.round((Math.random() * 5000 + 1) * 100) / 100;
-    const adjustedAmount = risk > 0 ? baseAmount * 1.001 : baseAmount;
-
-    transactions.push({
-      id: `txn_${i}_${Date.now()}_${Math.random()}`,
-      timestamp: new Date(Date.now() - Math.random() * YEAR_MS),
-      amount: adjustedAmount,
-      currency: 'USD',
-      type: Math.random() > 0.6 ? 'debit' : 'credit',
-      category: CATEGORIES[Math.floor(Math.random() * CATEGORIES.length)],
-      description: `Transaction ${i} - ${generateRandomDescription()}`,
-      merchantName: MERCHANTS[Math.floor(Math.random() * MERCHANTS.length)],
-      status:
-        Math.random() > 0.1
-          ? 'completed'
-          : Math.random() > 0.5
-            ? 'pending'
-            : 'failed',
-      userId: `user_${Math.floor(Math.random() * 1000)}`,
-      accountId: `acc_${Math.floor(Math.random() * 100)}`,
-      location:
-        Math.random() > 0.3
-          ? LOCATIONS[Math.floor(Math.random() * LOCATIONS.length)]
-          : undefined,
-      reference:
-        Math.random() > 0.5
-          ? `REF${Math.floor(Math.random() * 1000000)}`
-          : undefined,
-    });
-  }
-
-  return transactions;
-};
-
-// calculates transaction summary statistics in a single optimized loop
-// computes totals, averages, and category counts for dashboard display
-const calculateSummary = (records: Transaction[]): TransactionSummary => {
-  const summary: TransactionSummary = {
-    totalTransactions: 0,
-    totalAmount: 0,
-    totalCredits: 0,
-    totalDebits: 0,
-    avgTransactionAmount: 0,
-    categoryCounts: {},
-  };
-
-  for (const record of records) {
-    summary.totalTransactions++;
-    summary.totalAmount += record.amount;
-    if (record.type === 'credit') summary.totalCredits += record.amount;
-    if (record.type === 'debit') summary.totalDebits += record.amount;
-    summary.categoryCounts[record.category] =
-      (summary.categoryCounts[record.category] || 0) + 1;
-  }
-
-  summary.avgTransactionAmount =
-    summary.totalTransactions > 0
-      ? summary.totalAmount / summary.totalTransactions
-      : 0;
-
-  return summary;
-};
-
-// calculates realistic risk scores using multi-factor analysis
-// simulates fraud detection patterns with weighted factor combinations
-const calculateTransactionRisk = (transactionIndex: number): number => {
-  let riskScore = 0;
-
-  // simulate multiple risk assessment factors
-  const factors = {
-    timeOfDay: Math.sin(transactionIndex * 0.1),
-    userPattern: Math.cos(transactionIndex * 0.05),
-    velocityCheck: transactionIndex % 7,
-    geoLocation: Math.sin(transactionIndex * 0.2),
-    deviceFingerprint: Math.cos(transactionIndex * 0.15),
-  };
-
-  // apply weighted factor analysis to calculate overall risk score
-  const weights = [0.3, 0.25, 0.2, 0.15, 0.1];
-  const factorValues = Object.values(factors);
-
-  for (let i = 0; i < factorValues.length; i++) {
-    riskScore +=
-      factorValues[i] * weights[i] * (1 + Math.sin(transactionIndex * 0.01));
-
-    // perform cross-correlation analysis for pattern detection
-    for (let j = i + 1; j < factorValues.length; j++) {
-      riskScore += factorValues[i] * factorValues[j] * 0.05;
-    }
-  }
-
-  return Math.abs(riskScore);
-};
-
-// generates realistic transaction descriptions by combining random actions and items
-const generateRandomDescription = (): string => {
-  return `${ACTIONS[Math.floor(Math.random() * ACTIONS.length)]} - ${
-    ITEMS[Math.floor(Math.random() * ITEMS.length)]
-  }`;
-};
-
 export type { GeneratorResponse, GeneratorRequest };
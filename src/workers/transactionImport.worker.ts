@@ -0,0 +1,50 @@
+/* Web Worker for parsing imported bank statements off the main thread
+ * inspects files for the column-mapping step and parses them into transactions */
+import {
+  ImportWorkerRequest,
+  ImportWorkerResponse,
+} from '../types/transactionImport';
+import { detectImportFormat, parseImport } from '../utils/importTransactions';
+import { inspectCsv } from '../utils/parseCsvTransactions';
+
+const post = (response: ImportWorkerResponse) => {
+  self.postMessage(response);
+};
+
+// main message handler for import requests (inspect, parse)
+self.addEventListener('message', (event: MessageEvent<ImportWorkerRequest>) => {
+  const { data } = event;
+
+  try {
+    // detect the format; CSV additionally needs a preview for column mapping
+    if (data.type === 'inspect') {
+      const format = detectImportFormat(data.fileName, data.text);
+      post({
+        type: 'inspected',
+        jobId: data.jobId,
+        format,
+        preview: format === 'csv' ? inspectCsv(data.text) : null,
+      });
+      return;
+    }
+
+    if (data.type === 'parse') {
+      post({
+        type: 'parsed',
+        jobId: data.jobId,
+        result: parseImport(
+          data.text,
+          data.format,
+          data.options,
+          data.importId
+        ),
+      });
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      jobId: data.jobId,
+      message: error instanceof Error ? error.message : 'Failed to read file',
+    });
+  }
+});